@@ -0,0 +1,109 @@
+import {Command, Flags} from '@oclif/core'
+import chalk from 'chalk'
+import path from 'node:path'
+
+import {readToml} from '../../utils/config-parser.js'
+import {ConfigIssue} from '../../utils/config-schema.js'
+import {lintConfig, lintContractsConfig} from '../../utils/config-validator.js'
+
+interface FileReport {
+  file: string
+  issues: ConfigIssue[]
+}
+
+interface ValidationReport {
+  errors: number
+  files: FileReport[]
+  valid: boolean
+  warnings: number
+}
+
+export default class ConfigValidate extends Command {
+  static override description = 'Validate config.toml and config-contracts.toml without connecting to the chain'
+
+  static override enableJsonFlag = true
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --config ./config.toml --contracts ./config-contracts.toml --strict',
+    '<%= config.bin %> <%= command.id %> --json',
+  ]
+
+  static override flags = {
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to config-contracts.toml file',
+    }),
+    strict: Flags.boolean({
+      default: false,
+      description: 'Treat warnings (e.g. unknown keys) as errors',
+    }),
+  }
+
+  public async run(): Promise<ValidationReport> {
+    const {flags} = await this.parse(ConfigValidate)
+
+    const configPath = path.resolve(flags.config)
+    const contractsPath = path.resolve(flags.contracts)
+
+    const configReport: FileReport = {file: configPath, issues: []}
+    const contractsReport: FileReport = {file: contractsPath, issues: []}
+
+    let config: Record<string, unknown> = {}
+    try {
+      config = readToml(configPath)
+      configReport.issues = lintConfig(config)
+    } catch (error) {
+      configReport.issues = [{key: '', message: this.describeError(error), severity: 'error'}]
+    }
+
+    try {
+      contractsReport.issues = lintContractsConfig(readToml(contractsPath), config)
+    } catch (error) {
+      contractsReport.issues = [{key: '', message: this.describeError(error), severity: 'error'}]
+    }
+
+    const files = [configReport, contractsReport]
+    const issues = files.flatMap((file) => file.issues)
+    const errors = issues.filter((issue) => issue.severity === 'error').length
+    const warnings = issues.length - errors
+    const valid = errors === 0 && (!flags.strict || warnings === 0)
+
+    for (const file of files) {
+      this.printFileReport(file)
+    }
+
+    const summary = `${errors} error(s), ${warnings} warning(s)`
+    this.log(valid ? chalk.green(`\nConfiguration is valid: ${summary}`) : chalk.red(`\nConfiguration is invalid: ${summary}`))
+
+    if (!valid) {
+      process.exitCode = 1
+    }
+
+    return {errors, files, valid, warnings}
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+  }
+
+  private printFileReport({file, issues}: FileReport): void {
+    this.log(chalk.cyan(`\n${file}`))
+
+    if (issues.length === 0) {
+      this.log(chalk.green('  No issues found'))
+      return
+    }
+
+    for (const {key, message, severity} of issues) {
+      const text = key ? `${key}: ${message}` : message
+      this.log(severity === 'error' ? chalk.red(`  ✖ ${text}`) : chalk.yellow(`  ⚠ ${text}`))
+    }
+  }
+}
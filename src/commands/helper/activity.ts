@@ -6,7 +6,9 @@ import {SingleBar} from 'cli-progress'
 import {ethers} from 'ethers'
 import path from 'node:path'
 
-import {parseTomlConfig} from '../../utils/config-parser.js'
+import {loadConfig, loadContractsConfig} from '../../utils/config-parser.js'
+import {ScrollSdkConfig} from '../../utils/config-schema.js'
+import {GasToken, formatL2Native, loadGasToken} from '../../utils/gas-token.js'
 // import { BlockExplorerParams } from '../../utils/onchain/constructBlockExplorerUrl.js';
 // import { txLink } from '../../utils/onchain/txLink.js'
 
@@ -24,6 +26,11 @@ export default class HelperActivity extends Command {
       default: './config.toml',
       description: 'Path to config.toml file',
     }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
     debug: Flags.boolean({
       char: 'd',
       default: false,
@@ -76,9 +83,9 @@ export default class HelperActivity extends Command {
     this.flags = flags // Assign parsed flags to the instance property
 
     const configPath = path.resolve(flags.config)
-    const config = parseTomlConfig(configPath)
+    const config = loadConfig(configPath)
 
-    const privateKey = flags.privateKey ?? config.accounts.DEPLOYER_PRIVATE_KEY
+    const privateKey = flags.privateKey ?? config.accounts?.DEPLOYER_PRIVATE_KEY
 
     if (!privateKey) {
       this.error('Missing required configuration. Please check your config file or provide flags.')
@@ -102,13 +109,13 @@ export default class HelperActivity extends Command {
     const wallets: Record<Layer, ethers.Wallet> = {} as Record<Layer, ethers.Wallet>
 
     for (const layer of layers) {
-      let rpcUrl: string
+      let rpcUrl: string | undefined
       if (layer === Layer.RPC && flags.rpc) {
         rpcUrl = flags.rpc
       } else if (flags.pod) {
-        rpcUrl = layer === Layer.L1 ? config.general.L1_RPC_ENDPOINT : config.general.L2_RPC_ENDPOINT
+        rpcUrl = layer === Layer.L1 ? config.general?.L1_RPC_ENDPOINT : config.general?.L2_RPC_ENDPOINT
       } else {
-        rpcUrl = layer === Layer.L1 ? config.frontend.EXTERNAL_RPC_URI_L1 : config.frontend.EXTERNAL_RPC_URI_L2
+        rpcUrl = layer === Layer.L1 ? config.frontend?.EXTERNAL_RPC_URI_L1 : config.frontend?.EXTERNAL_RPC_URI_L2
       }
 
       if (!rpcUrl) {
@@ -152,6 +159,8 @@ export default class HelperActivity extends Command {
       this.log(chalk.magenta(`Sender: ${publicKey} | Recipient: ${recipientAddr}`))
     }
 
+    await this.logBalances(config, layers, publicKey)
+
     await this.initializeNonceTrackers(wallets)
 
     layers.map(async (layer) => {
@@ -179,6 +188,26 @@ export default class HelperActivity extends Command {
     }
   }
 
+  // On alternative gas token chains the sender pays L2 fees in the gas token
+  private async logBalances(config: ScrollSdkConfig, layers: Layer[], address: string) {
+    let gasToken: GasToken | undefined
+    if (layers.includes(Layer.L2)) {
+      const l1RpcUrl = this.flags.pod ? config.general?.L1_RPC_ENDPOINT : config.frontend?.EXTERNAL_RPC_URI_L1
+      try {
+        gasToken = await loadGasToken(config, loadContractsConfig(path.resolve(this.flags.contracts)), l1RpcUrl)
+      } catch (error) {
+        this.warn(`${error instanceof Error ? error.message : error}; showing balances in ETH.`)
+      }
+    }
+
+    for (const layer of layers) {
+      const balance = await this.providers[layer].getBalance(address)
+      const formatted = layer === Layer.L2 ? formatL2Native(balance, gasToken) : `${ethers.formatEther(balance)} ETH`
+      this.log(chalk.magenta(`Sender balance on ${layer.toUpperCase()}: ${formatted}`))
+      if (balance === 0n) this.warn(`${address} has no funds on ${layer.toUpperCase()} to pay for transactions.`)
+    }
+  }
+
   private async replaceTransactions(wallet: ethers.Wallet, startNonce: number, endNonce: number, layer: Layer) {
     const batchSize = 100
     const currentGasPrice = await this.providers[layer].getFeeData()
@@ -0,0 +1,129 @@
+import { Args, Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { ethers } from 'ethers'
+import path from 'node:path'
+
+import { BridgeStage, BridgeStatusError, BridgeTrace, StageStatus, traceBridgeTx } from '../../utils/bridge-status.js'
+import { resolveBridgeEndpoints } from '../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { BlockExplorerParams, blockLink, txLink } from '../../utils/onchain/index.js'
+
+const STATUS_ICONS: Record<StageStatus, string> = {
+  done: chalk.green('✔'),
+  failed: chalk.red('✖'),
+  pending: chalk.yellow('…'),
+  unknown: chalk.dim('?'),
+}
+
+export default class HelperBridgeStatus extends Command {
+  static override args = {
+    txHash: Args.string({ description: 'Hash of an L1 deposit or L2 withdrawal transaction', required: true }),
+  }
+
+  static override description =
+    'Trace a deposit or withdrawal across the bridge: message queue, L2 execution, batch commit and finalization, and claim'
+
+  static enableJsonFlag = true
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 0x9c1a...',
+    '<%= config.bin %> <%= command.id %> 0x9c1a... --pod --json',
+  ]
+
+  static override flags = {
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs and bridge-history-api through their in-cluster endpoints',
+    }),
+  }
+
+  private blockExplorers: Record<'l1' | 'l2', BlockExplorerParams> = {
+    l1: { blockExplorerURI: '' },
+    l2: { blockExplorerURI: '' },
+  }
+
+  public async run(): Promise<BridgeTrace> {
+    const { args, flags } = await this.parse(HelperBridgeStatus)
+
+    if (!ethers.isHexString(args.txHash, 32)) {
+      this.error(chalk.red(`${args.txHash} is not a transaction hash.`))
+    }
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    const { bridgeApiUrl, l1RpcUrl, l2RpcUrl } = await resolveBridgeEndpoints(config, flags)
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    const l1Provider = new ethers.JsonRpcProvider(l1RpcUrl)
+    const l2Provider = new ethers.JsonRpcProvider(l2RpcUrl)
+    this.blockExplorers.l1 = { blockExplorerURI: config.frontend?.EXTERNAL_EXPLORER_URI_L1 ?? '', rpc: l1Provider }
+    this.blockExplorers.l2 = { blockExplorerURI: config.frontend?.EXTERNAL_EXPLORER_URI_L2 ?? '', rpc: l2Provider }
+
+    let trace: BridgeTrace
+    try {
+      trace = await traceBridgeTx(args.txHash, { bridgeApiUrl, contracts: contractsConfig, l1Provider, l2Provider })
+    } catch (error) {
+      if (error instanceof BridgeStatusError) this.error(chalk.red(error.message))
+      throw error
+    }
+
+    this.log(chalk.bold(`\n${trace.direction === 'deposit' ? 'Deposit' : 'Withdrawal'} ${trace.txHash}\n`))
+    for (const stage of trace.stages) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.logStage(stage)
+    }
+
+    const current = trace.stages.find(({ status }) => status !== 'done')
+    if (!current) {
+      this.log(chalk.green(`\nThe ${trace.direction} is complete.`))
+    } else if (current.status === 'failed') {
+      this.log(chalk.red(`\nThe ${trace.direction} failed at: ${current.title}.`))
+    } else {
+      this.log(chalk.yellow(`\nThe ${trace.direction} is waiting for: ${current.title}.`))
+    }
+
+    return trace
+  }
+
+  private async link(stage: BridgeStage, kind: 'block' | 'tx'): Promise<string> {
+    const params = this.blockExplorers[stage.layer]
+    try {
+      return kind === 'tx' ? await txLink(stage.txHash!, params) : await blockLink(stage.block!, params)
+    } catch {
+      // No explorer configured for this chain
+      return kind === 'tx' ? stage.txHash! : `${stage.block}`
+    }
+  }
+
+  private async logStage(stage: BridgeStage): Promise<void> {
+    const time = stage.timestamp ? chalk.dim(new Date(stage.timestamp * 1000).toISOString()) : ''
+    this.log(`${STATUS_ICONS[stage.status]} ${stage.title.padEnd(32)} ${time}`)
+
+    if (stage.txHash) this.log(`    ${stage.layer.toUpperCase()} tx: ${await this.link(stage, 'tx')}`)
+    if (stage.block !== undefined) this.log(`    ${stage.layer.toUpperCase()} block: ${await this.link(stage, 'block')}`)
+    if (stage.detail) this.log(chalk.dim(`    ${stage.detail}`))
+  }
+}
@@ -0,0 +1,271 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { Wallet, ethers } from 'ethers'
+import path from 'node:path'
+
+import {
+  BridgeAsset,
+  BridgeError,
+  DEPOSIT_GAS_LIMITS,
+  awaitDepositRelay,
+  deposit,
+  estimateDepositFee,
+  withdraw,
+} from '../../utils/bridge.js'
+import { resolveBridgeEndpoints } from '../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ContractsConfig, isEnabled } from '../../utils/config-schema.js'
+import { BlockExplorerParams, txLink } from '../../utils/onchain/index.js'
+import { PollError, formatDuration } from '../../utils/poll.js'
+
+const RELAY_TIMEOUT = 30 * 60 * 1000
+
+export default class HelperBridge extends Command {
+  static override description = 'Deposit ETH, an ERC20 or the alternative gas token to L2, or withdraw it to L1'
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --direction deposit --amount 0.1 --wait',
+    '<%= config.bin %> <%= command.id %> --direction withdraw --token 0x5300... --amount 25 --to 0x1234...',
+    '<%= config.bin %> <%= command.id %> --direction deposit --token gas-token --amount 100',
+  ]
+
+  static override flags = {
+    amount: Flags.string({
+      char: 'a',
+      description: 'Amount to bridge, in whole tokens (e.g. 0.1 ETH)',
+      required: true,
+    }),
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    direction: Flags.string({
+      char: 'd',
+      description: 'deposit from L1 to L2, or withdraw from L2 to L1',
+      options: ['deposit', 'withdraw'],
+      required: true,
+    }),
+    'gas-limit': Flags.integer({
+      description: 'L2 gas limit of the deposit message. Defaults to a limit that covers the asset',
+      min: 1,
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs through their in-cluster endpoints',
+    }),
+    'private-key': Flags.string({
+      char: 'k',
+      description: 'Private key of the sender. Defaults to DEPLOYER_PRIVATE_KEY',
+    }),
+    to: Flags.string({
+      description: 'Recipient on the other layer. Defaults to the sender',
+    }),
+    token: Flags.string({
+      char: 't',
+      default: 'eth',
+      description:
+        'eth, gas-token, or the address of an ERC20 on the sending layer (the L1 token for deposits, the L2 token for withdrawals)',
+    }),
+    wait: Flags.boolean({
+      char: 'w',
+      default: false,
+      description: 'Wait for the deposit to be relayed on L2',
+    }),
+  }
+
+  private blockExplorers: Record<'l1' | 'l2', BlockExplorerParams> = {
+    l1: { blockExplorerURI: '' },
+    l2: { blockExplorerURI: '' },
+  }
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(HelperBridge)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    const { l1RpcUrl, l2RpcUrl } = await resolveBridgeEndpoints(config, flags)
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    const privateKey = flags['private-key'] ?? config.accounts?.DEPLOYER_PRIVATE_KEY
+    if (!privateKey) {
+      this.error(chalk.red(`Pass --private-key, or set DEPLOYER_PRIVATE_KEY in the [accounts] section of ${configPath}.`))
+    }
+
+    if (flags.to && !ethers.isAddress(flags.to)) {
+      this.error(chalk.red(`--to ${flags.to} is not an address.`))
+    }
+
+    const isDeposit = flags.direction === 'deposit'
+    const providers = { l1: new ethers.JsonRpcProvider(l1RpcUrl), l2: new ethers.JsonRpcProvider(l2RpcUrl) }
+    const from = isDeposit ? 'l1' : 'l2'
+    const signer = new Wallet(privateKey, providers[from])
+    this.blockExplorers.l1 = { blockExplorerURI: config.frontend?.EXTERNAL_EXPLORER_URI_L1 ?? '', rpc: providers.l1 }
+    this.blockExplorers.l2 = { blockExplorerURI: config.frontend?.EXTERNAL_EXPLORER_URI_L2 ?? '', rpc: providers.l2 }
+
+    const asset = this.resolveAsset(
+      flags.token,
+      isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED),
+      contractsConfig,
+      isDeposit,
+    )
+    const { balance, decimals, symbol } = await this.assetDetails(asset, signer, contractsConfig, isDeposit)
+
+    let amount: bigint
+    try {
+      amount = ethers.parseUnits(flags.amount, decimals)
+    } catch {
+      this.error(chalk.red(`--amount ${flags.amount} is not an amount of ${symbol}.`))
+    }
+
+    const gasLimit = flags['gas-limit'] === undefined ? undefined : BigInt(flags['gas-limit'])
+    const fee = isDeposit ? await this.ethDepositFee(asset, gasLimit, providers.l1, contractsConfig) : undefined
+    this.checkBalance(signer, { balance, decimals, from, symbol }, amount, fee)
+
+    const to = flags.to ?? signer.address
+    this.log(
+      `${isDeposit ? 'Depositing' : 'Withdrawing'} ${flags.amount} ${symbol} from ${chalk.cyan(signer.address)} on ${from.toUpperCase()} to ${chalk.cyan(to)}`,
+    )
+
+    const request = {
+      amount,
+      asset,
+      fee,
+      gasLimit,
+      onSent: async (description: string, txHash: string) =>
+        this.log(`${description} sent: ${await txLink(txHash, this.blockExplorers[from])}`),
+      to,
+    }
+
+    try {
+      if (!isDeposit) {
+        const { l2Tx } = await withdraw(request, signer, contractsConfig)
+        this.log(chalk.green(`Withdrawal mined on L2.`))
+        this.log(`Once its batch is finalized, claim it on L1 with: ${this.config.bin} helper claim ${l2Tx}`)
+        return
+      }
+
+      const result = await deposit(request, signer, contractsConfig)
+      this.log(chalk.green(`Deposit mined on L1, paying ${ethers.formatEther(result.fee)} ETH for the L2 message.`))
+      this.log(`L2 relay transaction: ${await txLink(result.l2TxHash, this.blockExplorers.l2)}`)
+
+      if (flags.wait) {
+        this.log(`Waiting up to ${formatDuration(RELAY_TIMEOUT)} for the deposit to be relayed on L2...`)
+        const receipt = await awaitDepositRelay(result, providers.l2, { interval: 10_000, timeout: RELAY_TIMEOUT })
+        this.log(chalk.green(`Deposit relayed in L2 block ${receipt.blockNumber}.`))
+      }
+    } catch (error) {
+      if (error instanceof BridgeError || error instanceof PollError) this.error(chalk.red(error.message))
+      throw error
+    }
+  }
+
+  private async assetDetails(
+    asset: BridgeAsset,
+    signer: Wallet,
+    contracts: ContractsConfig,
+    isDeposit: boolean,
+  ): Promise<{ balance: bigint; decimals: number; symbol: string }> {
+    // The gas token is an ERC20 on L1 and the native token on L2
+    if (asset.kind === 'eth' || (asset.kind === 'gas-token' && !isDeposit)) {
+      return {
+        balance: await signer.provider!.getBalance(signer.address),
+        decimals: 18,
+        symbol: asset.kind === 'eth' ? 'ETH' : 'gas token',
+      }
+    }
+
+    const token = new ethers.Contract(
+      asset.kind === 'erc20' ? asset.token : contracts.L1_GAS_TOKEN_ADDR,
+      [
+        'function balanceOf(address account) view returns (uint256)',
+        'function decimals() view returns (uint8)',
+        'function symbol() view returns (string)',
+      ],
+      signer,
+    )
+    const [balance, decimals, symbol] = await Promise.all([
+      token.balanceOf(signer.address),
+      token.decimals(),
+      token.symbol(),
+    ])
+    return { balance, decimals: Number(decimals), symbol }
+  }
+
+  // Stops when the signer holds less than the amount, plus the L2 message fee an ETH deposit pays from the same balance
+  private checkBalance(
+    signer: Wallet,
+    { balance, decimals, from, symbol }: { balance: bigint; decimals: number; from: string; symbol: string },
+    amount: bigint,
+    fee?: bigint,
+  ): void {
+    if (amount + (fee ?? 0n) <= balance) return
+
+    const needed =
+      fee === undefined ? '' : `, short of ${ethers.formatEther(amount)} ETH plus the ${ethers.formatEther(fee)} ETH message fee`
+    this.error(
+      chalk.red(`${signer.address} holds ${ethers.formatUnits(balance, decimals)} ${symbol} on ${from.toUpperCase()}${needed}.`),
+    )
+  }
+
+  // The L2 message fee of an ETH deposit; deposits of tokens pay it from the ETH balance instead of the deposited one
+  private async ethDepositFee(
+    asset: BridgeAsset,
+    gasLimit: bigint | undefined,
+    l1: ethers.JsonRpcProvider,
+    contracts: ContractsConfig,
+  ): Promise<bigint | undefined> {
+    if (asset.kind !== 'eth') return
+
+    try {
+      return await estimateDepositFee(gasLimit ?? DEPOSIT_GAS_LIMITS.eth, l1, contracts)
+    } catch (error) {
+      if (error instanceof BridgeError) this.error(chalk.red(error.message))
+      throw error
+    }
+  }
+
+  private resolveAsset(
+    token: string,
+    altGasTokenEnabled: boolean,
+    contracts: ContractsConfig,
+    isDeposit: boolean,
+  ): BridgeAsset {
+    const gasToken = contracts.L1_GAS_TOKEN_ADDR?.toLowerCase()
+    if (token === 'gas-token' || (isDeposit && gasToken && token.toLowerCase() === gasToken)) {
+      if (!altGasTokenEnabled) this.error(chalk.red('The alternative gas token is not enabled in config.toml.'))
+      return { kind: 'gas-token' }
+    }
+
+    if (token === 'eth') {
+      if (altGasTokenEnabled) {
+        this.error(
+          chalk.red('ETH is not the native token in alternative gas token mode. Pass --token gas-token or a token address.'),
+        )
+      }
+
+      return { kind: 'eth' }
+    }
+
+    if (!ethers.isAddress(token)) this.error(chalk.red(`--token must be eth, gas-token or a token address (got ${token}).`))
+    return { kind: 'erc20', token }
+  }
+}
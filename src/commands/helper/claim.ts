@@ -0,0 +1,245 @@
+import { checkbox, confirm, select } from '@inquirer/prompts'
+import { Args, Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { Wallet, ethers } from 'ethers'
+import path from 'node:path'
+
+import { resolveBridgeEndpoints } from '../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ScrollSdkConfig } from '../../utils/config-schema.js'
+import { BlockExplorerParams, ClaimInfo, getWithdrawals, txLink } from '../../utils/onchain/index.js'
+import {
+  WithdrawalClaimError,
+  WithdrawalClaimSources,
+  claimWithdrawal,
+  findWithdrawalClaim,
+  isWithdrawalClaimed,
+} from '../../utils/withdrawal-claims.js'
+
+interface ClaimableWithdrawal {
+  claimInfo: ClaimInfo
+  l2TxHash: string
+}
+
+export default class HelperClaim extends Command {
+  static override args = {
+    target: Args.string({
+      description: 'L2 withdrawal transaction hash, or an address whose withdrawals to claim',
+      required: true,
+    }),
+  }
+
+  static override description =
+    'Claim finalized withdrawals on L1 by relaying their messages with proof, for withdrawals nobody has claimed'
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 0x9c1a...',
+    '<%= config.bin %> <%= command.id %> 0x1234... --all --private-key 0xabcd...',
+  ]
+
+  static override flags = {
+    all: Flags.boolean({
+      default: false,
+      description: 'Claim every claimable withdrawal of the address without asking which',
+    }),
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs and bridge-history-api through their in-cluster endpoints',
+    }),
+    'private-key': Flags.string({
+      char: 'k',
+      description: 'Private key paying for the claims on L1. Defaults to choosing one of the [accounts] keys',
+    }),
+    yes: Flags.boolean({
+      char: 'y',
+      default: false,
+      description: 'Claim without asking for confirmation, using DEPLOYER_PRIVATE_KEY unless --private-key is given',
+    }),
+  }
+
+  private blockExplorer: BlockExplorerParams = { blockExplorerURI: '' }
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(HelperClaim)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    const { bridgeApiUrl, l1RpcUrl, l2RpcUrl } = await resolveBridgeEndpoints(config, flags)
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    const l1Provider = new ethers.JsonRpcProvider(l1RpcUrl)
+    const sources: WithdrawalClaimSources = {
+      bridgeApiUrl,
+      contracts: contractsConfig,
+      l1Provider,
+      l2Provider: new ethers.JsonRpcProvider(l2RpcUrl),
+    }
+    this.blockExplorer = { blockExplorerURI: config.frontend?.EXTERNAL_EXPLORER_URI_L1 ?? '', rpc: l1Provider }
+
+    let withdrawals: ClaimableWithdrawal[]
+    if (ethers.isHexString(args.target, 32)) {
+      withdrawals = await this.findByTxHash(args.target, sources)
+    } else if (ethers.isAddress(args.target)) {
+      if (!bridgeApiUrl) {
+        this.error(
+          chalk.red(
+            `Missing BRIDGE_API_URI in ${configPath}, needed to list the withdrawals of an address. Pass the L2 transaction hash instead.`,
+          ),
+        )
+      }
+
+      withdrawals = await this.findByAddress(args.target, bridgeApiUrl, flags.all)
+    } else {
+      this.error(chalk.red(`${args.target} is neither an address nor a transaction hash.`))
+    }
+
+    if (withdrawals.length === 0) return
+
+    const signer = (await this.selectSigner(config, flags)).connect(l1Provider)
+    const balance = await l1Provider.getBalance(signer.address)
+    this.log(`\nClaiming from ${chalk.cyan(signer.address)}, holding ${ethers.formatEther(balance)} ETH on L1`)
+
+    if (!flags.yes) {
+      const proceed = await confirm({
+        message: `Claim ${withdrawals.length} withdrawal${withdrawals.length === 1 ? '' : 's'}?`,
+      })
+      if (!proceed) return
+    }
+
+    for (const withdrawal of withdrawals) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await this.claim(withdrawal, sources, signer)
+      } catch (error) {
+        this.log(chalk.red(`Could not claim ${withdrawal.l2TxHash}: ${error instanceof Error ? error.message : error}`))
+        process.exitCode = 1
+      }
+    }
+  }
+
+  private async claim(
+    { claimInfo, l2TxHash }: ClaimableWithdrawal,
+    sources: WithdrawalClaimSources,
+    signer: Wallet,
+  ): Promise<void> {
+    // bridge-history-api may not have indexed a recent claim yet
+    if (await isWithdrawalClaimed(claimInfo, sources.contracts, signer)) {
+      this.log(`${l2TxHash}: already claimed`)
+      return
+    }
+
+    const tx = await claimWithdrawal(claimInfo, sources.contracts, signer)
+    this.log(`${l2TxHash}: sent ${await txLink(tx.hash, this.blockExplorer)}`)
+    const receipt = await tx.wait()
+    this.log(chalk.green(`${l2TxHash}: claimed in L1 block ${receipt?.blockNumber}`))
+  }
+
+  private async findByAddress(address: string, bridgeApiUrl: string, all: boolean): Promise<ClaimableWithdrawal[]> {
+    const withdrawals = await getWithdrawals(address, bridgeApiUrl)
+    if (withdrawals.length === 0) {
+      this.log(`bridge-history-api has no withdrawals from ${address}.`)
+      return []
+    }
+
+    this.log(chalk.bold(`\nWithdrawals from ${address}\n`))
+    const claimable: ClaimableWithdrawal[] = []
+    for (const { claim_info: claimInfo, counterpart_chain_tx: l1Tx, hash } of withdrawals) {
+      if (l1Tx.hash) {
+        this.log(`${chalk.green('claimed')}    ${hash}`)
+      } else if (claimInfo?.claimable) {
+        this.log(`${chalk.yellow('claimable')}  ${hash}  batch ${claimInfo.proof.batch_index}`)
+        claimable.push({ claimInfo, l2TxHash: hash })
+      } else {
+        this.log(`${chalk.dim('pending')}    ${hash}`)
+      }
+    }
+
+    if (claimable.length === 0) {
+      this.log('\nNo withdrawals are waiting to be claimed.')
+      return []
+    }
+
+    if (all) return claimable
+
+    return checkbox({
+      choices: claimable.map((withdrawal) => ({
+        checked: true,
+        name: `${withdrawal.l2TxHash} (batch ${withdrawal.claimInfo.proof.batch_index})`,
+        value: withdrawal,
+      })),
+      message: 'Select the withdrawals to claim',
+    })
+  }
+
+  private async findByTxHash(l2TxHash: string, sources: WithdrawalClaimSources): Promise<ClaimableWithdrawal[]> {
+    let claim
+    try {
+      claim = await findWithdrawalClaim(l2TxHash, sources, (warning) => this.warn(`${warning}; proving from L2 messages`))
+    } catch (error) {
+      if (error instanceof WithdrawalClaimError) this.error(chalk.red(error.message))
+      throw error
+    }
+
+    if (claim.l1ClaimTx) {
+      this.log(`${l2TxHash} was already claimed: ${await txLink(claim.l1ClaimTx, this.blockExplorer)}`)
+      return []
+    }
+
+    if (!claim.claimInfo?.claimable) {
+      this.log(
+        `${l2TxHash} is not claimable yet; its batch must be finalized first. Run helper bridge-status to follow it.`,
+      )
+      return []
+    }
+
+    this.log(`Found the claim of ${l2TxHash} from ${claim.source}, against batch ${claim.claimInfo.proof.batch_index}`)
+    return [{ claimInfo: claim.claimInfo, l2TxHash }]
+  }
+
+  private async selectSigner(
+    config: ScrollSdkConfig,
+    flags: { 'private-key'?: string; yes: boolean },
+  ): Promise<Wallet> {
+    if (flags['private-key']) return new Wallet(flags['private-key'])
+
+    const keys = Object.entries(config.accounts ?? {}).filter(
+      (entry): entry is [string, string] => entry[0].endsWith('_PRIVATE_KEY') && Boolean(entry[1]),
+    )
+    const deployerKey = config.accounts?.DEPLOYER_PRIVATE_KEY
+    if (keys.length === 0 || (flags.yes && !deployerKey)) {
+      this.error(chalk.red('Pass --private-key, or set DEPLOYER_PRIVATE_KEY in the [accounts] section of config.toml.'))
+    }
+
+    if (flags.yes || keys.length === 1) return new Wallet(deployerKey ?? keys[0][1])
+
+    const privateKey = await select({
+      choices: keys.map(([name, key]) => ({ name: `${name.replace(/_PRIVATE_KEY$/, '')} (${new Wallet(key).address})`, value: key })),
+      default: deployerKey,
+      message: 'Which account should pay for the claims on L1?',
+    })
+    return new Wallet(privateKey)
+  }
+}
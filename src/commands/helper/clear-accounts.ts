@@ -3,8 +3,10 @@ import { ethers } from 'ethers'
 import chalk from 'chalk'
 import cliProgress from 'cli-progress'
 import { confirm, select } from '@inquirer/prompts'
+import fs from 'node:fs'
 import path from 'node:path'
-import { parseTomlConfig } from '../../utils/config-parser.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { GasToken, formatL2Native, loadGasToken } from '../../utils/gas-token.js'
 
 export default class HelperClearAccounts extends Command {
   static description = 'Clear pending transactions and optionally transfer remaining funds on Layer 2'
@@ -16,29 +18,30 @@ export default class HelperClearAccounts extends Command {
     recipient: Flags.string({ char: 'x', description: 'Recipient address for remaining funds' }),
     rpc: Flags.string({ char: 'r', description: 'Layer 2 RPC URL' }),
     config: Flags.string({ char: 'c', description: 'Path to config.toml file', default: './config.toml' }),
+    contracts: Flags.string({ char: 'n', description: 'Path to configs-contracts.toml file', default: './config-contracts.toml' }),
     pod: Flags.boolean({ char: 'p', description: 'Run in pod mode', default: false }),
     debug: Flags.boolean({ char: 'd', description: 'Run in debug mode', default: false }),
   }
 
   private provider!: ethers.JsonRpcProvider;
   private debugMode: boolean = false;
+  private gasToken?: GasToken;
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(HelperClearAccounts)
     this.debugMode = flags.debug;
 
-    let rpcUrl: string;
+    // config.toml is optional with --rpc, but still tells whether balances are in an alternative gas token
+    const configPath = path.resolve(flags.config)
+    const config = flags.rpc && !fs.existsSync(configPath) ? undefined : loadConfig(configPath)
+
+    let rpcUrl: string | undefined;
     if (flags.rpc) {
       rpcUrl = flags.rpc;
+    } else if (flags.pod) {
+      rpcUrl = config?.general?.L2_RPC_ENDPOINT;
     } else {
-      const configPath = path.resolve(flags.config)
-      const config = parseTomlConfig(configPath)
-
-      if (flags.pod) {
-        rpcUrl = config.general.L2_RPC_ENDPOINT;
-      } else {
-        rpcUrl = config.frontend.EXTERNAL_RPC_URI_L2;
-      }
+      rpcUrl = config?.frontend?.EXTERNAL_RPC_URI_L2;
     }
 
     if (!rpcUrl) {
@@ -47,6 +50,17 @@ export default class HelperClearAccounts extends Command {
 
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
 
+    if (config) {
+      const contractsPath = path.resolve(flags.contracts)
+      const contracts = fs.existsSync(contractsPath) ? loadContractsConfig(contractsPath) : {}
+      const l1RpcUrl = flags.pod ? config.general?.L1_RPC_ENDPOINT : config.frontend?.EXTERNAL_RPC_URI_L1
+      try {
+        this.gasToken = await loadGasToken(config, contracts, l1RpcUrl)
+      } catch (error) {
+        this.warn(`${error instanceof Error ? error.message : error}; showing balances in ETH.`)
+      }
+    }
+
     if (flags.privateKey) {
       await this.clearAccount(flags.privateKey, flags.recipient);
     } else if (flags.mnemonic) {
@@ -217,13 +231,15 @@ export default class HelperClearAccounts extends Command {
       return;
     }
 
+    this.log(chalk.cyan(`Remaining balance: ${formatL2Native(balance, this.gasToken)}`));
+
     const gasPrice = await this.provider.getFeeData();
     const gasLimit = 21000n;
     const gasCost = gasLimit * (gasPrice.maxFeePerGas || 0n);
     const amountToSend = balance - gasCost;
 
     if (amountToSend <= 0n) {
-      this.log(chalk.yellow('Remaining balance too low to cover gas costs for transfer.'));
+      this.log(chalk.yellow(`Remaining balance too low to cover gas costs for transfer (${formatL2Native(gasCost, this.gasToken)}).`));
       return;
     }
 
@@ -235,7 +251,7 @@ export default class HelperClearAccounts extends Command {
       });
 
       const receipt = await tx.wait();
-      this.log(chalk.green(`Transferred ${ethers.formatEther(amountToSend)} ETH to ${recipient}`));
+      this.log(chalk.green(`Transferred ${formatL2Native(amountToSend, this.gasToken)} to ${recipient}`));
       this.log(chalk.green(`Transaction hash: ${receipt?.hash}`));
     } catch (error) {
       this.log(chalk.red(`Failed to transfer remaining funds: ${error instanceof Error ? error.message : 'Unknown error'}`));
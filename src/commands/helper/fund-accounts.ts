@@ -1,11 +1,13 @@
 import {confirm, input, select} from '@inquirer/prompts'
-import {Command, Flags} from '@oclif/core'
+import {Command, Flags, Interfaces} from '@oclif/core'
 import chalk from 'chalk'
 import {Contract, ethers} from 'ethers'
 import path from 'node:path'
 import {toString as qrCodeToString} from 'qrcode'
 
-import {parseTomlConfig} from '../../utils/config-parser.js'
+import {deposit} from '../../utils/bridge.js'
+import {loadConfig, loadContractsConfig} from '../../utils/config-parser.js'
+import {ContractsConfig, ScrollSdkConfig, isEnabled} from '../../utils/config-schema.js'
 import {addressLink, txLink} from '../../utils/onchain/index.js'
 
 enum Layer {
@@ -13,6 +15,8 @@ enum Layer {
   L2 = 'l2',
 }
 
+type FundAccountsFlags = Interfaces.InferredFlags<typeof HelperFundAccounts.flags>
+
 export default class HelperFundAccounts extends Command {
   static description = 'Fund L1 and L2 accounts for contracts'
 
@@ -84,6 +88,7 @@ export default class HelperFundAccounts extends Command {
     [Layer.L2]: {blockExplorerURI: ''},
   }
 
+  private contractsConfig: ContractsConfig = {}
   private fundingWallet!: ethers.Wallet
   private l1ETHGateway!: string
 
@@ -98,17 +103,17 @@ export default class HelperFundAccounts extends Command {
     const {flags} = await this.parse(HelperFundAccounts)
 
     const configPath = path.resolve(flags.config)
-    const config = parseTomlConfig(configPath)
+    const config = loadConfig(configPath)
 
-    let l1RpcUrl: string
-    let l2RpcUrl: string
+    let l1RpcUrl: string | undefined
+    let l2RpcUrl: string | undefined
 
     if (flags.pod) {
       l1RpcUrl = config?.general?.L1_RPC_ENDPOINT
       l2RpcUrl = config?.general?.L2_RPC_ENDPOINT
     } else {
-      l1RpcUrl = flags.l1rpc ?? config.frontend.EXTERNAL_RPC_URI_L1
-      l2RpcUrl = flags.l2rpc ?? config.frontend.EXTERNAL_RPC_URI_L2
+      l1RpcUrl = flags.l1rpc ?? config.frontend?.EXTERNAL_RPC_URI_L1
+      l2RpcUrl = flags.l2rpc ?? config.frontend?.EXTERNAL_RPC_URI_L2
     }
 
     if (!l1RpcUrl || !l2RpcUrl) {
@@ -122,22 +127,21 @@ export default class HelperFundAccounts extends Command {
     this.l1Provider = new ethers.JsonRpcProvider(l1RpcUrl)
     this.l2Provider = new ethers.JsonRpcProvider(l2RpcUrl)
 
-    this.blockExplorers.l1.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L1
-    this.blockExplorers.l2.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L2
+    this.blockExplorers.l1.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L1 ?? ''
+    this.blockExplorers.l2.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L2 ?? ''
 
     // Parse config-contracts.toml
     const contractsConfigPath = path.resolve(flags.contracts)
-    const contractsConfig = parseTomlConfig(contractsConfigPath)
+    const contractsConfig = loadContractsConfig(contractsConfigPath)
+    this.contractsConfig = contractsConfig
     this.l1ETHGateway = contractsConfig.L1_ETH_GATEWAY_PROXY_ADDR
 
-    if (flags['private-key']) {
-      this.fundingWallet = new ethers.Wallet(flags['private-key'], this.l1Provider)
-    } else if (!flags.manual) {
-      this.fundingWallet = new ethers.Wallet(config.accounts.DEPLOYER_PRIVATE_KEY, this.l1Provider)
+    if (flags['private-key'] || !flags.manual) {
+      this.fundingWallet = this.createFundingWallet(flags['private-key'] ?? config.accounts?.DEPLOYER_PRIVATE_KEY)
     }
 
     // Check for alternative gas token
-    this.altGasTokenEnabled = config?.['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED === true
+    this.altGasTokenEnabled = isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)
 
     if (this.altGasTokenEnabled) {
       this.log(chalk.yellow('Alternative Gas Token mode is enabled.'))
@@ -160,32 +164,9 @@ export default class HelperFundAccounts extends Command {
       }
     }
 
-    if (flags['fund-deployer']) {
-      await this.fundDeployer(config.accounts.DEPLOYER_ADDR, flags)
-    } else {
-      const l1Addresses: Record<string, string> = {
-        L1_COMMIT_SENDER: config.accounts.L1_COMMIT_SENDER_ADDR,
-        L1_FINALIZE_SENDER: config.accounts.L1_FINALIZE_SENDER_ADDR,
-        L1_GAS_ORACLE_SENDER: config.accounts.L1_GAS_ORACLE_SENDER_ADDR,
-      }
-
-      const l2Addresses: Record<string, string> = {
-        L2_GAS_ORACLE_SENDER: config.accounts.L2_GAS_ORACLE_SENDER_ADDR,
-      }
-
-      if (flags.account) {
-        l1Addresses.ADDITIONAL_ACCOUNT = flags.account
-        l2Addresses.ADDITIONAL_ACCOUNT = flags.account
-      }
-
-      if (!flags.layer || flags.layer === '1') {
-        await this.fundL1Addresses(l1Addresses, flags)
-      }
-
-      if (!flags.layer || flags.layer === '2') {
-        await this.fundL2Addresses(l2Addresses, flags)
-      }
-    }
+    await (flags['fund-deployer']
+      ? this.fundDeployer(config.accounts?.DEPLOYER_ADDR, flags)
+      : this.fundSenderAccounts(config, flags))
 
     this.log(chalk.green('Funding complete'))
   }
@@ -194,33 +175,19 @@ export default class HelperFundAccounts extends Command {
     try {
       this.log(chalk.cyan(`Bridging alternative gas token from L1 to L2 for recipient: ${recipient}`))
 
-      const tokenAmount = ethers.parseUnits(amount.toString(), this.altGasTokenDecimals)
-
-      // Approve the L1 Gas Token Gateway to spend tokens
-      const approveTx = await this.altGasTokenContract.approve(this.l1GasTokenGateway, tokenAmount)
-      await approveTx.wait()
-
-      this.log(chalk.green(`Approved ${amount} ${this.altGasTokenSymbol} for L1 Gas Token Gateway`))
-
-      // Create L1 Gas Token Gateway contract instance with signer
-      const l1GasTokenGateway = new ethers.Contract(
-        this.l1GasTokenGateway,
-        ['function depositETH(address _to, uint256 _amount, uint256 _gasLimit) payable'],
+      const {fee, l2TxHash} = await deposit(
+        {
+          amount: ethers.parseUnits(amount.toString(), this.altGasTokenDecimals),
+          asset: {kind: 'gas-token'},
+          onSent: (description, txHash) => this.logTx(txHash, `${description} transaction sent`, Layer.L1),
+          to: recipient,
+        },
         this.fundingWallet,
+        this.contractsConfig,
       )
 
-      const gasLimit = BigInt(300_000) // Adjust as needed
-      const depositTx = await l1GasTokenGateway.depositETH(
-        recipient,
-        tokenAmount,
-        gasLimit,
-        {value: ethers.parseEther('0.01')}, // Small amount of ETH for L2 gas
-      )
-
-      await this.logTx(depositTx.hash, 'Bridge transaction sent', Layer.L1)
-
-      const receipt = await depositTx.wait()
-      this.log(chalk.green(`Transaction mined in block: ${receipt.blockNumber}`))
+      this.log(chalk.green(`Deposited ${amount} ${this.altGasTokenSymbol}, paying ${ethers.formatEther(fee)} ETH for the L2 message`))
+      await this.logTx(l2TxHash, 'L2 relay transaction', Layer.L2)
 
       this.log(
         chalk.yellow(
@@ -240,36 +207,25 @@ export default class HelperFundAccounts extends Command {
     try {
       this.log(chalk.cyan(`Bridging funds from L1 to L2 for recipient: ${recipient}`))
 
-      if (!this.fundingWallet.provider) {
-        throw new Error('Funding wallet provider is not initialized')
-      }
-
-      const initialFunderBalance = await this.fundingWallet.provider.getBalance(this.fundingWallet.address)
-
-      const gasLimit = BigInt(170_000)
-      const value = ethers.parseEther((amount + 0.001).toString())
+      const initialFunderBalance = await this.l1Provider.getBalance(this.fundingWallet.address)
 
-      console.log(this.l1ETHGateway)
+      await this.logAddress(this.l1ETHGateway, `Depositing ${amount} ETH through`, Layer.L1)
 
-      const l1ETHGateway = new ethers.Contract(
-        this.l1ETHGateway,
-        ['function depositETH(address _to, uint256 _amount, uint256 _gasLimit) payable'],
+      const {fee, l2TxHash} = await deposit(
+        {
+          amount: ethers.parseEther(amount.toString()),
+          asset: {kind: 'eth'},
+          onSent: (description, txHash) => this.logTx(txHash, `${description} transaction sent`, Layer.L1),
+          to: recipient,
+        },
         this.fundingWallet,
+        this.contractsConfig,
       )
 
-      await this.logAddress(
-        this.l1ETHGateway,
-        `Depositing ${amount} ETH by sending ${ethers.formatEther(value)} to`,
-        Layer.L1,
-      )
-
-      const tx = await l1ETHGateway.depositETH(recipient, ethers.parseEther(amount.toString()), gasLimit, {value})
-      await this.logTx(tx.hash, 'Bridge transaction sent', Layer.L1)
-
-      const receipt = await tx.wait()
-      this.log(chalk.green(`Transaction mined in block: ${receipt.blockNumber}`))
+      this.log(chalk.green(`Deposited ${amount} ETH, paying ${ethers.formatEther(fee)} ETH for the L2 message`))
+      await this.logTx(l2TxHash, 'L2 relay transaction', Layer.L2)
 
-      const finalFunderBalance = await this.fundingWallet.provider.getBalance(this.fundingWallet.address)
+      const finalFunderBalance = await this.l1Provider.getBalance(this.fundingWallet.address)
 
       this.log(chalk.cyan(`Funding wallet balance (L1):`))
       this.log(chalk.yellow(`  Before: ${ethers.formatEther(initialFunderBalance)} ETH`))
@@ -283,6 +239,14 @@ export default class HelperFundAccounts extends Command {
     }
   }
 
+  private createFundingWallet(privateKey: string | undefined): ethers.Wallet {
+    if (!privateKey) {
+      this.error('Missing DEPLOYER_PRIVATE_KEY in the [accounts] section of config.toml. Use --private-key or --manual instead.')
+    }
+
+    return new ethers.Wallet(privateKey, this.l1Provider)
+  }
+
   private async fundAddressAnvil(provider: ethers.JsonRpcProvider, address: string, amount: number, layer: Layer) {
     try {
       const result = await provider.send('anvil_setBalance', [address, ethers.parseEther(amount.toString()).toString()])
@@ -334,7 +298,11 @@ export default class HelperFundAccounts extends Command {
     }
   }
 
-  private async fundDeployer(deployerAddress: string, flags: any): Promise<void> {
+  private async fundDeployer(deployerAddress: string | undefined, flags: FundAccountsFlags): Promise<void> {
+    if (!deployerAddress) {
+      this.error('Missing DEPLOYER_ADDR in the [accounts] section of config.toml.')
+    }
+
     this.log(chalk.cyan('\nFunding Deployer Address:'))
     await (flags.dev
       ? this.fundAddressAnvil(this.l1Provider, deployerAddress, 100, Layer.L1)
@@ -379,7 +347,7 @@ export default class HelperFundAccounts extends Command {
     }
   }
 
-  private async fundL1Addresses(addresses: Record<string, string>, flags: any): Promise<void> {
+  private async fundL1Addresses(addresses: Record<string, string | undefined>, flags: FundAccountsFlags): Promise<void> {
     this.log(chalk.cyan('\nFunding L1 Addresses:'))
     for (const [contractName, address] of Object.entries(addresses)) {
       if (!address) {
@@ -402,7 +370,7 @@ export default class HelperFundAccounts extends Command {
     }
   }
 
-  private async fundL2Addresses(addresses: Record<string, string>, flags: any): Promise<void> {
+  private async fundL2Addresses(addresses: Record<string, string | undefined>, flags: FundAccountsFlags): Promise<void> {
     this.log(chalk.cyan('\nFunding L2 Addresses:'))
     for (const [contractName, address] of Object.entries(addresses)) {
       if (!address) {
@@ -430,6 +398,31 @@ export default class HelperFundAccounts extends Command {
     }
   }
 
+  private async fundSenderAccounts(config: ScrollSdkConfig, flags: FundAccountsFlags): Promise<void> {
+    const l1Addresses: Record<string, string | undefined> = {
+      L1_COMMIT_SENDER: config.accounts?.L1_COMMIT_SENDER_ADDR,
+      L1_FINALIZE_SENDER: config.accounts?.L1_FINALIZE_SENDER_ADDR,
+      L1_GAS_ORACLE_SENDER: config.accounts?.L1_GAS_ORACLE_SENDER_ADDR,
+    }
+
+    const l2Addresses: Record<string, string | undefined> = {
+      L2_GAS_ORACLE_SENDER: config.accounts?.L2_GAS_ORACLE_SENDER_ADDR,
+    }
+
+    if (flags.account) {
+      l1Addresses.ADDITIONAL_ACCOUNT = flags.account
+      l2Addresses.ADDITIONAL_ACCOUNT = flags.account
+    }
+
+    if (!flags.layer || flags.layer === '1') {
+      await this.fundL1Addresses(l1Addresses, flags)
+    }
+
+    if (!flags.layer || flags.layer === '2') {
+      await this.fundL2Addresses(l2Addresses, flags)
+    }
+  }
+
   private async initializeAltGasToken(): Promise<void> {
     const erc20ABI = [
       'function balanceOf(address account) view returns (uint256)',
@@ -0,0 +1,189 @@
+import { confirm } from '@inquirer/prompts'
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { ethers } from 'ethers'
+import path from 'node:path'
+
+import { resolveBridgeEndpoints } from '../../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../../utils/config-parser.js'
+import { GasTokenConfig } from '../../../utils/config-schema.js'
+import {
+  EXCHANGE_RATE_MODES,
+  GasToken,
+  GasTokenError,
+  L1_GAS_PRICE_ORACLE_ADDR,
+  formatExchangeRate,
+  formatL2Native,
+  l1FeeParamsAtRate,
+  loadGasToken,
+  parseExchangeRate,
+  readL1FeeParams,
+  readL1Fees,
+  resolveExchangeRate,
+  simulateFees,
+} from '../../../utils/gas-token.js'
+import { TomlDocument } from '../../../utils/toml-editor.js'
+
+type RateSettings = Pick<
+  GasTokenConfig,
+  | 'EXCHANGE_RATE_UPDATE_MODE'
+  | 'FIXED_EXCHANGE_RATE'
+  | 'GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED'
+  | 'TOKEN_SYMBOL_PAIR'
+>
+
+export default class HelperGasTokenSetRate extends Command {
+  static override description =
+    'Update the gas token exchange rate settings of the gas-oracle in config.toml, after simulating the fees they result in'
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --mode Fixed --rate 0.0004',
+    '<%= config.bin %> <%= command.id %> --mode BinanceApi --pair UNIETH',
+    '<%= config.bin %> <%= command.id %> --no-incorporate --yes',
+  ]
+
+  static override flags = {
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    incorporate: Flags.boolean({
+      allowNo: true,
+      description: 'Whether the gas-oracle converts L1 fees to the gas token at the exchange rate',
+    }),
+    mode: Flags.string({
+      char: 'm',
+      description: 'How the gas-oracle gets the exchange rate: a fixed rate, or the price of a Binance pair',
+      options: EXCHANGE_RATE_MODES,
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pair: Flags.string({
+      description: 'Binance symbol pair pricing the gas token in ETH (e.g. UNIETH), for the BinanceApi mode',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs through their in-cluster endpoints',
+    }),
+    rate: Flags.string({
+      char: 'r',
+      description: 'Price of one gas token in ETH (e.g. 0.0004), for the Fixed mode',
+    }),
+    yes: Flags.boolean({
+      char: 'y',
+      default: false,
+      description: 'Update config.toml without asking for confirmation',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(HelperGasTokenSetRate)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    const changes: RateSettings = {}
+    if (flags.incorporate !== undefined) changes.GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED = flags.incorporate
+    if (flags.mode) changes.EXCHANGE_RATE_UPDATE_MODE = flags.mode
+    if (flags.pair) changes.TOKEN_SYMBOL_PAIR = flags.pair.toUpperCase()
+    if (flags.rate) {
+      try {
+        parseExchangeRate(flags.rate)
+      } catch (error) {
+        if (error instanceof GasTokenError) this.error(chalk.red(`--rate: ${error.message}`))
+        throw error
+      }
+
+      changes.FIXED_EXCHANGE_RATE = flags.rate.trim()
+    }
+
+    if (Object.keys(changes).length === 0) {
+      this.error(chalk.red('Nothing to change. Pass --mode, --rate, --pair or --[no-]incorporate.'))
+    }
+
+    const { l1RpcUrl, l2RpcUrl } = await resolveBridgeEndpoints(config, flags)
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    const current = config['gas-token'] ?? {}
+    let gasToken: GasToken | undefined
+    let rate: bigint
+    try {
+      gasToken = await loadGasToken(config, contractsConfig, l1RpcUrl)
+      rate = await resolveExchangeRate({ ...current, ...changes })
+    } catch (error) {
+      if (error instanceof GasTokenError) this.error(chalk.red(error.message))
+      throw error
+    }
+
+    if (!gasToken) this.error(chalk.red(`The alternative gas token is not enabled in ${configPath}; fees are paid in ETH.`))
+
+    this.log(chalk.cyan('The following changes will be made to the [gas-token] section in config.toml:'))
+    for (const [key, value] of Object.entries(changes)) {
+      const previous = current[key as keyof RateSettings]
+      this.log(`${key} = ${previous === undefined ? chalk.dim('not set') : String(previous)} → ${chalk.green(String(value))}`)
+    }
+
+    this.log(`\nThe gas-oracle will price 1 ${gasToken.symbol} at ${chalk.green(formatExchangeRate(rate))} ETH.`)
+    await this.logSimulation(gasToken, rate, {
+      l1RpcUrl,
+      l2RpcUrl,
+      oracle: contractsConfig.L1_GAS_PRICE_ORACLE_ADDR ?? L1_GAS_PRICE_ORACLE_ADDR,
+    })
+
+    if (!flags.yes) {
+      const proceed = await confirm({ default: false, message: `Update ${configPath}?` })
+      if (!proceed) {
+        this.log('config.toml was not changed.')
+        return
+      }
+    }
+
+    TomlDocument.load(configPath).setAll('gas-token', changes as Record<string, boolean | string>).save()
+    this.log(chalk.green('config.toml has been updated with the new exchange rate settings.'))
+    this.log(
+      `Run ${chalk.cyan(`${this.config.bin} setup configs`)} to regenerate gas-oracle-config.yaml, then upgrade the gas-oracle release to apply them.`,
+    )
+  }
+
+  // Compares the fees users pay now with those at the new rate, once the gas-oracle has posted the converted L1 fees
+  private async logSimulation(
+    gasToken: GasToken,
+    rate: bigint,
+    { l1RpcUrl, l2RpcUrl, oracle }: { l1RpcUrl: string; l2RpcUrl: string; oracle: string },
+  ): Promise<void> {
+    const l2 = new ethers.JsonRpcProvider(l2RpcUrl)
+    const [l1Fees, params, { gasPrice }] = await Promise.all([
+      readL1Fees(l1RpcUrl),
+      readL1FeeParams(l2, oracle),
+      l2.getFeeData(),
+    ])
+
+    const now = simulateFees(params, gasPrice ?? 0n)
+    const next = simulateFees(l1FeeParamsAtRate(l1Fees, params, rate), gasPrice ?? 0n)
+
+    this.log(chalk.cyan(`\nSimulated fees at the current L1 base fee of ${ethers.formatUnits(l1Fees.baseFee, 'gwei')} gwei:`))
+    this.log(chalk.dim(`${'Transaction'.padEnd(28)} ${'Now'.padEnd(24)} ${'At the new rate'.padEnd(24)} Change`))
+    for (const [i, { name, total }] of now.entries()) {
+      const change = total > 0n ? `${(Number(((next[i].total - total) * 10_000n) / total) / 100).toFixed(2)}%` : 'n/a'
+      this.log(
+        `${name.padEnd(28)} ${formatL2Native(total, gasToken).padEnd(24)} ${formatL2Native(next[i].total, gasToken).padEnd(24)} ${change}`,
+      )
+    }
+  }
+}
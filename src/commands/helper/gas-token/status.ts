@@ -0,0 +1,138 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { ethers } from 'ethers'
+import path from 'node:path'
+
+import { resolveBridgeEndpoints } from '../../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../../utils/config-parser.js'
+import { GasTokenConfig, isEnabled } from '../../../utils/config-schema.js'
+import {
+  FeeEstimate,
+  GasToken,
+  GasTokenError,
+  L1_GAS_PRICE_ORACLE_ADDR,
+  formatExchangeRate,
+  formatL2Native,
+  loadGasToken,
+  readL1FeeParams,
+  readL1Fees,
+  resolveExchangeRate,
+  simulateFees,
+} from '../../../utils/gas-token.js'
+
+export default class HelperGasTokenStatus extends Command {
+  static override description =
+    'Show the gas token exchange rate used by the gas-oracle, the L1 data fee it results in, and the fees of typical transactions'
+
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --pod']
+
+  static override flags = {
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs through their in-cluster endpoints',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(HelperGasTokenStatus)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    const { l1RpcUrl, l2RpcUrl } = await resolveBridgeEndpoints(config, flags)
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    let gasToken: GasToken | undefined
+    try {
+      gasToken = await loadGasToken(config, contractsConfig, l1RpcUrl)
+    } catch (error) {
+      if (error instanceof GasTokenError) this.error(chalk.red(error.message))
+      throw error
+    }
+
+    if (!gasToken) this.error(chalk.red(`The alternative gas token is not enabled in ${configPath}; fees are paid in ETH.`))
+
+    this.log(chalk.cyan(`Gas token: ${gasToken.symbol} (${gasToken.address} on L1, ${gasToken.decimals} decimals)`))
+    const settings = config['gas-token'] ?? {}
+    this.logSettings(settings)
+
+    let configuredRate: bigint | undefined
+    try {
+      configuredRate = await resolveExchangeRate(settings)
+      this.log(`Configured rate:  1 ${gasToken.symbol} = ${formatExchangeRate(configuredRate)} ETH`)
+    } catch (error) {
+      if (!(error instanceof GasTokenError)) throw error
+      this.warn(error.message)
+    }
+
+    const l2 = new ethers.JsonRpcProvider(l2RpcUrl)
+    const [l1Fees, params, { gasPrice }] = await Promise.all([
+      readL1Fees(l1RpcUrl),
+      readL1FeeParams(l2, contractsConfig.L1_GAS_PRICE_ORACLE_ADDR ?? L1_GAS_PRICE_ORACLE_ADDR),
+      l2.getFeeData(),
+    ])
+
+    this.log(chalk.cyan('\nL1 fees'))
+    this.log(`Base fee:       ${ethers.formatUnits(l1Fees.baseFee, 'gwei')} gwei (ETH) on L1, ${this.gwei(params.l1BaseFee, gasToken)} on L2`)
+    this.log(
+      `Blob base fee:  ${ethers.formatUnits(l1Fees.blobBaseFee, 'gwei')} gwei (ETH) on L1, ${this.gwei(params.l1BlobBaseFee, gasToken)} on L2`,
+    )
+    this.log(`Scalars:        commit ${params.commitScalar}, blob ${params.blobScalar}`)
+
+    // The L2 values lag L1 by the update thresholds of the gas-oracle, so this is only close to the configured rate
+    const effectiveRate = params.l1BaseFee > 0n ? (l1Fees.baseFee * 10n ** 18n) / params.l1BaseFee : undefined
+    if (effectiveRate !== undefined) {
+      this.log(`Effective rate: 1 ${gasToken.symbol} ≈ ${formatExchangeRate(effectiveRate)} ETH, from the L1 base fee on L2`)
+    }
+
+    this.log(chalk.cyan(`\nFees of typical transactions at an L2 gas price of ${this.gwei(gasPrice ?? 0n, gasToken)}`))
+    this.logFees(simulateFees(params, gasPrice ?? 0n), gasToken, configuredRate ?? effectiveRate)
+  }
+
+  private gwei(amount: bigint, gasToken: GasToken): string {
+    return `${ethers.formatUnits(amount, 'gwei')} gwei (${gasToken.symbol})`
+  }
+
+  private logFees(estimates: FeeEstimate[], gasToken: GasToken, rate?: bigint): void {
+    this.log(chalk.dim(`${'Transaction'.padEnd(28)} ${'L2 execution'.padEnd(24)} ${'L1 data fee'.padEnd(24)} Total`))
+    for (const { l1DataFee, l2Fee, name, total } of estimates) {
+      const inEth = rate === undefined ? '' : chalk.dim(` (≈ ${ethers.formatEther((total * rate) / 10n ** 18n)} ETH)`)
+      this.log(
+        `${name.padEnd(28)} ${formatL2Native(l2Fee, gasToken).padEnd(24)} ${formatL2Native(l1DataFee, gasToken).padEnd(24)} ${formatL2Native(total, gasToken)}${inEth}`,
+      )
+    }
+  }
+
+  private logSettings(settings: GasTokenConfig): void {
+    const incorporated = isEnabled(settings.GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED)
+    this.log(`Exchange rate:    ${incorporated ? 'incorporated by the gas-oracle' : chalk.yellow('not incorporated; L1 fees are posted in ETH')}`)
+    this.log(`Update mode:      ${settings.EXCHANGE_RATE_UPDATE_MODE ?? chalk.dim('not set')}`)
+    if (settings.EXCHANGE_RATE_UPDATE_MODE === 'BinanceApi') {
+      this.log(`Binance pair:     ${settings.TOKEN_SYMBOL_PAIR ?? chalk.dim('not set')}`)
+    } else {
+      this.log(`Fixed rate:       ${settings.FIXED_EXCHANGE_RATE ?? chalk.dim('not set')}`)
+    }
+  }
+}
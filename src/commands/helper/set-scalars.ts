@@ -1,11 +1,12 @@
 import { Args, Command, Flags } from '@oclif/core'
-import * as fs from 'fs'
-import * as toml from 'toml'
 import { input, confirm } from '@inquirer/prompts'
 import { ethers } from 'ethers'
 import path from 'node:path'
-import { parseTomlConfig } from '../../utils/config-parser.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ContractsConfig } from '../../utils/config-schema.js'
 import chalk from 'chalk'
+import { awaitDepositRelay, deposit } from '../../utils/bridge.js'
+import { GasToken, GasTokenError, formatL1GasToken, formatL2Native, loadGasToken, toL1GasTokenAmount } from '../../utils/gas-token.js'
 import { BlockExplorerParams, addressLink, txLink } from '../../utils/onchain/index.js'
 
 export default class HelperSetScalars extends Command {
@@ -45,12 +46,12 @@ export default class HelperSetScalars extends Command {
     const { flags } = await this.parse(HelperSetScalars)
 
     const configPath = path.resolve(flags.config)
-    const config = parseTomlConfig(configPath)
+    const config = loadConfig(configPath)
 
     const contractsPath = path.resolve(flags.contracts)
-    const contractsConfig = parseTomlConfig(contractsPath)
+    const contractsConfig = loadContractsConfig(contractsPath)
 
-    let rpcUrl = flags.rpc || (flags.pod ? config.general.L2_RPC_ENDPOINT : config.frontend.EXTERNAL_RPC_URI_L2)
+    let rpcUrl = flags.rpc || (flags.pod ? config.general?.L2_RPC_ENDPOINT : config.frontend?.EXTERNAL_RPC_URI_L2)
 
     if (!rpcUrl) {
       this.error(`${chalk.red('Missing RPC URL.')} Please check your config file or provide --rpc flag.`)
@@ -60,6 +61,16 @@ export default class HelperSetScalars extends Command {
 
     const provider = new ethers.JsonRpcProvider(rpcUrl)
 
+    // On alternative gas token chains fees are paid in the gas token, and the owner is funded through its gateway
+    const l1RpcUrl = flags.pod ? config.general?.L1_RPC_ENDPOINT : config.frontend?.EXTERNAL_RPC_URI_L1
+    let gasToken: GasToken | undefined
+    try {
+      gasToken = await loadGasToken(config, contractsConfig, l1RpcUrl)
+    } catch (error) {
+      if (error instanceof GasTokenError) this.error(chalk.red(error.message))
+      throw error
+    }
+
     // Set block explorer URL
     this.blockExplorers.l2.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L2 || ''
 
@@ -97,23 +108,36 @@ export default class HelperSetScalars extends Command {
     const estimatedCost = totalEstimatedGas * gasPrice
 
     if (balance < estimatedCost) {
-      this.log(chalk.yellow(`Insufficient funds. Account balance: ${chalk.cyan(ethers.formatEther(balance))} ETH`))
-      this.log(chalk.yellow(`Estimated cost: ${chalk.cyan(ethers.formatEther(estimatedCost))} ETH`))
+      this.log(chalk.yellow(`Insufficient funds. Account balance: ${chalk.cyan(formatL2Native(balance, gasToken))}`))
+      this.log(chalk.yellow(`Estimated cost: ${chalk.cyan(formatL2Native(estimatedCost, gasToken))}`))
 
       const fundAccount = await confirm({ message: 'Would you like to fund the account from the DEPLOYER address?' })
 
       if (fundAccount) {
-        const deployerPrivateKey = config.accounts.DEPLOYER_PRIVATE_KEY
-        const deployerWallet = new ethers.Wallet(deployerPrivateKey, provider)
-        const fundingAmount = estimatedCost * BigInt(2) // Double the estimated cost to ensure enough funds
+        const deployerPrivateKey = config.accounts?.DEPLOYER_PRIVATE_KEY
+        if (!deployerPrivateKey) {
+          this.error(chalk.red(`Missing DEPLOYER_PRIVATE_KEY in the [accounts] section of ${configPath}.`))
+        }
 
-        const fundingTx = await deployerWallet.sendTransaction({
-          to: signerAddress,
-          value: fundingAmount,
-        })
+        const fundingAmount = estimatedCost * BigInt(2) // Double the estimated cost to ensure enough funds
 
-        await fundingTx.wait()
-        await this.logTx(fundingTx.hash, `Account funded with ${chalk.green(ethers.formatEther(fundingAmount))} ETH`)
+        if (gasToken) {
+          await this.fundWithGasToken(deployerPrivateKey, signerAddress, fundingAmount, {
+            contracts: contractsConfig,
+            gasToken,
+            l1RpcUrl: l1RpcUrl!,
+            provider,
+          })
+        } else {
+          const deployerWallet = new ethers.Wallet(deployerPrivateKey, provider)
+          const fundingTx = await deployerWallet.sendTransaction({
+            to: signerAddress,
+            value: fundingAmount,
+          })
+
+          await fundingTx.wait()
+          await this.logTx(fundingTx.hash, `Account funded with ${chalk.green(formatL2Native(fundingAmount))}`)
+        }
       } else {
         this.error(chalk.red('Insufficient funds to proceed. Aborting.'))
       }
@@ -136,6 +160,41 @@ export default class HelperSetScalars extends Command {
     }
   }
 
+  // Deposits the gas token from the deployer on L1, and waits for the deposit to reach the owner on L2
+  private async fundWithGasToken(
+    deployerPrivateKey: string,
+    recipient: string,
+    amount: bigint,
+    {
+      contracts,
+      gasToken,
+      l1RpcUrl,
+      provider,
+    }: { contracts: ContractsConfig; gasToken: GasToken; l1RpcUrl: string; provider: ethers.JsonRpcProvider },
+  ): Promise<void> {
+    const l1Amount = toL1GasTokenAmount(amount, gasToken)
+    const deployerWallet = new ethers.Wallet(deployerPrivateKey, new ethers.JsonRpcProvider(l1RpcUrl))
+    this.log(`Depositing ${chalk.green(formatL1GasToken(l1Amount, gasToken))} from ${deployerWallet.address} on L1`)
+
+    try {
+      const result = await deposit(
+        {
+          amount: l1Amount,
+          asset: { kind: 'gas-token' },
+          onSent: (description, txHash) => this.log(`${chalk.blue(`${description} sent on L1`)}: ${chalk.cyan(txHash)}`),
+          to: recipient,
+        },
+        deployerWallet,
+        contracts,
+      )
+      this.log('Waiting for the deposit to be relayed on L2...')
+      const receipt = await awaitDepositRelay(result, provider, { interval: 10_000, timeout: 30 * 60 * 1000 })
+      await this.logTx(receipt.hash, `Account funded with ${chalk.green(formatL2Native(amount, gasToken))}`)
+    } catch (error) {
+      this.error(chalk.red(`Failed to fund the account: ${error instanceof Error ? error.message : 'Unknown error'}`))
+    }
+  }
+
   private async logAddress(address: string, description: string): Promise<void> {
     const link = await addressLink(address, this.blockExplorers.l2)
     this.log(`${chalk.blue(description)}: ${chalk.cyan(link)}`)
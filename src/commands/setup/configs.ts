@@ -2,13 +2,16 @@ import {Command, Flags} from '@oclif/core'
 import Docker from 'dockerode'
 import * as fs from 'fs'
 import * as path from 'path'
-import * as toml from '@iarna/toml'
 import chalk from 'chalk'
-import {confirm, input, select} from '@inquirer/prompts'
 import {ethers} from 'ethers'
 import * as yaml from 'js-yaml'
 import * as childProcess from 'child_process'
 
+import {loadConfig} from '../../utils/config-parser.js'
+import {ScrollSdkConfig} from '../../utils/config-schema.js'
+import {Prompter, promptFlags} from '../../utils/prompts.js'
+import {TomlDocument} from '../../utils/toml-editor.js'
+
 export default class SetupConfigs extends Command {
   static override description = 'Generate configuration files and create environment files for services'
 
@@ -16,6 +19,7 @@ export default class SetupConfigs extends Command {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --image-tag gen-configs-64934888f4cd002e77414a8e62812f70c00c5937',
     '<%= config.bin %> <%= command.id %> --configs-dir custom-configs',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
   static override flags = {
@@ -27,8 +31,11 @@ export default class SetupConfigs extends Command {
       description: 'Directory to store configuration files',
       default: 'values',
     }),
+    ...promptFlags,
   }
 
+  private prompter!: Prompter
+
   private async runDockerCommand(imageTag: string): Promise<void> {
     const docker = new Docker()
     const image = `scrolltech/scroll-stack-contracts:${imageTag}`
@@ -107,8 +114,7 @@ export default class SetupConfigs extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
+    const config = loadConfig(configPath)
 
     const services = [
       'admin-system-backend',
@@ -139,7 +145,7 @@ export default class SetupConfigs extends Command {
   }
 
   // TODO: check privatekey secrets once integrated
-  private generateEnvContent(service: string, config: any): {[key: string]: string} {
+  private generateEnvContent(service: string, config: ScrollSdkConfig): {[key: string]: string} {
     const mapping: Record<string, string[]> = {
       'admin-system-backend': [
         'ADMIN_SYSTEM_BACKEND_DB_CONNECTION_STRING:SCROLL_ADMIN_AUTH_DB_CONFIG_DSN',
@@ -187,8 +193,8 @@ export default class SetupConfigs extends Command {
       // Handle all sequencers (primary and backups)
       let sequencerIndex = 0
       while (true) {
-        const sequencerConfig =
-          sequencerIndex === 0 ? config.sequencer : config.sequencer[`sequencer-${sequencerIndex}`]
+        const sequencerConfig: Record<string, unknown> | undefined =
+          sequencerIndex === 0 ? config.sequencer : config.sequencer?.[`sequencer-${sequencerIndex}`]
         if (!sequencerConfig) break
 
         let content = ''
@@ -202,18 +208,14 @@ export default class SetupConfigs extends Command {
         sequencerIndex++
       }
     } else {
-      // Handle other services
+      // Handle other services, taking each value from the first section that sets it
+      const sections: (Record<string, unknown> | undefined)[] = [config.db, config.accounts, config.coordinator, config.sequencer]
       let content = ''
       for (const pair of mapping[service] || []) {
         const [configKey, envKey] = pair.split(':')
-        if (config.db && config.db[configKey]) {
-          content += `${envKey}="${config.db[configKey]}"\n`
-        } else if (config.accounts && config.accounts[configKey]) {
-          content += `${envKey}="${config.accounts[configKey]}"\n`
-        } else if (config.coordinator && config.coordinator[configKey]) {
-          content += `${envKey}="${config.coordinator[configKey]}"\n`
-        } else if (config.sequencer && config.sequencer[configKey]) {
-          content += `${envKey}="${config.sequencer[configKey]}"\n`
+        const section = sections.find((candidate) => candidate?.[configKey])
+        if (section) {
+          content += `${envKey}="${section[configKey]}"\n`
         }
       }
       envFiles[`${service}-secret.env`] = content
@@ -222,13 +224,14 @@ export default class SetupConfigs extends Command {
     return envFiles
   }
 
-  private createMigrateDbFiles(config: any): void {
+  private createMigrateDbFiles(config: ScrollSdkConfig): void {
     const migrateDbFiles = [
       {service: 'bridge-history-fetcher', key: 'BRIDGE_HISTORY_DB_CONNECTION_STRING'},
       {service: 'gas-oracle', key: 'GAS_ORACLE_DB_CONNECTION_STRING'},
       {service: 'rollup-node', key: 'ROLLUP_NODE_DB_CONNECTION_STRING'},
     ]
 
+    const db: Record<string, unknown> = config.db ?? {}
     for (const file of migrateDbFiles) {
       const filePath = path.join(process.cwd(), 'secrets', `${file.service}-migrate-db.json`)
       let content: any
@@ -241,13 +244,13 @@ export default class SetupConfigs extends Command {
             driver_name: 'postgres',
             maxOpenNum: 50,
             maxIdleNume: 5,
-            dsn: config.db[file.key],
+            dsn: db[file.key],
           },
         }
       } else {
         content = {
           driver_name: 'postgres',
-          dsn: config.db[file.key],
+          dsn: db[file.key],
         }
       }
 
@@ -287,15 +290,14 @@ export default class SetupConfigs extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
+    const config = loadConfig(configPath)
 
-    const currentSalt = (config.contracts as any)?.DEPLOYMENT_SALT || ''
+    const currentSalt = config.contracts?.DEPLOYMENT_SALT || ''
     let defaultNewSalt = currentSalt
 
     if (/\d+$/.test(currentSalt)) {
       // If the current salt ends with a number, increment it
-      const number = parseInt(currentSalt.match(/\d+$/)[0], 10)
+      const number = parseInt(currentSalt.match(/\d+$/)![0], 10)
       defaultNewSalt = currentSalt.replace(/\d+$/, (number + 1).toString())
     } else {
       // Generate a new random 6 char string and append it to the base
@@ -305,22 +307,19 @@ export default class SetupConfigs extends Command {
     }
 
     this.log(chalk.cyan(`Current deployment salt: ${currentSalt}`))
-    const updateSalt = await confirm({
+    const updateSalt = await this.prompter.confirm('update-salt', {
       message: 'Would you like to update the deployment salt in config.toml?',
     })
 
     if (updateSalt) {
-      const newSalt = await input({
+      const newSalt = await this.prompter.input('DEPLOYMENT_SALT', {
         message: 'Enter new deployment salt:',
         default: defaultNewSalt,
       })
 
-      if (!config.contracts) {
-        config.contracts = {}
-      }
-      ;(config.contracts as any).DEPLOYMENT_SALT = newSalt
-
-      fs.writeFileSync(configPath, toml.stringify(config as any))
+      const document = TomlDocument.load(configPath)
+      document.set('contracts', 'DEPLOYMENT_SALT', newSalt)
+      document.save()
       this.log(chalk.green(`Deployment salt updated in config.toml from "${currentSalt}" to "${newSalt}"`))
     } else {
       this.log(chalk.yellow('Deployment salt not updated'))
@@ -334,20 +333,19 @@ export default class SetupConfigs extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
+    const config = loadConfig(configPath)
 
-    const currentBlock = (config.general as any)?.L1_CONTRACT_DEPLOYMENT_BLOCK || ''
+    const currentBlock = config.general?.L1_CONTRACT_DEPLOYMENT_BLOCK?.toString() || ''
     let defaultNewBlock = currentBlock
 
-    const updateBlock = await confirm({
+    const updateBlock = await this.prompter.confirm('update-deployment-block', {
       message: 'Would you like to update the L1_CONTRACT_DEPLOYMENT_BLOCK in config.toml?',
     })
 
     if (updateBlock) {
       try {
-        const l1RpcUri = (config.frontend as any)?.EXTERNAL_RPC_URI_L1
-        const isDevnet = (config.general as any)?.L1_RPC_ENDPOINT === 'http://l1-devnet:8545'
+        const l1RpcUri = config.frontend?.EXTERNAL_RPC_URI_L1
+        const isDevnet = config.general?.L1_RPC_ENDPOINT === 'http://l1-devnet:8545'
 
         if (isDevnet) {
           defaultNewBlock = '0'
@@ -367,17 +365,14 @@ export default class SetupConfigs extends Command {
         defaultNewBlock = '0'
       }
 
-      const newBlock = await input({
+      const newBlock = await this.prompter.input('L1_CONTRACT_DEPLOYMENT_BLOCK', {
         message: 'Enter new L1_CONTRACT_DEPLOYMENT_BLOCK:',
         default: defaultNewBlock,
       })
 
-      if (!config.general) {
-        config.general = {}
-      }
-      ;(config.general as any).L1_CONTRACT_DEPLOYMENT_BLOCK = newBlock
-
-      fs.writeFileSync(configPath, toml.stringify(config as any))
+      const document = TomlDocument.load(configPath)
+      document.set('general', 'L1_CONTRACT_DEPLOYMENT_BLOCK', newBlock)
+      document.save()
       this.log(
         chalk.green(`L1_CONTRACT_DEPLOYMENT_BLOCK updated in config.toml from "${currentBlock}" to "${newBlock}"`),
       )
@@ -481,7 +476,7 @@ export default class SetupConfigs extends Command {
       return `gen-configs-v${providedTag}`
     }
 
-    const selectedTag = await select({
+    const selectedTag = await this.prompter.select('image-tag', {
       message: 'Select a Docker image tag:',
       choices: tags.map((tag) => ({name: tag, value: tag})),
     })
@@ -501,7 +496,7 @@ export default class SetupConfigs extends Command {
     // Check permissions and potentially change ownership before processing
     const yamlFiles = fs.readdirSync(sourceDir).filter((file) => file.endsWith('.yaml'))
     if (yamlFiles.some((file) => !this.canAccessFile(path.join(sourceDir, file)))) {
-      const changeOwnership = await confirm({
+      const changeOwnership = await this.prompter.confirm('change-ownership', {
         message:
           'Some YAML files have permission issues. Would you like to change their ownership to the current user?',
       })
@@ -628,40 +623,26 @@ export default class SetupConfigs extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
+    const config = loadConfig(configPath)
 
-    const updateFeeVault = await confirm({
+    const updateFeeVault = await this.prompter.confirm('update-fee-vault', {
       message: 'Would you like to set a value for L1_FEE_VAULT_ADDR?',
     })
 
     if (updateFeeVault) {
       this.log(chalk.yellow('It is recommended to use a Safe for the L1_FEE_VAULT_ADDR.'))
-      const defaultAddr = (config.accounts as any)?.OWNER_ADDR || ''
+      const defaultAddr = config.accounts?.OWNER_ADDR || ''
       this.log(chalk.cyan(`The Owner address (${defaultAddr}) is the default value.`))
 
-      let isValidAddress = false
-      let newAddr = ''
-
-      while (!isValidAddress) {
-        newAddr = await input({
-          message: 'Enter the L1_FEE_VAULT_ADDR:',
-          default: defaultAddr,
-        })
-
-        if (ethers.isAddress(newAddr)) {
-          isValidAddress = true
-        } else {
-          this.log(chalk.red('Invalid Ethereum address. Please try again.'))
-        }
-      }
-
-      if (!config.contracts) {
-        config.contracts = {}
-      }
-      ;(config.contracts as any).L1_FEE_VAULT_ADDR = newAddr
+      const newAddr = await this.prompter.input('L1_FEE_VAULT_ADDR', {
+        message: 'Enter the L1_FEE_VAULT_ADDR:',
+        default: defaultAddr,
+        validate: (value) => ethers.isAddress(value) || 'Invalid Ethereum address. Please try again.',
+      })
 
-      fs.writeFileSync(configPath, toml.stringify(config as any))
+      const document = TomlDocument.load(configPath)
+      document.set('contracts', 'L1_FEE_VAULT_ADDR', newAddr)
+      document.save()
       this.log(chalk.green(`L1_FEE_VAULT_ADDR updated in config.toml to "${newAddr}"`))
     } else {
       this.log(chalk.yellow('L1_FEE_VAULT_ADDR not updated'))
@@ -675,41 +656,27 @@ export default class SetupConfigs extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
+    const config = loadConfig(configPath)
 
     this.log(chalk.yellow('Note: If you do not set L1_PLONK_VERIFIER_ADDR, one will be automatically deployed.'))
 
-    const updatePlonkVerifier = await confirm({
+    const updatePlonkVerifier = await this.prompter.confirm('update-plonk-verifier', {
       message: 'Would you like to set a value for L1_PLONK_VERIFIER_ADDR?',
     })
 
     if (updatePlonkVerifier) {
-      const currentAddr = (config.contracts as any)?.L1_PLONK_VERIFIER_ADDR || ''
+      const currentAddr = config.contracts?.L1_PLONK_VERIFIER_ADDR || ''
       this.log(chalk.cyan(`The current L1_PLONK_VERIFIER_ADDR is: ${currentAddr}`))
 
-      let isValidAddress = false
-      let newAddr = ''
-
-      while (!isValidAddress) {
-        newAddr = await input({
-          message: 'Enter the L1_PLONK_VERIFIER_ADDR:',
-          default: currentAddr,
-        })
-
-        if (ethers.isAddress(newAddr)) {
-          isValidAddress = true
-        } else {
-          this.log(chalk.red('Invalid Ethereum address. Please try again.'))
-        }
-      }
-
-      if (!config.contracts) {
-        config.contracts = {}
-      }
-      ;(config.contracts as any).L1_PLONK_VERIFIER_ADDR = newAddr
+      const newAddr = await this.prompter.input('L1_PLONK_VERIFIER_ADDR', {
+        message: 'Enter the L1_PLONK_VERIFIER_ADDR:',
+        default: currentAddr,
+        validate: (value) => ethers.isAddress(value) || 'Invalid Ethereum address. Please try again.',
+      })
 
-      fs.writeFileSync(configPath, toml.stringify(config as any))
+      const document = TomlDocument.load(configPath)
+      document.set('contracts', 'L1_PLONK_VERIFIER_ADDR', newAddr)
+      document.save()
       this.log(chalk.green(`L1_PLONK_VERIFIER_ADDR updated in config.toml to "${newAddr}"`))
     } else {
       this.log(chalk.yellow('L1_PLONK_VERIFIER_ADDR not updated'))
@@ -718,6 +685,7 @@ export default class SetupConfigs extends Command {
 
   public async run(): Promise<void> {
     const {flags} = await this.parse(SetupConfigs)
+    this.prompter = Prompter.fromFlags('configs', flags)
 
     const imageTag = await this.getDockerImageTag(flags['image-tag'])
     this.log(chalk.blue(`Using Docker image tag: ${imageTag}`))
@@ -1,11 +1,14 @@
 import { Command, Flags } from '@oclif/core'
-import { input, password, confirm } from '@inquirer/prompts'
 import pg from 'pg';
 import * as fs from 'fs'
 import * as path from 'path'
-import * as toml from '@iarna/toml'
 import chalk from 'chalk'
 
+import { loadConfig } from '../../utils/config-parser.js'
+import { DbConfig, ScrollSdkConfig } from '../../utils/config-schema.js'
+import { Prompter, promptFlags } from '../../utils/prompts.js'
+import { TomlDocument } from '../../utils/toml-editor.js'
+
 export default class SetupDbInit extends Command {
   static override description = 'Initialize databases with new users and passwords interactively or update permissions'
 
@@ -37,8 +40,10 @@ export default class SetupDbInit extends Command {
       description: 'Update the port of current database values',
       required: false,
     }),
+    ...promptFlags,
   }
 
+  private prompter!: Prompter
   private conn: pg.Client | undefined;
   private publicHost: string = "";
   private publicPort: string = "";
@@ -78,7 +83,7 @@ export default class SetupDbInit extends Command {
           await conn.query(`ALTER USER ${dbUser} WITH PASSWORD '${dbPassword.replace(/'/g, "''")}'`)
           this.log(chalk.green(`Password updated for ${dbUser}.`))
         } else {
-          const changePassword = await confirm({ message: `User ${dbUser} already exists. Do you want to change the password?` })
+          const changePassword = await this.prompter.scoped(dbUser.toUpperCase()).confirm('change-password', { message: `User ${dbUser} already exists. Do you want to change the password?` })
           if (changePassword) {
             await conn.query(`ALTER USER ${dbUser} WITH PASSWORD '${dbPassword.replace(/'/g, "''")}'`)
             this.log(chalk.green(`Password updated for ${dbUser}.`))
@@ -107,12 +112,7 @@ export default class SetupDbInit extends Command {
       return
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    const config = toml.parse(configContent)
-
-    if (!config.db) {
-      config.db = {}
-    }
+    const document = TomlDocument.load(configPath)
 
     const dsnConfigMapping: Record<string, string[]> = {
       'ROLLUP_NODE': ['SCROLL_DB_CONNECTION_STRING', 'GAS_ORACLE_DB_CONNECTION_STRING', 'ROLLUP_NODE_DB_CONNECTION_STRING', 'ROLLUP_EXPLORER_DB_CONNECTION_STRING', 'COORDINATOR_DB_CONNECTION_STRING', 'ADMIN_SYSTEM_BACKEND_DB_CONNECTION_STRING'],
@@ -125,11 +125,11 @@ export default class SetupDbInit extends Command {
     for (const [user, dsn] of Object.entries(dsnMap)) {
       const configKeys = dsnConfigMapping[user] || []
       for (const key of configKeys) {
-        (config.db as Record<string, string>)[key] = dsn
+        document.set('db', key, dsn)
       }
     }
 
-    fs.writeFileSync(configPath, toml.stringify(config as any))
+    document.save()
     this.log(chalk.green('config.toml has been updated with the new database connection strings.'))
   }
 
@@ -185,7 +185,7 @@ export default class SetupDbInit extends Command {
     }
   }
 
-  private updateDatabasePort(config: any, newPort: number): void {
+  private updateDatabasePort(config: ScrollSdkConfig, newPort: number): void {
     const dbSection = config.db as Record<string, string>
     if (!dbSection) {
       this.log(chalk.yellow('No database configurations found in config.toml'))
@@ -211,31 +211,32 @@ export default class SetupDbInit extends Command {
     }
   }
 
-  private async getExistingConfig(): Promise<any> {
+  private async getExistingConfig(): Promise<ScrollSdkConfig> {
     const configPath = path.join(process.cwd(), 'config.toml')
     if (!fs.existsSync(configPath)) {
       this.error('config.toml not found in the current directory.')
-      return {}
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    return toml.parse(configContent) as any
+    return loadConfig(configPath)
   }
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(SetupDbInit)
+    this.prompter = Prompter.fromFlags('db-init', flags)
     const existingConfig = await this.getExistingConfig()
 
     if (flags['update-port']) {
       this.log(chalk.blue('Updating database port...'))
       this.updateDatabasePort(existingConfig, flags['update-port'])
 
-      const confirmUpdate = await confirm({
+      const confirmUpdate = await this.prompter.confirm('confirm-port-update', {
         message: 'Do you want to update the config.toml file with these changes?'
       })
 
       if (confirmUpdate) {
-        fs.writeFileSync(path.join(process.cwd(), 'config.toml'), toml.stringify(existingConfig as any))
+        const document = TomlDocument.load(path.join(process.cwd(), 'config.toml'))
+        document.setAll('db', (existingConfig.db ?? {}) as Record<string, string>)
+        document.save()
         this.log(chalk.green('config.toml has been updated with the new database port.'))
       } else {
         this.log(chalk.yellow('Configuration update cancelled.'))
@@ -244,7 +245,7 @@ export default class SetupDbInit extends Command {
     }
 
     if (flags.clean) {
-      const confirmClean = await confirm({
+      const confirmClean = await this.prompter.confirm('confirm-clean', {
         message: chalk.red('WARNING: This will erase existing databases and overwrite user passwords. Do you want to continue?'),
       })
       if (!confirmClean) {
@@ -259,7 +260,7 @@ export default class SetupDbInit extends Command {
       { name: 'scroll_bridge_history', user: 'BRIDGE_HISTORY' },
     ]
 
-    const createBlockscout = await confirm({
+    const createBlockscout = await this.prompter.confirm('create-blockscout', {
       message: chalk.cyan('Do you want to create a database for Blockscout?'),
       default: !!existingConfig.db?.BLOCKSCOUT_DB_CONNECTION_STRING
     })
@@ -267,7 +268,7 @@ export default class SetupDbInit extends Command {
       databases.push({ name: 'scroll_blockscout', user: 'BLOCKSCOUT' })
     }
 
-    const createL1Explorer = await confirm({
+    const createL1Explorer = await this.prompter.confirm('create-l1-explorer', {
       message: chalk.cyan('Do you want to create a database for L1 Explorer?'),
       default: !!existingConfig.db?.L1_EXPLORER_DB_CONNECTION_STRING
     })
@@ -286,16 +287,17 @@ export default class SetupDbInit extends Command {
 
       for (const db of databases) {
         this.log(chalk.blue(`Setting up db for ${db.name}`));
+        const prompter = this.prompter.scoped(db.user)
 
         if (!flags['update-permissions']) {
           // First iteration or if the user chose to connect to a different cluster
           if (!this.conn) {
             [this.publicHost, this.publicPort, this.vpcHost, this.vpcPort, this.pgUser, this.pgPassword, this.pgDatabase] = await this.promptForConnectionDetails(existingConfig);
             this.conn = await this.createConnection(this.publicHost, this.publicPort, this.pgUser, this.pgPassword, this.pgDatabase);
-          } else if (await confirm({ message: 'Do you want to connect to a different database cluster for this database?', default: false })) {
+          } else if (await prompter.confirm('different-cluster', { message: 'Do you want to connect to a different database cluster for this database?', default: false })) {
             // User chose to connect to a different cluster
             await this.conn.end();
-            [this.publicHost, this.publicPort, this.vpcHost, this.vpcPort, this.pgUser, this.pgPassword, this.pgDatabase] = await this.promptForConnectionDetails(existingConfig);
+            [this.publicHost, this.publicPort, this.vpcHost, this.vpcPort, this.pgUser, this.pgPassword, this.pgDatabase] = await this.promptForConnectionDetails(existingConfig, prompter);
             this.conn = await this.createConnection(this.publicHost, this.publicPort, this.pgUser, this.pgPassword, this.pgDatabase);
           }
         }
@@ -313,9 +315,9 @@ export default class SetupDbInit extends Command {
           this.log(chalk.blue(`Setting up database: ${db.name} for user: ${db.user}`))
 
           let dbPassword: string;
-          const existingDsn = existingConfig.db?.[`${db.user}_DB_CONNECTION_STRING`];
+          const existingDsn = existingConfig.db?.[`${db.user}_DB_CONNECTION_STRING` as keyof DbConfig];
           if (existingDsn) {
-            const keepExistingPassword = await confirm({
+            const keepExistingPassword = await prompter.confirm('keep-password', {
               message: `An existing password was found for ${db.user}. Do you want to keep it?`,
               default: true
             });
@@ -323,7 +325,7 @@ export default class SetupDbInit extends Command {
               dbPassword = existingDsn.match(/postgres:\/\/.*:(.*)@/)?.[1] || '';
               this.log(chalk.green(`Using existing password for ${db.user}`));
             } else {
-              const useRandomPassword = await confirm({
+              const useRandomPassword = await prompter.confirm('random-password', {
                 message: `Do you want to use a random password for ${db.user}?`,
                 default: true
               });
@@ -331,11 +333,11 @@ export default class SetupDbInit extends Command {
                 dbPassword = Math.random().toString(36).slice(-12); // Generate a random 12-character password
                 this.log(chalk.green(`Generated random password for ${db.user}`));
               } else {
-                dbPassword = await password({ message: `Enter new password for ${db.user}:` });
+                dbPassword = await prompter.password('password', { message: `Enter new password for ${db.user}:` });
               }
             }
           } else {
-            const useRandomPassword = await confirm({
+            const useRandomPassword = await prompter.confirm('random-password', {
               message: `Do you want to use a random password for ${db.user}?`,
               default: true
             });
@@ -343,7 +345,7 @@ export default class SetupDbInit extends Command {
               dbPassword = Math.random().toString(36).slice(-12); // Generate a random 12-character password
               this.log(chalk.green(`Generated random password for ${db.user}`));
             } else {
-              dbPassword = await password({ message: `Enter password for ${db.user}:` });
+              dbPassword = await prompter.password('password', { message: `Enter password for ${db.user}:` });
             }
           }
 
@@ -359,7 +361,7 @@ export default class SetupDbInit extends Command {
       if (!flags['update-permissions']) {
         this.log(chalk.green('All databases initialized successfully.'))
 
-        const updateConfig = await confirm({ message: 'Do you want to update the config.toml file with the new DSNs?' })
+        const updateConfig = await this.prompter.confirm('confirm-update', { message: 'Do you want to update the config.toml file with the new DSNs?' })
         if (updateConfig) {
           await this.updateConfigFile(dsnMap)
         }
@@ -373,13 +375,13 @@ export default class SetupDbInit extends Command {
     }
   }
 
-  private async promptForConnectionDetails(existingConfig: any): Promise<[string, string, string, string, string, string, string]> {
+  private async promptForConnectionDetails(existingConfig: ScrollSdkConfig, prompter = this.prompter): Promise<[string, string, string, string, string, string, string]> {
     this.log(chalk.blue('First, provide connection information for the database instance. This will only be used for creating users and databases. This information will not be persisted in your configuration repo.'));
-    const publicHost = await input({ message: 'Enter public PostgreSQL host:', default: 'localhost' })
-    const publicPort = await input({ message: 'Enter public PostgreSQL port:', default: '5432' })
-    const pgUser = await input({ message: 'Enter PostgreSQL admin username:', default: 'admin' })
-    const pgPassword = await password({ message: 'Enter PostgreSQL admin password:' })
-    const pgDatabase = await input({ message: 'Enter PostgreSQL database name:', default: 'postgres' })
+    const publicHost = await prompter.input('public-host', { message: 'Enter public PostgreSQL host:', default: 'localhost' })
+    const publicPort = await prompter.input('public-port', { message: 'Enter public PostgreSQL port:', default: '5432' })
+    const pgUser = await prompter.input('admin-user', { message: 'Enter PostgreSQL admin username:', default: 'admin' })
+    const pgPassword = await prompter.password('admin-password', { message: 'Enter PostgreSQL admin password:' })
+    const pgDatabase = await prompter.input('admin-database', { message: 'Enter PostgreSQL database name:', default: 'postgres' })
 
     this.log(chalk.blue('Now, provide connection information for pods. This will often be use localhost or a private IP. This information is stored in DSN strings in your configuration file and used in Secrets.'));
 
@@ -395,13 +397,13 @@ export default class SetupDbInit extends Command {
       }
     }
 
-    const privateHost = await input({ message: 'Enter PostgreSQL host:', default: defaultPrivateHost })
-    const privatePort = await input({ message: 'Enter PostgreSQL port:', default: defaultPrivatePort })
+    const privateHost = await prompter.input('private-host', { message: 'Enter PostgreSQL host:', default: defaultPrivateHost })
+    const privatePort = await prompter.input('private-port', { message: 'Enter PostgreSQL port:', default: defaultPrivatePort })
 
     return [publicHost, publicPort, privateHost, privatePort, pgUser, pgPassword, pgDatabase]
   }
 
-  private async promptForPublicConnectionDetails(existingConfig: any): Promise<[string, string, string, string, string]> {
+  private async promptForPublicConnectionDetails(existingConfig: ScrollSdkConfig): Promise<[string, string, string, string, string]> {
     this.log(chalk.blue('Provide connection information for the database instance. This will only be used for updating permissions.'));
 
     // Extract host and port from an existing DSN if available
@@ -416,11 +418,11 @@ export default class SetupDbInit extends Command {
       }
     }
 
-    const publicHost = await input({ message: 'Enter public PostgreSQL host:', default: defaultHost })
-    const publicPort = await input({ message: 'Enter public PostgreSQL port:', default: defaultPort })
-    const pgUser = await input({ message: 'Enter PostgreSQL admin username:', default: 'admin' })
-    const pgPassword = await password({ message: 'Enter PostgreSQL admin password:' })
-    const pgDatabase = await input({ message: 'Enter PostgreSQL database name:', default: 'postgres' })
+    const publicHost = await this.prompter.input('public-host', { message: 'Enter public PostgreSQL host:', default: defaultHost })
+    const publicPort = await this.prompter.input('public-port', { message: 'Enter public PostgreSQL port:', default: defaultPort })
+    const pgUser = await this.prompter.input('admin-user', { message: 'Enter PostgreSQL admin username:', default: 'admin' })
+    const pgPassword = await this.prompter.password('admin-password', { message: 'Enter PostgreSQL admin password:' })
+    const pgDatabase = await this.prompter.input('admin-database', { message: 'Enter PostgreSQL database name:', default: 'postgres' })
 
     return [publicHost, publicPort, pgUser, pgPassword, pgDatabase]
   }
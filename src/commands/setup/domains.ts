@@ -1,11 +1,14 @@
 /* eslint-disable complexity */
-import * as toml from '@iarna/toml'
-import {confirm, input, select} from '@inquirer/prompts'
 import {Args, Command, Flags} from '@oclif/core'
 import chalk from 'chalk'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 
+import {loadConfig} from '../../utils/config-parser.js'
+import {ScrollSdkConfig} from '../../utils/config-schema.js'
+import {Prompter, promptFlags} from '../../utils/prompts.js'
+import {TomlDocument} from '../../utils/toml-editor.js'
+
 export default class SetupDomains extends Command {
   static override args = {
     file: Args.string({description: 'file to read'}),
@@ -13,14 +16,23 @@ export default class SetupDomains extends Command {
 
   static override description = 'Set up domain configurations for external services'
 
-  static override examples = ['<%= config.bin %> <%= command.id %>']
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
+  ]
 
   static override flags = {
     force: Flags.boolean({char: 'f'}),
     name: Flags.string({char: 'n', description: 'name to print'}),
+    ...promptFlags,
   }
 
+  private prompter!: Prompter
+
   public async run(): Promise<void> {
+    const {flags} = await this.parse(SetupDomains)
+    this.prompter = Prompter.fromFlags('domains', flags)
+
     const existingConfig = await this.getExistingConfig()
 
     this.logSection('Current domain configurations:')
@@ -37,7 +49,7 @@ export default class SetupDomains extends Command {
 
     type L1Network = 'anvil' | 'holesky' | 'mainnet' | 'other' | 'sepolia'
 
-    const l1Network = (await select({
+    const l1Network = (await this.prompter.select('l1-network', {
       choices: [
         {name: 'Ethereum Mainnet', value: 'mainnet'},
         {name: 'Ethereum Sepolia Testnet', value: 'sepolia'},
@@ -73,20 +85,20 @@ export default class SetupDomains extends Command {
     const usesAnvil = l1Network === 'anvil'
 
     if (l1Network === 'other' || l1Network === 'anvil') {
-      generalConfig.CHAIN_NAME_L1 = await input({
+      generalConfig.CHAIN_NAME_L1 = await this.prompter.input('CHAIN_NAME_L1', {
         default: l1Network === 'anvil' ? 'Anvil L1' : existingConfig.general?.CHAIN_NAME_L1 || 'Custom L1',
         message: 'Enter the L1 Chain Name:',
       })
-      generalConfig.CHAIN_ID_L1 = await input({
-        default: l1Network === 'anvil' ? '111111' : existingConfig.general?.CHAIN_ID_L1 || '',
+      generalConfig.CHAIN_ID_L1 = await this.prompter.input('CHAIN_ID_L1', {
+        default: l1Network === 'anvil' ? '111111' : existingConfig.general?.CHAIN_ID_L1?.toString() || '',
         message: 'Enter the L1 Chain ID:',
       })
       if (l1Network !== 'anvil') {
-        domainConfig.EXTERNAL_EXPLORER_URI_L1 = await input({
+        domainConfig.EXTERNAL_EXPLORER_URI_L1 = await this.prompter.input('EXTERNAL_EXPLORER_URI_L1', {
           default: existingConfig.frontend?.EXTERNAL_EXPLORER_URI_L1 || '',
           message: 'Enter the L1 Explorer URL:',
         })
-        domainConfig.EXTERNAL_RPC_URI_L1 = await input({
+        domainConfig.EXTERNAL_RPC_URI_L1 = await this.prompter.input('EXTERNAL_RPC_URI_L1', {
           default: existingConfig.frontend?.EXTERNAL_RPC_URI_L1 || '',
           message: 'Enter the L1 Public RPC URL:',
         })
@@ -111,17 +123,17 @@ export default class SetupDomains extends Command {
       generalConfig.L1_RPC_ENDPOINT = 'http://l1-devnet:8545'
       generalConfig.L1_RPC_ENDPOINT_WEBSOCKET = 'ws://l1-devnet:8546'
     } else {
-      const setL1RpcEndpoint = await confirm({
+      const setL1RpcEndpoint = await this.prompter.confirm('custom-l1-rpc', {
         message: 'Do you want to set custom (private) L1 RPC endpoints for the SDK backend?',
       })
 
       if (setL1RpcEndpoint) {
-        generalConfig.L1_RPC_ENDPOINT = await input({
+        generalConfig.L1_RPC_ENDPOINT = await this.prompter.input('L1_RPC_ENDPOINT', {
           default: existingConfig.general?.L1_RPC_ENDPOINT || domainConfig.EXTERNAL_RPC_URI_L1,
           message: 'Enter the L1 RPC HTTP endpoint for SDK backend:',
         })
 
-        generalConfig.L1_RPC_ENDPOINT_WEBSOCKET = await input({
+        generalConfig.L1_RPC_ENDPOINT_WEBSOCKET = await this.prompter.input('L1_RPC_ENDPOINT_WEBSOCKET', {
           default:
             existingConfig.general?.L1_RPC_ENDPOINT_WEBSOCKET || domainConfig.EXTERNAL_RPC_URI_L1.replace('http', 'ws'),
           message: 'Enter the L1 RPC WebSocket endpoint for SDK backend:',
@@ -155,7 +167,7 @@ export default class SetupDomains extends Command {
       this.logKeyValue(key, value)
     }
 
-    const confirmUpdate = await confirm({
+    const confirmUpdate = await this.prompter.confirm('confirm-update', {
       message: 'Do you want to update the config.toml file with these new configurations?',
     })
     if (confirmUpdate) {
@@ -165,15 +177,13 @@ export default class SetupDomains extends Command {
     }
   }
 
-  private async getExistingConfig(): Promise<any> {
+  private async getExistingConfig(): Promise<ScrollSdkConfig> {
     const configPath = path.join(process.cwd(), 'config.toml')
     if (!fs.existsSync(configPath)) {
       this.error('config.toml not found in the current directory.')
-      return {}
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf8')
-    return toml.parse(configContent) as any
+    return loadConfig(configPath)
   }
 
   private logInfo(message: string) {
@@ -196,53 +206,8 @@ export default class SetupDomains extends Command {
     this.log(chalk.yellow(message))
   }
 
-  private mergeTomlContent(original: string, updated: string): string {
-    const originalLines = original.split('\n')
-    const updatedLines = updated.split('\n')
-    const mergedLines: string[] = []
-
-    let originalIndex = 0
-    let updatedIndex = 0
-
-    while (originalIndex < originalLines.length && updatedIndex < updatedLines.length) {
-      const originalLine = originalLines[originalIndex]
-      const updatedLine = updatedLines[updatedIndex]
-
-      if (originalLine.trim().startsWith('#') || originalLine.trim() === '') {
-        // Preserve comments and empty lines from the original file
-        mergedLines.push(originalLine)
-        originalIndex++
-      } else if (originalLine === updatedLine) {
-        // Lines are identical, keep either one
-        mergedLines.push(originalLine)
-        originalIndex++
-        updatedIndex++
-      } else {
-        // Lines differ, use the updated line
-        mergedLines.push(updatedLine)
-        updatedIndex++
-        // Skip original lines until we find a match or reach a new section
-        while (
-          originalIndex < originalLines.length &&
-          !originalLines[originalIndex].includes('=') &&
-          !originalLines[originalIndex].trim().startsWith('[')
-        ) {
-          originalIndex++
-        }
-      }
-    }
-
-    // Add any remaining lines from the updated content
-    while (updatedIndex < updatedLines.length) {
-      mergedLines.push(updatedLines[updatedIndex])
-      updatedIndex++
-    }
-
-    return mergedLines.join('\n')
-  }
-
   private async setupSharedConfigs(
-    existingConfig: any,
+    existingConfig: ScrollSdkConfig,
     usesAnvil: boolean,
   ): Promise<{
     domainConfig: Record<string, string>
@@ -257,7 +222,7 @@ export default class SetupDomains extends Command {
     let urlEnding = ''
     let protocol = ''
 
-    sharedEnding = await confirm({
+    sharedEnding = await this.prompter.confirm('shared-url-ending', {
       default: Boolean(existingConfig.ingress?.FRONTEND_HOST),
       message: 'Do you want all external URLs to share a URL ending?',
     })
@@ -269,12 +234,12 @@ export default class SetupDomains extends Command {
           ? existingFrontendHost.split('.').slice(1).join('.')
           : existingFrontendHost || 'scrollsdk'
 
-      urlEnding = await input({
+      urlEnding = await this.prompter.input('url-ending', {
         default: defaultUrlEnding,
         message: 'Enter the shared URL ending:',
       })
 
-      protocol = await select({
+      protocol = await this.prompter.select('protocol', {
         choices: [
           {name: 'HTTP', value: 'http'},
           {name: 'HTTPS', value: 'https'},
@@ -283,7 +248,7 @@ export default class SetupDomains extends Command {
         message: 'Choose the protocol for the shared URLs:',
       })
 
-      const frontendAtRoot = await confirm({
+      const frontendAtRoot = await this.prompter.confirm('frontend-at-root', {
         message: 'Do you want the frontends to be hosted at the root domain? (No will use a "frontends" subdomain)',
       })
 
@@ -314,7 +279,7 @@ export default class SetupDomains extends Command {
         ...(usesAnvil ? {L1_DEVNET_HOST: `l1-devnet.${urlEnding}`, L1_EXPLORER_HOST: `l1-explorer.${urlEnding}`} : {}),
       }
     } else {
-      protocol = await select({
+      protocol = await this.prompter.select('protocol', {
         choices: [
           {name: 'HTTP', value: 'http'},
           {name: 'HTTPS', value: 'https'},
@@ -324,81 +289,81 @@ export default class SetupDomains extends Command {
       })
 
       ingressConfig = {
-        ADMIN_SYSTEM_DASHBOARD_HOST: await input({
+        ADMIN_SYSTEM_DASHBOARD_HOST: await this.prompter.input('ADMIN_SYSTEM_DASHBOARD_HOST', {
           default: existingConfig.ingress?.ADMIN_SYSTEM_DASHBOARD_HOST || 'admin-system-dashboard.scrollsdk',
           message: 'Enter ADMIN_SYSTEM_DASHBOARD_HOST:',
         }),
-        BLOCKSCOUT_BACKEND_HOST: await input({
+        BLOCKSCOUT_BACKEND_HOST: await this.prompter.input('BLOCKSCOUT_BACKEND_HOST', {
           default: existingConfig.ingress?.BLOCKSCOUT_BACKEND_HOST || 'blockscout-backend.scrollsdk',
           message: 'Enter BLOCKSCOUT_BACKEND_HOST:',
         }),
-        BLOCKSCOUT_HOST: await input({
+        BLOCKSCOUT_HOST: await this.prompter.input('BLOCKSCOUT_HOST', {
           default: existingConfig.ingress?.BLOCKSCOUT_HOST || 'blockscout.scrollsdk',
           message: 'Enter BLOCKSCOUT_HOST:',
         }),
-        BRIDGE_HISTORY_API_HOST: await input({
+        BRIDGE_HISTORY_API_HOST: await this.prompter.input('BRIDGE_HISTORY_API_HOST', {
           default: existingConfig.ingress?.BRIDGE_HISTORY_API_HOST || 'bridge-history-api.scrollsdk',
           message: 'Enter BRIDGE_HISTORY_API_HOST:',
         }),
-        COORDINATOR_API_HOST: await input({
+        COORDINATOR_API_HOST: await this.prompter.input('COORDINATOR_API_HOST', {
           default: existingConfig.ingress?.COORDINATOR_API_HOST || 'coordinator-api.scrollsdk',
           message: 'Enter COORDINATOR_API_HOST:',
         }),
-        FRONTEND_HOST: await input({
+        FRONTEND_HOST: await this.prompter.input('FRONTEND_HOST', {
           default: existingConfig.ingress?.FRONTEND_HOST || 'frontends.scrollsdk',
           message: 'Enter FRONTEND_HOST:',
         }),
-        GRAFANA_HOST: await input({
+        GRAFANA_HOST: await this.prompter.input('GRAFANA_HOST', {
           default: existingConfig.ingress?.GRAFANA_HOST || 'grafana.scrollsdk',
           message: 'Enter GRAFANA_HOST:',
         }),
-        ROLLUP_EXPLORER_API_HOST: await input({
+        ROLLUP_EXPLORER_API_HOST: await this.prompter.input('ROLLUP_EXPLORER_API_HOST', {
           default: existingConfig.ingress?.ROLLUP_EXPLORER_API_HOST || 'rollup-explorer-backend.scrollsdk',
           message: 'Enter ROLLUP_EXPLORER_API_HOST:',
         }),
-        RPC_GATEWAY_HOST: await input({
+        RPC_GATEWAY_HOST: await this.prompter.input('RPC_GATEWAY_HOST', {
           default: existingConfig.ingress?.RPC_GATEWAY_HOST || 'l2-rpc.scrollsdk',
           message: 'Enter RPC_GATEWAY_HOST:',
         }),
       }
 
       if (usesAnvil) {
-        ingressConfig.L1_DEVNET_HOST = await input({
+        ingressConfig.L1_DEVNET_HOST = await this.prompter.input('L1_DEVNET_HOST', {
           default: existingConfig.ingress?.L1_DEVNET_HOST || 'l1-devnet.scrollsdk',
           message: 'Enter L1_DEVNET_HOST:',
         })
-        ingressConfig.L1_EXPLORER_HOST = await input({
+        ingressConfig.L1_EXPLORER_HOST = await this.prompter.input('L1_EXPLORER_HOST', {
           default: existingConfig.ingress?.L1_EXPLORER_HOST || 'l1-explorer.scrollsdk',
           message: 'Enter L1_EXPLORER_HOST:',
         })
       }
 
       domainConfig = {
-        ADMIN_SYSTEM_DASHBOARD_URI: await input({
+        ADMIN_SYSTEM_DASHBOARD_URI: await this.prompter.input('ADMIN_SYSTEM_DASHBOARD_URI', {
           default:
             existingConfig.frontend?.ADMIN_SYSTEM_DASHBOARD_URI ||
             `${protocol}://${ingressConfig.ADMIN_SYSTEM_DASHBOARD_HOST}`,
           message: 'Enter ADMIN_SYSTEM_DASHBOARD_URI:',
         }),
-        BRIDGE_API_URI: await input({
+        BRIDGE_API_URI: await this.prompter.input('BRIDGE_API_URI', {
           default:
             existingConfig.frontend?.BRIDGE_API_URI || `${protocol}://${ingressConfig.BRIDGE_HISTORY_API_HOST}/api`,
           message: 'Enter BRIDGE_API_URI:',
         }),
-        EXTERNAL_EXPLORER_URI_L2: await input({
+        EXTERNAL_EXPLORER_URI_L2: await this.prompter.input('EXTERNAL_EXPLORER_URI_L2', {
           default:
             existingConfig.frontend?.EXTERNAL_EXPLORER_URI_L2 || `${protocol}://${ingressConfig.BLOCKSCOUT_HOST}`,
           message: 'Enter EXTERNAL_EXPLORER_URI_L2:',
         }),
-        EXTERNAL_RPC_URI_L2: await input({
+        EXTERNAL_RPC_URI_L2: await this.prompter.input('EXTERNAL_RPC_URI_L2', {
           default: existingConfig.frontend?.EXTERNAL_RPC_URI_L2 || `${protocol}://${ingressConfig.RPC_GATEWAY_HOST}`,
           message: 'Enter EXTERNAL_RPC_URI_L2:',
         }),
-        GRAFANA_URI: await input({
+        GRAFANA_URI: await this.prompter.input('GRAFANA_URI', {
           default: existingConfig.frontend?.GRAFANA_URI || `${protocol}://${ingressConfig.GRAFANA_HOST}`,
           message: 'Enter GRAFANA_URI:',
         }),
-        ROLLUPSCAN_API_URI: await input({
+        ROLLUPSCAN_API_URI: await this.prompter.input('ROLLUPSCAN_API_URI', {
           default:
             existingConfig.frontend?.ROLLUPSCAN_API_URI ||
             `${protocol}://${ingressConfig.ROLLUP_EXPLORER_API_HOST}/api`,
@@ -407,11 +372,11 @@ export default class SetupDomains extends Command {
       }
 
       if (usesAnvil) {
-        domainConfig.EXTERNAL_RPC_URI_L1 = await input({
+        domainConfig.EXTERNAL_RPC_URI_L1 = await this.prompter.input('EXTERNAL_RPC_URI_L1', {
           default: existingConfig.frontend?.EXTERNAL_RPC_URI_L1 || `${protocol}://l1-devnet.scrollsdk`,
           message: 'Enter EXTERNAL_RPC_URI_L1:',
         })
-        domainConfig.EXTERNAL_EXPLORER_URI_L1 = await input({
+        domainConfig.EXTERNAL_EXPLORER_URI_L1 = await this.prompter.input('EXTERNAL_EXPLORER_URI_L1', {
           default: existingConfig.frontend?.EXTERNAL_EXPLORER_URI_L1 || `${protocol}://l1-explorer.scrollsdk`,
           message: 'Enter EXTERNAL_EXPLORER_URI_L1:',
         })
@@ -427,43 +392,20 @@ export default class SetupDomains extends Command {
     generalConfig: Record<string, string>,
   ): Promise<void> {
     const configPath = path.join(process.cwd(), 'config.toml')
-    const existingConfig = await this.getExistingConfig()
-
-    // Ensure sections exist
-    if (!existingConfig.frontend) existingConfig.frontend = {}
-    if (!existingConfig.ingress) existingConfig.ingress = {}
-    if (!existingConfig.general) existingConfig.general = {}
+    const document = TomlDocument.load(configPath)
 
     // Update only the specified keys
-    for (const [key, value] of Object.entries(generalConfig)) {
-      existingConfig.general[key] = value
-    }
-
-    for (const [key, value] of Object.entries(domainConfig)) {
-      existingConfig.frontend[key] = value
-    }
-
-    for (const [key, value] of Object.entries(ingressConfig)) {
-      existingConfig.ingress[key] = value
+    document.setAll('general', generalConfig)
+    document.setAll('frontend', domainConfig)
+    document.setAll('ingress', ingressConfig)
+
+    // Remove the L1 devnet and explorer hosts from ingress if not using Anvil
+    if (generalConfig.CHAIN_NAME_L1 !== 'Anvil L1') {
+      document.delete('ingress', 'L1_DEVNET_HOST')
+      document.delete('ingress', 'L1_EXPLORER_HOST')
     }
 
-    // Remove L1_DEVNET_HOST from ingress if not using Anvil
-    if (generalConfig.CHAIN_NAME_L1 !== 'Anvil L1' && existingConfig.ingress.L1_DEVNET_HOST) {
-      delete existingConfig.ingress.L1_DEVNET_HOST
-    }
-
-    // Remove L1_EXPLORER_HOST from ingress if not using Anvil
-    if (generalConfig.CHAIN_NAME_L1 !== 'Anvil L1' && existingConfig.ingress.L1_EXPLORER_HOST) {
-      delete existingConfig.ingress.L1_EXPLORER_HOST
-    }
-
-    // Convert the updated config back to TOML string
-    const updatedContent = toml.stringify(existingConfig)
-
-    // Merge the updated content with the original content to preserve comments
-    const mergedContent = this.mergeTomlContent(fs.readFileSync(configPath, 'utf8'), updatedContent)
-
-    fs.writeFileSync(configPath, mergedContent)
+    document.save()
     this.logSuccess('config.toml has been updated with the new domain configurations.')
   }
 }
@@ -1,44 +1,42 @@
 import { Command } from '@oclif/core'
-import { confirm, input, select } from '@inquirer/prompts'
 import * as fs from 'fs'
 import * as path from 'path'
-import * as toml from '@iarna/toml'
 import chalk from 'chalk'
 import { ethers } from 'ethers'
 
+import { loadConfig } from '../../utils/config-parser.js'
+import { ScrollSdkConfig, isEnabled } from '../../utils/config-schema.js'
+import { Prompter, promptFlags } from '../../utils/prompts.js'
+import { TomlDocument } from '../../utils/toml-editor.js'
+
 export default class SetupGasToken extends Command {
   static override description = 'Set up gas token configurations'
 
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
-  private async getExistingConfig(): Promise<any> {
+  static override flags = {
+    ...promptFlags,
+  }
+
+  private prompter!: Prompter
+
+  private async getExistingConfig(): Promise<ScrollSdkConfig> {
     const configPath = path.join(process.cwd(), 'config.toml')
     if (!fs.existsSync(configPath)) {
       this.error('config.toml not found in the current directory.')
-      return {}
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    return toml.parse(configContent) as any
+    return loadConfig(configPath)
   }
 
   private async updateConfigFile(gasConfig: Record<string, string | boolean | number>): Promise<void> {
     const configPath = path.join(process.cwd(), 'config.toml')
-    const existingConfig = await this.getExistingConfig()
-
-    if (!existingConfig['gas-token']) {
-      existingConfig['gas-token'] = {}
-    }
-
-    // Update gas-token configurations
-    Object.entries(gasConfig).forEach(([key, value]) => {
-      existingConfig['gas-token'][key] = value
-    })
-
-    const updatedContent = toml.stringify(existingConfig)
-    fs.writeFileSync(configPath, updatedContent)
+    const document = TomlDocument.load(configPath)
+    document.setAll('gas-token', gasConfig)
+    document.save()
     this.log(chalk.green('config.toml has been updated with the new gas token configurations.'))
   }
 
@@ -80,15 +78,48 @@ export default class SetupGasToken extends Command {
     })
   }
 
+  private async promptL1GasToken(existingAddress?: string): Promise<string> {
+    let tokenAddress: string
+    let isValidAddress = false
+    let continueAnyway = false
+
+    do {
+      tokenAddress = await this.prompter.input('L1_GAS_TOKEN', {
+        default: existingAddress || '',
+        message: chalk.cyan('Enter the L1 ERC20 token address:'),
+        validate: (value) => ethers.isAddress(value) || 'Please enter a valid Ethereum address',
+      })
+
+      isValidAddress = await this.checkL1TokenExists(tokenAddress)
+      if (!isValidAddress) {
+        this.log(chalk.yellow('The provided address does not contain a contract.'))
+        continueAnyway = await this.prompter.confirm('continue-without-contract', {
+          default: false,
+          message: chalk.cyan('Do you want to continue anyway?'),
+        })
+
+        // Without a person at the prompt the same address would come back, so stop instead of looping.
+        if (!continueAnyway && !this.prompter.isInteractive('L1_GAS_TOKEN')) {
+          this.error(`No contract found at L1_GAS_TOKEN ${tokenAddress}.`)
+        }
+      }
+    } while (!isValidAddress && !continueAnyway)
+
+    return tokenAddress
+  }
+
   public async run(): Promise<void> {
+    const { flags } = await this.parse(SetupGasToken)
+    this.prompter = Prompter.fromFlags('gas-token', flags)
+
     this.log(chalk.blue('Setting up gas token configurations...'))
 
     const existingConfig = await this.getExistingConfig()
     const existingGasToken = existingConfig['gas-token'] || {}
 
-    const useAlternativeToken = await confirm({
+    const useAlternativeToken = await this.prompter.confirm('ALTERNATIVE_GAS_TOKEN_ENABLED', {
       message: chalk.cyan('Do you want to use an alternative gas token?'),
-      default: existingGasToken.ALTERNATIVE_GAS_TOKEN_ENABLED || false
+      default: isEnabled(existingGasToken.ALTERNATIVE_GAS_TOKEN_ENABLED)
     })
 
     let gasConfig: Record<string, string | boolean | number> = {
@@ -96,7 +127,7 @@ export default class SetupGasToken extends Command {
     }
 
     if (useAlternativeToken) {
-      const deploymentChoice = await select({
+      const deploymentChoice = await this.prompter.select('deployment', {
         message: chalk.cyan('How do you want to set up the gas token?'),
         choices: [
           { name: 'Use an existing L1 ERC20 token', value: 'existing' },
@@ -106,30 +137,9 @@ export default class SetupGasToken extends Command {
       })
 
       if (deploymentChoice === 'existing') {
-        let tokenAddress: string
-        let isValidAddress = false
-        let continueAnyway = false
-
-        do {
-          tokenAddress = await input({
-            message: chalk.cyan('Enter the L1 ERC20 token address:'),
-            default: existingGasToken.L1_GAS_TOKEN || '',
-            validate: (value) => ethers.isAddress(value) || 'Please enter a valid Ethereum address',
-          })
-
-          isValidAddress = await this.checkL1TokenExists(tokenAddress)
-          if (!isValidAddress) {
-            this.log(chalk.yellow('The provided address does not contain a contract.'))
-            continueAnyway = await confirm({
-              message: chalk.cyan('Do you want to continue anyway?'),
-              default: false
-            })
-          }
-        } while (!isValidAddress && !continueAnyway)
-
-        gasConfig.L1_GAS_TOKEN = tokenAddress
+        gasConfig.L1_GAS_TOKEN = await this.promptL1GasToken(existingGasToken.L1_GAS_TOKEN)
       } else {
-        const tokenDecimals = await input({
+        const tokenDecimals = await this.prompter.input('EXAMPLE_GAS_TOKEN_DECIMAL', {
           message: chalk.cyan('Enter the number of decimals for the example gas token:'),
           default: existingGasToken.EXAMPLE_GAS_TOKEN_DECIMAL?.toString() || '18',
           validate: (value) => {
@@ -144,7 +154,7 @@ export default class SetupGasToken extends Command {
 
     await this.displayChanges(gasConfig)
 
-    const confirmChanges = await confirm({
+    const confirmChanges = await this.prompter.confirm('confirm-update', {
       message: chalk.cyan('Do you want to apply these changes?'),
       default: true
     })
@@ -2,12 +2,15 @@ import { Command, Flags } from '@oclif/core'
 import { Wallet, ethers } from 'ethers'
 import * as fs from 'fs'
 import * as path from 'path'
-import { confirm, password as input, input as textInput } from '@inquirer/prompts'
-import * as toml from '@iarna/toml'
 import chalk from 'chalk'
 import { isAddress } from 'ethers'
 import crypto from 'crypto'
 
+import { loadConfig } from '../../utils/config-parser.js'
+import { ScrollSdkConfig, SequencerNodeConfig } from '../../utils/config-schema.js'
+import { Prompter, promptFlags } from '../../utils/prompts.js'
+import { TomlDocument } from '../../utils/toml-editor.js'
+
 interface KeyPair {
   privateKey: string
   address: string
@@ -30,6 +33,7 @@ export default class SetupGenKeystore extends Command {
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --no-accounts',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
   static override flags = {
@@ -38,21 +42,22 @@ export default class SetupGenKeystore extends Command {
       allowNo: true,
       default: true,
     }),
+    ...promptFlags,
   }
 
-  private async getExistingConfig(): Promise<any> {
+  private prompter!: Prompter
+
+  private async getExistingConfig(): Promise<ScrollSdkConfig> {
     const configPath = path.join(process.cwd(), 'config.toml')
     if (!fs.existsSync(configPath)) {
       this.error('config.toml not found in the current directory.')
-      return {}
     }
 
-    const configContent = fs.readFileSync(configPath, 'utf-8')
-    return toml.parse(configContent) as any
+    return loadConfig(configPath)
   }
 
   private async generateSequencerKeystore(index: number): Promise<SequencerData> {
-    const password = await input({ message: `Enter a password for sequencer-${index} keystore:` })
+    const password = await this.prompter.password(`sequencer-${index}.password`, { message: `Enter a password for sequencer-${index} keystore:` })
     const wallet = Wallet.createRandom()
     const encryptedJson = await wallet.encrypt(password)
     return {
@@ -91,6 +96,15 @@ export default class SetupGenKeystore extends Command {
     return crypto.randomBytes(bytes).toString('hex')
   }
 
+  private sequencerEntries(data: SequencerData): Record<string, string> {
+    return {
+      L2GETH_SIGNER_ADDRESS: data.address,
+      L2GETH_KEYSTORE: data.keystoreJson,
+      L2GETH_PASSWORD: data.password,
+      L2GETH_NODEKEY: data.nodekey,
+    }
+  }
+
   private async updateConfigToml(
     sequencerData: SequencerData[],
     bootnodeData: BootnodeData[],
@@ -101,164 +115,127 @@ export default class SetupGenKeystore extends Command {
   ): Promise<void> {
     const configPath = path.join(process.cwd(), 'config.toml')
     const existingConfig = await this.getExistingConfig()
+    const document = TomlDocument.load(configPath)
 
-    // Create a new object to store the updated config
-    let updatedConfig: Record<string, any> = {}
-
-    // Helper function to add or update a section
-    const addOrUpdateSection = (key: string, value: any) => {
-      if (key === 'sequencer') {
-        updatedConfig[key] = value || {}
-        const enodeUrls = sequencerData.map((data, index) => this.getEnodeUrl(data.nodekey, index))
-        updatedConfig[key].L2_GETH_STATIC_PEERS = enodeUrls
-
-        // If overwriting or no existing data, add the first sequencer data to the main sequencer section
-        if (overwriteSequencers || !updatedConfig[key].L2GETH_SIGNER_ADDRESS) {
-          if (sequencerData.length > 0) {
-            const firstSequencer = sequencerData[0]
-            updatedConfig[key].L2GETH_SIGNER_ADDRESS = firstSequencer.address
-            updatedConfig[key].L2GETH_KEYSTORE = firstSequencer.keystoreJson
-            updatedConfig[key].L2GETH_PASSWORD = firstSequencer.password
-            updatedConfig[key].L2GETH_NODEKEY = firstSequencer.nodekey
-          }
-        }
+    const enodeUrls = sequencerData.map((data, index) => this.getEnodeUrl(data.nodekey, index))
+    document.set('sequencer', 'L2_GETH_STATIC_PEERS', enodeUrls)
 
-        // If overwriting, remove all existing sequencer subsections
-        if (overwriteSequencers) {
-          Object.keys(updatedConfig[key]).forEach(subKey => {
-            if (subKey.startsWith('sequencer-')) {
-              delete updatedConfig[key][subKey]
-            }
-          })
-        }
+    // If overwriting or no existing data, add the first sequencer data to the main sequencer section
+    if ((overwriteSequencers || !existingConfig.sequencer?.L2GETH_SIGNER_ADDRESS) && sequencerData.length > 0) {
+      document.setAll('sequencer', this.sequencerEntries(sequencerData[0]))
+    }
 
-        // Add sequencer subsections starting from sequencer-1
-        sequencerData.slice(1).forEach((data, index) => {
-          const subKey = `sequencer-${index + 1}`
-          updatedConfig[key][subKey] = {
-            L2GETH_SIGNER_ADDRESS: data.address,
-            L2GETH_KEYSTORE: data.keystoreJson,
-            L2GETH_PASSWORD: data.password,
-            L2GETH_NODEKEY: data.nodekey,
-          }
-        })
-      } else if (key === 'bootnode') {
-        updatedConfig[key] = value || {}
-
-        // If overwriting, remove all existing bootnode subsections
-        if (overwriteBootnodes) {
-          Object.keys(updatedConfig[key]).forEach(subKey => {
-            if (subKey.startsWith('bootnode-')) {
-              delete updatedConfig[key][subKey]
-            }
-          })
-        }
+    // If overwriting, remove all existing sequencer and bootnode subsections
+    for (const section of document.sections()) {
+      if (
+        (overwriteSequencers && section.startsWith('sequencer.sequencer-')) ||
+        (overwriteBootnodes && section.startsWith('bootnode.bootnode-'))
+      ) {
+        document.deleteSection(section)
+      }
+    }
 
-        // Add bootnode subsections
-        bootnodeData.forEach((data, index) => {
-          const subKey = `bootnode-${index}`
-          updatedConfig[key][subKey] = {
-            L2GETH_NODEKEY: data.nodekey,
-          }
-        })
-      } else if (key === 'accounts') {
-        updatedConfig[key] = value || {}
-        for (const [accountKey, accountValue] of Object.entries(accounts)) {
-          if (accountKey === 'OWNER') {
-            updatedConfig[key].OWNER_ADDR = accountValue.address
-            delete updatedConfig[key].OWNER_PRIVATE_KEY
-          } else {
-            updatedConfig[key][`${accountKey}_PRIVATE_KEY`] = accountValue.privateKey
-            updatedConfig[key][`${accountKey}_ADDR`] = accountValue.address
-          }
-        }
-      } else if (key === 'coordinator') {
-        updatedConfig[key] = value || {}
-        if (coordinatorJwtSecretKey) {
-          updatedConfig[key].COORDINATOR_JWT_SECRET_KEY = coordinatorJwtSecretKey
-        }
+    // Add sequencer subsections starting from sequencer-1
+    sequencerData.slice(1).forEach((data, index) => {
+      document.setAll(`sequencer.sequencer-${index + 1}`, this.sequencerEntries(data))
+    })
+
+    // Add bootnode subsections
+    bootnodeData.forEach((data, index) => {
+      document.set(`bootnode.bootnode-${index}`, 'L2GETH_NODEKEY', data.nodekey)
+    })
+
+    for (const [accountKey, accountValue] of Object.entries(accounts)) {
+      if (accountKey === 'OWNER') {
+        document.set('accounts', 'OWNER_ADDR', accountValue.address)
+        document.delete('accounts', 'OWNER_PRIVATE_KEY')
       } else {
-        updatedConfig[key] = value
+        document.set('accounts', `${accountKey}_PRIVATE_KEY`, accountValue.privateKey)
+        document.set('accounts', `${accountKey}_ADDR`, accountValue.address)
       }
     }
 
-    // Iterate through existing config to maintain order
-    for (const [key, value] of Object.entries(existingConfig)) {
-      addOrUpdateSection(key, value)
+    if (coordinatorJwtSecretKey) {
+      document.set('coordinator', 'COORDINATOR_JWT_SECRET_KEY', coordinatorJwtSecretKey)
     }
 
-    // Add new sections if they didn't exist in the original config
-    if (!updatedConfig.sequencer) addOrUpdateSection('sequencer', null)
-    if (!updatedConfig.bootnode) addOrUpdateSection('bootnode', null)
-    if (!updatedConfig.accounts) addOrUpdateSection('accounts', null)
-    if (coordinatorJwtSecretKey && !updatedConfig.coordinator) addOrUpdateSection('coordinator', null)
-
-    fs.writeFileSync(configPath, toml.stringify(updatedConfig))
+    document.save()
     this.log(chalk.green('config.toml updated successfully'))
   }
 
   private async getOwnerAddress(existingOwnerAddr: string | undefined): Promise<string | undefined> {
-    const useManualAddress = await confirm({
+    const useManualAddress = await this.prompter.confirm('manual-owner', {
       message: 'Do you want to manually provide an Owner wallet address?',
       default: !!existingOwnerAddr,
     })
     if (useManualAddress) {
-      let ownerAddress: string | undefined
-      while (!ownerAddress) {
-        const input = await textInput({
-          message: 'Enter the Owner wallet address:',
-          default: existingOwnerAddr,
-        })
-        if (isAddress(input)) {
-          ownerAddress = input
-        } else {
-          this.log(chalk.red('Invalid Ethereum address format. Please try again.'))
-        }
-      }
-      return ownerAddress
+      return this.prompter.input('OWNER_ADDR', {
+        message: 'Enter the Owner wallet address:',
+        default: existingOwnerAddr,
+        validate: (value) => isAddress(value) || 'Invalid Ethereum address format. Please try again.',
+      })
     }
     return undefined
   }
 
+  private readExistingSequencers(config: ScrollSdkConfig): SequencerData[] {
+    const sequencer = config.sequencer
+    if (!sequencer) return []
+
+    const nodes: SequencerNodeConfig[] = []
+    if (sequencer.L2GETH_SIGNER_ADDRESS) nodes.push(sequencer)
+    for (const [key, value] of Object.entries(sequencer)) {
+      if (!key.startsWith('sequencer-')) continue
+      const node = value as SequencerNodeConfig
+      if (Object.values(node).some(field => field !== '')) nodes.push(node)
+    }
+
+    return nodes.map(node => ({
+      address: node.L2GETH_SIGNER_ADDRESS ?? '',
+      keystoreJson: node.L2GETH_KEYSTORE ?? '',
+      password: node.L2GETH_PASSWORD ?? '',
+      nodekey: node.L2GETH_NODEKEY ?? '',
+    }))
+  }
+
+  private readExistingBootnodes(config: ScrollSdkConfig): BootnodeData[] {
+    return Object.entries(config.bootnode ?? {})
+      .filter(([key, value]) => key.startsWith('bootnode-') && value.L2GETH_NODEKEY)
+      .map(([, value]) => ({ nodekey: value.L2GETH_NODEKEY! }))
+  }
+
   private async generateBootnodeNodekey(): Promise<string> {
     return Wallet.createRandom().privateKey.slice(2) // Remove '0x' prefix
   }
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(SetupGenKeystore)
+    this.prompter = Prompter.fromFlags('gen-keystore', flags)
     const existingConfig = await this.getExistingConfig()
 
     this.log(chalk.blue('Setting up Sequencer keystores, bootnode nodekeys, L2 account keypairs, and coordinator JWT secret key...'))
 
     // Handle sequencer keystores
-    const changeSequencerKeys = await confirm({
+    const changeSequencerKeys = await this.prompter.confirm('change-sequencer-keys', {
       message: 'Do you want to change your sequencer keys?',
       default: false,
     })
 
     let sequencerData: SequencerData[] = []
     let overwrite = false;
+    const existingSequencerData = this.readExistingSequencers(existingConfig)
 
     if (changeSequencerKeys) {
-      const existingSequencers = (existingConfig.sequencer && existingConfig.sequencer.L2GETH_SIGNER_ADDRESS ? 1 : 0) +
-        (existingConfig.sequencer
-          ? Object.keys(existingConfig.sequencer)
-            .filter(key => key.startsWith('sequencer-'))
-            .filter(key => {
-              const section = existingConfig.sequencer[key];
-              return section && Object.values(section).some(value => value !== '');
-            })
-            .length
-          : 0);
-
-      const backupCount = await textInput({
+      const existingSequencers = existingSequencerData.length
+
+      const backupCount = await this.prompter.input('backup-sequencers', {
         message: `How many backup sequencers do you want to run? (Current: ${Math.max(0, existingSequencers - 1)}, suggested: 1)`,
         default: '1',
       })
       const totalSequencers = parseInt(backupCount) + 1
 
       if (existingSequencers > 0) {
-        const action = await textInput({
+        const action = await this.prompter.input('sequencer-action', {
           message: 'Do you want to (a)dd additional keystores or (o)verwrite existing ones?',
           default: 'a',
         })
@@ -268,46 +245,10 @@ export default class SetupGenKeystore extends Command {
           if (totalSequencers <= existingSequencers) {
             this.log(chalk.yellow(`You already have ${existingSequencers} sequencer(s). No new sequencers will be added.`))
             // Keep existing sequencer data
-            if (existingConfig.sequencer.L2GETH_SIGNER_ADDRESS) {
-              sequencerData.push({
-                address: existingConfig.sequencer.L2GETH_SIGNER_ADDRESS,
-                keystoreJson: existingConfig.sequencer.L2GETH_KEYSTORE,
-                password: existingConfig.sequencer.L2GETH_PASSWORD,
-                nodekey: existingConfig.sequencer.L2GETH_NODEKEY,
-              })
-            }
-            for (let i = 1; i < existingSequencers; i++) {
-              const sectionName = `sequencer-${i}`
-              if (existingConfig.sequencer[sectionName] && Object.values(existingConfig.sequencer[sectionName]).some(value => value !== '')) {
-                sequencerData.push({
-                  address: existingConfig.sequencer[sectionName].L2GETH_SIGNER_ADDRESS,
-                  keystoreJson: existingConfig.sequencer[sectionName].L2GETH_KEYSTORE,
-                  password: existingConfig.sequencer[sectionName].L2GETH_PASSWORD,
-                  nodekey: existingConfig.sequencer[sectionName].L2GETH_NODEKEY,
-                })
-              }
-            }
+            sequencerData.push(...existingSequencerData)
           } else {
             // Keep existing sequencer data
-            if (existingConfig.sequencer.L2GETH_SIGNER_ADDRESS) {
-              sequencerData.push({
-                address: existingConfig.sequencer.L2GETH_SIGNER_ADDRESS,
-                keystoreJson: existingConfig.sequencer.L2GETH_KEYSTORE,
-                password: existingConfig.sequencer.L2GETH_PASSWORD,
-                nodekey: existingConfig.sequencer.L2GETH_NODEKEY,
-              })
-            }
-            for (let i = 1; i < existingSequencers; i++) {
-              const sectionName = `sequencer-${i}`
-              if (existingConfig.sequencer[sectionName] && Object.values(existingConfig.sequencer[sectionName]).some(value => value !== '')) {
-                sequencerData.push({
-                  address: existingConfig.sequencer[sectionName].L2GETH_SIGNER_ADDRESS,
-                  keystoreJson: existingConfig.sequencer[sectionName].L2GETH_KEYSTORE,
-                  password: existingConfig.sequencer[sectionName].L2GETH_PASSWORD,
-                  nodekey: existingConfig.sequencer[sectionName].L2GETH_NODEKEY,
-                })
-              }
-            }
+            sequencerData.push(...existingSequencerData)
             // Add new sequencers
             for (let i = existingSequencers; i < totalSequencers; i++) {
               sequencerData.push(await this.generateSequencerKeystore(i))
@@ -330,55 +271,29 @@ export default class SetupGenKeystore extends Command {
       }
     } else {
       // Keep existing sequencer data
-      if (existingConfig.sequencer) {
-        if (existingConfig.sequencer.L2GETH_SIGNER_ADDRESS) {
-          sequencerData.push({
-            address: existingConfig.sequencer.L2GETH_SIGNER_ADDRESS,
-            keystoreJson: existingConfig.sequencer.L2GETH_KEYSTORE,
-            password: existingConfig.sequencer.L2GETH_PASSWORD,
-            nodekey: existingConfig.sequencer.L2GETH_NODEKEY,
-          })
-        }
-        Object.keys(existingConfig.sequencer).forEach(key => {
-          if (key.startsWith('sequencer-') && Object.values(existingConfig.sequencer[key]).some(value => value !== '')) {
-            sequencerData.push({
-              address: existingConfig.sequencer[key].L2GETH_SIGNER_ADDRESS,
-              keystoreJson: existingConfig.sequencer[key].L2GETH_KEYSTORE,
-              password: existingConfig.sequencer[key].L2GETH_PASSWORD,
-              nodekey: existingConfig.sequencer[key].L2GETH_NODEKEY,
-            })
-          }
-        })
-      }
+      sequencerData.push(...existingSequencerData)
     }
 
     let bootnodeData: BootnodeData[] = []
     let overwriteBootnodes = false
+    const existingBootnodeData = this.readExistingBootnodes(existingConfig)
 
-    const changeBootnodeKeys = await confirm({
+    const changeBootnodeKeys = await this.prompter.confirm('change-bootnode-keys', {
       message: 'Do you want to change your bootnode keys?',
       default: false,
     })
 
     if (changeBootnodeKeys) {
-      const existingBootnodes = existingConfig.bootnode
-        ? Object.keys(existingConfig.bootnode)
-          .filter(key => key.startsWith('bootnode-'))
-          .filter(key => {
-            const section = existingConfig.bootnode[key];
-            return section && section.L2GETH_NODEKEY !== '';
-          })
-          .length
-        : 0;
-
-      const bootnodeCount = await textInput({
+      const existingBootnodes = existingBootnodeData.length
+
+      const bootnodeCount = await this.prompter.input('bootnodes', {
         message: `How many bootnodes do you want to run? (Current: ${existingBootnodes}, suggested: 2)`,
         default: '2',
       })
       const totalBootnodes = parseInt(bootnodeCount)
 
       if (existingBootnodes > 0) {
-        const action = await textInput({
+        const action = await this.prompter.input('bootnode-action', {
           message: 'Do you want to (a)dd additional bootnode keys or (o)verwrite existing ones?',
           default: 'a',
         })
@@ -388,24 +303,10 @@ export default class SetupGenKeystore extends Command {
           if (totalBootnodes <= existingBootnodes) {
             this.log(chalk.yellow(`You already have ${existingBootnodes} bootnode(s). No new bootnodes will be added.`))
             // Keep existing bootnode data
-            for (let i = 0; i < existingBootnodes; i++) {
-              const sectionName = `bootnode-${i}`
-              if (existingConfig.bootnode[sectionName] && existingConfig.bootnode[sectionName].L2GETH_NODEKEY) {
-                bootnodeData.push({
-                  nodekey: existingConfig.bootnode[sectionName].L2GETH_NODEKEY,
-                })
-              }
-            }
+            bootnodeData.push(...existingBootnodeData)
           } else {
             // Keep existing bootnode data
-            for (let i = 0; i < existingBootnodes; i++) {
-              const sectionName = `bootnode-${i}`
-              if (existingConfig.bootnode[sectionName] && existingConfig.bootnode[sectionName].L2GETH_NODEKEY) {
-                bootnodeData.push({
-                  nodekey: existingConfig.bootnode[sectionName].L2GETH_NODEKEY,
-                })
-              }
-            }
+            bootnodeData.push(...existingBootnodeData)
             // Add new bootnode keys
             for (let i = existingBootnodes; i < totalBootnodes; i++) {
               bootnodeData.push({ nodekey: await this.generateBootnodeNodekey() })
@@ -428,35 +329,28 @@ export default class SetupGenKeystore extends Command {
       }
     } else {
       // Keep existing bootnode data
-      if (existingConfig.bootnode) {
-        Object.keys(existingConfig.bootnode).forEach(key => {
-          if (key.startsWith('bootnode-') && existingConfig.bootnode[key].L2GETH_NODEKEY) {
-            bootnodeData.push({
-              nodekey: existingConfig.bootnode[key].L2GETH_NODEKEY,
-            })
-          }
-        })
-      }
+      bootnodeData.push(...existingBootnodeData)
     }
 
     let accounts: Record<string, KeyPair> = {}
     if (flags.accounts) {
-      const generateAccounts = await confirm({
+      const generateAccounts = await this.prompter.confirm('generate-accounts', {
         message: 'Do you want to generate account key pairs?',
         default: true,
       })
 
       if (generateAccounts) {
         this.log(chalk.blue('Generating account key pairs...'))
-        const accountTypes = ['DEPLOYER', 'L1_COMMIT_SENDER', 'L1_FINALIZE_SENDER', 'L1_GAS_ORACLE_SENDER', 'L2_GAS_ORACLE_SENDER']
+        const accountTypes = ['DEPLOYER', 'L1_COMMIT_SENDER', 'L1_FINALIZE_SENDER', 'L1_GAS_ORACLE_SENDER', 'L2_GAS_ORACLE_SENDER'] as const
 
         for (const accountType of accountTypes) {
-          if (!existingConfig.accounts?.[`${accountType}_PRIVATE_KEY`]) {
+          const existingPrivateKey = existingConfig.accounts?.[`${accountType}_PRIVATE_KEY`]
+          if (!existingPrivateKey) {
             accounts[accountType] = this.generateKeyPair()
           } else {
             accounts[accountType] = {
-              privateKey: existingConfig.accounts[`${accountType}_PRIVATE_KEY`],
-              address: existingConfig.accounts[`${accountType}_ADDR`],
+              privateKey: existingPrivateKey,
+              address: existingConfig.accounts?.[`${accountType}_ADDR`] ?? new Wallet(existingPrivateKey).address,
             }
           }
         }
@@ -485,7 +379,7 @@ export default class SetupGenKeystore extends Command {
 
     let coordinatorJwtSecretKey: string | undefined
 
-    const generateJwtSecret = await confirm({
+    const generateJwtSecret = await this.prompter.confirm('generate-jwt-secret', {
       message: 'Do you want to generate a random COORDINATOR_JWT_SECRET_KEY?',
       default: !existingConfig.coordinator?.COORDINATOR_JWT_SECRET_KEY,
     })
@@ -494,7 +388,7 @@ export default class SetupGenKeystore extends Command {
       this.log(chalk.green(`Generated COORDINATOR_JWT_SECRET_KEY: ${coordinatorJwtSecretKey}`))
     }
 
-    const updateConfig = await confirm({ message: 'Do you want to update these values in config.toml?' })
+    const updateConfig = await this.prompter.confirm('confirm-update', { message: 'Do you want to update these values in config.toml?' })
 
     if (updateConfig) {
       await this.updateConfigToml(
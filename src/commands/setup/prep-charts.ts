@@ -4,10 +4,12 @@ import * as path from 'path'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import * as yaml from 'js-yaml'
-import * as toml from '@iarna/toml'
-import { confirm } from '@inquirer/prompts'
 import chalk from 'chalk'
 
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ContractsConfig, ScrollSdkConfig } from '../../utils/config-schema.js'
+import { Prompter, promptFlags } from '../../utils/prompts.js'
+
 const execAsync = promisify(exec)
 
 export default class SetupPrepCharts extends Command {
@@ -18,6 +20,7 @@ export default class SetupPrepCharts extends Command {
     '<%= config.bin %> <%= command.id %> --github-username=your-username --github-token=your-token',
     '<%= config.bin %> <%= command.id %> --values-dir=./custom-values',
     '<%= config.bin %> <%= command.id %> --skip-auth-check',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
   static override flags = {
@@ -25,6 +28,7 @@ export default class SetupPrepCharts extends Command {
     'github-token': Flags.string({ description: 'GitHub Personal Access Token', required: false }),
     'values-dir': Flags.string({ description: 'Directory containing values files', default: './values' }),
     'skip-auth-check': Flags.boolean({ description: 'Skip authentication check for individual charts', default: false }),
+    ...promptFlags,
   }
 
   private configMapping: Record<string, string | ((chartName: string, productionNumber: string) => string)> = {
@@ -63,23 +67,22 @@ export default class SetupPrepCharts extends Command {
     // Add more mappings as needed
   }
 
-  private configData: any = {}
-  private contractsConfig: any = {}
+  private configData: ScrollSdkConfig = {}
+  private contractsConfig: ContractsConfig = {}
+  private prompter!: Prompter
 
   private loadConfigs(): void {
     const configPath = path.join(process.cwd(), 'config.toml')
     const contractsConfigPath = path.join(process.cwd(), 'config-contracts.toml')
 
     if (fs.existsSync(configPath)) {
-      const configContent = fs.readFileSync(configPath, 'utf-8')
-      this.configData = toml.parse(configContent)
+      this.configData = loadConfig(configPath)
     } else {
       this.warn('config.toml not found. Some values may not be populated correctly.')
     }
 
     if (fs.existsSync(contractsConfigPath)) {
-      const contractsConfigContent = fs.readFileSync(contractsConfigPath, 'utf-8')
-      this.contractsConfig = toml.parse(contractsConfigContent)
+      this.contractsConfig = loadContractsConfig(contractsConfigPath)
     } else {
       this.warn('config-contracts.toml not found. Some values may not be populated correctly.')
     }
@@ -284,7 +287,7 @@ export default class SetupPrepCharts extends Command {
           this.log(`  ${chalk.yellow(change.key)}: ${change.oldValue} -> ${change.newValue}`)
         }
 
-        const shouldUpdate = await confirm({ message: `Do you want to apply these changes to ${file}?` })
+        const shouldUpdate = await this.prompter.scoped(file).confirm('apply-changes', { message: `Do you want to apply these changes to ${file}?` })
         if (shouldUpdate) {
           const yamlString = yaml.dump(productionYaml, {
             lineWidth: -1,
@@ -367,6 +370,7 @@ export default class SetupPrepCharts extends Command {
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(SetupPrepCharts)
+    this.prompter = Prompter.fromFlags('prep-charts', flags)
 
     this.log('Starting chart preparation...')
 
@@ -383,7 +387,7 @@ export default class SetupPrepCharts extends Command {
 
     let skipAuthCheck = flags['skip-auth-check']
     if (!skipAuthCheck) {
-      skipAuthCheck = !(await confirm({ message: 'Do you want to perform authentication checks for individual charts?' }))
+      skipAuthCheck = !(await this.prompter.confirm('auth-check', { message: 'Do you want to perform authentication checks for individual charts?' }))
     }
 
     // Validate Makefile
@@ -1,4 +1,3 @@
-import { confirm, input, select } from '@inquirer/prompts'
 import { Command, Flags } from '@oclif/core'
 import chalk from 'chalk'
 import { exec } from 'child_process'
@@ -7,6 +6,8 @@ import * as yaml from 'js-yaml'
 import * as path from 'path'
 import { promisify } from 'util'
 
+import { Prompter, promptFlags } from '../../utils/prompts.js'
+
 const execAsync = promisify(exec)
 
 interface SecretService {
@@ -14,7 +15,7 @@ interface SecretService {
 }
 
 class AWSSecretService implements SecretService {
-  constructor(private region: string, private prefixName: string, private debug: boolean) { }
+  constructor(private region: string, private prefixName: string, private debug: boolean, private prompter: Prompter) { }
 
   private async secretExists(secretName: string): Promise<boolean> {
     const fullSecretName = `${this.prefixName}/${secretName}`
@@ -35,7 +36,7 @@ class AWSSecretService implements SecretService {
     const escapedJsonContent = jsonContent.replace(/'/g, "'\\''")
 
     if (await this.secretExists(secretName)) {
-      const shouldOverride = await confirm({
+      const shouldOverride = await this.prompter.scoped(secretName).confirm('override', {
         message: chalk.yellow(`Secret ${fullSecretName} already exists. Do you want to override it?`),
         default: false,
       })
@@ -312,6 +313,7 @@ export default class SetupPushSecrets extends Command {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --debug',
     '<%= config.bin %> <%= command.id %> --values-dir custom-values',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
   static override flags = {
@@ -324,29 +326,31 @@ export default class SetupPushSecrets extends Command {
       description: 'Directory containing the values files',
       default: 'values',
     }),
+    ...promptFlags,
   }
 
   private flags: any;
+  private prompter!: Prompter
 
   private async getVaultCredentials(): Promise<Record<string, string>> {
     return {
-      server: await input({
+      server: await this.prompter.input('vault-server', {
         message: chalk.cyan('Enter Vault server URL:'),
         default: "http://vault.default.svc.cluster.local:8200"
       }),
-      path: await input({
+      path: await this.prompter.input('vault-path', {
         message: chalk.cyan('Enter Vault path:'),
         default: "scroll"
       }),
-      version: await input({
+      version: await this.prompter.input('vault-version', {
         message: chalk.cyan('Enter Vault version:'),
         default: "v2"
       }),
-      tokenSecretName: await input({
+      tokenSecretName: await this.prompter.input('vault-token-secret-name', {
         message: chalk.cyan('Enter Vault token secret name:'),
         default: "vault-token"
       }),
-      tokenSecretKey: await input({
+      tokenSecretKey: await this.prompter.input('vault-token-secret-key', {
         message: chalk.cyan('Enter Vault token secret key:'),
         default: "token"
       })
@@ -355,14 +359,14 @@ export default class SetupPushSecrets extends Command {
 
   private async getAWSCredentials(): Promise<Record<string, string>> {
     return {
-      serviceAccount: await input({
+      serviceAccount: await this.prompter.input('aws-service-account', {
         message: chalk.cyan('Enter AWS service account:'),
       }),
-      secretRegion: await input({
+      secretRegion: await this.prompter.input('aws-secret-region', {
         message: chalk.cyan('Enter AWS secret region:'),
         default: "us-west-2"
       }),
-      prefixName: await input({
+      prefixName: await this.prompter.input('aws-prefix-name', {
         message: chalk.cyan('Enter secret prefix name:'),
         default: "scroll"
       })
@@ -457,10 +461,11 @@ export default class SetupPushSecrets extends Command {
   public async run(): Promise<void> {
     const { flags } = await this.parse(SetupPushSecrets)
     this.flags = flags
+    this.prompter = Prompter.fromFlags('push-secrets', flags)
 
     this.log(chalk.blue('Starting secret push process...'))
 
-    const secretService = await select({
+    const secretService = await this.prompter.select('secret-service', {
       message: chalk.cyan('Select a secret service:'),
       choices: [
         { name: 'AWS', value: 'aws' },
@@ -473,7 +478,7 @@ export default class SetupPushSecrets extends Command {
 
     if (secretService === 'aws') {
       const awsCredentials = await this.getAWSCredentials()
-      service = new AWSSecretService(awsCredentials.secretRegion, awsCredentials.prefixName, flags.debug)
+      service = new AWSSecretService(awsCredentials.secretRegion, awsCredentials.prefixName, flags.debug, this.prompter)
       provider = 'aws'
     } else if (secretService === 'vault') {
       service = new HashicorpVaultDevService(flags.debug)
@@ -486,7 +491,7 @@ export default class SetupPushSecrets extends Command {
       await service.pushSecrets()
       this.log(chalk.green('Secrets pushed successfully'))
 
-      const shouldUpdateYaml = await confirm({
+      const shouldUpdateYaml = await this.prompter.confirm('update-production-yaml', {
         message: chalk.cyan('Do you want to update the production YAML files with the new secret provider?'),
       })
 
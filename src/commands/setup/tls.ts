@@ -5,7 +5,8 @@ import * as yaml from 'js-yaml'
 import chalk from 'chalk'
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import { confirm, input, select } from '@inquirer/prompts'
+
+import { Prompter, promptFlags } from '../../utils/prompts.js'
 
 const execAsync = promisify(exec)
 
@@ -16,6 +17,7 @@ export default class SetupTls extends Command {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --debug',
     '<%= config.bin %> <%= command.id %> --values-dir custom-values',
+    '<%= config.bin %> <%= command.id %> --non-interactive --answers ./answers.yaml',
   ]
 
   static override flags = {
@@ -28,8 +30,10 @@ export default class SetupTls extends Command {
       description: 'Directory containing the values files',
       default: 'values',
     }),
+    ...promptFlags,
   }
 
+  private prompter!: Prompter
   private selectedIssuer: string | null = null
   private debugMode: boolean = false
   private valuesDir: string = 'values'
@@ -44,7 +48,7 @@ export default class SetupTls extends Command {
         clusterIssuers.forEach(issuer => this.log(chalk.cyan(`  - ${issuer}`)))
 
         if (clusterIssuers.length === 1) {
-          const useExisting = await confirm({
+          const useExisting = await this.prompter.confirm('use-existing-issuer', {
             message: chalk.yellow(`Do you want to use the existing ClusterIssuer "${clusterIssuers[0]}"?`),
           })
           if (useExisting) {
@@ -53,7 +57,7 @@ export default class SetupTls extends Command {
           }
           return false
         } else {
-          this.selectedIssuer = await select({
+          this.selectedIssuer = await this.prompter.select('cluster-issuer', {
             message: chalk.yellow('Select which ClusterIssuer you want to use:'),
             choices: clusterIssuers.map(issuer => ({ name: issuer, value: issuer })),
           })
@@ -193,7 +197,7 @@ spec:
             this.log(chalk.green('+ Updated content:'))
             this.log(updatedContent)
 
-            const confirmUpdate = await confirm({
+            const confirmUpdate = await this.prompter.scoped(chart).confirm('apply-changes', {
               message: chalk.cyan(`Do you want to apply these changes to ${chart}?`),
             })
 
@@ -269,7 +273,7 @@ spec:
               this.log(chalk.green('+ Updated content:'))
               this.log(updatedContent)
 
-              const confirmUpdate = await confirm({
+              const confirmUpdate = await this.prompter.scoped(`${chart}.${ingressType}`).confirm('apply-changes', {
                 message: chalk.cyan(`Do you want to apply these changes to ${chart} (${ingressType})?`),
               })
 
@@ -303,6 +307,7 @@ spec:
 
   public async run(): Promise<void> {
     const { flags } = await this.parse(SetupTls)
+    this.prompter = Prompter.fromFlags('tls', flags)
     this.debugMode = flags.debug
     this.valuesDir = flags['values-dir']
 
@@ -312,12 +317,12 @@ spec:
       let clusterIssuerExists = await this.checkClusterIssuer()
 
       while (!clusterIssuerExists) {
-        const createIssuer = await confirm({
+        const createIssuer = await this.prompter.confirm('create-issuer', {
           message: chalk.yellow('No suitable ClusterIssuer found. Do you want to create one?'),
         })
 
         if (createIssuer) {
-          const email = await input({
+          const email = await this.prompter.input('email', {
             message: chalk.cyan('Enter your email address for the ClusterIssuer:'),
             validate: (value) => {
               if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
@@ -329,6 +334,9 @@ spec:
 
           await this.createClusterIssuer(email)
           clusterIssuerExists = await this.checkClusterIssuer()
+          if (!clusterIssuerExists && !this.prompter.isInteractive('create-issuer')) {
+            this.error(chalk.red('ClusterIssuer was not selected after creating it. Check the use-existing-issuer answer.'))
+          }
         } else {
           this.log(chalk.yellow('ClusterIssuer is required for TLS configuration. Exiting.'))
           return
@@ -1,8 +1,9 @@
 import {Command, Flags} from '@oclif/core'
 import chalk from 'chalk'
-import { select } from '@inquirer/prompts'
 import Docker from 'dockerode'
 
+import {Prompter, promptFlags} from '../../utils/prompts.js'
+
 export default class ContractsVerification extends Command {
   static override description = 'Set up contracts verification'
 
@@ -16,8 +17,11 @@ export default class ContractsVerification extends Command {
       description: 'Specify the Docker image tag to use',
       required: false,
     }),
+    ...promptFlags,
   }
 
+  private prompter!: Prompter
+
   private async fetchDockerTags(): Promise<string[]> {
     try {
       const response = await fetch(
@@ -50,7 +54,7 @@ export default class ContractsVerification extends Command {
       return `verify-v${providedTag}`
     }
 
-    const selectedTag = await select({
+    const selectedTag = await this.prompter.select('image-tag', {
       message: 'Select a Docker image tag:',
       choices: tags.map((tag) => ({name: tag, value: tag})),
     })
@@ -123,6 +127,7 @@ export default class ContractsVerification extends Command {
     this.log(chalk.blue('Running docker command to contracts verification...'))
 
     const {flags} = await this.parse(ContractsVerification)
+    this.prompter = Prompter.fromFlags('verify-contracts', flags)
 
     const imageTag = await this.getDockerImageTag(flags['image-tag'])
     this.log(chalk.blue(`Using Docker image tag: ${imageTag}`))
@@ -1,21 +1,88 @@
 import { Command, Flags } from '@oclif/core'
 import chalk from 'chalk'
 import * as cliProgress from 'cli-progress'
-import { ethers } from 'ethers'
 import path from 'node:path'
 
-import { DeployedContract, Layer, contracts } from '../../data/contracts.js'
-import { parseTomlConfig } from '../../utils/config-parser.js'
-import { addressLink } from '../../utils/onchain/index.js'
+import {
+  ContractReference,
+  ContractRole,
+  DeployedContract,
+  Layer,
+  contracts,
+  implementationNameOf,
+  isDeployedInMode,
+  isProxy,
+  proxyAdminNameOf,
+  proxyPlaceholderNameOf,
+} from '../../data/contracts.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ContractsConfig, ScrollSdkConfig, isEnabled } from '../../utils/config-schema.js'
+import { RpcBatcher, addressLink, getProxyInfo } from '../../utils/onchain/index.js'
+
+export interface ReferenceCheckResult {
+  actual: null | string
+  expected: string
+  expectedAddress: string
+  getter: string
+  ok: boolean
+}
+
+export interface RoleCheckResult {
+  account: string
+  accountAddress: string
+  actual: boolean | null | string
+  check: ContractRole['check']
+  method: string
+  ok: boolean
+}
+
+export interface ContractCheckResult {
+  actualOwner: null | string
+  address: null | string
+  deployed: boolean | null
+  expectedImplementation: null | string
+  expectedOwner: null | string
+  expectedProxyAdmin: null | string
+  implementation: null | string
+  implementationCorrect: boolean | null
+  initialized: boolean | null
+  layer: Layer
+  missing: boolean
+  name: string
+  ownerCorrect: boolean | null
+  passed: boolean
+  proxyAdmin: null | string
+  proxyAdminCorrect: boolean | null
+  references: ReferenceCheckResult[]
+  roles: RoleCheckResult[]
+  skippedForAltGas: boolean
+}
 
-interface ContractsConfig {
-  [key: string]: string
+export interface ContractsReport {
+  alternativeGasTokenEnabled: boolean
+  contracts: ContractCheckResult[]
+  extraContracts: string[]
+  passed: boolean
 }
 
 export default class TestContracts extends Command {
   static description = 'Test contracts by checking deployment and initialization'
 
+  static enableJsonFlag = true
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --pod',
+    '<%= config.bin %> <%= command.id %> --json > contracts-report.json',
+    '<%= config.bin %> <%= command.id %> --concurrency 4 --no-multicall',
+  ]
+
   static flags = {
+    concurrency: Flags.integer({
+      default: 10,
+      description: 'Maximum number of RPC requests in flight per chain',
+      min: 1,
+    }),
     config: Flags.string({
       char: 'c',
       default: './config.toml',
@@ -26,11 +93,22 @@ export default class TestContracts extends Command {
       default: './config-contracts.toml',
       description: 'Path to configs-contracts.toml file',
     }),
+    multicall: Flags.boolean({
+      allowNo: true,
+      default: true,
+      description:
+        'Aggregate view calls through Multicall3. Chains without Multicall3 deployed fall back to plain calls automatically',
+    }),
     pod: Flags.boolean({
       char: 'p',
       default: false,
       description: 'Run inside Kubernetes pod',
     }),
+    retries: Flags.integer({
+      default: 3,
+      description: 'Number of times a failed RPC request is retried, with exponential backoff',
+      min: 0,
+    }),
   }
 
   private blockExplorers: Record<Layer, { blockExplorerURI: string }> = {
@@ -39,33 +117,36 @@ export default class TestContracts extends Command {
   }
 
   private contractsConfig: ContractsConfig = {}
+  private sdkConfig: ScrollSdkConfig = {}
   private alternativeGasTokenEnabled: boolean = false
 
   private skippedContracts: string[] = []
   private missingContracts: string[] = []
   private extraContracts: string[] = []
+  private results = new Map<string, ContractCheckResult>()
   private unableToCheckOwnership: string[] = []
 
   // eslint-disable-next-line complexity
-  async run(): Promise<void> {
+  async run(): Promise<ContractsReport> {
     const { flags } = await this.parse(TestContracts)
 
     const configPath = path.resolve(flags.config)
     const contractsPath = path.resolve(flags.contracts)
 
-    const config = parseTomlConfig(configPath)
-    this.contractsConfig = parseTomlConfig(contractsPath)
+    const config = loadConfig(configPath)
+    this.sdkConfig = config
+    this.contractsConfig = loadContractsConfig(contractsPath)
 
     // Read ALTERNATIVE_GAS_TOKEN_ENABLED from config
-    this.alternativeGasTokenEnabled = config?.['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED === true
+    this.alternativeGasTokenEnabled = isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)
 
     // Print "Alternative Gas Token Mode" if enabled
     if (this.alternativeGasTokenEnabled) {
       this.log(chalk.cyan('\nAlternative Gas Token Mode\n'))
     }
 
-    let l1RpcUrl: string
-    let l2RpcUrl: string
+    let l1RpcUrl: string | undefined
+    let l2RpcUrl: string | undefined
 
     // if we're running inside a pod, we shouldn't use external URLs
     if (flags.pod) {
@@ -78,8 +159,8 @@ export default class TestContracts extends Command {
 
     const owner = config?.accounts?.OWNER_ADDR
 
-    this.blockExplorers.l1.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L1
-    this.blockExplorers.l2.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L2
+    this.blockExplorers.l1.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L1 || ''
+    this.blockExplorers.l2.blockExplorerURI = config?.frontend?.EXTERNAL_EXPLORER_URI_L2 || ''
 
     // Check if RPC URLs are defined
     if (!l1RpcUrl || !l2RpcUrl) {
@@ -104,8 +185,9 @@ export default class TestContracts extends Command {
       )
     }
 
-    const l1Provider = new ethers.JsonRpcProvider(l1RpcUrl)
-    const l2Provider = new ethers.JsonRpcProvider(l2RpcUrl)
+    const batcherOptions = { concurrency: flags.concurrency, multicall: flags.multicall, retries: flags.retries }
+    const l1Provider = new RpcBatcher(l1RpcUrl, batcherOptions)
+    const l2Provider = new RpcBatcher(l2RpcUrl, batcherOptions)
 
     // Check that config has a value for each required contract name
 
@@ -115,17 +197,10 @@ export default class TestContracts extends Command {
     try {
       // Check Deployments
 
-      const multibarDeployment = new cliProgress.MultiBar(
-        {
-          clearOnComplete: false,
-          format: ' {bar} | {percentage}% | {value}/{total} | {name}',
-          hideCursor: true,
-        },
-        cliProgress.Presets.shades_classic,
-      )
+      const multibarDeployment = this.createMultiBar()
 
-      const l1BarDeploy = multibarDeployment.create(l1Addresses.length, 0, { name: 'Checking L1 contract deployment...' })
-      const l2BarDeploy = multibarDeployment.create(l2Addresses.length, 0, { name: 'Checking L2 contract deployment...' })
+      const l1BarDeploy = multibarDeployment?.create(l1Addresses.length, 0, { name: 'Checking L1 contract deployment...' })
+      const l2BarDeploy = multibarDeployment?.create(l2Addresses.length, 0, { name: 'Checking L2 contract deployment...' })
 
       const notDeployed: DeployedContract[] = []
 
@@ -136,14 +211,7 @@ export default class TestContracts extends Command {
 
       // Check Initializations
 
-      const multibarInitialization = new cliProgress.MultiBar(
-        {
-          clearOnComplete: false,
-          format: ' {bar} | {percentage}% | {value}/{total} | {name}',
-          hideCursor: true,
-        },
-        cliProgress.Presets.shades_classic,
-      )
+      const multibarInitialization = this.createMultiBar()
 
       const l1AddressesToInitialize = l1Addresses.filter(
         (contract) => contract.initializes && !notDeployed.some((nd) => nd.name === contract.name),
@@ -152,10 +220,10 @@ export default class TestContracts extends Command {
         (contract) => contract.initializes && !notDeployed.some((nd) => nd.name === contract.name),
       )
 
-      const l1BarInit = multibarDeployment.create(l1AddressesToInitialize.length, 0, {
+      const l1BarInit = multibarDeployment?.create(l1AddressesToInitialize.length, 0, {
         name: 'Checking L1 contract initialization...',
       })
-      const l2BarInit = multibarDeployment.create(l2AddressesToInitialize.length, 0, {
+      const l2BarInit = multibarDeployment?.create(l2AddressesToInitialize.length, 0, {
         name: 'Checking L2 contract initialization...',
       })
 
@@ -168,14 +236,7 @@ export default class TestContracts extends Command {
 
       // Check Owner
 
-      const multibarOwner = new cliProgress.MultiBar(
-        {
-          clearOnComplete: false,
-          format: ' {bar} | {percentage}% | {value}/{total} | {name}',
-          hideCursor: true,
-        },
-        cliProgress.Presets.shades_classic,
-      )
+      const multibarOwner = this.createMultiBar()
 
       const l1AddressesWithOwner = l1Addresses.filter(
         (contract) => contract.owned && !notDeployed.some((nd) => nd.name === contract.name),
@@ -184,10 +245,10 @@ export default class TestContracts extends Command {
         (contract) => contract.owned && !notDeployed.some((nd) => nd.name === contract.name),
       )
 
-      const l1BarOwner = multibarOwner.create(l1AddressesWithOwner.length, 0, {
+      const l1BarOwner = multibarOwner?.create(l1AddressesWithOwner.length, 0, {
         name: 'Checking L1 contract ownership...',
       })
-      const l2BarOwner = multibarOwner.create(l2AddressesWithOwner.length, 0, {
+      const l2BarOwner = multibarOwner?.create(l2AddressesWithOwner.length, 0, {
         name: 'Checking L2 contract ownership...',
       })
 
@@ -198,9 +259,79 @@ export default class TestContracts extends Command {
         this.checkContractOwner(l2Provider, l2AddressesWithOwner, l2BarOwner, owner, notOwned),
       ])
 
-      multibarDeployment.stop()
-      multibarInitialization.stop()
-      multibarOwner.stop()
+      // Check Proxies
+
+      const multibarProxy = this.createMultiBar()
+
+      const l1Proxies = l1Addresses.filter(
+        (contract) => isProxy(contract) && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+      const l2Proxies = l2Addresses.filter(
+        (contract) => isProxy(contract) && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+
+      const l1BarProxy = multibarProxy?.create(l1Proxies.length, 0, { name: 'Checking L1 proxy implementations...' })
+      const l2BarProxy = multibarProxy?.create(l2Proxies.length, 0, { name: 'Checking L2 proxy implementations...' })
+
+      const misconfiguredProxies: DeployedContract[] = []
+
+      await Promise.all([
+        this.checkProxy(l1Provider, l1Proxies, l1BarProxy, misconfiguredProxies),
+        this.checkProxy(l2Provider, l2Proxies, l2BarProxy, misconfiguredProxies),
+      ])
+
+      // Check References
+
+      const multibarReferences = this.createMultiBar()
+
+      const l1AddressesWithReferences = l1Addresses.filter(
+        (contract) => contract.references && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+      const l2AddressesWithReferences = l2Addresses.filter(
+        (contract) => contract.references && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+
+      const l1BarReferences = multibarReferences?.create(l1AddressesWithReferences.length, 0, {
+        name: 'Checking L1 contract references...',
+      })
+      const l2BarReferences = multibarReferences?.create(l2AddressesWithReferences.length, 0, {
+        name: 'Checking L2 contract references...',
+      })
+
+      const brokenReferences: DeployedContract[] = []
+
+      await Promise.all([
+        this.checkContractReferences(l1Provider, l1AddressesWithReferences, l1BarReferences, brokenReferences),
+        this.checkContractReferences(l2Provider, l2AddressesWithReferences, l2BarReferences, brokenReferences),
+      ])
+
+      // Check Roles
+
+      const multibarRoles = this.createMultiBar()
+
+      const l1AddressesWithRoles = l1Addresses.filter(
+        (contract) => contract.roles && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+      const l2AddressesWithRoles = l2Addresses.filter(
+        (contract) => contract.roles && !notDeployed.some((nd) => nd.name === contract.name),
+      )
+
+      const l1BarRoles = multibarRoles?.create(l1AddressesWithRoles.length, 0, { name: 'Checking L1 contract roles...' })
+      const l2BarRoles = multibarRoles?.create(l2AddressesWithRoles.length, 0, { name: 'Checking L2 contract roles...' })
+
+      const missingRoles: DeployedContract[] = []
+
+      await Promise.all([
+        this.checkContractRoles(l1Provider, l1AddressesWithRoles, l1BarRoles, missingRoles),
+        this.checkContractRoles(l2Provider, l2AddressesWithRoles, l2BarRoles, missingRoles),
+      ])
+
+      multibarDeployment?.stop()
+      multibarInitialization?.stop()
+      multibarOwner?.stop()
+      multibarProxy?.stop()
+      multibarReferences?.stop()
+      multibarRoles?.stop()
 
       // Print results
       // Print results for correctly deployed, initialized, and owned contracts
@@ -208,7 +339,10 @@ export default class TestContracts extends Command {
         (contract) =>
           !notDeployed.some((nd) => nd.name === contract.name) &&
           (!contract.initializes || !notInitialized.some((ni) => ni.name === contract.name)) &&
-          (!contract.owned || !notOwned.some((no) => no.name === contract.name)),
+          (!contract.owned || !notOwned.some((no) => no.name === contract.name)) &&
+          !misconfiguredProxies.some((mp) => mp.name === contract.name) &&
+          !brokenReferences.some((br) => br.name === contract.name) &&
+          !missingRoles.some((mr) => mr.name === contract.name),
       )
 
       this.log(chalk.green('\nCorrectly configured contracts:'))
@@ -216,6 +350,9 @@ export default class TestContracts extends Command {
         let status = 'Deployed'
         if (contract.initializes) status += ', Initialized'
         if (contract.owned) status += ', Correctly Owned'
+        if (isProxy(contract)) status += ', Implementation and Admin Set'
+        if (contract.references) status += ', References Set'
+        if (contract.roles) status += ', Roles Granted'
         // eslint-disable-next-line no-await-in-loop
         const link = await addressLink(
           contract.address!,
@@ -260,8 +397,57 @@ export default class TestContracts extends Command {
         }
       }
 
-      if (notDeployed.length === 0 && notInitialized.length === 0 && notOwned.length === 0) {
-        this.log(chalk.green('\nAll contracts are deployed, initialized and have owner set.'))
+      if (misconfiguredProxies.length > 0) {
+        this.log(chalk.red('\nProxies with wrong implementation or admin:'))
+        for (const contract of misconfiguredProxies) {
+          // eslint-disable-next-line no-await-in-loop
+          const link = await addressLink(
+            contract.address!,
+            this.blockExplorers[contract.layer === 'l1' ? Layer.L1 : Layer.L2],
+          )
+          this.log(chalk.red(`- ${contract.name}\n     ${chalk.blue(link)}`))
+          for (const mismatch of this.describeProxyMismatches(contract)) {
+            this.log(chalk.red(`     ${mismatch}`))
+          }
+        }
+      }
+
+      if (brokenReferences.length > 0) {
+        this.log(chalk.red('\nBroken contract references:'))
+        for (const contract of brokenReferences) {
+          for (const reference of this.results.get(contract.name)!.references.filter((r) => !r.ok)) {
+            const actual = reference.actual ? this.describeAddress(reference.actual) : 'call failed'
+            this.log(
+              chalk.red(
+                `- ${contract.name}.${reference.getter}() = ${actual}, expected ${reference.expectedAddress} (${reference.expected})`,
+              ),
+            )
+          }
+        }
+      }
+
+      if (missingRoles.length > 0) {
+        this.log(chalk.red('\nMissing roles and permissions:'))
+        for (const contract of missingRoles) {
+          for (const role of this.results.get(contract.name)!.roles.filter((r) => !r.ok)) {
+            this.log(chalk.red(`- ${contract.name}: ${this.describeRole(role)}`))
+          }
+        }
+      }
+
+      if (
+        notDeployed.length === 0 &&
+        notInitialized.length === 0 &&
+        notOwned.length === 0 &&
+        misconfiguredProxies.length === 0 &&
+        brokenReferences.length === 0 &&
+        missingRoles.length === 0
+      ) {
+        this.log(
+          chalk.green(
+            '\nAll contracts are deployed, initialized, have owner set, proxies point at their implementations, references match and roles are granted.',
+          ),
+        )
       }
 
       // Report skipped, missing, and extra contracts
@@ -269,15 +455,121 @@ export default class TestContracts extends Command {
     } catch (error) {
       this.error(chalk.red(`Failed to check contracts: ${error}`))
     }
+
+    const report = this.buildReport()
+    if (!report.passed) {
+      process.exitCode = 1
+    }
+
+    return report
+  }
+
+  private buildReport(): ContractsReport {
+    const results = contracts.map((contract) => {
+      const result = this.results.get(contract.name)!
+      result.passed =
+        result.skippedForAltGas ||
+        (!result.missing &&
+          result.deployed === true &&
+          (!contract.initializes || result.initialized !== false) &&
+          (!contract.owned || result.ownerCorrect === true) &&
+          result.implementationCorrect !== false &&
+          result.proxyAdminCorrect !== false &&
+          result.references.every((reference) => reference.ok) &&
+          result.roles.every((role) => role.ok))
+      return result
+    })
+
+    return {
+      alternativeGasTokenEnabled: this.alternativeGasTokenEnabled,
+      contracts: results,
+      extraContracts: this.extraContracts,
+      passed: results.every((result) => result.passed),
+    }
+  }
+
+  // Progress bars would corrupt --json output, so they are only drawn for the text report.
+  private createMultiBar(): cliProgress.MultiBar | undefined {
+    if (this.jsonEnabled()) return undefined
+
+    return new cliProgress.MultiBar(
+      {
+        clearOnComplete: false,
+        format: ' {bar} | {percentage}% | {value}/{total} | {name}',
+        hideCursor: true,
+      },
+      cliProgress.Presets.shades_classic,
+    )
+  }
+
+  // Names an address after its config-contracts.toml key when it is one of ours.
+  private describeAddress(address: string): string {
+    const name = Object.keys(this.contractsConfig).find(
+      (key) => this.contractsConfig[key].toLowerCase() === address.toLowerCase(),
+    )
+    return name ? `${address} (${name})` : address
+  }
+
+  private describeProxyMismatches(contract: DeployedContract): string[] {
+    const result = this.results.get(contract.name)!
+    const mismatches: string[] = []
+
+    if (result.implementationCorrect === false) {
+      const placeholder = this.contractsConfig[proxyPlaceholderNameOf(contract.layer)]
+      const onPlaceholder = Boolean(placeholder) && result.implementation?.toLowerCase() === placeholder.toLowerCase()
+      const hint = onPlaceholder ? ' (the proxy was never upgraded from the placeholder)' : ''
+      mismatches.push(
+        `Implementation: ${this.describeAddress(result.implementation!)}, expected ${this.describeAddress(result.expectedImplementation!)}${hint}`,
+      )
+    }
+
+    if (result.proxyAdminCorrect === false) {
+      mismatches.push(
+        `Admin: ${this.describeAddress(result.proxyAdmin!)}, expected ${this.describeAddress(result.expectedProxyAdmin!)}`,
+      )
+    }
+
+    return mismatches
+  }
+
+  private describeRole(role: RoleCheckResult): string {
+    const account = `${role.accountAddress} (${role.account})`
+    if (role.actual === null) return `${role.method}() call failed, expected ${account}`
+    if (role.check === 'grants') return `${role.method}(${account}) returned false`
+    return `${role.method}() = ${this.describeAddress(String(role.actual))}, expected ${account}`
   }
 
   private processContracts(contractList: DeployedContract[]): DeployedContract[] {
     return contractList
       .map((contract) => {
         const address = this.contractsConfig[contract.name]
+        const result: ContractCheckResult = {
+          actualOwner: null,
+          address: address ?? null,
+          deployed: null,
+          expectedImplementation: null,
+          expectedOwner: null,
+          expectedProxyAdmin: null,
+          implementation: null,
+          implementationCorrect: null,
+          initialized: null,
+          layer: contract.layer,
+          missing: false,
+          name: contract.name,
+          ownerCorrect: null,
+          passed: false,
+          proxyAdmin: null,
+          proxyAdminCorrect: null,
+          references: [],
+          roles: [],
+          skippedForAltGas: !this.shouldCheckContract(contract),
+        }
+        this.results.set(contract.name, result)
+
         if (this.shouldCheckContract(contract)) {
           if (!address) {
             this.missingContracts.push(contract.name)
+            result.missing = true
             return null // Return null for contracts without addresses
           }
           return { ...contract, address } as DeployedContract // Assert the type here
@@ -298,11 +590,7 @@ export default class TestContracts extends Command {
   }
 
   private shouldCheckContract(contract: DeployedContract): boolean {
-    if (this.alternativeGasTokenEnabled) {
-      return !contract.bypassedInAltGas
-    } else {
-      return !contract.additionalAltGas
-    }
+    return isDeployedInMode(contract, this.alternativeGasTokenEnabled)
   }
 
   private reportContractStatus(): void {
@@ -348,88 +636,263 @@ export default class TestContracts extends Command {
   }
 
   private async checkContractDeployment(
-    provider: ethers.Provider,
+    batcher: RpcBatcher,
     contracts: DeployedContract[],
-    progressBar: cliProgress.SingleBar,
+    progressBar: cliProgress.SingleBar | undefined,
     notDeployed: DeployedContract[],
   ) {
-    for (const c of contracts) {
-      progressBar.update({ name: `Checking ${c.name}...` })
-      // eslint-disable-next-line no-await-in-loop
-      const code = await provider.getCode(c.address ?? '')
-      if (code === '0x') {
+    const codes = await Promise.all(
+      contracts.map(async (c) => {
+        const code = await batcher.getCode(c.address ?? '')
+        progressBar?.increment()
+        return code
+      }),
+    )
+
+    for (const [index, c] of contracts.entries()) {
+      this.results.get(c.name)!.deployed = codes[index] !== '0x'
+      if (codes[index] === '0x') {
         notDeployed.push(c)
       }
-
-      progressBar.increment()
     }
   }
 
   private async checkContractInitialization(
-    provider: ethers.Provider,
+    batcher: RpcBatcher,
     contracts: DeployedContract[],
-    progressBar: cliProgress.SingleBar,
+    progressBar: cliProgress.SingleBar | undefined,
     notInitialized: DeployedContract[],
   ) {
-    for (const c of contracts) {
-      progressBar.update({ name: `Checking ${c.name}...` })
-      try {
-        if (!c.address) {
-          throw new Error(`No address found for ${c.name}`)
-        }
+    // TODO: Look into L2_MESSAGE_QUEUE_ADDR initialization later
+    const toCheck = contracts.filter((c) => c.name !== 'L2_MESSAGE_QUEUE_ADDR')
 
-        // TODO: Look into L2_MESSAGE_QUEUE_ADDR initialization later
-        if (c.name === 'L2_MESSAGE_QUEUE_ADDR') {
-          continue
-        }
+    const initCounts = await Promise.all(
+      toCheck.map(async (c) => {
+        try {
+          if (!c.address) {
+            throw new Error(`No address found for ${c.name}`)
+          }
 
-        // eslint-disable-next-line no-await-in-loop
-        const initCount = await provider.getStorage(c.address, 0)
-        if (Number.parseInt(initCount, 16) <= 0) {
-          notInitialized.push(c)
+          return await batcher.getStorage(c.address, 0)
+        } catch (error) {
+          this.error(`Error checking initialization for ${c.name}: ${error}`)
+        } finally {
+          progressBar?.increment()
         }
-      } catch (error) {
-        this.error(`Error checking initialization for ${c.name}: ${error}`)
+      }),
+    )
+
+    for (const [index, c] of toCheck.entries()) {
+      const initialized = Number.parseInt(initCounts[index], 16) > 0
+      this.results.get(c.name)!.initialized = initialized
+      if (!initialized) {
+        notInitialized.push(c)
       }
-
-      progressBar.increment()
     }
   }
 
   // eslint-disable-next-line max-params
   private async checkContractOwner(
-    provider: ethers.Provider,
+    batcher: RpcBatcher,
     contracts: DeployedContract[],
-    progressBar: cliProgress.SingleBar,
+    progressBar: cliProgress.SingleBar | undefined,
     expectedOwner: string,
     notOwned: DeployedContract[],
   ) {
-    const ownableABI = ['function owner() view returns (address)']
-
-    for (const c of contracts) {
-      progressBar.update({ name: `Checking ${c.name}...` })
-      if (c.owned && c.address) {
-        const contract = new ethers.Contract(c.address, ownableABI, provider)
+    const owners = await Promise.all(
+      contracts.map(async (c) => {
         try {
-          // eslint-disable-next-line no-await-in-loop
-          const owner = await contract.owner()
-          let expectedOwnerForContract = expectedOwner
-
-          // Special case for L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR
-          if (c.name === 'L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR') {
-            expectedOwnerForContract = this.contractsConfig.L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR
-          }
-
-          if (owner.toLowerCase() !== expectedOwnerForContract.toLowerCase()) {
-            notOwned.push(c)
-          }
+          return c.owned && c.address
+            ? await batcher.call<string>(c.address, 'function owner() view returns (address)')
+            : undefined
         } catch (error) {
           this.log(chalk.yellow(`Unable to check ownership for ${c.name}: ${error}`))
           this.unableToCheckOwnership.push(c.name)
+          return null
+        } finally {
+          progressBar?.increment()
+        }
+      }),
+    )
+
+    for (const [index, c] of contracts.entries()) {
+      const owner = owners[index]
+      if (owner === undefined) continue
+
+      const result = this.results.get(c.name)!
+      let expectedOwnerForContract = expectedOwner
+
+      // Special case for L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR
+      if (c.name === 'L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR') {
+        expectedOwnerForContract = this.contractsConfig.L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR
+      }
+
+      result.expectedOwner = expectedOwnerForContract ?? null
+      if (owner === null) continue
+
+      result.actualOwner = owner
+      result.ownerCorrect = owner.toLowerCase() === expectedOwnerForContract?.toLowerCase()
+
+      if (!result.ownerCorrect) {
+        notOwned.push(c)
+      }
+    }
+  }
+
+  private async checkContractReferences(
+    batcher: RpcBatcher,
+    contracts: DeployedContract[],
+    progressBar: cliProgress.SingleBar | undefined,
+    broken: DeployedContract[],
+  ) {
+    const checked = await Promise.all(
+      contracts.map(async (c) => {
+        const references = (c.references ?? []).flatMap((reference) => {
+          const expectedAddress = this.expectedReferenceAddress(reference)
+          return expectedAddress ? [{ ...reference, expectedAddress }] : []
+        })
+
+        const results = await Promise.all(
+          references.map(async ({ expected, expectedAddress, getter }): Promise<ReferenceCheckResult> => {
+            let actual: null | string = null
+            try {
+              actual = await batcher.call<string>(c.address!, `function ${getter}() view returns (address)`)
+            } catch (error) {
+              this.log(chalk.yellow(`Unable to call ${c.name}.${getter}(): ${error}`))
+            }
+
+            return {
+              actual,
+              expected,
+              expectedAddress,
+              getter,
+              ok: actual?.toLowerCase() === expectedAddress.toLowerCase(),
+            }
+          }),
+        )
+
+        progressBar?.increment()
+        return results
+      }),
+    )
+
+    for (const [index, c] of contracts.entries()) {
+      const result = this.results.get(c.name)!
+      result.references.push(...checked[index])
+
+      if (result.references.some((reference) => !reference.ok)) {
+        broken.push(c)
+      }
+    }
+  }
+
+  private async checkContractRoles(
+    batcher: RpcBatcher,
+    contracts: DeployedContract[],
+    progressBar: cliProgress.SingleBar | undefined,
+    missing: DeployedContract[],
+  ) {
+    const checked = await Promise.all(
+      contracts.map(async (c) => {
+        const results = await Promise.all(
+          (c.roles ?? []).map(async (role): Promise<RoleCheckResult | undefined> => {
+            const [section, key] = role.account.split('.')
+            const accountAddress = (
+              this.sdkConfig[section as keyof ScrollSdkConfig] as Record<string, unknown> | undefined
+            )?.[key]
+            if (typeof accountAddress !== 'string' || !accountAddress) {
+              this.log(chalk.yellow(`Skipping ${c.name}.${role.method}(): ${role.account} is not set in config.toml`))
+              return undefined
+            }
+
+            let actual: boolean | null | string = null
+            try {
+              actual =
+                role.check === 'grants'
+                  ? await batcher.call<boolean>(c.address!, `function ${role.method}(address) view returns (bool)`, [
+                      accountAddress,
+                    ])
+                  : await batcher.call<string>(c.address!, `function ${role.method}() view returns (address)`)
+            } catch (error) {
+              this.log(chalk.yellow(`Unable to call ${c.name}.${role.method}(): ${error}`))
+            }
+
+            return {
+              account: role.account,
+              accountAddress,
+              actual,
+              check: role.check,
+              method: role.method,
+              ok:
+                role.check === 'grants'
+                  ? actual === true
+                  : String(actual).toLowerCase() === accountAddress.toLowerCase(),
+            }
+          }),
+        )
+
+        progressBar?.increment()
+        return results.filter((role): role is RoleCheckResult => role !== undefined)
+      }),
+    )
+
+    for (const [index, c] of contracts.entries()) {
+      const result = this.results.get(c.name)!
+      result.roles.push(...checked[index])
+
+      if (result.roles.some((role) => !role.ok)) {
+        missing.push(c)
+      }
+    }
+  }
+
+  private async checkProxy(
+    batcher: RpcBatcher,
+    proxies: DeployedContract[],
+    progressBar: cliProgress.SingleBar | undefined,
+    misconfigured: DeployedContract[],
+  ) {
+    const proxyInfos = await Promise.all(
+      proxies.map(async (c) => {
+        try {
+          return await batcher.request(() => getProxyInfo(batcher.provider, c.address!))
+        } catch (error) {
+          this.error(`Error reading proxy slots for ${c.name}: ${error}`)
+        } finally {
+          progressBar?.increment()
         }
+      }),
+    )
+
+    for (const [index, c] of proxies.entries()) {
+      const result = this.results.get(c.name)!
+      const implementationName = implementationNameOf(c)
+      result.expectedImplementation = (implementationName && this.contractsConfig[implementationName]) || null
+      result.expectedProxyAdmin = this.contractsConfig[proxyAdminNameOf(c.layer)] || null
+      result.implementation = proxyInfos[index].implementation
+      result.proxyAdmin = proxyInfos[index].admin
+
+      // Without a configured address there is nothing to compare with; that is reported as a missing contract.
+      if (result.expectedImplementation) {
+        result.implementationCorrect =
+          result.implementation.toLowerCase() === result.expectedImplementation.toLowerCase()
       }
 
-      progressBar.increment()
+      if (result.expectedProxyAdmin) {
+        result.proxyAdminCorrect = result.proxyAdmin.toLowerCase() === result.expectedProxyAdmin.toLowerCase()
+      }
+
+      if (result.implementationCorrect === false || result.proxyAdminCorrect === false) {
+        misconfigured.push(c)
+      }
     }
   }
+
+  // References to contracts outside the current gas token mode, or without a configured address (already
+  // reported as missing), are not checked.
+  private expectedReferenceAddress(reference: ContractReference): string | undefined {
+    const target = contracts.find((contract) => contract.name === reference.expected)
+    if (target && !this.shouldCheckContract(target)) return undefined
+    return this.contractsConfig[reference.expected]
+  }
 }
@@ -6,46 +6,129 @@ import {
 } from '@oclif/core'
 import chalk from 'chalk'
 import { Wallet, ethers } from 'ethers'
-import fs from 'node:fs/promises'
 import path from 'node:path'
+import { format } from 'node:util'
 import ora from 'ora'
 import { toString as qrCodeToString } from 'qrcode'
 
-import { parseTomlConfig } from '../../utils/config-parser.js'
+import { deposit, estimateDepositFee, withdraw } from '../../utils/bridge.js'
+import { kubernetesServiceLookup, resolveClusterEndpoints } from '../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import { ContractsConfig, ScrollSdkConfig, isEnabled } from '../../utils/config-schema.js'
+import {
+  E2E_SETTINGS,
+  E2EContext,
+  E2EReport,
+  E2EResumeState,
+  E2ESettings,
+  E2EStep,
+  PlannedStep,
+  REPORT_FORMATS,
+  ReportFormat,
+  StatusView,
+  StepHooks,
+  StepOutputs,
+  StepRegistry,
+  StepSelection,
+  assertNoUnfinishedRun,
+  currentStepName,
+  emptyResumeState,
+  encryptTestWallet,
+  loadResumeState,
+  resolveE2ESettings,
+  restoreTestWallet,
+  resumeFileForRun,
+  runSteps,
+  runStepsInParallel,
+  saveResumeState,
+  walletPassphrase,
+  writeReport,
+} from '../../utils/e2e/index.js'
 import {
   BlockExplorerParams,
-  Withdrawal,
+  ClaimInfo,
+  LookupType,
   addressLink,
   awaitERC20Balance,
-  // awaitTx,
+  awaitTx,
   // blockLink,
+  constructBlockExplorerUrl,
   erc20ABI,
   erc20Bytecode,
+  erc721ABI,
+  erc721Bytecode,
+  erc1155ABI,
+  erc1155Bytecode,
   getCrossDomainMessageFromTx,
   // getFinalizedBlockHeight,
-  // getGasOracleL2BaseFee,
   getL2TokenFromL1Address,
   // getPendingQueueIndex,
-  getWithdrawals,
-  l1ETHGatewayABI,
-  l1GatewayRouterABI,
-  l1MessengerRelayMessageWithProofABI,
-  l2ETHGatewayABI,
-  l2GatewayRouterWithdrawERC20ABI,
-  scrollERC20ABI,
+  l1ERC721GatewayABI,
+  l1ERC1155GatewayABI,
+  l1EnforcedTxGatewayABI,
+  l2ERC721GatewayABI,
+  l2ERC1155GatewayABI,
   txLink,
 } from '../../utils/onchain/index.js'
-
-interface ContractsConfig {
-  [key: string]: string
-}
+import { PollError, PollOptions, PollTimeoutError, poll } from '../../utils/poll.js'
+import {
+  WithdrawalClaimSources,
+  claimWithdrawal,
+  findWithdrawalClaim,
+  isWithdrawalClaimed,
+} from '../../utils/withdrawal-claims.js'
 
 enum Layer {
   L1 = 'l1',
   L2 = 'l2',
 }
 
-const FUNDING_AMOUNT = 0.02
+// The NFT scenarios bridge token 1 of the test contracts: the ERC721 itself, or half the ERC1155 supply
+const NFT_STANDARDS = ['ERC721', 'ERC1155'] as const
+const TEST_NFT_ID = 1n
+const TEST_ERC1155_SUPPLY = 100n
+const TEST_ERC1155_AMOUNT = TEST_ERC1155_SUPPLY / 2n
+
+type NFTStandard = (typeof NFT_STANDARDS)[number]
+
+// How long steps wait on the chain before failing; rerunning with --resume retries the step and waits again
+const WAIT_TIMEOUTS = {
+  /** A token balance to show up in the test wallet */
+  balance: 10 * 60_000,
+  /** An L1 to L2 message to be executed on L2 */
+  l2Inclusion: 30 * 60_000,
+  /** A withdrawal to be finalized on L1 and become claimable */
+  withdrawal: 3 * 60 * 60_000,
+}
+
+interface NFTContracts {
+  abi: ethers.InterfaceAbi
+  bytecode: string
+  /** config-contracts.toml key of the gateway on each layer */
+  l1Gateway: string
+  l1GatewayABI: ethers.InterfaceAbi
+  l2Gateway: string
+  l2GatewayABI: ethers.InterfaceAbi
+}
+
+const NFT_CONTRACTS: Record<NFTStandard, NFTContracts> = {
+  ERC721: {
+    abi: erc721ABI,
+    bytecode: erc721Bytecode,
+    l1Gateway: 'L1_ERC721_GATEWAY_PROXY_ADDR',
+    l1GatewayABI: l1ERC721GatewayABI,
+    l2Gateway: 'L2_ERC721_GATEWAY_PROXY_ADDR',
+    l2GatewayABI: l2ERC721GatewayABI,
+  },
+  ERC1155: {
+    abi: erc1155ABI,
+    bytecode: erc1155Bytecode,
+    l1Gateway: 'L1_ERC1155_GATEWAY_PROXY_ADDR',
+    l1GatewayABI: l1ERC1155GatewayABI,
+    l2Gateway: 'L2_ERC1155_GATEWAY_PROXY_ADDR',
+    l2GatewayABI: l2ERC1155GatewayABI,
+  },
+}
 
 // Custom error types
 class WalletFundingError extends Error {
@@ -86,6 +169,13 @@ class NetworkError extends Error {
 export default class TestE2e extends Command {
   static description = 'Test contracts by checking deployment and initialization'
 
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --resume --skip claim-eth,claim-erc20',
+    '<%= config.bin %> <%= command.id %> --only deploy-erc20-l1,deposit-erc20,relay-erc20-deposit',
+    '<%= config.bin %> <%= command.id %> --run-id nightly --report junit',
+  ]
+
   static flags = {
     config: Flags.string({
       char: 'c',
@@ -99,28 +189,77 @@ export default class TestE2e extends Command {
     }),
     // eslint-disable-next-line camelcase
     manual: Flags.boolean({ char: 'm', description: 'Manually fund the test wallet.' }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description:
+        'Kubernetes namespace of the Scroll SDK services, for --pod. Defaults to the namespace of the pod or kubeconfig context',
+    }),
+    only: Flags.string({
+      delimiter: ',',
+      description: 'Only run these steps (comma-separated). Steps they depend on must be included or already completed',
+      exclusive: ['skip'],
+      multiple: true,
+    }),
+    parallel: Flags.boolean({
+      default: false,
+      description:
+        'Run independent steps, e.g. the ETH, ERC20 and NFT flows, at the same time. Funding prompts run one at a time',
+    }),
     pod: Flags.boolean({
       char: 'p',
       default: false,
-      description: 'Run inside Kubernetes pod',
+      description:
+        'Run inside Kubernetes pod: reach the RPCs and bridge-history-api through their [general] endpoints in config.toml, or their cluster Services',
     }),
     // eslint-disable-next-line camelcase
     'private-key': Flags.string({ char: 'k', description: 'Private key for funder wallet initialization' }),
+    report: Flags.string({
+      description: 'Write a report with the outcome, duration and transactions of every step, for CI',
+      options: REPORT_FORMATS,
+    }),
+    'report-file': Flags.string({
+      dependsOn: ['report'],
+      description: 'Where --report writes to. Defaults to e2e_report.json, or e2e_report.xml for junit',
+    }),
     resume: Flags.boolean({
       char: 'r',
       default: false,
-      description: 'Uses e2e_resume.json to continue last run.',
+      description:
+        'Continue a run from its state file, skipping the steps it completed: the run of --run-id (e2e_resume.<run-id>.json), the file of --resume-file, or else the unnamed run (e2e_resume.json)',
+    }),
+    'resume-file': Flags.string({
+      description: 'Save progress to this file instead of e2e_resume.json; with --resume, continue the run saved in it',
+      exclusive: ['run-id'],
+    }),
+    'run-id': Flags.string({
+      description:
+        'Name of this run. Progress is saved to e2e_resume.<run-id>.json, so several runs can be kept side by side',
+    }),
+    skip: Flags.string({
+      delimiter: ',',
+      description: 'Skip these steps (comma-separated). Steps depending on them must be skipped too, unless already completed',
+      multiple: true,
     }),
     // eslint-disable-next-line camelcase
     'skip-wallet-generation': Flags.boolean({ char: 's', description: 'Manually fund the test wallet.' }),
+    ...Object.fromEntries(
+      Object.values(E2E_SETTINGS).map(({ description, flag, key }) => [
+        flag,
+        Flags.string({ description: `${description}. Overrides [test] ${key} in config.toml`, helpGroup: 'AMOUNTS' }),
+      ]),
+    ),
   }
 
+  // Aborted on Ctrl-C, stopping the waits on the chain so the running step fails and can be resumed
+  private abortController = new AbortController()
+
   private blockExplorers: Record<Layer, BlockExplorerParams> = {
     [Layer.L1]: { blockExplorerURI: '' },
     [Layer.L2]: { blockExplorerURI: '' },
   }
 
   private bridgeApiUrl!: string
+  private contractsConfig: ContractsConfig = {}
   private fundingWallet!: ethers.Wallet
   private l1ETHGateway!: string
   private l1GatewayRouter!: string
@@ -135,71 +274,18 @@ export default class TestE2e extends Command {
   private manualFunding: boolean = false
   private mockFinalizeEnabled!: boolean
   private mockFinalizeTimeout!: number
+  // One per layer and wallet, so steps running in parallel do not send transactions with the same nonce
+  private nonceManagers = new Map<string, ethers.NonceManager>()
+  private ownerWallet?: ethers.Wallet
+  private passphrase?: string
+  private report?: E2EReport
 
-  private results: {
-    bridgeERC20L1ToL2: {
-      complete: boolean
-      l1DepositTx?: string
-      l2MessengerTx?: string
-      l2TokenAddress?: string
-      queueIndex?: number
-    }
-    bridgeERC20L2ToL1: {
-      complete: boolean
-      l2WithdrawTx?: string
-    }
-    bridgeFundsL1ToL2: {
-      complete: boolean
-      l1DepositTx?: string
-      l2MessengerTx?: string
-      queueIndex?: number
-    }
-    bridgeFundsL2ToL1: {
-      complete: boolean
-      l2WithdrawTx?: string
-    }
-    claimERC20OnL1: {
-      complete: boolean
-      l1ClaimTx?: string
-    }
-    claimETHOnL1: {
-      complete: boolean
-      l1ClaimTx?: string
-    }
-    deployERC20OnL1: {
-      address?: string
-      complete: boolean
-      txHash?: string
-    }
-    deployERC20OnL2: {
-      address?: string
-      complete: boolean
-      txHash?: string
-    }
-    fundWalletOnL1: {
-      complete: boolean
-      generatedPrivateKey?: string // should never store user provided key
-      walletAddress?: string
-    }
-    fundWalletOnL2: {
-      complete: boolean
-    }
-  } = {
-      bridgeERC20L1ToL2: { complete: false },
-      bridgeERC20L2ToL1: { complete: false },
-      bridgeFundsL1ToL2: { complete: false },
-      bridgeFundsL2ToL1: { complete: false },
-      claimERC20OnL1: { complete: false },
-      claimETHOnL1: { complete: false },
-      deployERC20OnL1: { complete: false },
-      deployERC20OnL2: { complete: false },
-      fundWalletOnL1: { complete: false },
-      fundWalletOnL2: { complete: false },
-    }
-
-  private resumeFilePath: string | undefined
+  private resumeFilePath!: string
+  private settings!: E2ESettings
 
   private skipWalletGen: boolean = false
+  private state: E2EResumeState = emptyResumeState()
+  private statusView?: StatusView
 
   private wallet!: ethers.Wallet
 
@@ -207,6 +293,16 @@ export default class TestE2e extends Command {
   private l1GasTokenAddress: string = ''
   private l1GasTokenGateway: string = ''
 
+  // While steps run in parallel, output goes above the status view and is prefixed with the step writing it.
+  public log(message = '', ...args: unknown[]): void {
+    if (this.statusView) {
+      this.statusView.log(format(message, ...args), currentStepName())
+      return
+    }
+
+    super.log(message, ...args)
+  }
+
   public async run(): Promise<void> {
     try {
       const { flags } = await this.parse(TestE2e)
@@ -215,11 +311,13 @@ export default class TestE2e extends Command {
       const contractsPath = path.resolve(flags.contracts)
       this.manualFunding = flags.manual
 
-      const config = parseTomlConfig(configPath)
-      const contractsConfig: ContractsConfig = parseTomlConfig(contractsPath)
+      const config = loadConfig(configPath)
+      const contractsConfig: ContractsConfig = loadContractsConfig(contractsPath)
+      this.contractsConfig = contractsConfig
+      this.settings = resolveE2ESettings(config.test, flags as Record<string, string | undefined>)
 
       // Check for alternative gas token
-      this.altGasTokenEnabled = config?.['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED === true
+      this.altGasTokenEnabled = isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)
       if (this.altGasTokenEnabled) {
         this.log(chalk.yellow('Alternative Gas Token mode is enabled.'))
 
@@ -236,24 +334,10 @@ export default class TestE2e extends Command {
 
       // TODO: Grab important contracts and save them somewhere?
 
-      let l1RpcUrl: string
-      let l2RpcUrl: string
-
-      // if we're running inside a pod, we shouldn't use external URLs
-      if (flags.pod) {
-        l1RpcUrl = config?.general?.L1_RPC_ENDPOINT
-        l2RpcUrl = config?.general?.L2_RPC_ENDPOINT
-      } else {
-        l1RpcUrl = config?.frontend?.EXTERNAL_RPC_URI_L1
-        l2RpcUrl = config?.frontend?.EXTERNAL_RPC_URI_L2
-      }
-
-      // Check if RPC URLs are defined
-      if (!l1RpcUrl || !l2RpcUrl) {
-        throw new ConfigurationError(
-          `Missing RPC URL(s) in ${configPath}. Please ensure L1_RPC_ENDPOINT and L2_RPC_ENDPOINT (for pod mode) or EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 (for non-pod mode) are defined.`,
-        )
-      }
+      const { bridgeApiUrl, l1RpcUrl, l2RpcUrl } = await this.resolveEndpoints(config, configPath, {
+        namespace: flags.namespace,
+        pod: flags.pod,
+      })
 
       const l1BlockExplorer = config?.frontend?.EXTERNAL_EXPLORER_URI_L1
       const l2BlockExplorer = config?.frontend?.EXTERNAL_EXPLORER_URI_L2
@@ -277,142 +361,121 @@ export default class TestE2e extends Command {
       this.l2GatewayRouter = contractsConfig.L2_GATEWAY_ROUTER_PROXY_ADDR
       this.l1MessegeQueueProxyAddress = contractsConfig.L1_MESSAGE_QUEUE_PROXY_ADDR
       this.l1Messenger = contractsConfig.L1_SCROLL_MESSENGER_PROXY_ADDR
-      this.mockFinalizeEnabled = config?.general.TEST_ENV_MOCK_FINALIZE_ENABLED === 'true'
-      this.mockFinalizeTimeout = config?.general.TEST_ENV_MOCK_FINALIZE_TIMEOUT_SEC ?? 0
-      // TODO: make this work for pod mode
-      this.bridgeApiUrl = config?.frontend.BRIDGE_API_URI
+      this.mockFinalizeEnabled = isEnabled(config.general?.TEST_ENV_MOCK_FINALIZE_ENABLED)
+      this.mockFinalizeTimeout = Number(config.general?.TEST_ENV_MOCK_FINALIZE_TIMEOUT_SEC ?? 0)
+      this.bridgeApiUrl = bridgeApiUrl
 
       this.l1Provider = new ethers.JsonRpcProvider(l1RpcUrl)
       this.l2Provider = new ethers.JsonRpcProvider(l2RpcUrl)
 
+      const deployerPrivateKey = config.accounts?.DEPLOYER_PRIVATE_KEY
+      const ownerPrivateKey = config.accounts?.OWNER_PRIVATE_KEY
+      if (ownerPrivateKey) {
+        this.ownerWallet = new ethers.Wallet(ownerPrivateKey)
+      }
+
       if (this.skipWalletGen) {
-        this.wallet = new ethers.Wallet(flags['private-key'] ?? config.accounts.DEPLOYER_PRIVATE_KEY)
-        this.results.fundWalletOnL1.walletAddress = this.wallet.address
+        const privateKey = flags['private-key'] ?? deployerPrivateKey
+        if (!privateKey) {
+          throw new ConfigurationError(
+            `--skip-wallet-generation needs --private-key or DEPLOYER_PRIVATE_KEY in the [accounts] section of ${configPath}.`,
+          )
+        }
+
+        this.wallet = new ethers.Wallet(privateKey)
         this.logResult(`Skipping wallet generation, using: ${this.wallet.address}`)
       } else if (flags['private-key']) {
         this.fundingWallet = new ethers.Wallet(flags['private-key'], this.l1Provider)
         this.logResult(`Funding Wallet: ${this.fundingWallet.address}`)
-      } else if (config.accounts.DEPLOYER_PRIVATE_KEY && !flags.manual) {
+      } else if (deployerPrivateKey && !flags.manual) {
         this.logResult('No funding source found. Using DEPLOYER_PRIVATE_KEY.')
-        this.fundingWallet = new ethers.Wallet(config.accounts.DEPLOYER_PRIVATE_KEY, this.l1Provider)
+        this.fundingWallet = new ethers.Wallet(deployerPrivateKey, this.l1Provider)
         this.logResult(`Funding Wallet: ${this.fundingWallet.address}`)
       } else {
         this.logResult('No Deploy private key found or provided. (Will prompt to fund L1 address manually.)')
       }
 
-      // Handle resume flag
-      if (flags.resume) {
-        // we may want a custom resume file in future
-        this.resumeFilePath = 'e2e_resume.json'
-        await this.loadResumeFile()
-        if (this.results.fundWalletOnL1.generatedPrivateKey) {
-          this.generateNewWallet(this.results.fundWalletOnL1.generatedPrivateKey)
-        }
+      // Handle resume flag; a new run must not overwrite the wallet of an unfinished one
+      this.resumeFilePath = flags['resume-file'] ?? resumeFileForRun(flags['run-id'])
+      await (flags.resume ? this.loadResumeFile() : assertNoUnfinishedRun(this.resumeFilePath))
+
+      if (this.skipWalletGen) {
+        this.state.wallet = { address: this.wallet.address }
+      } else {
+        await this.generateNewWallet()
+        // Save the generated key right away, so the funds sent to it can be recovered.
+        await this.saveProgress()
       }
 
-      await this.runE2ETest()
+      await this.runE2ETest(
+        { only: flags.only, skip: flags.skip },
+        { parallel: flags.parallel, report: flags.report as ReportFormat | undefined, reportFile: flags['report-file'] },
+      )
     } catch (error) {
       this.handleError(error)
     }
   }
 
-  private async bridgeERC20L1ToL2(): Promise<void> {
+  private async bridgeERC20L1ToL2(erc20Address: string): Promise<StepOutputs> {
     try {
       // Implement bridging ERC20 from L1 to L2
       this.logResult('Bridging ERC20 from L1 to L2', 'info')
       // Wait for token balance to exist in wallet before proceeding
-      const erc20Address = this.results.deployERC20OnL1.address
-      if (!erc20Address) {
-        throw new Error('ERC20 address not found. Make sure deployERC20OnL1 was successful.')
-      }
+      const erc20Contract = new ethers.Contract(erc20Address, erc20ABI, this.signer(Layer.L1))
 
-      const erc20Contract = new ethers.Contract(erc20Address, erc20ABI, this.wallet.connect(this.l1Provider))
-
-      let balance = BigInt(0)
-      // let attempts = 0
-      const delay = 15_000 // 15 seconds
-
-      while (balance === BigInt(0)) {
-        // eslint-disable-next-line no-await-in-loop
-        balance = await erc20Contract.balanceOf(this.wallet.address)
-        if (balance > BigInt(0)) {
-          this.logResult(`Token balance found: ${balance.toString()}`, 'success')
-          break
-        }
+      const balance: bigint = await poll(async () => {
+        const current: bigint = await erc20Contract.balanceOf(this.wallet.address)
+        if (current > BigInt(0)) return current
 
-        // attempts++
         this.logResult(`Waiting for token balance...`, 'info')
-        // eslint-disable-next-line no-await-in-loop, no-promise-executor-return
-        await new Promise((resolve) => setTimeout(resolve, delay))
-      }
-
-      const halfBalance = balance / 2n
+      }, this.pollOptions('the token balance on L1', WAIT_TIMEOUTS.balance, 5000, 15_000))
+      this.logResult(`Token balance found: ${balance.toString()}`, 'success')
 
-      // Set allowance for l1GatewayRouter
-      const approvalTx = await erc20Contract.approve(this.l1GatewayRouter, halfBalance)
-      await approvalTx.wait()
-
-      this.logResult(`Approved ${halfBalance} tokens for L1GatewayRouter`, 'success')
-
-      // Create L1GatewayRouter contract instance
-      const l1GatewayRouter = new ethers.Contract(
-        this.l1GatewayRouter,
-        l1GatewayRouterABI,
-        this.wallet.connect(this.l1Provider),
+      const gasLimit = this.settings.erc20DepositGasLimit
+      const { l1Tx, l2TxHash, queueIndex } = await deposit(
+        {
+          amount: balance / 2n,
+          asset: { kind: 'erc20', token: erc20Address },
+          fee: await this.messageFee(gasLimit),
+          gasLimit,
+          onSent: (description, txHash) => this.logTx(txHash, `${description} transaction sent`, Layer.L1),
+        },
+        this.signer(Layer.L1),
+        this.contractsConfig,
       )
 
-      // Gas cost for initial ERC20 bridging
-      const erc20GasLimitGatewayRouter = 450_000
-
-      // Call depositERC20
-      const depositTx = await l1GatewayRouter.depositERC20(erc20Address, halfBalance, erc20GasLimitGatewayRouter, {
-        value: ethers.parseEther('0.001'),
-      })
-      // TODO: figure out value here
-      await depositTx.wait()
-
-      // const blockNumber = receipt?.blockNumber;
-
       // Get L2TokenAddress from L1 Contract Address
       const l2TokenAddress = await getL2TokenFromL1Address(erc20Address, this.l1Rpc, this.l1GatewayRouter)
-      const { l2TxHash, queueIndex } = await getCrossDomainMessageFromTx(
-        depositTx.hash,
-        this.l1Rpc,
-        this.l1MessegeQueueProxyAddress,
-      )
 
-      this.logTx(depositTx.hash, `Deposit transaction sent`, Layer.L1)
       this.logAddress(l2TokenAddress, `L2 Token Address`, Layer.L2)
       this.logTx(l2TxHash, `L2 Messenger Tx`, Layer.L2)
 
-      this.results.bridgeERC20L1ToL2 = {
-        complete: false,
-        l1DepositTx: depositTx.hash,
+      return {
+        l1DepositTx: l1Tx,
         l2MessengerTx: l2TxHash,
         l2TokenAddress,
         queueIndex,
       }
     } catch (error) {
+      if (error instanceof PollError) throw error
       throw new BridgingError(
         `Error bridging ERC20 from L1 to L2: ${error instanceof Error ? error.message : 'Unknown error'}`,
       )
     }
   }
 
-  private async bridgeERC20L2ToL1(): Promise<void> {
+  private async bridgeERC20L2ToL1(erc20Address: string): Promise<StepOutputs> {
     try {
       // Implement bridging ERC20 from L2 to L1
       this.logResult('Bridging L1-originated ERC20 from L2 to L1', 'info')
 
       // Wait for token balance to exist in wallet before proceeding
-      const erc20Address = this.results.bridgeERC20L1ToL2.l2TokenAddress
-      if (!erc20Address) {
-        throw new Error('ERC20 address not found. Make sure deployERC20OnL1 was successful.')
-      }
-
       this.log(JSON.stringify({ erc20Address, rpc: this.l2Rpc, wallet: this.wallet.address }))
 
-      const balance = await awaitERC20Balance(this.wallet.address, erc20Address, this.l2Rpc)
+      const balance = await awaitERC20Balance(this.wallet.address, erc20Address, this.l2Rpc, {
+        ...this.pollOptions('the token balance on L2', WAIT_TIMEOUTS.balance, 5000, 15_000),
+        onProgress: ({ attempt }) => this.logResult(`Attempt ${attempt}: Waiting for token balance...`, 'info'),
+      })
 
       // let balance = BigInt(0)
       // let attempts = 0
@@ -439,73 +502,49 @@ export default class TestE2e extends Command {
       //   await new Promise((resolve) => setTimeout(resolve, delay))
       // }
 
-      const halfBalance = BigInt(Number.parseInt(balance, 10)) / 2n
-
-      // Set allowance for l2GatewayRouter
-      const erc20Contract = new ethers.Contract(erc20Address, scrollERC20ABI, this.wallet.connect(this.l2Provider))
-      const approvalTx = await erc20Contract.approve(this.l2GatewayRouter, halfBalance)
-      await approvalTx.wait()
-
-      this.logResult(`Approved ${halfBalance} tokens for L2GatewayRouter`, 'success')
-
-      // Create L2GatewayRouter contract instance
-      const l2GatewayRouter = new ethers.Contract(
-        this.l2GatewayRouter,
-        l2GatewayRouterWithdrawERC20ABI,
-        this.wallet.connect(this.l2Provider),
+      const { l2Tx } = await withdraw(
+        { amount: BigInt(balance) / 2n, asset: { kind: 'erc20', token: erc20Address } },
+        this.signer(Layer.L2),
+        this.contractsConfig,
       )
 
-      // Call withdrawERC20
-      const withdrawTx = await l2GatewayRouter.withdrawERC20(erc20Address, halfBalance, 0, { value: 0 })
-      await withdrawTx.wait()
-
-      this.logResult(`Withdrawal transaction sent: ${withdrawTx.hash}`, 'success')
-      this.results.bridgeERC20L2ToL1 = {
-        complete: true,
-        l2WithdrawTx: withdrawTx.hash,
-      }
+      this.logResult(`Withdrawal transaction sent: ${l2Tx}`, 'success')
+      return { l2WithdrawTx: l2Tx }
     } catch (error) {
+      if (error instanceof PollError) throw error
       throw new BridgingError(
         `Error bridging ERC20 from L2 to L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
       )
     }
   }
 
-  private async bridgeFundsL1ToL2(): Promise<void> {
+  private async bridgeFundsL1ToL2(): Promise<StepOutputs> {
     try {
       // Implement bridging funds from L1 to L2
       this.logResult('Bridging funds from L1 to L2', 'info')
 
-      const amount = ethers.parseEther((FUNDING_AMOUNT / 2).toString())
-      const gasLimit = BigInt(170_000) // Adjust this value as needed
-      // TODO: what's the best way to determine the gasLimit?
-
-      // const l2BaseFee = await getGasOracleL2BaseFee(this.l1Rpc, this.l1MessegeQueueProxyAddress)
-      const value = ethers.parseEther((FUNDING_AMOUNT / 2 + 0.001).toString())
-
-      // Create the contract instance
-      const l1ETHGateway = new ethers.Contract(this.l1ETHGateway, l1ETHGatewayABI, this.wallet.connect(this.l1Provider))
+      const amount = this.settings.ethDepositAmount
+      const gasLimit = this.settings.ethDepositGasLimit
+      const fee = await this.messageFee(gasLimit)
 
-      // const value = amount + ethers.parseEther(`${gasLimit*l2BaseFee} wei`);
-      await this.logAddress(await l1ETHGateway.getAddress(), `Depositing ${amount} by sending ${value} to`, Layer.L1)
+      await this.logAddress(this.l1ETHGateway, `Depositing ${amount} by sending ${amount + fee} to`, Layer.L1)
 
-      const tx = await l1ETHGateway.depositETH(amount, gasLimit, { value })
-
-      await this.logTx(tx.hash, 'Transaction sent', Layer.L1)
-      const receipt = await tx.wait()
-      const blockNumber = receipt?.blockNumber
-
-      this.logResult(`Transaction mined in block: ${chalk.cyan(blockNumber)}`, 'success')
-
-      const { l2TxHash, queueIndex } = await getCrossDomainMessageFromTx(
-        tx.hash,
-        this.l1Rpc,
-        this.l1MessegeQueueProxyAddress,
+      const { l1Tx, l2TxHash, queueIndex } = await deposit(
+        {
+          amount,
+          asset: { kind: 'eth' },
+          fee,
+          gasLimit,
+          onSent: (_description, txHash) => this.logTx(txHash, 'Transaction sent', Layer.L1),
+        },
+        this.signer(Layer.L1),
+        this.contractsConfig,
       )
 
-      this.results.bridgeFundsL1ToL2 = {
-        complete: false,
-        l1DepositTx: tx.hash,
+      this.logResult(`Transaction mined`, 'success')
+
+      return {
+        l1DepositTx: l1Tx,
         l2MessengerTx: l2TxHash,
         queueIndex,
       }
@@ -516,31 +555,27 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async bridgeFundsL2ToL1(): Promise<void> {
+  private async bridgeFundsL2ToL1(): Promise<StepOutputs> {
     try {
       this.logResult('Bridging funds from L2 to L1', 'info')
 
-      const amount = ethers.parseEther((FUNDING_AMOUNT / 4).toString())
-      const value = amount
-      // const value = ethers.parseEther((FUNDING_AMOUNT / 4 + 0.001).toString());
-      // TODO: sort out how to set value here
-
-      // Create the contract instance
-      const l2ETHGateway = new ethers.Contract(this.l2ETHGateway, l2ETHGatewayABI, this.wallet.connect(this.l2Provider))
-
-      // const value = amount + ethers.parseEther(`${gasLimit*l2BaseFee} wei`);
-      await this.logAddress(await l2ETHGateway.getAddress(), `Withdrawing ${amount} by sending ${value} to`, Layer.L2)
+      const amount = this.settings.ethWithdrawAmount
 
-      const tx = await l2ETHGateway.withdrawETH(amount, 0, { value })
-      this.results.bridgeFundsL2ToL1.l2WithdrawTx = tx.hash
+      await this.logAddress(this.l2ETHGateway, `Withdrawing ${amount} by sending ${amount} to`, Layer.L2)
 
-      await this.logTx(tx.hash, 'Transaction sent', Layer.L2)
-      const receipt = await tx.wait()
-      const blockNumber = receipt?.blockNumber
+      const { l2Tx } = await withdraw(
+        {
+          amount,
+          asset: { kind: 'eth' },
+          onSent: (_description, txHash) => this.logTx(txHash, 'Transaction sent', Layer.L2),
+        },
+        this.signer(Layer.L2),
+        this.contractsConfig,
+      )
 
-      this.logResult(`Transaction mined in block: ${chalk.cyan(blockNumber)}`, 'success')
+      this.logResult(`Transaction mined`, 'success')
 
-      this.results.bridgeFundsL2ToL1.complete = true
+      return { l2WithdrawTx: l2Tx }
     } catch (error) {
       throw new BridgingError(
         `Error bridging funds from L2 to L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -548,11 +583,12 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async claimERC20OnL1(): Promise<void> {
+  private async claimOnL1(asset: string, l2WithdrawTx: string): Promise<StepOutputs> {
     try {
-      // Implement claiming ERC20 on L1
-      this.logResult('Claiming ERC20 on L1', 'info')
+      // Implement claiming funds on L1
+      this.logResult(`Claiming ${asset} on L1`, 'info')
 
+      // TODO: Why is this not working?
       if (this.mockFinalizeEnabled) {
         this.logResult(
           `Config shows finalization timeout enabled at ${this.mockFinalizeTimeout} seconds. May need to wait...`,
@@ -561,121 +597,91 @@ export default class TestE2e extends Command {
         this.logResult(`Proof generation can take up to 1h. Please wait...`)
       }
 
-      if (this.results.bridgeERC20L2ToL1.l2WithdrawTx === undefined) {
-        throw new BridgingError('L2 deposit ETH transaction hash is undefined. Cannot claim funds on L1.')
-      }
-
-      const txHash = await this.findAndExecuteWithdrawal(this.results.bridgeERC20L2ToL1.l2WithdrawTx)
+      const txHash = await this.findAndExecuteWithdrawal(l2WithdrawTx)
 
-      this.results.claimERC20OnL1.complete = true
-      this.results.claimERC20OnL1.l1ClaimTx = txHash
+      // null when the withdrawal had already been claimed
+      return { l1ClaimTx: txHash ?? null }
     } catch (error) {
-      throw new Error(`Error claiming ERC20 on L1: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      if (error instanceof PollError) throw error
+      throw new Error(`Error claiming ${asset} on L1: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  private async claimFundsOnL1(): Promise<void> {
-    try {
-      // Implement claiming funds on L1
-      this.logResult('Claiming funds on L1', 'info')
-
-      // TODO: Why is this not working?
-      if (this.mockFinalizeEnabled) {
-        this.logResult(
-          `Config shows finalization timeout enabled at ${this.mockFinalizeTimeout} seconds. May need to wait...`,
-        )
-      } else {
-        this.logResult(`Proof generation can take up to 1h. Please wait...`)
-      }
-
-      if (this.results.bridgeFundsL2ToL1.l2WithdrawTx === undefined) {
-        throw new BridgingError('L2 deposit ETH transaction hash is undefined. Cannot claim funds on L1.')
-      }
-
-      const txHash = await this.findAndExecuteWithdrawal(this.results.bridgeFundsL2ToL1.l2WithdrawTx)
-
-      this.results.claimETHOnL1.complete = true
-      this.results.claimETHOnL1.l1ClaimTx = txHash
-    } catch (error) {
-      throw new Error(`Error claiming funds on L1: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  private claimSources(): WithdrawalClaimSources {
+    return {
+      bridgeApiUrl: this.bridgeApiUrl,
+      contracts: this.contractsConfig,
+      l1Provider: this.l1Provider,
+      l2Provider: this.l2Provider,
+      messageScan: { lastBlock: -1, messageHashes: [] },
     }
   }
 
-  private async completeL1ERC20Deposit(): Promise<void> {
+  private async completeEnforcedTransaction(l2TxHash: string): Promise<void> {
+    const spinner = this.spinner('Waiting for the enforced transaction to be included on L2...')
+
     try {
-      this.logResult('Waiting for L1 ERC20 deposit to complete on L2...', 'info')
+      const receipt = await awaitTx(
+        l2TxHash,
+        this.l2Provider,
+        this.pollOptions(`the enforced transaction ${l2TxHash}`, WAIT_TIMEOUTS.l2Inclusion, 2000, 15_000),
+      )
 
-      if (!this.results.bridgeERC20L1ToL2.l2MessengerTx) {
-        throw new BridgingError('L2 destination transaction hash for ERC20 deposit is missing.')
+      if (receipt.status !== 1) {
+        throw new BridgingError('Enforced transaction failed or was reverted on L2.')
       }
 
-      const spinner = ora('Waiting for L2 transaction to be mined...').start()
-
-      try {
-        // Wait for the L2 transaction to be mined
-        const l2Receipt = await this.l2Provider.waitForTransaction(this.results.bridgeERC20L1ToL2.l2MessengerTx)
-
-        if (l2Receipt && l2Receipt.status === 1) {
-          spinner.succeed('L1 ERC20 deposit successfully completed on L2')
-          this.results.bridgeERC20L1ToL2.complete = true
-        } else {
-          spinner.fail('L2 ERC20 deposit transaction failed or was reverted.')
-          throw new BridgingError('L2 ERC20 deposit transaction failed or was reverted.')
-        }
-      } catch (error) {
-        spinner.fail('Failed to complete L1 ERC20 deposit')
-        throw error
+      // The L2 transaction must run as the wallet that signed it, not as an aliased L1 contract
+      if (receipt.from.toLowerCase() !== this.wallet.address.toLowerCase()) {
+        throw new BridgingError(`Enforced transaction was sent from ${receipt.from} on L2, expected ${this.wallet.address}.`)
       }
+
+      spinner.succeed(`Enforced transaction included in L2 block ${receipt.blockNumber}, sent from ${receipt.from}`)
     } catch (error) {
+      spinner.fail('Enforced transaction did not complete on L2')
+      if (error instanceof PollError) throw error
       throw new BridgingError(
-        `Failed to complete L1 ERC20 deposit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to complete enforced transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
       )
     }
   }
 
-  private async completeL1ETHDeposit(): Promise<void> {
+  private async completeL1Deposit(asset: string, l2MessengerTx: string): Promise<void> {
     try {
-      this.logResult('Waiting for L1 ETH deposit to complete on L2...', 'info')
+      this.logResult(`Waiting for L1 ${asset} deposit to complete on L2...`, 'info')
 
-      if (!this.results.bridgeFundsL1ToL2.l2MessengerTx) {
-        throw new BridgingError('L2 destination transaction hash is missing.')
-      }
-
-      const spinner = ora('Waiting for L2 transaction to be mined...').start()
+      const spinner = this.spinner('Waiting for L2 transaction to be mined...')
 
       try {
         // Wait for the L2 transaction to be mined
-        const l2Receipt = await this.l2Provider.waitForTransaction(this.results.bridgeFundsL1ToL2.l2MessengerTx)
+        const l2Receipt = await awaitTx(
+          l2MessengerTx,
+          this.l2Provider,
+          this.pollOptions(`L2 transaction ${l2MessengerTx}`, WAIT_TIMEOUTS.l2Inclusion, 2000, 15_000),
+        )
 
-        if (l2Receipt && l2Receipt.status === 1) {
-          spinner.succeed('L1 ETH deposit successfully completed on L2')
-          this.results.bridgeFundsL1ToL2.complete = true
-          this.results.fundWalletOnL2.complete = true
+        if (l2Receipt.status === 1) {
+          spinner.succeed(`L1 ${asset} deposit successfully completed on L2`)
         } else {
-          spinner.fail('L2 transaction failed or was reverted.')
-          throw new BridgingError('L2 transaction failed or was reverted.')
+          spinner.fail(`L2 ${asset} deposit transaction failed or was reverted.`)
+          throw new BridgingError(`L2 ${asset} deposit transaction failed or was reverted.`)
         }
       } catch (error) {
-        spinner.fail('Failed to complete L1 ETH deposit')
+        spinner.fail(`Failed to complete L1 ${asset} deposit`)
         throw error
       }
     } catch (error) {
+      if (error instanceof PollError) throw error
       throw new BridgingError(
-        `Failed to complete L1 ETH deposit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to complete L1 ${asset} deposit: ${error instanceof Error ? error.message : 'Unknown error'}`,
       )
     }
   }
 
   private async deployERC20(layer: Layer) {
     try {
-      // Choose the correct provider based on the layer
-      const provider = layer === Layer.L1 ? this.l1Provider : this.l2Provider
-
-      // Connect the wallet to the correct provider
-      const connectedWallet = this.wallet.connect(provider)
-
-      // Create the contract factory with the connected wallet
-      const tokenFactory = new ethers.ContractFactory(erc20ABI, erc20Bytecode, connectedWallet)
+      // Create the contract factory with the wallet's signer on that layer
+      const tokenFactory = new ethers.ContractFactory(erc20ABI, erc20Bytecode, this.signer(layer))
 
       // Deploy the contract
       const tokenContract = await tokenFactory.deploy()
@@ -696,7 +702,7 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async deployERC20OnL1(): Promise<void> {
+  private async deployERC20OnL1(): Promise<StepOutputs> {
     try {
       // Implement deploying ERC20 on L1
       this.logResult('Deploying ERC20 on L1', 'info')
@@ -705,8 +711,7 @@ export default class TestE2e extends Command {
 
       this.logAddress(tokenContract, 'Token successfully deployed', Layer.L1)
 
-      this.results.deployERC20OnL1.address = tokenContract
-      this.results.deployERC20OnL1.complete = true
+      return { address: tokenContract }
     } catch (error) {
       throw new DeploymentError(
         `Failed to deploy ERC20 on L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -714,7 +719,7 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async deployERC20OnL2(): Promise<void> {
+  private async deployERC20OnL2(): Promise<StepOutputs> {
     try {
       // Implement deploying ERC20 on L2
       this.logResult('Deploying ERC20 on L2', 'info')
@@ -724,8 +729,7 @@ export default class TestE2e extends Command {
 
       this.logAddress(tokenContract, 'Token successfully deployed', Layer.L2)
 
-      this.results.deployERC20OnL2.address = tokenContract
-      this.results.deployERC20OnL2.complete = true
+      return { address: tokenContract }
     } catch (error) {
       throw new DeploymentError(
         `Failed to deploy ERC20 on L2: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -733,81 +737,172 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async findAndExecuteWithdrawal(txHash: string) {
+  private async deployTestNFT(standard: NFTStandard, layer: Layer): Promise<StepOutputs> {
+    const layerName = layer === Layer.L1 ? 'L1' : 'L2'
+
     try {
-      let unclaimedWithdrawal
-      let found = false
+      this.logResult(`Deploying test ${standard} on ${layerName}`, 'info')
 
-      while (!unclaimedWithdrawal?.claim_info) {
-        let withdrawals: Withdrawal[] = []
+      const { abi, bytecode, l2Gateway } = NFT_CONTRACTS[standard]
+      // The L1 token mints the test tokens to us, the L2 token leaves minting and burning to the gateway
+      const gateway = layer === Layer.L1 ? ethers.ZeroAddress : this.contractsConfig[l2Gateway]
 
-        try {
-          // eslint-disable-next-line no-await-in-loop
-          withdrawals = await getWithdrawals(this.wallet.address, this.bridgeApiUrl)
-        } catch (error) {
-          const url = `${this.bridgeApiUrl}/withdrawals?address=${this.wallet.address}`
-          this.logResult(
-            `Warning: Failed to get withdrawals from ${url}. Continuing... Error: ${error instanceof Error ? error.message : 'Unknown error'
-            }`,
-            'warning',
-          )
-        }
+      const tokenFactory = new ethers.ContractFactory(abi, bytecode, this.signer(layer))
+      const tokenContract = await tokenFactory.deploy(gateway)
+      await tokenContract.waitForDeployment()
 
-        // Check to see if the bridged tx is among unclaimed withdrawals if so, set withdrawalFound to true.
-        for (const withdrawal of withdrawals) {
-          if (withdrawal.hash === txHash) {
-            unclaimedWithdrawal = withdrawal
-            !found && this.logResult(`Found matching withdrawal for transaction: ${txHash}`, 'success')
-            found = true
-            break
-          }
-        }
+      const address = await tokenContract.getAddress()
+      await this.logAddress(address, 'Token successfully deployed', layer)
 
-        const l1TxHash = unclaimedWithdrawal?.counterpart_chain_tx.hash
-        if (l1TxHash) {
-          this.logTx(l1TxHash, 'This withdrawal has already been claimed', Layer.L1)
-          return
-        }
+      return { address }
+    } catch (error) {
+      throw new DeploymentError(
+        `Failed to deploy ${standard} on ${layerName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  }
 
-        if (!unclaimedWithdrawal) {
-          this.logResult(`Withdrawal not found yet. Waiting...`, 'info')
-          // eslint-disable-next-line no-await-in-loop, no-promise-executor-return
-          await new Promise((resolve) => setTimeout(resolve, 60_000)) // Wait for 20 seconds before checking again
-        } else if (!unclaimedWithdrawal?.claim_info) {
-          this.logResult(`Withdrawal seen, but waiting for finalization. Waiting...`, 'info')
-          // eslint-disable-next-line no-await-in-loop, no-promise-executor-return
-          await new Promise((resolve) => setTimeout(resolve, 60_000)) // Wait for 20 seconds before checking again
-        }
-      }
+  private async depositTestNFT(standard: NFTStandard, l1Token: string): Promise<StepOutputs> {
+    try {
+      this.logResult(`Bridging ${standard} from L1 to L2`, 'info')
+
+      const { abi, l1Gateway, l1GatewayABI } = NFT_CONTRACTS[standard]
+      const gatewayAddress = this.contractsConfig[l1Gateway]
+      const signer = this.signer(Layer.L1)
+      const tokenContract = new ethers.Contract(l1Token, abi, signer)
+      const gateway = new ethers.Contract(gatewayAddress, l1GatewayABI, signer)
+      const fee = { value: await this.messageFee(this.settings.nftDepositGasLimit) }
+
+      const approvalTx =
+        standard === 'ERC721'
+          ? await tokenContract.approve(gatewayAddress, TEST_NFT_ID)
+          : await tokenContract.setApprovalForAll(gatewayAddress, true)
+      await approvalTx.wait()
 
-      if (!unclaimedWithdrawal.claim_info.claimable) {
-        throw new Error(`Claim found, but marked as "unclaimable".`)
-      }
+      this.logResult(`Approved ${standard} token ${TEST_NFT_ID} for L1 ${standard} Gateway`, 'success')
+
+      const depositTx =
+        standard === 'ERC721'
+          ? await gateway.depositERC721(l1Token, TEST_NFT_ID, this.settings.nftDepositGasLimit, fee)
+          : await gateway.depositERC1155(
+              l1Token,
+              TEST_NFT_ID,
+              TEST_ERC1155_AMOUNT,
+              this.settings.nftDepositGasLimit,
+              fee,
+            )
+      await depositTx.wait()
+      await this.logTx(depositTx.hash, 'Deposit transaction sent', Layer.L1)
 
-      if (!unclaimedWithdrawal?.claim_info) {
-        throw new Error(`No claim info in claim withdrawal.`)
+      const { l2TxHash, queueIndex } = await getCrossDomainMessageFromTx(
+        depositTx.hash,
+        this.l1Rpc,
+        this.l1MessegeQueueProxyAddress,
+      )
+
+      await this.logTx(l2TxHash, 'L2 Messenger Tx', Layer.L2)
+
+      return {
+        l1DepositTx: depositTx.hash,
+        l2MessengerTx: l2TxHash,
+        queueIndex,
       }
+    } catch (error) {
+      throw new BridgingError(
+        `Error bridging ${standard} from L1 to L2: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  }
+
+  // Checks the wallet holds the bridged tokens: the ERC721 token, or on L1 the whole ERC1155 supply again.
+  private async expectNFTBalance(standard: NFTStandard, token: string, layer: Layer): Promise<void> {
+    const layerName = layer === Layer.L1 ? 'L1' : 'L2'
+    const provider = layer === Layer.L1 ? this.l1Provider : this.l2Provider
+    const tokenContract = new ethers.Contract(token, NFT_CONTRACTS[standard].abi, provider)
+
+    let balance: bigint
+    let expected: bigint
+    if (standard === 'ERC721') {
+      // ownerOf reverts for tokens that were never minted or have been burnt
+      const owner: string = await tokenContract.ownerOf(TEST_NFT_ID).catch(() => ethers.ZeroAddress)
+      balance = owner === this.wallet.address ? 1n : 0n
+      expected = 1n
+    } else {
+      balance = await tokenContract.balanceOf(this.wallet.address, TEST_NFT_ID)
+      expected = layer === Layer.L1 ? TEST_ERC1155_SUPPLY : TEST_ERC1155_AMOUNT
+    }
+
+    if (balance !== expected) {
+      throw new BridgingError(
+        `Wallet holds ${balance} of ${standard} token ${TEST_NFT_ID} on ${layerName}, expected ${expected}.`,
+      )
+    }
+
+    this.logResult(`Wallet holds ${balance} of ${standard} token ${TEST_NFT_ID} on ${layerName}`, 'success')
+  }
 
-      //
+  private async findAndExecuteWithdrawal(txHash: string) {
+    try {
+      let found = false
+      // The same sources across attempts, so proofs from chain data only read the blocks added since the last one
+      const sources = this.claimSources()
+
+      const withdrawal = await poll<{ claimInfo: ClaimInfo } | { l1TxHash: string }>(
+        async () => {
+          let claim
+          try {
+            claim = await findWithdrawalClaim(txHash, sources, (warning) =>
+              this.logResult(`Warning: ${warning}. Continuing...`, 'warning'),
+            )
+          } catch (error) {
+            this.logResult(
+              `Warning: Failed to build the withdrawal proof from chain data. Continuing... Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              'warning',
+            )
+          }
 
-      // Now build and make the withdrawal claim
+          if (claim?.indexed && !found) {
+            this.logResult(`Found matching withdrawal for transaction: ${txHash}`, 'success')
+            found = true
+          }
 
-      // Create the contract instance
-      const l1Messenger = new ethers.Contract(
-        this.l1Messenger,
-        l1MessengerRelayMessageWithProofABI,
-        this.wallet.connect(this.l1Provider),
+          if (claim?.l1ClaimTx) return { l1TxHash: claim.l1ClaimTx }
+          if (claim?.claimInfo) {
+            if (claim.source === 'L2 messages') {
+              this.logResult(`Built the withdrawal proof from L2 messages, against batch ${claim.claimInfo.proof.batch_index}`, 'success')
+            }
+
+            return { claimInfo: claim.claimInfo }
+          }
+
+          this.logResult(
+            found ? `Withdrawal seen, but waiting for finalization. Waiting...` : `Withdrawal not found yet. Waiting...`,
+            'info',
+          )
+        },
+        this.pollOptions(`withdrawal ${txHash} to become claimable`, WAIT_TIMEOUTS.withdrawal, 15_000, 60_000),
       )
 
-      // const value = amount + ethers.parseEther(`${gasLimit*l2BaseFee} wei`);
-      await this.logAddress(await l1Messenger.getAddress(), `Calling relayMessageWithProof on`, Layer.L1)
+      if ('l1TxHash' in withdrawal) {
+        this.logTx(withdrawal.l1TxHash, 'This withdrawal has already been claimed', Layer.L1)
+        return
+      }
 
-      const { from, message, nonce, proof, to, value } = unclaimedWithdrawal.claim_info
+      const { claimInfo } = withdrawal
 
-      const tx = await l1Messenger.relayMessageWithProof(from, to, value, nonce, message, {
-        batchIndex: proof.batch_index,
-        merkleProof: proof.merkle_proof,
-      })
+      if (!claimInfo.claimable) {
+        throw new Error(`Claim found, but marked as "unclaimable".`)
+      }
+
+      // A claim built from chain data does not know whether the message was already relayed
+      if (await isWithdrawalClaimed(claimInfo, this.contractsConfig, this.l1Provider)) {
+        this.logResult('This withdrawal has already been claimed', 'info')
+        return
+      }
+
+      // Now make the withdrawal claim
+      await this.logAddress(this.l1Messenger, `Calling relayMessageWithProof on`, Layer.L1)
+      const tx = await claimWithdrawal(claimInfo, this.contractsConfig, this.signer(Layer.L1))
 
       await this.logTx(tx.hash, 'Transaction sent', Layer.L1)
       const receipt = await tx.wait()
@@ -815,8 +910,9 @@ export default class TestE2e extends Command {
 
       this.logResult(`Transaction mined in block: ${chalk.cyan(blockNumber)}`, 'success')
 
-      return receipt.hash
+      return tx.hash
     } catch (error) {
+      if (error instanceof PollError) throw error
       throw new Error(
         `Error finding and executing withdrawal on L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
       )
@@ -844,34 +940,31 @@ export default class TestE2e extends Command {
       }
 
       const shouldFund = await confirm({
-        message: `Do you want to fund this wallet with ${FUNDING_AMOUNT} ETH?`,
+        message: `Do you want to fund this wallet with ${ethers.formatEther(this.settings.fundingAmount)} ETH?`,
         default: false
       })
 
       if (!shouldFund) {
         this.logResult('Skipping wallet funding...', 'info')
-        this.results.fundWalletOnL1.complete = true
         return
       }
 
       if (this.fundingWallet && !this.manualFunding) {
         this.logResult('Sending funds to wallet...')
-        await this.fundWalletWithEth(FUNDING_AMOUNT, Layer.L1)
+        await this.fundWalletWithEth(this.settings.fundingAmount, Layer.L1)
 
         if (this.altGasTokenEnabled) {
           const gasTokenAmount = await this.promptForGasTokenAmount()
           await this.fundWalletWithGasToken(gasTokenAmount, Layer.L1)
         }
       } else {
-        await this.promptManualFunding(this.wallet.address, FUNDING_AMOUNT, Layer.L1)
+        await this.promptManualFunding(this.wallet.address, this.settings.fundingAmount, Layer.L1)
 
         if (this.altGasTokenEnabled) {
           const gasTokenAmount = await this.promptForGasTokenAmount()
           await this.promptManualFundingGasToken(this.wallet.address, gasTokenAmount, Layer.L1)
         }
       }
-
-      this.results.fundWalletOnL1.complete = true
     } catch (error) {
       throw new WalletFundingError(
         `Failed to fund wallet on L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -879,6 +972,56 @@ export default class TestE2e extends Command {
     }
   }
 
+  // The fee for an L1 -> L2 message: gas limit * the L2 base fee from the message queue's gas oracle, unless
+  // a fixed fee is configured. The messenger refunds anything paid above the fee.
+  private async messageFee(gasLimit: bigint): Promise<bigint> {
+    if (this.settings.messageFee !== undefined) return this.settings.messageFee
+
+    return estimateDepositFee(gasLimit, this.l1Provider, this.contractsConfig)
+  }
+
+  private async mapTestNFT(
+    standard: NFTStandard,
+    owner: ethers.Wallet,
+    l1Token: string,
+    l2Token: string,
+  ): Promise<StepOutputs> {
+    try {
+      this.logResult(`Mapping ${standard} tokens on the gateways as ${owner.address}`, 'info')
+
+      const { l1Gateway, l1GatewayABI, l2Gateway, l2GatewayABI } = NFT_CONTRACTS[standard]
+      // Each gateway maps its own layer's token to the counterpart, and only bridges mapped tokens
+      const mappings = [
+        { counterpart: l2Token, gateway: l1Gateway, gatewayABI: l1GatewayABI, layer: Layer.L1, token: l1Token },
+        { counterpart: l1Token, gateway: l2Gateway, gatewayABI: l2GatewayABI, layer: Layer.L2, token: l2Token },
+      ]
+
+      for (const { counterpart, gateway, gatewayABI, layer, token } of mappings) {
+        const gatewayContract = new ethers.Contract(this.contractsConfig[gateway], gatewayABI, this.signer(layer, owner))
+
+        // eslint-disable-next-line no-await-in-loop
+        const mapped: string = await gatewayContract.tokenMapping(token)
+        if (mapped.toLowerCase() === counterpart.toLowerCase()) {
+          this.logResult(`${gateway} already maps ${token}`, 'info')
+          continue
+        }
+
+        // eslint-disable-next-line no-await-in-loop
+        const tx = await gatewayContract.updateTokenMapping(token, counterpart)
+        // eslint-disable-next-line no-await-in-loop
+        await tx.wait()
+        // eslint-disable-next-line no-await-in-loop
+        await this.logTx(tx.hash, `Mapped ${token} to ${counterpart}`, layer)
+      }
+
+      return {}
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to map ${standard} tokens on the gateways: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  }
+
   private async promptForGasTokenAmount(): Promise<bigint> {
     const erc20ABI = [
       'function symbol() view returns (string)',
@@ -969,64 +1112,66 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async fundWalletOnL2(): Promise<void> {
+  private async fundWalletOnL2(): Promise<StepOutputs> {
     // Starts after this.bridgeFundsL1toL2 is completed
     const answer = await this.promptUserForL2Funding()
 
     // if (response.action === 'Directly fund L2 wallet') {
     if (answer === 'bridge') {
       // TODO: handle some async stuff in parallel
+      // the deposit is awaited by the relay-eth-deposit step
       this.logResult(`Waiting for L1 -> L2 bridge to complete...`, 'info')
-
-      // will check this later in the main flow...
-
-      this.results.fundWalletOnL2.complete = false
-
-      return
-    }
-
-    if (this.fundingWallet && answer === 'funder') {
+    } else if (this.fundingWallet && answer === 'funder') {
       this.logResult('Sending funds to new wallet...', 'info')
-      await this.fundWalletWithEth(FUNDING_AMOUNT / 2, Layer.L2)
-
-      this.results.fundWalletOnL2.complete = true
-
-      return
+      await this.fundWalletWithEth(this.settings.l2FundingAmount, Layer.L2)
+    } else {
+      await this.promptManualFunding(this.wallet.address, this.settings.l2FundingAmount, Layer.L2)
     }
 
-    await this.promptManualFunding(this.wallet.address, FUNDING_AMOUNT / 2, Layer.L2)
-
-    this.results.fundWalletOnL2.complete = true
+    return { method: answer }
   }
 
-  private async fundWalletWithEth(amount: number = FUNDING_AMOUNT, layer: Layer = Layer.L1): Promise<void> {
+  private async fundWalletWithEth(amount: bigint, layer: Layer = Layer.L1): Promise<void> {
     const wallet = layer === Layer.L1 ? this.fundingWallet : new Wallet(this.fundingWallet.privateKey, this.l2Provider)
     const tx = await wallet.sendTransaction({
       to: this.wallet.address,
-      value: ethers.parseEther(amount.toString()),
+      value: amount,
     })
     await tx.wait()
-    await this.logTx(tx.hash, `Funded wallet with ${amount} ETH`, layer)
+    await this.logTx(tx.hash, `Funded wallet with ${ethers.formatEther(amount)} ETH`, layer)
   }
 
-  // Generate a new random wallet to run all tests.
-  private async generateNewWallet(privateKey: string = ''): Promise<void> {
-    if (privateKey) {
+  // Generate a new random wallet to run all tests, or restore the one of the run being resumed.
+  // Its key is only saved encrypted with a passphrase.
+  private async generateNewWallet(): Promise<void> {
+    const restored = await restoreTestWallet(this.state.wallet, () => this.walletPassphrase())
+    if (restored) {
       this.logResult('Detected existing wallet...')
     } else {
-      const randomWallet = ethers.Wallet.createRandom()
-      privateKey = randomWallet.privateKey
       this.logResult('Generated new wallet...')
     }
 
+    const { privateKey } = restored ?? ethers.Wallet.createRandom()
     this.wallet = new ethers.Wallet(privateKey, this.l1Provider)
     await this.logAddress(this.wallet.address, 'Wallet address', Layer.L1)
-    this.results.fundWalletOnL1 = { complete: false, generatedPrivateKey: privateKey, walletAddress: this.wallet.address }
-    this.logResult(`Private Key: ${chalk.yellow(this.wallet.privateKey)}`, 'warning')
+
+    // Legacy resume files hold the key in plaintext; replace it with a keystore
+    if (!this.state.wallet?.keystore) {
+      this.state.wallet = await encryptTestWallet(this.wallet, await this.walletPassphrase())
+    }
+
+    this.logResult(
+      `Private key saved encrypted in ${this.resumeFilePath}. Recover leftover funds with \`${this.config.bin} test e2e clean\``,
+      'warning',
+    )
   }
 
   private handleError(error: unknown): void {
-    if (error instanceof WalletFundingError) {
+    if (error instanceof PollError) {
+      this.error(
+        `E2E Test ${error instanceof PollTimeoutError ? 'timed out' : 'stopped'}: ${error.message}. Progress is saved in ${this.resumeFilePath}; rerun with --resume to continue from the failed step.`,
+      )
+    } else if (error instanceof WalletFundingError) {
       this.error(`E2E Test failed due to wallet funding issues: ${error.message}`)
     } else if (error instanceof BridgingError) {
       this.error(`E2E Test failed due to bridging issues: ${error.message}`)
@@ -1057,32 +1202,14 @@ export default class TestE2e extends Command {
 
   private async loadResumeFile(): Promise<void> {
     try {
-      if (!this.resumeFilePath) {
-        throw new Error('Resume file path is not set.')
-      }
-
       this.logResult(`Loading resume file from: ${this.resumeFilePath}`, 'info')
 
-      const fileContent = await fs.readFile(this.resumeFilePath, 'utf8')
-      const resumeData = JSON.parse(fileContent, (key, value) => {
-        // Check if the value is a string that represents a BigInt
-        if (typeof value === 'string' && /^\d+n$/.test(value)) {
-          return BigInt(value.slice(0, -1))
-        }
+      this.state = await loadResumeState(this.resumeFilePath)
+      this.logResult('Resume data loaded successfully', 'success')
 
-        return value
-      })
-
-      if (resumeData.results) {
-        this.results = resumeData.results
-        this.logResult('Resume data loaded successfully', 'success')
-
-        // Log the loaded state
-        for (const [key, value] of Object.entries(this.results)) {
-          this.logResult(`${key}: ${JSON.stringify(value)}`, 'info')
-        }
-      } else {
-        throw new Error('Invalid resume file format: missing results data')
+      // Log the loaded state
+      for (const [name, step] of Object.entries(this.state.steps)) {
+        this.logResult(`${name}: ${step.status}${step.error ? ` (${step.error})` : ''}`, 'info')
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -1139,9 +1266,19 @@ export default class TestE2e extends Command {
   private async logTx(txHash: string, description: string, layer: Layer): Promise<void> {
     const link = await txLink(txHash, this.blockExplorers[layer])
     this.logResult(`${description}: ${chalk.cyan(link)}`, 'info')
+
+    if (this.report) {
+      const url = await constructBlockExplorerUrl(txHash, LookupType.TX, this.blockExplorers[layer])
+      this.report.addTransaction(currentStepName(), { description, hash: txHash, layer, link: url || txHash })
+    }
   }
 
-  private async promptManualFunding(address: string, amount: number, layer: Layer) {
+  // Waits on the chain start checking every `interval` ms, backing off to every `maxInterval` ms
+  private pollOptions(what: string, timeout: number, interval: number, maxInterval: number): PollOptions {
+    return { backoff: 2, interval, maxInterval, signal: this.abortController.signal, timeout, what }
+  }
+
+  private async promptManualFunding(address: string, amount: bigint, layer: Layer) {
     const chainId =
       layer === Layer.L1 ? (await this.l1Provider.getNetwork()).chainId : (await this.l2Provider.getNetwork()).chainId
     let qrString = ''
@@ -1149,10 +1286,14 @@ export default class TestE2e extends Command {
     qrString += address
     qrString += '@'
     qrString += chainId
-    qrString += '&value='
-    qrString += amount / 2
-
-    await this.logAddress(address, `Please fund the following address with ${chalk.yellow(amount)} ETH`, layer)
+    qrString += '?value='
+    qrString += amount
+
+    await this.logAddress(
+      address,
+      `Please fund the following address with ${chalk.yellow(ethers.formatEther(amount))} ETH`,
+      layer,
+    )
     this.log('\n')
     this.logResult(`ChainID: ${chalk.cyan(Number(chainId))}`, 'info')
     this.logResult(`Chain RPC: ${chalk.cyan(layer === Layer.L1 ? this.l1Rpc : this.l2Rpc)}`, 'info')
@@ -1175,7 +1316,7 @@ export default class TestE2e extends Command {
         layer === Layer.L1 ? await this.l1Provider.getBalance(address) : await this.l2Provider.getBalance(address)
       const formattedBalance = ethers.formatEther(balance)
 
-      if (Number.parseFloat(formattedBalance) >= amount) {
+      if (balance >= amount) {
         this.logResult(`Wallet Balance: ${chalk.green(formattedBalance)}`, 'success')
         funded = true
       } else {
@@ -1197,7 +1338,7 @@ export default class TestE2e extends Command {
         new Separator(),
         {
           description: 'Use the deployer or funding wallet private key.',
-          disabled: funderBalance < FUNDING_AMOUNT / 2,
+          disabled: funderBalance < this.settings.l2FundingAmount,
           name: 'L1 Funder',
           value: 'funder',
         },
@@ -1213,160 +1354,380 @@ export default class TestE2e extends Command {
     return answer
   }
 
-  private async runE2ETest(): Promise<void> {
-    try {
-      this.logSection('Running E2E Test')
+  // Records each step's outcome in the --report, when one is written.
+  private recordSteps(hooks: StepHooks<E2EContext>): StepHooks<E2EContext> {
+    return this.report ? this.report.record(hooks) : hooks
+  }
 
-      this.logSection('Setup L1')
-      // Setup L1
+  // A failed send leaves the nonce managers ahead of the chain, so they start over from the pending nonce.
+  private resetNonces(): void {
+    for (const manager of this.nonceManagers.values()) manager.reset()
+  }
 
-      if (!this.skipWalletGen || !this.results.fundWalletOnL1.complete) {
-        this.logSection('Generate and Fund Wallets')
-        if (!this.results.fundWalletOnL1.generatedPrivateKey) {
-          await this.generateNewWallet()
-        }
+  // The RPCs and bridge-history-api: their external URLs, or their in-cluster endpoints inside a pod.
+  private async resolveEndpoints(
+    config: ScrollSdkConfig,
+    configPath: string,
+    { namespace, pod }: { namespace?: string; pod: boolean },
+  ): Promise<{ bridgeApiUrl: string; l1RpcUrl: string; l2RpcUrl: string }> {
+    if (pod) {
+      const endpoints = await resolveClusterEndpoints(config.general, ['l1Rpc', 'l2Rpc', 'bridgeHistoryApi'], () =>
+        kubernetesServiceLookup(namespace),
+      )
+      this.logResult(`In-cluster endpoints: ${Object.values(endpoints).join(', ')}`, 'info')
+      return { bridgeApiUrl: endpoints.bridgeHistoryApi, l1RpcUrl: endpoints.l1Rpc, l2RpcUrl: endpoints.l2Rpc }
+    }
 
-        await this.fundWalletOnL1()
-        await this.saveProgress()
-      } else {
-        this.logResult('Skipping section...', 'info')
-      }
+    const l1RpcUrl = config.frontend?.EXTERNAL_RPC_URI_L1
+    const l2RpcUrl = config.frontend?.EXTERNAL_RPC_URI_L2
 
-      this.logSection('Initiate ETH Deposit on L1')
-      if (this.altGasTokenEnabled) {
-        this.logResult('Skipping ETH deposit in alternative gas token mode', 'info')
-      } else if (this.results.bridgeFundsL1ToL2.l2MessengerTx) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.bridgeFundsL1ToL2()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    // Check if RPC URLs are defined
+    if (!l1RpcUrl || !l2RpcUrl) {
+      throw new ConfigurationError(
+        `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+      )
+    }
 
-      this.logSection('Deploying ERC20 on L1')
-      if (this.altGasTokenEnabled) {
-        this.logResult('Skipping ETH deposit in alternative gas token mode', 'info')
-      } else if (this.results.deployERC20OnL1.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.deployERC20OnL1()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    return { bridgeApiUrl: config.frontend?.BRIDGE_API_URI ?? '', l1RpcUrl, l2RpcUrl }
+  }
 
-      this.logSection('Initiate ERC20 Deposit on L1')
-      if (this.results.bridgeERC20L1ToL2.l1DepositTx) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        if (this.altGasTokenEnabled) {
-          await this.bridgeAltTokenL1ToL2()
-        } else {
-          await this.bridgeERC20L1ToL2()
-        }
-        await this.shortPause()
-        await this.saveProgress()
-      }
+  private async runE2ETest(
+    selection: StepSelection,
+    options: { parallel?: boolean; report?: ReportFormat; reportFile?: string } = {},
+  ): Promise<void> {
+    const context: E2EContext = {
+      altGasTokenEnabled: this.altGasTokenEnabled,
+      contracts: this.contractsConfig,
+      l1Provider: this.l1Provider,
+      l2Provider: this.l2Provider,
+      owner: this.ownerWallet,
+      wallet: this.wallet,
+    }
+    const registry = new StepRegistry<E2EContext>().register(
+      ...this.bridgeSteps(),
+      ...this.enforcedTxSteps(),
+      ...this.nftSteps(),
+      ...this.claimSteps(),
+    )
+    const plan = registry.plan(context, this.state, selection)
+    if (options.report) this.report = new E2EReport(plan)
+
+    this.logSection('Running E2E Test')
+
+    // The first Ctrl-C fails the running step, which saves progress; the default handler is back for a second one
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    const stop = () => {
+      this.logResult('Stopping... Press Ctrl-C again to exit immediately.', 'warning')
+      this.abortController.abort()
+    }
 
-      // Setup L2
-      this.logSection('Setup L2')
-      if (this.results.fundWalletOnL2.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.fundWalletOnL2()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    process.once('SIGINT', stop)
 
-      // this complete is less related to resume function,
-      // but just to know result of above section
-      this.logSection('Waiting for L1 ETH Deposit')
-      if (this.altGasTokenEnabled) {
-        this.logResult('Skipping ETH deposit in alternative gas token mode', 'info')
-      } else if (!this.results.fundWalletOnL2.complete) {
-        await this.completeL1ETHDeposit()
-        await this.shortPause()
-        await this.saveProgress()
+    try {
+      await (options.parallel
+        ? this.runStepsInParallel(plan, context)
+        : runSteps(
+            plan,
+            context,
+            this.state,
+            this.recordSteps({
+              onDone: () => this.shortPause(),
+              onFail: () => this.resetNonces(),
+              onSkip: ({ reason, step }) => {
+                this.logSection(step.title)
+                this.logResult(reason ? `Skipping section: ${reason}` : 'Skipping section...', 'info')
+              },
+              onStart: ({ step }) => this.logSection(step.title),
+              save: () => this.saveProgress(),
+            }),
+          ))
+    } finally {
+      process.removeListener('SIGINT', stop)
+
+      // Written on failure too; the failing step's error is in the report, and the command exits non-zero
+      if (this.report && options.report) {
+        const file = options.reportFile ?? (options.report === 'junit' ? 'e2e_report.xml' : 'e2e_report.json')
+        await writeReport(file, options.report, this.report)
+        this.logResult(`Report written to ${file}`, 'info')
       }
+    }
 
-      this.logSection('Initiate ETH Withdrawal on L2')
-      if (this.altGasTokenEnabled) {
-        this.logResult('Skipping ETH Withdrawal in alternative gas token mode', 'info')
-      } else if (this.results.bridgeFundsL2ToL1.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.bridgeFundsL2ToL1()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    // Tells `test e2e list` and `test e2e clean` the run is finished
+    this.state.completedAt = new Date().toISOString()
+    await this.saveProgress()
 
-      this.logSection('Deploying an ERC20 on L2')
-      if (this.altGasTokenEnabled) {
-        this.logResult('Skipping in alternative gas token mode', 'info')
-      } else if (this.results.deployERC20OnL2.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.deployERC20OnL2()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    this.logResult('E2E Test completed successfully', 'success')
+  }
 
-      this.logSection('Waiting for L1 ERC20 Deposit')
-      if (this.results.bridgeERC20L1ToL2.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        await this.completeL1ERC20Deposit()
-        // Wait for a block...
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.shortPause()
-        await this.saveProgress()
-      }
+  // Runs the plan with a live view of the running steps, hidden while an interactive step prompts the user.
+  private async runStepsInParallel(plan: PlannedStep<E2EContext>[], context: E2EContext): Promise<void> {
+    const view = new StatusView()
+    this.statusView = view
 
-      this.logSection('Bridging ERC20 Back to L1')
-      if (this.results.bridgeERC20L2ToL1.l2WithdrawTx) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        if (this.altGasTokenEnabled) {
-          await this.bridgeAltTokenL2ToL1()
-        } else {
-          await this.bridgeERC20L2ToL1()
-        }
-        await this.shortPause()
-        await this.saveProgress()
-      }
+    try {
+      await runStepsInParallel(plan, context, this.state, this.recordSteps({
+        onDone: ({ step }) => {
+          view.finish(step.name)
+          if (step.interactive) view.resume()
+          this.logResult(`${step.title}: done`, 'success')
+        },
+        onFail: ({ step }) => {
+          view.finish(step.name)
+          if (step.interactive) view.resume()
+          this.resetNonces()
+        },
+        onSkip: ({ reason, step }) => this.logResult(`Skipping ${step.name}: ${reason ?? 'already completed'}`, 'info'),
+        onStart: ({ step }) => {
+          if (step.interactive) view.suspend()
+          view.start(step.name, step.title)
+          this.logSection(step.title)
+        },
+        save: () => this.saveProgress(),
+      }))
+    } finally {
+      view.stop()
+      this.statusView = undefined
+    }
+  }
 
-      this.logSection('Claiming ETH and ERC20 on L1')
+  // The ETH and ERC20 deposits and withdrawals, or the gas token ones in alternative gas token mode.
+  private bridgeSteps(): E2EStep<E2EContext>[] {
+    const ethOnly = ({ altGasTokenEnabled }: E2EContext) =>
+      altGasTokenEnabled ? 'not used in alternative gas token mode' : undefined
+    const altGasOnly = ({ altGasTokenEnabled }: E2EContext) =>
+      altGasTokenEnabled ? undefined : 'only used in alternative gas token mode'
+
+    return [
+      { interactive: true, name: 'fund-l1', run: () => this.fundWalletOnL1(), title: 'Fund Wallet on L1' },
+      {
+        dependsOn: ['fund-l1'],
+        name: 'deposit-eth',
+        outputs: ['l1DepositTx', 'l2MessengerTx', 'queueIndex'],
+        run: () => this.bridgeFundsL1ToL2(),
+        skipReason: ethOnly,
+        title: 'Initiate ETH Deposit on L1',
+      },
+      {
+        dependsOn: ['fund-l1'],
+        name: 'deploy-erc20-l1',
+        outputs: ['address'],
+        run: () => this.deployERC20OnL1(),
+        skipReason: ethOnly,
+        title: 'Deploying ERC20 on L1',
+      },
+      {
+        inputs: { erc20Address: 'deploy-erc20-l1.address' },
+        name: 'deposit-erc20',
+        outputs: ['l1DepositTx', 'l2MessengerTx', 'l2TokenAddress', 'queueIndex'],
+        run: (_context, { erc20Address }) => this.bridgeERC20L1ToL2(erc20Address as string),
+        skipReason: ethOnly,
+        title: 'Initiate ERC20 Deposit on L1',
+      },
+      {
+        dependsOn: ['fund-l1'],
+        name: 'deposit-gas-token',
+        outputs: ['l1DepositTx', 'l2MessengerTx', 'queueIndex'],
+        run: () => this.bridgeAltTokenL1ToL2(),
+        skipReason: altGasOnly,
+        title: 'Initiate Gas Token Deposit on L1',
+      },
+      {
+        interactive: true,
+        name: 'fund-l2',
+        outputs: ['method'],
+        run: () => this.fundWalletOnL2(),
+        title: 'Setup L2',
+      },
+      {
+        inputs: { l2MessengerTx: 'deposit-eth.l2MessengerTx' },
+        name: 'relay-eth-deposit',
+        run: (_context, { l2MessengerTx }) => this.completeL1Deposit('ETH', l2MessengerTx as string),
+        title: 'Waiting for L1 ETH Deposit',
+      },
+      {
+        dependsOn: ['fund-l2', 'relay-eth-deposit'],
+        name: 'withdraw-eth',
+        outputs: ['l2WithdrawTx'],
+        run: () => this.bridgeFundsL2ToL1(),
+        title: 'Initiate ETH Withdrawal on L2',
+      },
+      {
+        dependsOn: ['fund-l2', 'relay-eth-deposit'],
+        name: 'deploy-erc20-l2',
+        outputs: ['address'],
+        run: () => this.deployERC20OnL2(),
+        title: 'Deploying an ERC20 on L2',
+      },
+      {
+        inputs: { l2MessengerTx: 'deposit-erc20.l2MessengerTx' },
+        name: 'relay-erc20-deposit',
+        run: async (_context, { l2MessengerTx }) => {
+          await this.completeL1Deposit('ERC20', l2MessengerTx as string)
+          // Wait for a few blocks before withdrawing the bridged tokens
+          await this.shortPause(4000)
+        },
+        title: 'Waiting for L1 ERC20 Deposit',
+      },
+      {
+        inputs: { l2MessengerTx: 'deposit-gas-token.l2MessengerTx' },
+        name: 'relay-gas-token-deposit',
+        run: (_context, { l2MessengerTx }) => this.completeL1Deposit('gas token', l2MessengerTx as string),
+        title: 'Waiting for L1 Gas Token Deposit',
+      },
+      {
+        // Pays for gas with the ETH bridged or sent to L2
+        dependsOn: ['fund-l2', 'relay-eth-deposit', 'relay-erc20-deposit'],
+        inputs: { erc20Address: 'deposit-erc20.l2TokenAddress' },
+        name: 'withdraw-erc20',
+        outputs: ['l2WithdrawTx'],
+        run: (_context, { erc20Address }) => this.bridgeERC20L2ToL1(erc20Address as string),
+        title: 'Bridging ERC20 Back to L1',
+      },
+      {
+        dependsOn: ['fund-l2', 'relay-gas-token-deposit'],
+        name: 'withdraw-gas-token',
+        outputs: ['l2WithdrawTx'],
+        run: () => this.bridgeAltTokenL2ToL1(),
+        title: 'Bridging Gas Token Back to L1',
+      },
+    ]
+  }
 
-      if (this.results.claimETHOnL1.complete && this.results.claimERC20OnL1.complete) {
-        this.logResult('Skipping section...', 'info')
-      } else {
-        if (this.altGasTokenEnabled) {
-          this.logResult('Skipping ETH Claim in alternative gas token mode', 'info')
-        } else if (!this.results.claimETHOnL1.complete) {
-          await this.claimFundsOnL1()
-          await this.shortPause()
-          await this.saveProgress()
-        }
+  // Every withdrawal is sent before the first claim, so they can all be finalized while waiting for it.
+  private claimSteps(): E2EStep<E2EContext>[] {
+    return [
+      {
+        inputs: { l2WithdrawTx: 'withdraw-eth.l2WithdrawTx' },
+        name: 'claim-eth',
+        outputs: ['l1ClaimTx'],
+        run: (_context, { l2WithdrawTx }) => this.claimOnL1('ETH', l2WithdrawTx as string),
+        title: 'Claiming ETH on L1',
+      },
+      {
+        inputs: { l2WithdrawTx: 'withdraw-erc20.l2WithdrawTx' },
+        name: 'claim-erc20',
+        outputs: ['l1ClaimTx'],
+        run: (_context, { l2WithdrawTx }) => this.claimOnL1('ERC20', l2WithdrawTx as string),
+        title: 'Claiming ERC20 on L1',
+      },
+      {
+        inputs: { l2WithdrawTx: 'withdraw-gas-token.l2WithdrawTx' },
+        name: 'claim-gas-token',
+        outputs: ['l1ClaimTx'],
+        run: (_context, { l2WithdrawTx }) => this.claimOnL1('gas token', l2WithdrawTx as string),
+        title: 'Claiming Gas Token on L1',
+      },
+      ...NFT_STANDARDS.map(
+        (standard): E2EStep<E2EContext> => ({
+          inputs: {
+            l1Token: `deploy-${standard.toLowerCase()}-l1.address`,
+            l2WithdrawTx: `withdraw-${standard.toLowerCase()}.l2WithdrawTx`,
+          },
+          name: `claim-${standard.toLowerCase()}`,
+          outputs: ['l1ClaimTx'],
+          run: async (_context, { l1Token, l2WithdrawTx }) => {
+            const outputs = await this.claimOnL1(standard, l2WithdrawTx as string)
+            await this.expectNFTBalance(standard, l1Token as string, Layer.L1)
+            return outputs
+          },
+          title: `Claiming ${standard} on L1`,
+        }),
+      ),
+    ]
+  }
 
-        if (!this.results.claimERC20OnL1.complete) {
-          await this.claimERC20OnL1()
-          await this.shortPause()
-          await this.saveProgress()
-        }
+  // Forced inclusion: an L2 transaction signed by the test wallet and queued through the L1 Enforced Tx Gateway
+  // instead of the sequencer.
+  private enforcedTxSteps(): E2EStep<E2EContext>[] {
+    return [
+      {
+        dependsOn: ['fund-l1'],
+        name: 'send-enforced-tx',
+        outputs: ['l1EnforcedTx', 'l2TxHash', 'queueIndex'],
+        run: () => this.sendEnforcedTransaction(),
+        skipReason: ({ contracts }) =>
+          contracts.L1_ENFORCED_TX_GATEWAY_PROXY_ADDR
+            ? undefined
+            : 'L1_ENFORCED_TX_GATEWAY_PROXY_ADDR is not set in config-contracts.toml',
+        title: 'Sending Enforced Transaction on L1',
+      },
+      {
+        inputs: { l2TxHash: 'send-enforced-tx.l2TxHash' },
+        name: 'relay-enforced-tx',
+        run: (_context, { l2TxHash }) => this.completeEnforcedTransaction(l2TxHash as string),
+        title: 'Waiting for Enforced Transaction on L2',
+      },
+    ]
+  }
+
+  // One ERC721 and one ERC1155 scenario: deploy a test token on both layers, map the pair on the gateways,
+  // deposit it and withdraw it again.
+  private nftSteps(): E2EStep<E2EContext>[] {
+    return NFT_STANDARDS.flatMap((standard): E2EStep<E2EContext>[] => {
+      const id = standard.toLowerCase()
+      const { l1Gateway, l2Gateway } = NFT_CONTRACTS[standard]
+      const skipReason = ({ altGasTokenEnabled, contracts, owner }: E2EContext) => {
+        if (altGasTokenEnabled) return 'not used in alternative gas token mode'
+        const missing = [l1Gateway, l2Gateway].find((key) => !contracts[key])
+        if (missing) return `${missing} is not set in config-contracts.toml`
+        if (!owner) return 'needs OWNER_PRIVATE_KEY in config.toml to map the test tokens on the gateways'
       }
 
-      this.logResult('E2E Test completed successfully', 'success')
-    } catch (error) {
-      this.handleError(error)
-    }
+      return [
+        {
+          dependsOn: ['fund-l1'],
+          name: `deploy-${id}-l1`,
+          outputs: ['address'],
+          run: () => this.deployTestNFT(standard, Layer.L1),
+          skipReason,
+          title: `Deploying ${standard} on L1`,
+        },
+        {
+          dependsOn: ['fund-l2', 'relay-eth-deposit'],
+          name: `deploy-${id}-l2`,
+          outputs: ['address'],
+          run: () => this.deployTestNFT(standard, Layer.L2),
+          skipReason,
+          title: `Deploying ${standard} on L2`,
+        },
+        {
+          inputs: { l1Token: `deploy-${id}-l1.address`, l2Token: `deploy-${id}-l2.address` },
+          name: `map-${id}`,
+          run: ({ owner }, { l1Token, l2Token }) =>
+            this.mapTestNFT(standard, owner as ethers.Wallet, l1Token as string, l2Token as string),
+          title: `Mapping ${standard} on the Gateways`,
+        },
+        {
+          dependsOn: [`map-${id}`],
+          inputs: { l1Token: `deploy-${id}-l1.address` },
+          name: `deposit-${id}`,
+          outputs: ['l1DepositTx', 'l2MessengerTx', 'queueIndex'],
+          run: (_context, { l1Token }) => this.depositTestNFT(standard, l1Token as string),
+          title: `Initiate ${standard} Deposit on L1`,
+        },
+        {
+          inputs: { l2MessengerTx: `deposit-${id}.l2MessengerTx`, l2Token: `deploy-${id}-l2.address` },
+          name: `relay-${id}-deposit`,
+          run: async (_context, { l2MessengerTx, l2Token }) => {
+            await this.completeL1Deposit(standard, l2MessengerTx as string)
+            // The messenger does not revert when the mint fails, so check the wallet received the token
+            await this.expectNFTBalance(standard, l2Token as string, Layer.L2)
+          },
+          title: `Waiting for L1 ${standard} Deposit`,
+        },
+        {
+          dependsOn: [`relay-${id}-deposit`],
+          inputs: { l2Token: `deploy-${id}-l2.address` },
+          name: `withdraw-${id}`,
+          outputs: ['l2WithdrawTx'],
+          run: (_context, { l2Token }) => this.withdrawTestNFT(standard, l2Token as string),
+          title: `Bridging ${standard} Back to L1`,
+        },
+      ]
+    })
   }
 
-  private async bridgeAltTokenL1ToL2(): Promise<void> {
+  private async bridgeAltTokenL1ToL2(): Promise<StepOutputs> {
     try {
       this.logResult('Bridging Alternative Gas Token from L1 to L2', 'info')
 
@@ -1375,7 +1736,7 @@ export default class TestE2e extends Command {
         'function approve(address spender, uint256 amount) returns (bool)',
         'function decimals() view returns (uint8)',
         'function symbol() view returns (string)'
-      ], this.wallet.connect(this.l1Provider))
+      ], this.signer(Layer.L1))
 
       const balance = await tokenContract.balanceOf(this.wallet.address)
       const decimals = await tokenContract.decimals()
@@ -1390,48 +1751,28 @@ export default class TestE2e extends Command {
       this.logResult(`Token balance found: ${ethers.formatUnits(balance, decimals)} ${symbol}`, 'success')
       this.logResult(`Bridging ${ethers.formatUnits(halfBalance, decimals)} ${symbol}`, 'info')
 
-      // Approve the L1 Gas Token Gateway to spend tokens
-      const approveTx = await tokenContract.approve(this.l1GasTokenGateway, halfBalance)
-      await approveTx.wait()
-
-      this.logResult(`Approved ${ethers.formatUnits(halfBalance, decimals)} ${symbol} for L1 Gas Token Gateway`, 'success')
-
-      // Create L1 Gas Token Gateway contract instance
-      const l1GasTokenGateway = new ethers.Contract(
-        this.l1GasTokenGateway,
-        ['function depositETH(uint256 _amount, uint256 _gasLimit) payable'],
-        this.wallet.connect(this.l1Provider)
-      )
-
-      const gasLimit = BigInt(300_000) // Adjust as needed
-      const depositTx = await l1GasTokenGateway.depositETH(
-        halfBalance,
-        gasLimit,
-        { value: ethers.parseEther('0.007') } // Small amount of ETH for L2 gas
-      )
-
-      await this.logTx(depositTx.hash, 'Bridge transaction sent', Layer.L1)
-
-      const receipt = await depositTx.wait()
-      this.logResult(`Transaction mined in block: ${receipt.blockNumber}`, 'success')
-
-      const { l2TxHash, queueIndex } = await getCrossDomainMessageFromTx(
-        depositTx.hash,
-        this.l1Rpc,
-        this.l1MessegeQueueProxyAddress,
+      const gasLimit = this.settings.gasTokenDepositGasLimit
+      const { l1Tx, l2TxHash, queueIndex } = await deposit(
+        {
+          amount: halfBalance,
+          asset: { kind: 'gas-token' },
+          fee: await this.messageFee(gasLimit),
+          gasLimit,
+          onSent: (description, txHash) => this.logTx(txHash, `${description} transaction sent`, Layer.L1),
+        },
+        this.signer(Layer.L1),
+        this.contractsConfig,
       )
 
       this.logTx(l2TxHash, `L2 Messenger Tx`, Layer.L2)
 
-      this.results.bridgeERC20L1ToL2 = {
-        complete: false,
-        l1DepositTx: depositTx.hash,
+      this.logResult(`Alternative gas tokens are being bridged. Please wait for the transaction to be processed on L2.`, 'info')
+
+      return {
+        l1DepositTx: l1Tx,
         l2MessengerTx: l2TxHash,
-        l2TokenAddress: this.l1GasTokenAddress, // In this case, the L2 token address is the same as L1
         queueIndex,
       }
-
-      this.logResult(`Alternative gas tokens are being bridged. Please wait for the transaction to be processed on L2.`, 'info')
     } catch (error) {
       throw new BridgingError(
         `Error bridging Alternative Gas Token from L1 to L2: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -1439,7 +1780,7 @@ export default class TestE2e extends Command {
     }
   }
 
-  private async bridgeAltTokenL2ToL1(): Promise<void> {
+  private async bridgeAltTokenL2ToL1(): Promise<StepOutputs> {
     try {
       this.logResult('Bridging Alternative Gas Token from L2 to L1', 'info')
 
@@ -1457,27 +1798,17 @@ export default class TestE2e extends Command {
       this.logResult(`Token balance found: ${ethers.formatEther(balance)} ${symbol}`, 'success')
       this.logResult(`Bridging ${ethers.formatEther(halfBalance)} ${symbol}`, 'info')
 
-      // Create L2ETHGateway contract instance
-      const l2ETHGateway = new ethers.Contract(
-        this.l2ETHGateway,
-        l2ETHGatewayABI,
-        this.wallet.connect(this.l2Provider)
+      const { l2Tx } = await withdraw(
+        { amount: halfBalance, asset: { kind: 'gas-token' } },
+        this.signer(Layer.L2),
+        this.contractsConfig,
       )
 
-      // Call withdrawETH
-      const gasLimit = BigInt(300_000) // Adjust as needed
-      const withdrawTx = await l2ETHGateway.withdrawETH(halfBalance, gasLimit, {
-        value: halfBalance // The value is the amount we're withdrawing
-      })
-      await withdrawTx.wait()
-
-      this.logResult(`Withdrawal transaction sent: ${withdrawTx.hash}`, 'success')
-      this.results.bridgeERC20L2ToL1 = {
-        complete: true,
-        l2WithdrawTx: withdrawTx.hash,
-      }
+      this.logResult(`Withdrawal transaction sent: ${l2Tx}`, 'success')
 
       this.logResult(`Alternative gas tokens are being withdrawn to L1. Please wait for the transaction to be processed.`, 'info')
+
+      return { l2WithdrawTx: l2Tx }
     } catch (error) {
       throw new BridgingError(
         `Error bridging Alternative Gas Token from L2 to L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -1486,36 +1817,141 @@ export default class TestE2e extends Command {
   }
 
   private async saveProgress(): Promise<void> {
-    if (!this.resumeFilePath) {
-      this.resumeFilePath = 'e2e_resume.json'
+    try {
+      await saveResumeState(this.resumeFilePath, this.state)
+      this.logResult(`Progress saved: ${this.resumeFilePath}`, 'success')
+    } catch (error) {
+      this.logResult(`Failed to save progress: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error')
     }
+  }
+
+  private async sendEnforcedTransaction(): Promise<StepOutputs> {
+    try {
+      this.logResult('Sending an L2 transaction through the L1 Enforced Tx Gateway', 'info')
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any, unicorn/consistent-function-scoping
-    const serializeBigInt = (key: string, value: any) => {
-      if (typeof value === 'bigint') {
-        return value.toString()
+      const gatewayAddress = this.contractsConfig.L1_ENFORCED_TX_GATEWAY_PROXY_ADDR
+      const gateway = new ethers.Contract(gatewayAddress, l1EnforcedTxGatewayABI, this.signer(Layer.L1))
+
+      if (await gateway.paused()) {
+        throw new Error('L1EnforcedTxGateway is paused, so enforced transactions are disabled on this chain')
       }
 
-      return value
-    }
+      // A zero-value call to the wallet itself: the L2 gas is paid on L1, so no L2 funds are needed
+      const transaction = {
+        data: '0x',
+        deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+        gasLimit: this.settings.enforcedTxGasLimit,
+        nonce: await gateway.nonces(this.wallet.address),
+        sender: this.wallet.address,
+        target: this.wallet.address,
+        value: 0n,
+      }
 
-    const resumeData = {
-      results: this.results,
-      timestamp: new Date().toISOString(),
-    }
+      const { chainId } = await this.l1Provider.getNetwork()
+      const signature = await this.wallet.signTypedData(
+        { chainId, name: 'EnforcedTxGateway', verifyingContract: gatewayAddress, version: '1' },
+        {
+          EnforcedTransaction: [
+            { name: 'sender', type: 'address' },
+            { name: 'target', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'gasLimit', type: 'uint256' },
+            { name: 'data', type: 'bytes' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        transaction,
+      )
 
-    try {
-      const fileContent = JSON.stringify(resumeData, serializeBigInt, 2)
-      await fs.writeFile(this.resumeFilePath, fileContent, 'utf8')
-      this.logResult(`Progress saved: ${this.resumeFilePath}`, 'success')
+      const { data, deadline, gasLimit, sender, target, value } = transaction
+      const tx = await gateway.sendTransaction(sender, target, value, gasLimit, data, deadline, signature, sender, {
+        value: await this.messageFee(gasLimit),
+      })
+
+      await this.logTx(tx.hash, 'Enforced transaction sent', Layer.L1)
+      const receipt = await tx.wait()
+      this.logResult(`Transaction mined in block: ${chalk.cyan(receipt?.blockNumber)}`, 'success')
+
+      const { l2TxHash, queueIndex } = await getCrossDomainMessageFromTx(
+        tx.hash,
+        this.l1Rpc,
+        this.l1MessegeQueueProxyAddress,
+      )
+
+      await this.logTx(l2TxHash, `L2 transaction queued at index ${queueIndex}`, Layer.L2)
+
+      return {
+        l1EnforcedTx: tx.hash,
+        l2TxHash,
+        queueIndex,
+      }
     } catch (error) {
-      this.logResult(`Failed to save progress: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error')
+      throw new BridgingError(
+        `Error sending enforced transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
     }
   }
 
-  private async shortPause() {
-    // Sleep for 0.5 second
+  private async shortPause(ms: number = 500) {
+    // Sleep for 0.5 second by default
     // eslint-disable-next-line no-promise-executor-return
-    await new Promise((resolve) => setTimeout(resolve, 500))
+    await new Promise((resolve) => setTimeout(resolve, ms))
+  }
+
+  // The wallet's signer on a layer. It tracks nonces itself, so steps running in parallel can send at once.
+  private signer(layer: Layer, wallet: ethers.Wallet = this.wallet): ethers.NonceManager {
+    const key = `${layer}:${wallet.address}`
+    let manager = this.nonceManagers.get(key)
+    if (!manager) {
+      manager = new ethers.NonceManager(wallet.connect(layer === Layer.L1 ? this.l1Provider : this.l2Provider))
+      this.nonceManagers.set(key, manager)
+    }
+
+    return manager
+  }
+
+  // An ora spinner, or plain log lines while the status view shows what is running.
+  private spinner(text: string): { fail(text?: string): void; succeed(text?: string): void } {
+    if (!this.statusView) return ora(text).start()
+
+    this.logResult(text, 'info')
+    return {
+      fail: (message = text) => this.logResult(message, 'error'),
+      succeed: (message = text) => this.logResult(message, 'success'),
+    }
+  }
+
+  // The passphrase of the test wallet keystore, asked for at most once.
+  private async walletPassphrase(): Promise<string> {
+    this.passphrase ??= await walletPassphrase(`Passphrase for the test wallet key in ${this.resumeFilePath}:`)
+    return this.passphrase
+  }
+
+  private async withdrawTestNFT(standard: NFTStandard, l2Token: string): Promise<StepOutputs> {
+    try {
+      this.logResult(`Bridging ${standard} from L2 to L1`, 'info')
+
+      const { l2Gateway, l2GatewayABI } = NFT_CONTRACTS[standard]
+      const gateway = new ethers.Contract(
+        this.contractsConfig[l2Gateway],
+        l2GatewayABI,
+        this.signer(Layer.L2),
+      )
+
+      // The gateway burns the tokens itself, so no approval is needed
+      const withdrawTx =
+        standard === 'ERC721'
+          ? await gateway.withdrawERC721(l2Token, TEST_NFT_ID, 0)
+          : await gateway.withdrawERC1155(l2Token, TEST_NFT_ID, TEST_ERC1155_AMOUNT, 0)
+      await withdrawTx.wait()
+
+      await this.logTx(withdrawTx.hash, 'Withdrawal transaction sent', Layer.L2)
+      return { l2WithdrawTx: withdrawTx.hash }
+    } catch (error) {
+      throw new BridgingError(
+        `Error bridging ${standard} from L2 to L1: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
   }
 }
@@ -0,0 +1,209 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import { Wallet, ethers } from 'ethers'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { kubernetesServiceLookup, resolveClusterEndpoints } from '../../../utils/cluster-services.js'
+import { loadConfig, loadContractsConfig } from '../../../utils/config-parser.js'
+import { isEnabled } from '../../../utils/config-schema.js'
+import {
+  WalletDecryptionError,
+  findResumeFiles,
+  loadResumeState,
+  restoreTestWallet,
+  resumeFileForRun,
+  sweepBalance,
+  walletPassphrase,
+} from '../../../utils/e2e/index.js'
+import { L1_GAS_PRICE_ORACLE_ADDR } from '../../../utils/gas-token.js'
+
+const gasTokenABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+]
+
+export default class TestE2eClean extends Command {
+  static description =
+    'Send the funds left in the wallets of unfinished e2e runs back to the funder, then delete their resume files'
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --run-id nightly --to 0x1234...',
+  ]
+
+  static flags = {
+    all: Flags.boolean({
+      default: false,
+      description: 'Also clean runs that completed',
+    }),
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    dir: Flags.string({
+      default: '.',
+      description: 'Directory holding the resume files',
+    }),
+    'keep-files': Flags.boolean({
+      default: false,
+      description: 'Keep the resume files after sweeping the funds',
+    }),
+    namespace: Flags.string({
+      dependsOn: ['pod'],
+      description: 'Kubernetes namespace of the Scroll SDK services, for --pod',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod, reaching the RPCs through their in-cluster endpoints',
+    }),
+    'resume-file': Flags.string({
+      description: 'Only clean the run saved in this file',
+      exclusive: ['run-id'],
+    }),
+    'run-id': Flags.string({
+      description: 'Only clean this run',
+    }),
+    to: Flags.string({
+      description: 'Address receiving the funds. Defaults to the address of DEPLOYER_PRIVATE_KEY',
+    }),
+  }
+
+  private l1GasPriceOracle = L1_GAS_PRICE_ORACLE_ADDR
+
+  private passphrase?: string
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(TestE2eClean)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    // if we're running inside a pod, we shouldn't use external URLs
+    const { l1Rpc: l1RpcUrl, l2Rpc: l2RpcUrl } = flags.pod
+      ? await resolveClusterEndpoints(config.general, ['l1Rpc', 'l2Rpc'], () => kubernetesServiceLookup(flags.namespace))
+      : { l1Rpc: config?.frontend?.EXTERNAL_RPC_URI_L1, l2Rpc: config?.frontend?.EXTERNAL_RPC_URI_L2 }
+
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 are defined, or run with --pod.`,
+        ),
+      )
+    }
+
+    const deployerPrivateKey = config.accounts?.DEPLOYER_PRIVATE_KEY
+    const to = flags.to ?? (deployerPrivateKey ? new Wallet(deployerPrivateKey).address : undefined)
+    if (!to || !ethers.isAddress(to)) {
+      this.error(chalk.red(`Pass --to, or set DEPLOYER_PRIVATE_KEY in the [accounts] section of ${configPath}.`))
+    }
+
+    this.l1GasPriceOracle = contractsConfig.L1_GAS_PRICE_ORACLE_ADDR ?? L1_GAS_PRICE_ORACLE_ADDR
+    const gasToken = isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)
+      ? contractsConfig.L1_GAS_TOKEN_ADDR
+      : undefined
+    const providers = {
+      l1: new ethers.JsonRpcProvider(l1RpcUrl),
+      l2: new ethers.JsonRpcProvider(l2RpcUrl),
+    }
+
+    const runs = await this.selectRuns(flags)
+    if (runs.length === 0) {
+      this.log(flags.all ? 'No e2e runs found.' : 'No unfinished e2e runs found. Use --all to clean completed ones.')
+      return
+    }
+
+    for (const file of runs) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await this.cleanRun(file, to, providers, gasToken)
+        if (!flags['keep-files']) {
+          // eslint-disable-next-line no-await-in-loop
+          await fs.rm(file)
+          this.log(chalk.green(`Deleted ${file}`))
+        }
+      } catch (error) {
+        if (error instanceof WalletDecryptionError) this.passphrase = undefined
+        this.log(chalk.red(`Could not clean ${file}: ${error instanceof Error ? error.message : error}`))
+        process.exitCode = 1
+      }
+    }
+  }
+
+  private async cleanRun(
+    file: string,
+    to: string,
+    providers: Record<'l1' | 'l2', ethers.JsonRpcProvider>,
+    gasToken?: string,
+  ): Promise<void> {
+    const state = await loadResumeState(file)
+    this.log(chalk.bold(`\n${file}`))
+
+    const wallet = await restoreTestWallet(state.wallet, async () => {
+      this.passphrase ??= await walletPassphrase(`Passphrase for the test wallet key in ${file}:`)
+      return this.passphrase
+    })
+    if (!wallet) {
+      this.log('The run did not generate a wallet; nothing to sweep.')
+      return
+    }
+
+    this.log(`Sweeping ${wallet.address} to ${to}`)
+
+    // The gas token transfer is paid for in ETH, so it goes before the ETH on L1
+    if (gasToken) {
+      const token = new ethers.Contract(gasToken, gasTokenABI, wallet.connect(providers.l1))
+      const balance: bigint = await token.balanceOf(wallet.address)
+      if (balance > 0n) {
+        const tx = await token.transfer(to, balance)
+        await tx.wait()
+        this.log(chalk.green(`L1: sent ${balance} gas token units (${tx.hash})`))
+      }
+    }
+
+    for (const [layer, provider] of Object.entries(providers)) {
+      // eslint-disable-next-line no-await-in-loop
+      const tx = await sweepBalance(wallet.connect(provider), to, layer === 'l2' ? this.l1GasPriceOracle : undefined)
+      if (tx) {
+        // eslint-disable-next-line no-await-in-loop
+        await tx.wait()
+        this.log(chalk.green(`${layer.toUpperCase()}: sent ${ethers.formatEther(tx.value)} (${tx.hash})`))
+      } else {
+        this.log(`${layer.toUpperCase()}: balance does not cover the transfer fee`)
+      }
+    }
+  }
+
+  private async selectRuns(flags: {
+    all: boolean
+    dir: string
+    'resume-file'?: string
+    'run-id'?: string
+  }): Promise<string[]> {
+    if (flags['resume-file']) return [path.resolve(flags['resume-file'])]
+    if (flags['run-id']) return [path.resolve(flags.dir, resumeFileForRun(flags['run-id']))]
+
+    const runs = await findResumeFiles(path.resolve(flags.dir))
+    const selected: string[] = []
+    for (const { file } of runs) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const state = await loadResumeState(file)
+        if (flags.all || !state.completedAt) selected.push(file)
+      } catch (error) {
+        this.warn(`Skipping ${file}: ${error instanceof Error ? error.message : error}`)
+        process.exitCode = 1
+      }
+    }
+
+    return selected
+  }
+}
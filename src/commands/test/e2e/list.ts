@@ -0,0 +1,82 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import path from 'node:path'
+
+import { findResumeFiles, loadResumeState } from '../../../utils/e2e/index.js'
+
+export interface E2ERunSummary {
+  completedAt?: string
+  done: number
+  error?: string
+  failed: string[]
+  file: string
+  runId?: string
+  savedAt?: string
+  wallet?: string
+}
+
+export default class TestE2eList extends Command {
+  static description = 'List the e2e runs saved in the working directory, with the steps each has completed'
+
+  static enableJsonFlag = true
+
+  static examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --all']
+
+  static flags = {
+    all: Flags.boolean({
+      default: false,
+      description: 'Also list runs that completed',
+    }),
+    dir: Flags.string({
+      default: '.',
+      description: 'Directory holding the resume files',
+    }),
+  }
+
+  async run(): Promise<E2ERunSummary[]> {
+    const { flags } = await this.parse(TestE2eList)
+
+    const runs: E2ERunSummary[] = []
+    for (const { file, runId } of await findResumeFiles(path.resolve(flags.dir))) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const state = await loadResumeState(file)
+        const steps = Object.entries(state.steps)
+        runs.push({
+          completedAt: state.completedAt,
+          done: steps.filter(([, step]) => step.status === 'done').length,
+          failed: steps.filter(([, step]) => step.status === 'failed').map(([name]) => name),
+          file,
+          runId,
+          savedAt: state.timestamp,
+          wallet: state.wallet?.address,
+        })
+      } catch (error) {
+        runs.push({ done: 0, error: error instanceof Error ? error.message : String(error), failed: [], file, runId })
+      }
+    }
+
+    const listed = flags.all ? runs : runs.filter((run) => !run.completedAt)
+    if (listed.length === 0) {
+      this.log(flags.all ? 'No e2e runs found.' : 'No unfinished e2e runs found. Use --all to list completed ones.')
+      return listed
+    }
+
+    for (const run of listed) {
+      const name = run.runId ?? '(default)'
+      const status = run.completedAt ? chalk.green(`completed ${run.completedAt}`) : chalk.yellow('unfinished')
+      this.log(`${chalk.bold(name)} ${status} ${chalk.dim(path.relative(process.cwd(), run.file))}`)
+
+      if (run.error) {
+        this.log(chalk.red(`  Unreadable: ${run.error}`))
+        continue
+      }
+
+      this.log(`  Wallet: ${run.wallet ?? 'none yet'}`)
+      this.log(`  Steps: ${run.done} done${run.failed.length > 0 ? chalk.red(`, failed: ${run.failed.join(', ')}`) : ''}`)
+      this.log(`  Last saved: ${run.savedAt ?? 'unknown'}`)
+    }
+
+    return listed
+  }
+}
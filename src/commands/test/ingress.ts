@@ -4,7 +4,7 @@ import chalk from 'chalk'
 import terminalLink from 'terminal-link'
 import WebSocket from 'ws'
 
-import {parseTomlConfig} from '../../utils/config-parser.js'
+import {loadConfig} from '../../utils/config-parser.js'
 
 export default class TestIngress extends Command {
   static override description = 'Check for required ingress hosts and validate frontend URLs'
@@ -249,7 +249,7 @@ export default class TestIngress extends Command {
 
   private loadConfig(configPath: string): void {
     try {
-      const parsedConfig = parseTomlConfig(configPath)
+      const parsedConfig = loadConfig(configPath)
 
       if (parsedConfig.frontend) {
         this.configValues = parsedConfig.frontend as Record<string, string>
@@ -0,0 +1,140 @@
+import { Command, Flags } from '@oclif/core'
+import chalk from 'chalk'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { Layer } from '../../data/contracts.js'
+import { loadConfig, loadContractsConfig } from '../../utils/config-parser.js'
+import {
+  ContractDrift,
+  ContractsSnapshot,
+  compareSnapshots,
+  loadSnapshot,
+  takeSnapshot,
+} from '../../utils/contracts-snapshot.js'
+import { RpcBatcher } from '../../utils/onchain/index.js'
+
+export interface SnapshotResult {
+  drift?: ContractDrift[]
+  output?: string
+  snapshot: ContractsSnapshot
+}
+
+const driftLabels: Record<ContractDrift['field'], string> = {
+  added: 'added to config-contracts.toml',
+  address: 'address changed in config-contracts.toml',
+  admin: 'proxy admin changed',
+  codeHash: 'code changed',
+  implementation: 'upgraded',
+  initializedSlot: 'initialized slot changed',
+  owner: 'ownership transferred',
+  removed: 'removed from config-contracts.toml',
+}
+
+export default class TestSnapshot extends Command {
+  static description =
+    'Record the on-chain state of every contract in config-contracts.toml, or compare it with an earlier snapshot to detect drift'
+
+  static enableJsonFlag = true
+
+  static examples = [
+    '<%= config.bin %> <%= command.id %> --output snapshots/v1.2.0.json',
+    '<%= config.bin %> <%= command.id %> --compare snapshots/v1.2.0.json',
+  ]
+
+  static flags = {
+    compare: Flags.string({
+      description: 'Snapshot file to compare the current state with; exits non-zero when anything drifted',
+    }),
+    concurrency: Flags.integer({
+      default: 10,
+      description: 'Maximum number of RPC requests in flight per chain',
+      min: 1,
+    }),
+    config: Flags.string({
+      char: 'c',
+      default: './config.toml',
+      description: 'Path to config.toml file',
+    }),
+    contracts: Flags.string({
+      char: 'n',
+      default: './config-contracts.toml',
+      description: 'Path to configs-contracts.toml file',
+    }),
+    output: Flags.string({
+      char: 'o',
+      description:
+        'File to write the snapshot to. Defaults to ./contracts-snapshot.json; with --compare the snapshot is only written when set',
+    }),
+    pod: Flags.boolean({
+      char: 'p',
+      default: false,
+      description: 'Run inside Kubernetes pod',
+    }),
+  }
+
+  async run(): Promise<SnapshotResult> {
+    const { flags } = await this.parse(TestSnapshot)
+
+    const configPath = path.resolve(flags.config)
+    const config = loadConfig(configPath)
+    const contractsConfig = loadContractsConfig(path.resolve(flags.contracts))
+
+    // if we're running inside a pod, we shouldn't use external URLs
+    const l1RpcUrl = flags.pod ? config?.general?.L1_RPC_ENDPOINT : config?.frontend?.EXTERNAL_RPC_URI_L1
+    const l2RpcUrl = flags.pod ? config?.general?.L2_RPC_ENDPOINT : config?.frontend?.EXTERNAL_RPC_URI_L2
+
+    if (!l1RpcUrl || !l2RpcUrl) {
+      this.error(
+        chalk.red(
+          `Missing RPC URL(s) in ${configPath}. Please ensure L1_RPC_ENDPOINT and L2_RPC_ENDPOINT (for pod mode) or EXTERNAL_RPC_URI_L1 and EXTERNAL_RPC_URI_L2 (for non-pod mode) are defined.`,
+        ),
+      )
+    }
+
+    // Read the earlier snapshot first, so a bad path fails before querying the chains.
+    const previous = flags.compare ? loadSnapshot(path.resolve(flags.compare)) : undefined
+
+    const snapshot = await takeSnapshot(contractsConfig, {
+      [Layer.L1]: new RpcBatcher(l1RpcUrl, { concurrency: flags.concurrency }),
+      [Layer.L2]: new RpcBatcher(l2RpcUrl, { concurrency: flags.concurrency }),
+    })
+
+    const result: SnapshotResult = { snapshot }
+
+    const output = flags.output ?? (previous ? undefined : './contracts-snapshot.json')
+    if (output) {
+      result.output = path.resolve(output)
+      fs.mkdirSync(path.dirname(result.output), { recursive: true })
+      fs.writeFileSync(result.output, JSON.stringify(snapshot, null, 2) + '\n')
+      this.log(
+        chalk.green(`Snapshot of ${Object.keys(snapshot.contracts).length} contracts written to ${result.output}`),
+      )
+    }
+
+    if (previous) {
+      result.drift = compareSnapshots(previous, snapshot)
+      this.reportDrift(previous, result.drift)
+      if (result.drift.length > 0) {
+        process.exitCode = 1
+      }
+    }
+
+    return result
+  }
+
+  private reportDrift(previous: ContractsSnapshot, drift: ContractDrift[]): void {
+    const since = `snapshot of ${previous.createdAt} (L1 block ${previous.chains.l1.blockNumber}, L2 block ${previous.chains.l2.blockNumber})`
+
+    if (drift.length === 0) {
+      this.log(chalk.green(`\nNo drift since the ${since}.`))
+      return
+    }
+
+    this.log(chalk.red(`\n${drift.length} change(s) since the ${since}:`))
+    for (const { after, before, field, name } of drift) {
+      const values = field === 'added' || field === 'removed' ? (before ?? after) : `${before} -> ${after}`
+      this.log(chalk.red(`- ${name}: ${driftLabels[field]} (${values})`))
+    }
+  }
+}
@@ -1,4 +1,24 @@
 /* eslint-disable perfectionist/sort-objects */
+/**
+ * An address a contract must hold: calling `getter()` on the contract has to return the address configured
+ * for `expected`. Skipped when `expected` is not deployed in the current gas token mode.
+ */
+export type ContractReference = {
+  expected: string
+  getter: string
+}
+
+/**
+ * Access a contract must give an account from config.toml, where `account` is a dotted key such as
+ * "accounts.L1_COMMIT_SENDER_ADDR". With `grants`, `method(account)` must return true; with `returns`,
+ * `method()` must return the account.
+ */
+export type ContractRole = {
+  account: string
+  check: 'grants' | 'returns'
+  method: string
+}
+
 export type DeployedContract = {
   additionalAltGas?: boolean
   address?: string
@@ -7,6 +27,8 @@ export type DeployedContract = {
   layer: Layer
   name: string
   owned: boolean
+  references?: ContractReference[]
+  roles?: ContractRole[]
 }
 
 export enum Layer {
@@ -17,19 +39,74 @@ export const contracts: DeployedContract[] = [
   {name: 'L1_WETH_ADDR', initializes: false, owned: false, layer: Layer.L1},
   {name: 'L1_PROXY_ADMIN_ADDR', initializes: false, owned: true, layer: Layer.L1},
   {name: 'L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_WHITELIST_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_WHITELIST_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    roles: [{method: 'isSenderAllowed', check: 'grants', account: 'accounts.L2_GAS_ORACLE_SENDER_ADDR'}],
+  },
   {name: 'L1_SCROLL_CHAIN_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_SCROLL_CHAIN_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_SCROLL_CHAIN_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'messageQueue', expected: 'L1_MESSAGE_QUEUE_PROXY_ADDR'},
+      {getter: 'verifier', expected: 'L1_MULTIPLE_VERSION_ROLLUP_VERIFIER_ADDR'},
+    ],
+    roles: [
+      {method: 'isSequencer', check: 'grants', account: 'accounts.L1_COMMIT_SENDER_ADDR'},
+      {method: 'isProver', check: 'grants', account: 'accounts.L1_FINALIZE_SENDER_ADDR'},
+    ],
+  },
   {name: 'L1_SCROLL_MESSENGER_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_SCROLL_MESSENGER_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_SCROLL_MESSENGER_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'counterpart', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'rollup', expected: 'L1_SCROLL_CHAIN_PROXY_ADDR'},
+      {getter: 'messageQueue', expected: 'L1_MESSAGE_QUEUE_PROXY_ADDR'},
+    ],
+  },
   {name: 'L1_ENFORCED_TX_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_ENFORCED_TX_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_ENFORCED_TX_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [{getter: 'messageQueue', expected: 'L1_MESSAGE_QUEUE_PROXY_ADDR'}],
+  },
   {name: 'L1_ZKEVM_VERIFIER_V2_ADDR', initializes: false, owned: false, layer: Layer.L1},
   {name: 'L1_MULTIPLE_VERSION_ROLLUP_VERIFIER_ADDR', initializes: false, owned: true, layer: Layer.L1},
   {name: 'L1_MESSAGE_QUEUE_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_MESSAGE_QUEUE_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_MESSAGE_QUEUE_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'scrollChain', expected: 'L1_SCROLL_CHAIN_PROXY_ADDR'},
+      {getter: 'enforcedTxGateway', expected: 'L1_ENFORCED_TX_GATEWAY_PROXY_ADDR'},
+    ],
+  },
   {name: 'L1_GATEWAY_ROUTER_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_GATEWAY_ROUTER_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_GATEWAY_ROUTER_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'ethGateway', expected: 'L1_ETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'ethGateway', expected: 'L1_GAS_TOKEN_GATEWAY_PROXY_ADDR'},
+      {getter: 'defaultERC20Gateway', expected: 'L1_STANDARD_ERC20_GATEWAY_PROXY_ADDR'},
+    ],
+  },
   {
     name: 'L1_ETH_GATEWAY_IMPLEMENTATION_ADDR',
     initializes: false,
@@ -37,7 +114,18 @@ export const contracts: DeployedContract[] = [
     layer: Layer.L1,
     bypassedInAltGas: true,
   },
-  {name: 'L1_ETH_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1, bypassedInAltGas: true},
+  {
+    name: 'L1_ETH_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    bypassedInAltGas: true,
+    references: [
+      {getter: 'counterpart', expected: 'L2_ETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L1_GATEWAY_ROUTER_PROXY_ADDR'},
+    ],
+  },
   {
     name: 'L1_WETH_GATEWAY_IMPLEMENTATION_ADDR',
     initializes: false,
@@ -45,34 +133,192 @@ export const contracts: DeployedContract[] = [
     layer: Layer.L1,
     bypassedInAltGas: true,
   },
-  {name: 'L1_WETH_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1, bypassedInAltGas: true},
+  {
+    name: 'L1_WETH_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    bypassedInAltGas: true,
+    references: [
+      {getter: 'counterpart', expected: 'L2_WETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L1_GATEWAY_ROUTER_PROXY_ADDR'},
+      {getter: 'WETH', expected: 'L1_WETH_ADDR'},
+      {getter: 'l2WETH', expected: 'L2_WETH_ADDR'},
+    ],
+  },
   {name: 'L1_STANDARD_ERC20_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_STANDARD_ERC20_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_STANDARD_ERC20_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'counterpart', expected: 'L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L1_GATEWAY_ROUTER_PROXY_ADDR'},
+      {getter: 'l2TokenImplementation', expected: 'L2_SCROLL_STANDARD_ERC20_ADDR'},
+      {getter: 'l2TokenFactory', expected: 'L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR'},
+    ],
+  },
   {name: 'L1_CUSTOM_ERC20_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_CUSTOM_ERC20_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_CUSTOM_ERC20_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'counterpart', expected: 'L2_CUSTOM_ERC20_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L1_GATEWAY_ROUTER_PROXY_ADDR'},
+    ],
+  },
   {name: 'L1_ERC721_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_ERC721_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_ERC721_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'counterpart', expected: 'L2_ERC721_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+    ],
+  },
   {name: 'L1_ERC1155_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L1},
-  {name: 'L1_ERC1155_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1},
+  {
+    name: 'L1_ERC1155_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    references: [
+      {getter: 'counterpart', expected: 'L2_ERC1155_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+    ],
+  },
   {name: 'L1_PLONK_VERIFIER_ADDR', initializes: false, owned: false, layer: Layer.L1},
 
-  {name: 'L2_MESSAGE_QUEUE_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L1_GAS_PRICE_ORACLE_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_WHITELIST_ADDR', initializes: true, owned: true, layer: Layer.L2},
+  {
+    name: 'L2_MESSAGE_QUEUE_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [{getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'}],
+  },
+  {
+    name: 'L1_GAS_PRICE_ORACLE_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [{getter: 'whitelist', expected: 'L2_WHITELIST_ADDR'}],
+  },
+  {
+    name: 'L2_WHITELIST_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    roles: [{method: 'isSenderAllowed', check: 'grants', account: 'accounts.L1_GAS_ORACLE_SENDER_ADDR'}],
+  },
   {name: 'L2_WETH_ADDR', initializes: false, owned: false, layer: Layer.L2},
-  {name: 'L2_TX_FEE_VAULT_ADDR', initializes: true, owned: true, layer: Layer.L2},
+  {
+    name: 'L2_TX_FEE_VAULT_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    roles: [{method: 'recipient', check: 'returns', account: 'contracts.L1_FEE_VAULT_ADDR'}],
+  },
   {name: 'L2_PROXY_ADMIN_ADDR', initializes: false, owned: true, layer: Layer.L2},
   {name: 'L2_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR', initializes: false, owned: false, layer: Layer.L2},
   {name: 'L2_SCROLL_MESSENGER_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L2},
-  {name: 'L2_SCROLL_MESSENGER_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
+  {
+    name: 'L2_SCROLL_MESSENGER_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'messageQueue', expected: 'L2_MESSAGE_QUEUE_ADDR'},
+    ],
+  },
   {name: 'L2_GATEWAY_ROUTER_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L2},
-  {name: 'L2_GATEWAY_ROUTER_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_ETH_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_WETH_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2, bypassedInAltGas: true},
-  {name: 'L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_CUSTOM_ERC20_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_ERC721_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
-  {name: 'L2_ERC1155_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L2},
+  {
+    name: 'L2_GATEWAY_ROUTER_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'ethGateway', expected: 'L2_ETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'defaultERC20Gateway', expected: 'L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_ETH_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_ETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'counterpart', expected: 'L1_GAS_TOKEN_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L2_GATEWAY_ROUTER_PROXY_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_WETH_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    bypassedInAltGas: true,
+    references: [
+      {getter: 'counterpart', expected: 'L1_WETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L2_GATEWAY_ROUTER_PROXY_ADDR'},
+      {getter: 'WETH', expected: 'L2_WETH_ADDR'},
+      {getter: 'l1WETH', expected: 'L1_WETH_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_STANDARD_ERC20_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_STANDARD_ERC20_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L2_GATEWAY_ROUTER_PROXY_ADDR'},
+      {getter: 'tokenFactory', expected: 'L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_CUSTOM_ERC20_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_CUSTOM_ERC20_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L2_GATEWAY_ROUTER_PROXY_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_ERC721_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_ERC721_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+    ],
+  },
+  {
+    name: 'L2_ERC1155_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L2,
+    references: [
+      {getter: 'counterpart', expected: 'L1_ERC1155_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L2_SCROLL_MESSENGER_PROXY_ADDR'},
+    ],
+  },
   {name: 'L2_SCROLL_STANDARD_ERC20_ADDR', initializes: false, owned: false, layer: Layer.L2},
   {name: 'L2_SCROLL_STANDARD_ERC20_FACTORY_ADDR', initializes: true, owned: true, layer: Layer.L2},
 
@@ -85,7 +331,19 @@ export const contracts: DeployedContract[] = [
     layer: Layer.L1,
     additionalAltGas: true,
   },
-  {name: 'L1_GAS_TOKEN_GATEWAY_PROXY_ADDR', initializes: true, owned: true, layer: Layer.L1, additionalAltGas: true},
+  {
+    name: 'L1_GAS_TOKEN_GATEWAY_PROXY_ADDR',
+    initializes: true,
+    owned: true,
+    layer: Layer.L1,
+    additionalAltGas: true,
+    references: [
+      {getter: 'counterpart', expected: 'L2_ETH_GATEWAY_PROXY_ADDR'},
+      {getter: 'messenger', expected: 'L1_SCROLL_MESSENGER_PROXY_ADDR'},
+      {getter: 'router', expected: 'L1_GATEWAY_ROUTER_PROXY_ADDR'},
+      {getter: 'gasToken', expected: 'L1_GAS_TOKEN_ADDR'},
+    ],
+  },
   {name: 'L1_WRAPPED_TOKEN_GATEWAY_ADDR', initializes: true, owned: false, layer: Layer.L1, additionalAltGas: true},
   {name: 'L2_STANDARD_ERC20_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L2},
   {name: 'L2_ETH_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L2},
@@ -101,6 +359,55 @@ export const contracts: DeployedContract[] = [
   {name: 'L2_ERC1155_GATEWAY_IMPLEMENTATION_ADDR', initializes: false, owned: false, layer: Layer.L2},
 ]
 
+/**
+ * Whether a contract is deployed for the given gas token mode: alternative gas token deployments skip
+ * the ETH gateways, while ETH deployments skip the gas token contracts.
+ * @param contract - The contract entry.
+ * @param alternativeGasTokenEnabled - Whether [gas-token] ALTERNATIVE_GAS_TOKEN_ENABLED is set.
+ * @returns Whether an address for the contract is expected in config-contracts.toml.
+ */
+export function isDeployedInMode(contract: DeployedContract, alternativeGasTokenEnabled: boolean): boolean {
+  return alternativeGasTokenEnabled ? !contract.bypassedInAltGas : !contract.additionalAltGas
+}
+
+/**
+ * Whether a contract is an EIP-1967 proxy, going by its `_PROXY_ADDR` name.
+ * @param contract - The contract entry.
+ * @returns Whether the contract's implementation and admin slots should be set.
+ */
+export function isProxy(contract: DeployedContract): boolean {
+  return contract.name.endsWith('_PROXY_ADDR')
+}
+
+/**
+ * Name of the implementation a proxy should point at, e.g. L1_SCROLL_CHAIN_IMPLEMENTATION_ADDR for
+ * L1_SCROLL_CHAIN_PROXY_ADDR.
+ * @param contract - The proxy entry.
+ * @returns The implementation's config-contracts.toml key, or undefined when it has no paired entry.
+ */
+export function implementationNameOf(contract: DeployedContract): string | undefined {
+  const name = contract.name.replace(/_PROXY_ADDR$/, '_IMPLEMENTATION_ADDR')
+  return contracts.some((c) => c.name === name && c.name !== contract.name) ? name : undefined
+}
+
+/**
+ * Name of the ProxyAdmin that should administer a layer's proxies.
+ * @param layer - The layer the proxy lives on.
+ * @returns L1_PROXY_ADMIN_ADDR or L2_PROXY_ADMIN_ADDR.
+ */
+export function proxyAdminNameOf(layer: Layer): string {
+  return `${layer.toUpperCase()}_PROXY_ADMIN_ADDR`
+}
+
+/**
+ * Name of the placeholder implementation proxies are deployed with before being upgraded.
+ * @param layer - The layer the proxy lives on.
+ * @returns L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR or L2_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR.
+ */
+export function proxyPlaceholderNameOf(layer: Layer): string {
+  return `${layer.toUpperCase()}_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR`
+}
+
 // export const L1Contracts: DeployedContract[] = [
 //     { name: "L1_WETH_ADDR", initializes: false, owned: false },
 //     { name: "L1_PROXY_ADMIN_ADDR", initializes: false, owned: true },
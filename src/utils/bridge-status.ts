@@ -0,0 +1,232 @@
+import {Contract, Interface, JsonRpcProvider, TransactionReceipt} from 'ethers'
+
+import {ContractsConfig} from './config-schema.js'
+import {
+  computeMessageHash,
+  getCrossDomainMessageFromTx,
+  getFinalizedBlockHeight,
+  getPendingQueueIndex,
+} from './onchain/index.js'
+import {WithdrawalClaimSources, findWithdrawalClaim} from './withdrawal-claims.js'
+
+export type BridgeDirection = 'deposit' | 'withdrawal'
+
+export type StageStatus = 'done' | 'failed' | 'pending' | 'unknown'
+
+/** One step of a message's way across the bridge. */
+export interface BridgeStage {
+  block?: number
+  detail?: string
+  layer: 'l1' | 'l2'
+  status: StageStatus
+  /** Unix time of the block, in seconds. */
+  timestamp?: number
+  title: string
+  txHash?: string
+}
+
+export interface BridgeTrace {
+  direction: BridgeDirection
+  stages: BridgeStage[]
+  txHash: string
+}
+
+export type BridgeStatusSources = WithdrawalClaimSources
+
+export class BridgeStatusError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BridgeStatusError'
+  }
+}
+
+const messengerInterface = new Interface([
+  'event FailedRelayedMessage(bytes32 indexed messageHash)',
+  'event RelayedMessage(bytes32 indexed messageHash)',
+  'event SentMessage(address indexed sender, address indexed target, uint256 value, uint256 messageNonce, uint256 gasLimit, bytes message)',
+])
+
+const topic = (event: string) => messengerInterface.getEvent(event)!.topicHash
+
+function requireContract(contracts: ContractsConfig, name: string): string {
+  const address = contracts[name]
+  if (!address) throw new BridgeStatusError(`Missing ${name} in config-contracts.toml`)
+  return address
+}
+
+function sentMessageLog(receipt: TransactionReceipt, contracts: ContractsConfig) {
+  const messengerAddress = contracts.L2_SCROLL_MESSENGER_PROXY_ADDR?.toLowerCase()
+  return receipt.logs.find(
+    ({address, topics}) => address.toLowerCase() === messengerAddress && topics[0] === topic('SentMessage'),
+  )
+}
+
+// Names the stage an RPC or bridge-history-api failure kept from being checked
+async function checkStage<T>(title: string, check: () => Promise<T>): Promise<T> {
+  try {
+    return await check()
+  } catch (error) {
+    if (error instanceof BridgeStatusError) throw error
+    throw new BridgeStatusError(`Could not check "${title}": ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+async function withTimestamps(stages: BridgeStage[], providers: Record<'l1' | 'l2', JsonRpcProvider>): Promise<BridgeStage[]> {
+  return Promise.all(
+    stages.map(async (stage) => {
+      if (stage.block === undefined) return stage
+      const block = await providers[stage.layer].getBlock(stage.block)
+      return {...stage, timestamp: block?.timestamp}
+    }),
+  )
+}
+
+async function traceDeposit(receipt: TransactionReceipt, sources: BridgeStatusSources): Promise<BridgeStage[]> {
+  const queueAddress = requireContract(sources.contracts, 'L1_MESSAGE_QUEUE_PROXY_ADDR')
+  const {l2TxHash, queueIndex} = await checkStage('Queued in the L1 message queue', () =>
+    getCrossDomainMessageFromTx(receipt.hash, sources.l1Provider, queueAddress),
+  )
+
+  const l2Receipt = await checkStage('Executed on L2', () => sources.l2Provider.getTransactionReceipt(l2TxHash))
+  const relayFailed = l2Receipt?.logs.some(({topics}) => topics[0] === topic('FailedRelayedMessage'))
+  const executed: BridgeStage = l2Receipt
+    ? {
+        block: l2Receipt.blockNumber,
+        detail: relayFailed ? 'the message call reverted; it can be replayed from L1' : undefined,
+        layer: 'l2',
+        status: l2Receipt.status === 1 && !relayFailed ? 'done' : 'failed',
+        title: 'Executed on L2',
+        txHash: l2TxHash,
+      }
+    : {
+        detail: 'waiting for the sequencer to include the L1 message',
+        layer: 'l2',
+        status: 'pending',
+        title: 'Executed on L2',
+        txHash: l2TxHash,
+      }
+
+  // Committing a batch pops its L1 messages off the queue
+  const pendingQueueIndex = await checkStage('Included in a committed batch', () =>
+    getPendingQueueIndex(sources.l1Provider, queueAddress),
+  )
+
+  return [
+    {block: receipt.blockNumber, layer: 'l1', status: 'done', title: 'Deposit sent on L1', txHash: receipt.hash},
+    {detail: `queue index ${queueIndex}`, layer: 'l1', status: 'done', title: 'Queued in the L1 message queue'},
+    executed,
+    {
+      detail: `${pendingQueueIndex} L1 messages committed`,
+      layer: 'l1',
+      status: pendingQueueIndex > BigInt(queueIndex) ? 'done' : 'pending',
+      title: 'Included in a committed batch',
+    },
+    await finalizedStage(sources.l2Provider, l2Receipt?.blockNumber),
+  ]
+}
+
+async function finalizedStage(l2Provider: JsonRpcProvider, l2Block?: number): Promise<BridgeStage> {
+  const title = 'Batch finalized on L1'
+  if (l2Block === undefined) return {layer: 'l1', status: 'pending', title}
+
+  try {
+    const finalized = await getFinalizedBlockHeight(l2Provider)
+    return {
+      detail: `L2 finalized up to block ${finalized}`,
+      layer: 'l1',
+      status: finalized >= l2Block ? 'done' : 'pending',
+      title,
+    }
+  } catch {
+    return {detail: 'the L2 RPC does not report finalized blocks', layer: 'l1', status: 'unknown', title}
+  }
+}
+
+async function traceWithdrawal(receipt: TransactionReceipt, sources: BridgeStatusSources): Promise<BridgeStage[]> {
+  const {args} = messengerInterface.parseLog(sentMessageLog(receipt, sources.contracts)!)!
+  const {claimInfo, l1ClaimTx, source} = await checkStage('Claimable on L1', () =>
+    findWithdrawalClaim(receipt.hash, sources),
+  )
+
+  const l1Messenger = new Contract(
+    requireContract(sources.contracts, 'L1_SCROLL_MESSENGER_PROXY_ADDR'),
+    ['function isL2MessageExecuted(bytes32) view returns (bool)'],
+    sources.l1Provider,
+  )
+  const messageHash = computeMessageHash(args.sender, args.target, args.value, args.messageNonce, args.message)
+  const claimed: boolean = await checkStage('Claimed on L1', () => l1Messenger.isL2MessageExecuted(messageHash))
+
+  const finalized: BridgeStage = {layer: 'l1', status: 'done', title: 'Batch finalized on L1'}
+  if (claimInfo) {
+    finalized.detail = `batch ${claimInfo.proof.batch_index}`
+  } else if (!claimed) {
+    const scrollChain = new Contract(
+      requireContract(sources.contracts, 'L1_SCROLL_CHAIN_PROXY_ADDR'),
+      ['function lastFinalizedBatchIndex() view returns (uint256)'],
+      sources.l1Provider,
+    )
+    const lastFinalized = await checkStage(finalized.title, () => scrollChain.lastFinalizedBatchIndex())
+    finalized.detail = `last finalized batch is ${lastFinalized}`
+    finalized.status = 'pending'
+  }
+
+  return [
+    {
+      block: receipt.blockNumber,
+      detail: `message nonce ${args.messageNonce}`,
+      layer: 'l2',
+      status: 'done',
+      title: 'Withdrawal sent on L2',
+      txHash: receipt.hash,
+    },
+    finalized,
+    {
+      detail: claimInfo ? `proof from ${source}` : 'waiting for finalization',
+      layer: 'l1',
+      status: claimed || claimInfo?.claimable ? 'done' : 'pending',
+      title: 'Claimable on L1',
+    },
+    {
+      detail: claimed && !l1ClaimTx ? `message ${messageHash} executed` : undefined,
+      layer: 'l1',
+      status: claimed ? 'done' : 'pending',
+      title: 'Claimed on L1',
+      txHash: l1ClaimTx,
+    },
+  ]
+}
+
+/**
+ * Traces a deposit or withdrawal across the bridge. The direction follows from where the transaction was mined: an
+ * L1 transaction queueing an L1 message is a deposit, an L2 transaction sending a message through the L2 messenger is
+ * a withdrawal.
+ * @param txHash - The hash of the L1 deposit or L2 withdrawal transaction.
+ * @param sources - Providers, contract addresses and bridge-history-api.
+ * @returns Every stage of the message, later stages pending until earlier ones complete.
+ * @throws BridgeStatusError if the transaction is not mined on either layer or did not bridge anything, or a stage of
+ * a withdrawal cannot be checked.
+ */
+export async function traceBridgeTx(txHash: string, sources: BridgeStatusSources): Promise<BridgeTrace> {
+  const [l1Receipt, l2Receipt] = await Promise.all([
+    sources.l1Provider.getTransactionReceipt(txHash).catch(() => null),
+    sources.l2Provider.getTransactionReceipt(txHash).catch(() => null),
+  ])
+  const providers = {l1: sources.l1Provider, l2: sources.l2Provider}
+
+  const queueAddress = sources.contracts.L1_MESSAGE_QUEUE_PROXY_ADDR?.toLowerCase()
+  if (l1Receipt?.logs.some(({address}) => address.toLowerCase() === queueAddress)) {
+    return {direction: 'deposit', stages: await withTimestamps(await traceDeposit(l1Receipt, sources), providers), txHash}
+  }
+
+  if (l2Receipt && sentMessageLog(l2Receipt, sources.contracts)) {
+    return {direction: 'withdrawal', stages: await withTimestamps(await traceWithdrawal(l2Receipt, sources), providers), txHash}
+  }
+
+  const receipt = l1Receipt ?? l2Receipt
+  if (receipt) {
+    const outcome = receipt.status === 1 ? 'sent no message across the bridge' : 'reverted'
+    throw new BridgeStatusError(`${txHash} is an ${l1Receipt ? 'L1' : 'L2'} transaction that ${outcome}`)
+  }
+
+  throw new BridgeStatusError(`${txHash} was not found on L1 or L2; it may not be mined yet`)
+}
@@ -0,0 +1,230 @@
+import {
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+  JsonRpcProvider,
+  Signer,
+  TransactionReceipt,
+  isError,
+} from 'ethers'
+
+import {ContractsConfig} from './config-schema.js'
+import {awaitTx, getCrossDomainMessageFromTx, getGasOracleL2BaseFee} from './onchain/index.js'
+import {PollOptions} from './poll.js'
+
+/**
+ * What is bridged: ETH, an ERC20 through the gateway router, or the alternative gas token, which is an ERC20 on L1
+ * and the native token on L2.
+ */
+export type BridgeAsset = {kind: 'erc20'; token: string} | {kind: 'eth'} | {kind: 'gas-token'}
+
+export interface BridgeRequest {
+  amount: bigint
+  asset: BridgeAsset
+  /** Fee paid for the L1 to L2 message. Defaults to the gas limit times the L2 base fee of the gas oracle. */
+  fee?: bigint
+  /** L2 gas limit of the L1 to L2 message. Defaults to DEPOSIT_GAS_LIMITS; ignored by withdrawals. */
+  gasLimit?: bigint
+  /** Told about each transaction once it is sent, before it is mined. */
+  onSent?: (description: string, txHash: string) => Promise<void> | void
+  /** Recipient on the other layer. Defaults to the sender. */
+  to?: string
+}
+
+export interface DepositResult {
+  approvalTx?: string
+  fee: bigint
+  l1Tx: string
+  /** The L2 transaction that will relay the message; it exists once the sequencer includes it. */
+  l2TxHash: string
+  queueIndex: number
+}
+
+export interface WithdrawResult {
+  l2Tx: string
+}
+
+/** L2 gas limits that cover relaying each kind of deposit on a standard deployment. */
+export const DEPOSIT_GAS_LIMITS: Record<BridgeAsset['kind'], bigint> = {
+  erc20: 450_000n,
+  eth: 170_000n,
+  'gas-token': 300_000n,
+}
+
+export class BridgeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BridgeError'
+  }
+}
+
+const erc20Interface = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]
+
+const gatewayInterfaces = {
+  ethGateway: ['function depositETH(address to, uint256 amount, uint256 gasLimit) payable'],
+  gatewayRouter: ['function depositERC20(address token, address to, uint256 amount, uint256 gasLimit) payable'],
+  l2EthGateway: ['function withdrawETH(address to, uint256 amount, uint256 gasLimit) payable'],
+  l2GatewayRouter: ['function withdrawERC20(address token, address to, uint256 amount, uint256 gasLimit) payable'],
+}
+
+const failedRelayTopic = new Interface(['event FailedRelayedMessage(bytes32 indexed messageHash)']).getEvent(
+  'FailedRelayedMessage',
+)!.topicHash
+
+function requireContract(contracts: ContractsConfig, name: string): string {
+  const address = contracts[name]
+  if (!address) throw new BridgeError(`Missing ${name} in config-contracts.toml`)
+  return address
+}
+
+function gatewayContract(
+  contracts: ContractsConfig,
+  name: string,
+  abi: keyof typeof gatewayInterfaces,
+  runner: ContractRunner,
+): Contract {
+  return new Contract(requireContract(contracts, name), gatewayInterfaces[abi], runner)
+}
+
+async function send(
+  request: BridgeRequest,
+  description: string,
+  tx: Promise<ContractTransactionResponse>,
+): Promise<string> {
+  const sent = await tx
+  await request.onSent?.(description, sent.hash)
+  let receipt: TransactionReceipt | null
+  try {
+    receipt = await sent.wait()
+  } catch (error) {
+    // wait() rejects once the transaction is mined with a failed status
+    if (isError(error, 'CALL_EXCEPTION')) throw new BridgeError(`${description} ${sent.hash} reverted`)
+    throw error
+  }
+
+  if (receipt?.status !== 1) throw new BridgeError(`${description} ${sent.hash} reverted`)
+  return sent.hash
+}
+
+// Approves only what the current allowance does not already cover
+async function ensureAllowance(
+  request: BridgeRequest,
+  token: string,
+  spender: string,
+  signer: Signer,
+): Promise<string | undefined> {
+  const erc20 = new Contract(token, erc20Interface, signer)
+  const allowance: bigint = await erc20.allowance(await signer.getAddress(), spender)
+  if (allowance >= request.amount) return
+
+  return send(request, 'Approval', erc20.approve(spender, request.amount))
+}
+
+/**
+ * Computes the fee the L1 messenger charges for an L1 to L2 message: the gas limit times the L2 base fee reported
+ * by the gas oracle of the L1 message queue. The messenger refunds anything paid above it.
+ * @param gasLimit - The L2 gas limit of the message.
+ * @param l1 - A provider on L1.
+ * @param contracts - The contract addresses.
+ * @returns The fee in wei.
+ */
+export async function estimateDepositFee(
+  gasLimit: bigint,
+  l1: JsonRpcProvider,
+  contracts: ContractsConfig,
+): Promise<bigint> {
+  const l2BaseFee = await getGasOracleL2BaseFee(l1, requireContract(contracts, 'L1_MESSAGE_QUEUE_PROXY_ADDR'))
+  return gasLimit * l2BaseFee
+}
+
+/**
+ * Deposits an asset from L1 to L2, approving the gateway first when its allowance does not cover the amount.
+ * @param request - The asset, amount, recipient and message fee.
+ * @param signer - The L1 signer sending the deposit, connected to a JsonRpcProvider.
+ * @param contracts - The contract addresses.
+ * @returns The L1 transactions and the L1 message they queued.
+ * @throws BridgeError if a contract address is missing or a transaction reverts.
+ */
+export async function deposit(
+  request: BridgeRequest,
+  signer: Signer,
+  contracts: ContractsConfig,
+): Promise<DepositResult> {
+  const l1 = signer.provider as JsonRpcProvider
+  const to = request.to ?? (await signer.getAddress())
+  const gasLimit = request.gasLimit ?? DEPOSIT_GAS_LIMITS[request.asset.kind]
+  const fee = request.fee ?? (await estimateDepositFee(gasLimit, l1, contracts))
+  const {amount, asset} = request
+
+  let approvalTx: string | undefined
+  let l1Tx: string
+  if (asset.kind === 'eth') {
+    const gateway = gatewayContract(contracts, 'L1_ETH_GATEWAY_PROXY_ADDR', 'ethGateway', signer)
+    l1Tx = await send(request, 'Deposit', gateway.depositETH(to, amount, gasLimit, {value: amount + fee}))
+  } else if (asset.kind === 'gas-token') {
+    const gateway = gatewayContract(contracts, 'L1_GAS_TOKEN_GATEWAY_PROXY_ADDR', 'ethGateway', signer)
+    const token = requireContract(contracts, 'L1_GAS_TOKEN_ADDR')
+    approvalTx = await ensureAllowance(request, token, await gateway.getAddress(), signer)
+    l1Tx = await send(request, 'Deposit', gateway.depositETH(to, amount, gasLimit, {value: fee}))
+  } else {
+    const router = gatewayContract(contracts, 'L1_GATEWAY_ROUTER_PROXY_ADDR', 'gatewayRouter', signer)
+    approvalTx = await ensureAllowance(request, asset.token, await router.getAddress(), signer)
+    l1Tx = await send(request, 'Deposit', router.depositERC20(asset.token, to, amount, gasLimit, {value: fee}))
+  }
+
+  const {l2TxHash, queueIndex} = await getCrossDomainMessageFromTx(
+    l1Tx,
+    l1,
+    requireContract(contracts, 'L1_MESSAGE_QUEUE_PROXY_ADDR'),
+  )
+  return {approvalTx, fee, l1Tx, l2TxHash, queueIndex}
+}
+
+/**
+ * Waits for the sequencer to relay a deposit on L2.
+ * @param result - The deposit.
+ * @param l2 - A provider on L2.
+ * @param options - Polling options; see awaitTx for the defaults.
+ * @returns The receipt of the L2 relay transaction.
+ * @throws BridgeError if the relayed message call reverted, in which case the deposit can be replayed from L1.
+ */
+export async function awaitDepositRelay(
+  result: DepositResult,
+  l2: JsonRpcProvider,
+  options: Partial<PollOptions> = {},
+): Promise<TransactionReceipt> {
+  const receipt = await awaitTx(result.l2TxHash, l2, {what: `the L2 relay of deposit ${result.l1Tx}`, ...options})
+  if (receipt.status !== 1 || receipt.logs.some(({topics}) => topics[0] === failedRelayTopic)) {
+    throw new BridgeError(`The L2 relay ${result.l2TxHash} of deposit ${result.l1Tx} failed; it can be replayed from L1`)
+  }
+
+  return receipt
+}
+
+/**
+ * Withdraws an asset from L2 to L1. ETH, or the gas token on alternative gas token chains, is the native token on L2
+ * and is sent along; ERC20 tokens are the L2 tokens, which the L2 gateways burn from the sender without an approval.
+ * The withdrawal can be claimed on L1 once its batch is finalized.
+ * @param request - The asset, amount and recipient.
+ * @param signer - The L2 signer sending the withdrawal.
+ * @param contracts - The contract addresses.
+ * @returns The L2 transactions.
+ * @throws BridgeError if a contract address is missing or a transaction reverts.
+ */
+export async function withdraw(request: BridgeRequest, signer: Signer, contracts: ContractsConfig): Promise<WithdrawResult> {
+  const to = request.to ?? (await signer.getAddress())
+  const {amount, asset} = request
+
+  // L1 execution of withdrawals is paid by whoever claims them, so no gas limit is needed
+  if (asset.kind !== 'erc20') {
+    const gateway = gatewayContract(contracts, 'L2_ETH_GATEWAY_PROXY_ADDR', 'l2EthGateway', signer)
+    return {l2Tx: await send(request, 'Withdrawal', gateway.withdrawETH(to, amount, 0, {value: amount}))}
+  }
+
+  const router = gatewayContract(contracts, 'L2_GATEWAY_ROUTER_PROXY_ADDR', 'l2GatewayRouter', signer)
+  return {l2Tx: await send(request, 'Withdrawal', router.withdrawERC20(asset.token, to, amount, 0))}
+}
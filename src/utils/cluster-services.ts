@@ -0,0 +1,119 @@
+import * as k8s from '@kubernetes/client-node'
+
+import {GeneralConfig, ScrollSdkConfig} from './config-schema.js'
+
+interface ClusterServiceSpec {
+  /** The [general] key of config.toml that overrides the discovered endpoint. */
+  configKey: keyof GeneralConfig
+  /** Path appended to the service's base URL. */
+  path: string
+  /** Name of the Kubernetes Service deployed by the Scroll SDK charts. */
+  service: string
+}
+
+/** Services reached from inside the cluster when commands run with --pod. */
+export const CLUSTER_SERVICES = {
+  bridgeHistoryApi: {configKey: 'BRIDGE_HISTORY_API_ENDPOINT', path: '/api', service: 'bridge-history-api'},
+  l1Rpc: {configKey: 'L1_RPC_ENDPOINT', path: '', service: 'l1-devnet'},
+  l2Rpc: {configKey: 'L2_RPC_ENDPOINT', path: '', service: 'l2-rpc'},
+  rollupExplorerApi: {configKey: 'ROLLUP_EXPLORER_API_ENDPOINT', path: '/api', service: 'rollup-explorer-backend'},
+} as const satisfies Record<string, ClusterServiceSpec>
+
+export type ClusterServiceName = keyof typeof CLUSTER_SERVICES
+
+/** Finds the base URL of a Kubernetes Service, e.g. http://l2-rpc.default.svc.cluster.local:8545. */
+export type ServiceLookup = (service: string) => Promise<string>
+
+export class ServiceDiscoveryError extends Error {
+  constructor(name: ClusterServiceName, reason: string) {
+    const {configKey, service} = CLUSTER_SERVICES[name]
+    super(`Could not find the ${service} service (${reason}). Set ${configKey} in the [general] section of config.toml.`)
+    this.name = 'ServiceDiscoveryError'
+  }
+}
+
+/**
+ * Looks services up through the Kubernetes API, with the in-cluster service account inside a pod and the
+ * current kubeconfig context elsewhere.
+ * @param namespace - The namespace of the services; defaults to the namespace of the pod or context.
+ * @returns A lookup returning the cluster DNS name and port of a service, preferring a port named "http".
+ */
+export function kubernetesServiceLookup(namespace?: string): ServiceLookup {
+  const kc = new k8s.KubeConfig()
+  kc.loadFromDefault()
+  const resolvedNamespace = namespace ?? kc.getContextObject(kc.getCurrentContext())?.namespace ?? 'default'
+  const coreApi = kc.makeApiClient(k8s.CoreV1Api)
+
+  return async (service) => {
+    const {body} = await coreApi.readNamespacedService(service, resolvedNamespace)
+    const ports = body.spec?.ports ?? []
+    const port = ports.find(({name}) => name === 'http') ?? ports[0]
+    if (!port) throw new Error(`service ${service} exposes no ports`)
+    return `http://${service}.${resolvedNamespace}.svc.cluster.local:${port.port}`
+  }
+}
+
+/**
+ * Resolves the in-cluster endpoints of services: from their [general] key in config.toml when set, otherwise
+ * by looking up the Kubernetes Service.
+ * @param general - The [general] section of config.toml.
+ * @param names - The services to resolve.
+ * @param lookup - Creates the service lookup; only called when a service has no configured endpoint.
+ * @returns The endpoint of each service.
+ * @throws ServiceDiscoveryError if a service is not configured and cannot be looked up.
+ */
+export async function resolveClusterEndpoints<N extends ClusterServiceName>(
+  general: GeneralConfig = {},
+  names: N[],
+  lookup: () => ServiceLookup = () => kubernetesServiceLookup(),
+): Promise<Record<N, string>> {
+  const endpoints = {} as Record<N, string>
+  let serviceLookup: ServiceLookup | undefined
+
+  for (const name of names) {
+    const {configKey, path, service} = CLUSTER_SERVICES[name]
+    const configured = general[configKey]
+    if (typeof configured === 'string' && configured !== '') {
+      endpoints[name] = configured
+      continue
+    }
+
+    try {
+      serviceLookup ??= lookup()
+      // eslint-disable-next-line no-await-in-loop
+      endpoints[name] = (await serviceLookup(service)) + path
+    } catch (error) {
+      throw new ServiceDiscoveryError(name, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return endpoints
+}
+
+/**
+ * Resolves the RPCs and bridge-history-api for commands working across the bridge: from their public URLs in the
+ * [frontend] section of config.toml, or inside the cluster when running with --pod.
+ * @param config - The parsed config.toml.
+ * @param options - Whether the command runs inside a pod, and the namespace of the services.
+ * @param options.namespace - The namespace of the services; defaults to the namespace of the pod or context.
+ * @param options.pod - Whether to use the in-cluster endpoints.
+ * @returns The endpoints, each undefined when not configured; bridge-history-api is optional even inside the cluster.
+ * @throws ServiceDiscoveryError if an RPC is not configured and cannot be looked up inside the cluster.
+ */
+export async function resolveBridgeEndpoints(
+  config: ScrollSdkConfig,
+  {namespace, pod}: {namespace?: string; pod: boolean},
+): Promise<{bridgeApiUrl?: string; l1RpcUrl?: string; l2RpcUrl?: string}> {
+  if (!pod) {
+    return {
+      bridgeApiUrl: config.frontend?.BRIDGE_API_URI,
+      l1RpcUrl: config.frontend?.EXTERNAL_RPC_URI_L1,
+      l2RpcUrl: config.frontend?.EXTERNAL_RPC_URI_L2,
+    }
+  }
+
+  const lookup = () => kubernetesServiceLookup(namespace)
+  const {l1Rpc, l2Rpc} = await resolveClusterEndpoints(config.general, ['l1Rpc', 'l2Rpc'], lookup)
+  const bridgeApi = await resolveClusterEndpoints(config.general, ['bridgeHistoryApi'], lookup).catch(() => {})
+  return {bridgeApiUrl: bridgeApi?.bridgeHistoryApi, l1RpcUrl: l1Rpc, l2RpcUrl: l2Rpc}
+}
@@ -1,6 +1,24 @@
+import * as iarnaToml from '@iarna/toml'
 import fs from 'fs'
 import yaml from 'js-yaml'
-import toml from 'toml'
+
+import {
+  ConfigIssue,
+  ContractsConfig,
+  ScrollSdkConfig,
+  validateConfig,
+  validateContractsConfig,
+} from './config-schema.js'
+
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    super(`Invalid config in ${filePath}:\n${issues.map((issue) => `  - ${issue.key}: ${issue.message}`).join('\n')}`)
+    this.name = 'ConfigValidationError'
+  }
+}
 
 export function parseYamlConfig(filePath: string): any {
   try {
@@ -11,11 +29,48 @@ export function parseYamlConfig(filePath: string): any {
   }
 }
 
-export function parseTomlConfig(filePath: string): any {
+/**
+ * Reads and parses a TOML file without validating it.
+ * @param filePath - Path to the TOML file.
+ * @returns The parsed TOML object.
+ */
+export function readToml(filePath: string): Record<string, unknown> {
+  let fileContents: string
   try {
-    const fileContents = fs.readFileSync(filePath, 'utf8')
-    return toml.parse(fileContents)
+    fileContents = fs.readFileSync(filePath, 'utf8')
+  } catch (error) {
+    throw new Error(`Error reading ${filePath}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  try {
+    return iarnaToml.parse(fileContents) as Record<string, unknown>
   } catch (error) {
-    throw new Error(`Error parsing TOML config: ${error}`)
+    throw new Error(`Error parsing TOML config ${filePath}: ${error instanceof Error ? error.message : error}`)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Loads config.toml and validates it against the config schema.
+ * @param filePath - Path to config.toml.
+ * @returns The typed config.
+ * @throws ConfigValidationError listing every invalid key when validation fails.
+ */
+export function loadConfig(filePath: string): ScrollSdkConfig {
+  const config = readToml(filePath)
+  const errors = validateConfig(config).filter((issue) => issue.severity === 'error')
+  if (errors.length > 0) throw new ConfigValidationError(filePath, errors)
+  return config as ScrollSdkConfig
+}
+
+/**
+ * Loads config-contracts.toml and checks that every *_ADDR entry is an address.
+ * @param filePath - Path to config-contracts.toml.
+ * @returns The contract name to address map.
+ * @throws ConfigValidationError listing every invalid entry when validation fails.
+ */
+export function loadContractsConfig(filePath: string): ContractsConfig {
+  const contracts = readToml(filePath)
+  const errors = validateContractsConfig(contracts)
+  if (errors.length > 0) throw new ConfigValidationError(filePath, errors)
+  return contracts as ContractsConfig
+}
@@ -0,0 +1,398 @@
+import {isAddress} from 'ethers'
+
+/**
+ * Kinds of values that can appear in config.toml. Each kind maps to the TypeScript type
+ * the parsed TOML value may have and to the format check applied by validateConfig.
+ */
+export type ValueKind =
+  | 'address'
+  | 'boolean'
+  | 'decimal'
+  | 'dsn'
+  | 'host'
+  | 'integer'
+  | 'privateKey'
+  | 'string'
+  | 'stringList'
+  | 'url'
+
+interface ValueTypes {
+  address: string
+  boolean: 'false' | 'true' | boolean
+  decimal: number | string
+  dsn: string
+  host: string
+  integer: bigint | number | string
+  privateKey: string
+  string: string
+  stringList: string | string[]
+  url: string
+}
+
+type SectionKeys = Record<string, ValueKind>
+
+type SectionOf<K extends SectionKeys> = {-readonly [P in keyof K]?: ValueTypes[K[P]]}
+
+const generalKeys = {
+  // In-cluster endpoints used with --pod; discovered through the Kubernetes API when unset.
+  BRIDGE_HISTORY_API_ENDPOINT: 'url',
+  CHAIN_ID_L1: 'integer',
+  CHAIN_ID_L2: 'integer',
+  CHAIN_NAME_L1: 'string',
+  CHAIN_NAME_L2: 'string',
+  L1_CONTRACT_DEPLOYMENT_BLOCK: 'integer',
+  L1_RPC_ENDPOINT: 'url',
+  L1_RPC_ENDPOINT_WEBSOCKET: 'url',
+  L2_RPC_ENDPOINT: 'url',
+  ROLLUP_EXPLORER_API_ENDPOINT: 'url',
+  TEST_ENV_MOCK_FINALIZE_ENABLED: 'boolean',
+  TEST_ENV_MOCK_FINALIZE_TIMEOUT_SEC: 'integer',
+} as const satisfies SectionKeys
+
+const accountsKeys = {
+  DEPLOYER_ADDR: 'address',
+  DEPLOYER_PRIVATE_KEY: 'privateKey',
+  L1_COMMIT_SENDER_ADDR: 'address',
+  L1_COMMIT_SENDER_PRIVATE_KEY: 'privateKey',
+  L1_FINALIZE_SENDER_ADDR: 'address',
+  L1_FINALIZE_SENDER_PRIVATE_KEY: 'privateKey',
+  L1_GAS_ORACLE_SENDER_ADDR: 'address',
+  L1_GAS_ORACLE_SENDER_PRIVATE_KEY: 'privateKey',
+  L2_GAS_ORACLE_SENDER_ADDR: 'address',
+  L2_GAS_ORACLE_SENDER_PRIVATE_KEY: 'privateKey',
+  OWNER_ADDR: 'address',
+  OWNER_PRIVATE_KEY: 'privateKey',
+} as const satisfies SectionKeys
+
+const dbKeys = {
+  ADMIN_SYSTEM_BACKEND_DB_CONNECTION_STRING: 'dsn',
+  BLOCKSCOUT_DB_CONNECTION_STRING: 'dsn',
+  BRIDGE_HISTORY_DB_CONNECTION_STRING: 'dsn',
+  CHAIN_MONITOR_DB_CONNECTION_STRING: 'dsn',
+  COORDINATOR_DB_CONNECTION_STRING: 'dsn',
+  GAS_ORACLE_DB_CONNECTION_STRING: 'dsn',
+  L1_EXPLORER_DB_CONNECTION_STRING: 'dsn',
+  ROLLUP_EXPLORER_DB_CONNECTION_STRING: 'dsn',
+  ROLLUP_NODE_DB_CONNECTION_STRING: 'dsn',
+  SCROLL_DB_CONNECTION_STRING: 'dsn',
+} as const satisfies SectionKeys
+
+const gasTokenKeys = {
+  ALTERNATIVE_GAS_TOKEN_ENABLED: 'boolean',
+  EXAMPLE_GAS_TOKEN_DECIMAL: 'integer',
+  EXCHANGE_RATE_UPDATE_MODE: 'string',
+  FIXED_EXCHANGE_RATE: 'string',
+  // The misspelling matches the key read by the gas-oracle chart.
+  GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED: 'boolean',
+  L1_GAS_TOKEN: 'address',
+  TOKEN_SYMBOL_PAIR: 'string',
+} as const satisfies SectionKeys
+
+const sequencerNodeKeys = {
+  L2GETH_KEYSTORE: 'string',
+  L2GETH_NODEKEY: 'privateKey',
+  L2GETH_PASSWORD: 'string',
+  L2GETH_SIGNER_ADDRESS: 'address',
+} as const satisfies SectionKeys
+
+const sequencerKeys = {
+  ...sequencerNodeKeys,
+  L2_GETH_STATIC_PEERS: 'stringList',
+} as const satisfies SectionKeys
+
+const bootnodeNodeKeys = {
+  L2GETH_NODEKEY: 'privateKey',
+} as const satisfies SectionKeys
+
+const coordinatorKeys = {
+  BATCH_COLLECTION_TIME_SEC: 'integer',
+  BUNDLE_COLLECTION_TIME_SEC: 'integer',
+  CHUNK_COLLECTION_TIME_SEC: 'integer',
+  COORDINATOR_JWT_SECRET_KEY: 'string',
+} as const satisfies SectionKeys
+
+const frontendKeys = {
+  ADMIN_SYSTEM_DASHBOARD_URI: 'url',
+  BRIDGE_API_URI: 'url',
+  EXTERNAL_EXPLORER_URI_L1: 'url',
+  EXTERNAL_EXPLORER_URI_L2: 'url',
+  EXTERNAL_RPC_URI_L1: 'url',
+  EXTERNAL_RPC_URI_L2: 'url',
+  GRAFANA_URI: 'url',
+  ROLLUPSCAN_API_URI: 'url',
+} as const satisfies SectionKeys
+
+const ingressKeys = {
+  ADMIN_SYSTEM_DASHBOARD_HOST: 'host',
+  BLOCKSCOUT_BACKEND_HOST: 'host',
+  BLOCKSCOUT_HOST: 'host',
+  BRIDGE_HISTORY_API_HOST: 'host',
+  COORDINATOR_API_HOST: 'host',
+  FRONTEND_HOST: 'host',
+  GRAFANA_HOST: 'host',
+  L1_DEVNET_HOST: 'host',
+  L1_EXPLORER_HOST: 'host',
+  ROLLUP_EXPLORER_API_HOST: 'host',
+  RPC_GATEWAY_HOST: 'host',
+  RPC_GATEWAY_WS_HOST: 'host',
+} as const satisfies SectionKeys
+
+// Amounts are in ETH, gas limits in L2 gas; `test e2e` flags override them.
+const testKeys = {
+  ENFORCED_TX_GAS_LIMIT: 'integer',
+  ERC20_DEPOSIT_GAS_LIMIT: 'integer',
+  ETH_DEPOSIT_AMOUNT: 'decimal',
+  ETH_DEPOSIT_GAS_LIMIT: 'integer',
+  ETH_WITHDRAW_AMOUNT: 'decimal',
+  FUNDING_AMOUNT: 'decimal',
+  GAS_TOKEN_DEPOSIT_GAS_LIMIT: 'integer',
+  L2_FUNDING_AMOUNT: 'decimal',
+  MESSAGE_FEE: 'decimal',
+  NFT_DEPOSIT_GAS_LIMIT: 'integer',
+} as const satisfies SectionKeys
+
+const contractsKeys = {
+  DEPLOYMENT_SALT: 'string',
+  L1_FEE_VAULT_ADDR: 'address',
+  L1_PLONK_VERIFIER_ADDR: 'address',
+} as const satisfies SectionKeys
+
+export type GeneralConfig = SectionOf<typeof generalKeys>
+export type AccountsConfig = SectionOf<typeof accountsKeys>
+export type DbConfig = SectionOf<typeof dbKeys>
+export type GasTokenConfig = SectionOf<typeof gasTokenKeys>
+export type SequencerNodeConfig = SectionOf<typeof sequencerNodeKeys>
+export type SequencerConfig = {[name: `sequencer-${number}`]: SequencerNodeConfig} & SectionOf<typeof sequencerKeys>
+export type BootnodeNodeConfig = SectionOf<typeof bootnodeNodeKeys>
+export type BootnodeConfig = {[name: `bootnode-${number}`]: BootnodeNodeConfig}
+export type CoordinatorConfig = SectionOf<typeof coordinatorKeys>
+export type FrontendConfig = SectionOf<typeof frontendKeys>
+export type IngressConfig = SectionOf<typeof ingressKeys>
+export type TestConfig = SectionOf<typeof testKeys>
+export type ContractsSectionConfig = {overrides?: Record<string, unknown>} & SectionOf<typeof contractsKeys>
+
+/**
+ * Typed view of config.toml. Sections that this CLI does not read (e.g. [genesis] or [rollup])
+ * are kept as untyped tables so commands that rewrite the file do not drop them.
+ */
+export interface ScrollSdkConfig {
+  accounts?: AccountsConfig
+  bootnode?: BootnodeConfig
+  contracts?: ContractsSectionConfig
+  coordinator?: CoordinatorConfig
+  db?: DbConfig
+  frontend?: FrontendConfig
+  'gas-token'?: GasTokenConfig
+  general?: GeneralConfig
+  genesis?: Record<string, unknown>
+  ingress?: IngressConfig
+  rollup?: Record<string, unknown>
+  sequencer?: SequencerConfig
+  test?: TestConfig
+}
+
+/**
+ * config-contracts.toml: a flat table of contract names (e.g. L1_SCROLL_CHAIN_PROXY_ADDR) to addresses.
+ */
+export type ContractsConfig = Record<string, string>
+
+export interface ConfigIssue {
+  /** Dotted path of the offending key, e.g. "frontend.EXTERNAL_RPC_URI_L1". */
+  key: string
+  message: string
+  severity: 'error' | 'warning'
+}
+
+interface SectionSpec {
+  keys: SectionKeys
+  /** Nested tables allowed inside the section, e.g. [sequencer.sequencer-1]. */
+  tables?: {keys: SectionKeys; pattern: RegExp}
+}
+
+export const configSchema: Record<string, SectionSpec> = {
+  accounts: {keys: accountsKeys},
+  bootnode: {keys: {}, tables: {keys: bootnodeNodeKeys, pattern: /^bootnode-\d+$/}},
+  contracts: {keys: contractsKeys, tables: {keys: {}, pattern: /^overrides$/}},
+  coordinator: {keys: coordinatorKeys},
+  db: {keys: dbKeys},
+  frontend: {keys: frontendKeys},
+  'gas-token': {keys: gasTokenKeys},
+  general: {keys: generalKeys},
+  ingress: {keys: ingressKeys},
+  sequencer: {keys: sequencerKeys, tables: {keys: sequencerNodeKeys, pattern: /^sequencer-\d+$/}},
+  test: {keys: testKeys},
+}
+
+const HOST_PATTERN = /^(?=.{1,253}$)[\da-z]([\da-z-]{0,61}[\da-z])?(\.[\da-z]([\da-z-]{0,61}[\da-z])?)*$/i
+const PRIVATE_KEY_PATTERN = /^(0x)?[\da-f]{64}$/i
+
+/**
+ * Returns true for boolean config values written either as TOML booleans or as "true" strings.
+ * @param value - The raw config value.
+ * @returns Whether the flag is enabled.
+ */
+export function isEnabled(value?: ValueTypes['boolean']): boolean {
+  return value === true || value === 'true'
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value)
+}
+
+function checkUrl(value: unknown, protocols: string[], expected: string): string | undefined {
+  if (typeof value !== 'string') return 'must be a string'
+  try {
+    const url = new URL(value)
+    return protocols.includes(url.protocol) ? undefined : `must be ${expected}, got protocol ${url.protocol}`
+  } catch {
+    return `must be ${expected}`
+  }
+}
+
+const checkers: Record<ValueKind, (value: unknown) => string | undefined> = {
+  address: (value) => (typeof value === 'string' && isAddress(value) ? undefined : 'must be a 20-byte hex address'),
+  boolean: (value) =>
+    typeof value === 'boolean' || value === 'true' || value === 'false' ? undefined : 'must be true or false',
+  decimal(value) {
+    const valid =
+      (typeof value === 'number' && Number.isFinite(value) && value >= 0) ||
+      (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value))
+    return valid ? undefined : 'must be a non-negative decimal number'
+  },
+  dsn: (value) => checkUrl(value, ['postgres:', 'postgresql:'], 'a postgres:// connection string'),
+  host(value) {
+    if (typeof value !== 'string') return 'must be a string'
+    if (value.includes('://')) return 'must be a bare hostname without a scheme'
+    return HOST_PATTERN.test(value) ? undefined : 'must be a valid hostname'
+  },
+  integer(value) {
+    const valid =
+      typeof value === 'bigint' ||
+      (typeof value === 'number' && Number.isInteger(value) && value >= 0) ||
+      (typeof value === 'string' && /^\d+$/.test(value))
+    return valid ? undefined : 'must be a non-negative integer'
+  },
+  privateKey: (value) =>
+    typeof value === 'string' && PRIVATE_KEY_PATTERN.test(value) ? undefined : 'must be a 32-byte hex key',
+  string: (value) => (typeof value === 'string' ? undefined : 'must be a string'),
+  stringList: (value) =>
+    typeof value === 'string' || (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+      ? undefined
+      : 'must be a string or an array of strings',
+  url: (value) => checkUrl(value, ['http:', 'https:', 'ws:', 'wss:'], 'an http(s) or ws(s) URL'),
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({length: b.length + 1}, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j]
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = current
+    }
+  }
+
+  return previous[b.length]
+}
+
+function closestMatch(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toUpperCase(), candidate.toUpperCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  return bestDistance <= Math.max(2, Math.floor(name.length / 8)) ? best : undefined
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateKeys(path: string, table: Record<string, unknown>, spec: SectionSpec, issues: ConfigIssue[]): void {
+  const known = Object.keys(spec.keys)
+  for (const [key, value] of Object.entries(table)) {
+    const keyPath = `${path}.${key}`
+    const kind = spec.keys[key]
+
+    if (kind) {
+      // Empty strings are placeholders that the setup commands fill in later.
+      if (value === '') continue
+      const problem = checkers[kind](value)
+      if (problem) issues.push({key: keyPath, message: `${problem} (got ${describe(value)})`, severity: 'error'})
+      continue
+    }
+
+    if (spec.tables && spec.tables.pattern.test(key)) {
+      if (!isTable(value)) {
+        issues.push({key: keyPath, message: 'must be a table', severity: 'error'})
+      } else if (Object.keys(spec.tables.keys).length > 0) {
+        validateKeys(keyPath, value, {keys: spec.tables.keys}, issues)
+      }
+
+      continue
+    }
+
+    const suggestion = closestMatch(key, known)
+    if (suggestion) {
+      issues.push({key: keyPath, message: `unknown key, did you mean ${path}.${suggestion}?`, severity: 'error'})
+    } else {
+      issues.push({key: keyPath, message: 'unknown key, it is not read by this CLI', severity: 'warning'})
+    }
+  }
+}
+
+/**
+ * Validates a parsed config.toml against the schema above.
+ * Keys are optional (commands check for the ones they need), but every key that is present must
+ * have the right type and format, and keys that look like typos of known keys are rejected.
+ * @param config - The parsed TOML object.
+ * @returns The list of problems found, empty when the config is valid.
+ */
+export function validateConfig(config: Record<string, unknown>): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  const sections = Object.keys(configSchema)
+
+  for (const [section, table] of Object.entries(config)) {
+    const spec = configSchema[section]
+    if (!spec) {
+      const suggestion = closestMatch(section, sections)
+      if (suggestion) {
+        issues.push({key: section, message: `unknown section, did you mean [${suggestion}]?`, severity: 'error'})
+      }
+
+      continue
+    }
+
+    if (!isTable(table)) {
+      issues.push({key: section, message: 'must be a table', severity: 'error'})
+      continue
+    }
+
+    validateKeys(section, table, spec, issues)
+  }
+
+  return issues
+}
+
+/**
+ * Validates a parsed config-contracts.toml: every *_ADDR entry must hold an address.
+ * @param contracts - The parsed TOML object.
+ * @returns The list of problems found, empty when the file is valid.
+ */
+export function validateContractsConfig(contracts: Record<string, unknown>): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  for (const [key, value] of Object.entries(contracts)) {
+    if (!key.endsWith('_ADDR') || value === '') continue
+    const problem = checkers.address(value)
+    if (problem) issues.push({key, message: `${problem} (got ${describe(value)})`, severity: 'error'})
+  }
+
+  return issues
+}
@@ -0,0 +1,159 @@
+import {computeAddress, getAddress, isAddress} from 'ethers'
+
+import {contracts, isDeployedInMode} from '../data/contracts.js'
+import {
+  ConfigIssue,
+  FrontendConfig,
+  IngressConfig,
+  ScrollSdkConfig,
+  configSchema,
+  isEnabled,
+  validateConfig,
+  validateContractsConfig,
+} from './config-schema.js'
+
+/**
+ * [frontend] URIs that are served through an ingress, keyed to the [ingress] host they must point at.
+ * The L1 entries only apply to Anvil devnets, where setup domains adds the matching ingress hosts.
+ */
+export const frontendIngressHosts: Partial<Record<keyof FrontendConfig, keyof IngressConfig>> = {
+  ADMIN_SYSTEM_DASHBOARD_URI: 'ADMIN_SYSTEM_DASHBOARD_HOST',
+  BRIDGE_API_URI: 'BRIDGE_HISTORY_API_HOST',
+  EXTERNAL_EXPLORER_URI_L1: 'L1_EXPLORER_HOST',
+  EXTERNAL_EXPLORER_URI_L2: 'BLOCKSCOUT_HOST',
+  EXTERNAL_RPC_URI_L1: 'L1_DEVNET_HOST',
+  EXTERNAL_RPC_URI_L2: 'RPC_GATEWAY_HOST',
+  GRAFANA_URI: 'GRAFANA_HOST',
+  ROLLUPSCAN_API_URI: 'ROLLUP_EXPLORER_API_HOST',
+}
+
+type Table = Record<string, unknown>
+
+function isTable(value: unknown): value is Table {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkChecksum(key: string, value: unknown, issues: ConfigIssue[]): void {
+  // Malformed addresses are already reported by the schema checks.
+  if (typeof value !== 'string' || !isAddress(value)) return
+  const checksummed = getAddress(value)
+  if (value !== checksummed) {
+    issues.push({key, message: `address is not checksummed, expected ${checksummed}`, severity: 'error'})
+  }
+}
+
+function checkTableChecksums(path: string, table: Table, keys: Record<string, string>, issues: ConfigIssue[]): void {
+  for (const [key, value] of Object.entries(table)) {
+    if (keys[key] === 'address') checkChecksum(`${path}.${key}`, value, issues)
+  }
+}
+
+function checkConfigChecksums(config: Table, issues: ConfigIssue[]): void {
+  for (const [section, spec] of Object.entries(configSchema)) {
+    const table = config[section]
+    if (!isTable(table)) continue
+
+    checkTableChecksums(section, table, spec.keys, issues)
+    for (const [key, value] of Object.entries(table)) {
+      if (spec.tables?.pattern.test(key) && isTable(value)) {
+        checkTableChecksums(`${section}.${key}`, value, spec.tables.keys, issues)
+      }
+    }
+  }
+}
+
+function checkAccountKeyPairs(config: Table, issues: ConfigIssue[]): void {
+  const {accounts} = config
+  if (!isTable(accounts)) return
+
+  for (const [key, privateKey] of Object.entries(accounts)) {
+    if (!key.endsWith('_PRIVATE_KEY') || typeof privateKey !== 'string' || privateKey === '') continue
+
+    const addressKey = key.replace(/_PRIVATE_KEY$/, '_ADDR')
+    const address = accounts[addressKey]
+    if (typeof address !== 'string' || address === '') {
+      issues.push({key: `accounts.${key}`, message: `has no matching accounts.${addressKey}`, severity: 'warning'})
+      continue
+    }
+
+    let derived: string
+    try {
+      derived = computeAddress(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`)
+    } catch {
+      // Malformed keys are already reported by the schema checks.
+      continue
+    }
+
+    if (isAddress(address) && getAddress(address) !== derived) {
+      issues.push({
+        key: `accounts.${addressKey}`,
+        message: `does not match accounts.${key}, which derives ${derived}`,
+        severity: 'error',
+      })
+    }
+  }
+}
+
+function checkIngressHosts(config: Table, issues: ConfigIssue[]): void {
+  const {frontend, ingress} = config
+  if (!isTable(frontend) || !isTable(ingress)) return
+
+  for (const [uriKey, hostKey] of Object.entries(frontendIngressHosts)) {
+    const uri = frontend[uriKey]
+    const host = ingress[hostKey]
+    if (typeof uri !== 'string' || typeof host !== 'string' || uri === '' || host === '') continue
+
+    let uriHost: string
+    try {
+      uriHost = new URL(uri).hostname
+    } catch {
+      continue
+    }
+
+    if (uriHost !== host.toLowerCase()) {
+      issues.push({
+        key: `frontend.${uriKey}`,
+        message: `points at ${uriHost}, but ingress.${hostKey} is ${host}`,
+        severity: 'error',
+      })
+    }
+  }
+}
+
+/**
+ * Lints a parsed config.toml: the schema checks from validateConfig plus checks that span several keys,
+ * namely address checksums, private keys that must derive their paired *_ADDR, and [frontend] URIs that
+ * must be served by the matching [ingress] host.
+ * @param config - The parsed TOML object.
+ * @returns The list of problems found, empty when the config is valid.
+ */
+export function lintConfig(config: Table): ConfigIssue[] {
+  const issues = validateConfig(config)
+  checkConfigChecksums(config, issues)
+  checkAccountKeyPairs(config, issues)
+  checkIngressHosts(config, issues)
+  return issues
+}
+
+/**
+ * Lints a parsed config-contracts.toml: every entry must be a checksummed address, and every contract
+ * deployed for the configured gas token mode must have one.
+ * @param contractsConfig - The parsed TOML object.
+ * @param config - The parsed config.toml, used to read the gas token mode.
+ * @returns The list of problems found, empty when the file is valid.
+ */
+export function lintContractsConfig(contractsConfig: Table, config: Table): ConfigIssue[] {
+  const issues = validateContractsConfig(contractsConfig)
+  for (const [key, value] of Object.entries(contractsConfig)) {
+    if (key.endsWith('_ADDR')) checkChecksum(key, value, issues)
+  }
+
+  const altGasTokenEnabled = isEnabled((config as ScrollSdkConfig)['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)
+  for (const contract of contracts) {
+    if (isDeployedInMode(contract, altGasTokenEnabled) && !contractsConfig[contract.name]) {
+      issues.push({key: contract.name, message: 'missing address', severity: 'error'})
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,181 @@
+import {ZeroAddress, dataSlice, getAddress, isError, keccak256} from 'ethers'
+import fs from 'node:fs'
+
+import {Layer, contracts} from '../data/contracts.js'
+import {ContractsConfig} from './config-schema.js'
+import {EIP1967_ADMIN_SLOT, EIP1967_IMPLEMENTATION_SLOT, RpcBatcher} from './onchain/index.js'
+
+/** Format version of snapshot files; bump it when the shape of ContractsSnapshot changes. */
+export const SNAPSHOT_VERSION = 1
+
+export interface ContractState {
+  address: string
+  /** EIP-1967 admin slot, or null when it is empty. */
+  admin: null | string
+  /** keccak256 of the deployed bytecode, or null when nothing is deployed. */
+  codeHash: null | string
+  /** EIP-1967 implementation slot, or null when it is empty. */
+  implementation: null | string
+  /** Raw word in storage slot 0, where Initializable keeps its initialized version. */
+  initializedSlot: string
+  layer: Layer
+  /** Result of owner(), or null when the contract has none. */
+  owner: null | string
+}
+
+export interface ChainInfo {
+  blockNumber: number
+  chainId: string
+}
+
+export interface ContractsSnapshot {
+  chains: Record<Layer, ChainInfo>
+  contracts: Record<string, ContractState>
+  createdAt: string
+  version: number
+}
+
+export interface ContractDrift {
+  after: null | string
+  before: null | string
+  field: 'added' | 'removed' | keyof Omit<ContractState, 'layer'>
+  name: string
+}
+
+const driftFields = ['address', 'codeHash', 'implementation', 'admin', 'owner', 'initializedSlot'] as const
+
+// Names outside the contracts list (already reported by `test contracts`) are placed by their prefix.
+function layerOf(name: string): Layer {
+  return contracts.find((contract) => contract.name === name)?.layer ?? (name.startsWith('L2_') ? Layer.L2 : Layer.L1)
+}
+
+function slotAddress(word: string): null | string {
+  const address = getAddress(dataSlice(word, 12))
+  return address === ZeroAddress ? null : address
+}
+
+// A contract without owner() reverts, or returns no data when nothing is deployed; other errors fail the snapshot
+// rather than showing up as an ownership change
+function noOwner(error: unknown): null {
+  if (isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA')) return null
+  throw error
+}
+
+async function readState(
+  batcher: RpcBatcher,
+  address: string,
+  layer: Layer,
+  blockNumber: number,
+): Promise<ContractState> {
+  const [code, implementation, admin, initializedSlot, owner] = await Promise.all([
+    batcher.getCode(address, blockNumber),
+    batcher.getStorage(address, EIP1967_IMPLEMENTATION_SLOT, blockNumber),
+    batcher.getStorage(address, EIP1967_ADMIN_SLOT, blockNumber),
+    batcher.getStorage(address, 0, blockNumber),
+    batcher.call<string>(address, 'function owner() view returns (address)', [], blockNumber).catch(noOwner),
+  ])
+
+  return {
+    address: getAddress(address),
+    admin: slotAddress(admin),
+    codeHash: code === '0x' ? null : keccak256(code),
+    implementation: slotAddress(implementation),
+    initializedSlot,
+    layer,
+    owner,
+  }
+}
+
+async function readChain(batcher: RpcBatcher): Promise<ChainInfo> {
+  const [network, blockNumber] = await Promise.all([
+    batcher.request(() => batcher.provider.getNetwork()),
+    batcher.request(() => batcher.provider.getBlockNumber()),
+  ])
+  return {blockNumber, chainId: network.chainId.toString()}
+}
+
+/**
+ * Records the on-chain state of every address in config-contracts.toml, reading each chain at the block recorded
+ * in the snapshot.
+ *
+ * @param contractsConfig - The parsed config-contracts.toml.
+ * @param batchers - RPC batchers for the L1 and L2 chains.
+ * @returns The snapshot, with contracts in config file order.
+ */
+export async function takeSnapshot(
+  contractsConfig: ContractsConfig,
+  batchers: Record<Layer, RpcBatcher>,
+): Promise<ContractsSnapshot> {
+  const entries = Object.entries(contractsConfig).filter(([name, address]) => name.endsWith('_ADDR') && address)
+  const [l1Chain, l2Chain] = await Promise.all([readChain(batchers[Layer.L1]), readChain(batchers[Layer.L2])])
+  const chains = {[Layer.L1]: l1Chain, [Layer.L2]: l2Chain}
+  const states = await Promise.all(
+    entries.map(([name, address]) => {
+      const layer = layerOf(name)
+      return readState(batchers[layer], address, layer, chains[layer].blockNumber)
+    }),
+  )
+
+  return {
+    chains,
+    contracts: Object.fromEntries(entries.map(([name], index) => [name, states[index]])),
+    createdAt: new Date().toISOString(),
+    version: SNAPSHOT_VERSION,
+  }
+}
+
+/**
+ * Lists every difference between two snapshots: contracts added or removed from the config, and changed
+ * addresses, code, implementations, admins, owners and initialized slots.
+ *
+ * @param before - The earlier snapshot.
+ * @param after - The later snapshot.
+ * @returns The drift, in the order of the earlier snapshot followed by added contracts.
+ */
+export function compareSnapshots(before: ContractsSnapshot, after: ContractsSnapshot): ContractDrift[] {
+  const drift: ContractDrift[] = []
+
+  for (const [name, previous] of Object.entries(before.contracts)) {
+    const current = after.contracts[name]
+    if (!current) {
+      drift.push({after: null, before: previous.address, field: 'removed', name})
+      continue
+    }
+
+    for (const field of driftFields) {
+      if (previous[field]?.toLowerCase() !== current[field]?.toLowerCase()) {
+        drift.push({after: current[field], before: previous[field], field, name})
+      }
+    }
+  }
+
+  for (const [name, current] of Object.entries(after.contracts)) {
+    if (!before.contracts[name]) drift.push({after: current.address, before: null, field: 'added', name})
+  }
+
+  return drift
+}
+
+/**
+ * Reads a snapshot written by `test snapshot`.
+ *
+ * @param filePath - Path to the snapshot file.
+ * @returns The snapshot.
+ * @throws An error if the file is not a snapshot of a supported version.
+ */
+export function loadSnapshot(filePath: string): ContractsSnapshot {
+  let snapshot: ContractsSnapshot
+  try {
+    snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Error reading snapshot ${filePath}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (snapshot?.version !== SNAPSHOT_VERSION || typeof snapshot.contracts !== 'object') {
+    throw new Error(
+      `${filePath} is not a version ${SNAPSHOT_VERSION} contracts snapshot (found version ${snapshot?.version})`,
+    )
+  }
+
+  return snapshot
+}
@@ -0,0 +1,15 @@
+import {JsonRpcProvider, Wallet} from 'ethers'
+
+import {ContractsConfig} from '../config-schema.js'
+
+/** What `test e2e` hands to every step. */
+export interface E2EContext {
+  altGasTokenEnabled: boolean
+  contracts: ContractsConfig
+  l1Provider: JsonRpcProvider
+  l2Provider: JsonRpcProvider
+  /** The owner of the gateways, needed to map test tokens; undefined without OWNER_PRIVATE_KEY. */
+  owner?: Wallet
+  /** The test wallet, not connected to a provider. */
+  wallet: Wallet
+}
@@ -0,0 +1,30 @@
+export type {E2EContext} from './context.js'
+export {StepDependencyError, StepRegistry, UnknownStepError} from './registry.js'
+export type {E2EStep, PlannedStep, StepOutputs, StepSelection} from './registry.js'
+export {E2EReport, REPORT_FORMATS, renderJUnitReport, writeReport} from './report.js'
+export type {E2EReportData, ReportFormat, ReportedTransaction, StepReport} from './report.js'
+export {
+  DEFAULT_RESUME_FILE,
+  InvalidRunIdError,
+  UnfinishedRunError,
+  assertNoUnfinishedRun,
+  emptyResumeState,
+  findResumeFiles,
+  loadResumeState,
+  resumeFileForRun,
+  saveResumeState,
+} from './resume.js'
+export type {E2EResumeState, StepState} from './resume.js'
+export {MissingStepOutputError, currentStepName, runSteps, runStepsInParallel} from './runner.js'
+export type {StepHooks} from './runner.js'
+export {E2E_SETTINGS, E2ESettingsError, resolveE2ESettings} from './settings.js'
+export type {E2ESettings} from './settings.js'
+export {StatusView} from './status.js'
+export {
+  WALLET_PASSPHRASE_ENV,
+  WalletDecryptionError,
+  encryptTestWallet,
+  restoreTestWallet,
+  sweepBalance,
+  walletPassphrase,
+} from './wallet.js'
@@ -0,0 +1,146 @@
+import {E2EResumeState} from './resume.js'
+
+export type StepOutputs = Record<string, unknown>
+
+/**
+ * One step of an e2e scenario. Steps run in registration order; a step only runs once every step it depends
+ * on, directly or through its inputs, has completed in this run or an earlier one.
+ */
+export interface E2EStep<TContext> {
+  /** Steps that must complete first, besides the ones named in inputs. */
+  dependsOn?: string[]
+  /** Outputs of earlier steps, as "<step>.<output>", keyed by the name run() receives them under. */
+  inputs?: Record<string, string>
+  /** Prompts the user; when steps run in parallel, no other interactive step runs at the same time. */
+  interactive?: boolean
+  /** Unique kebab-case name, used by --only/--skip and as the step's key in the resume file. */
+  name: string
+  /** Outputs run() must return; they are saved in the resume file for later steps and runs. */
+  outputs?: string[]
+  run(context: TContext, inputs: StepOutputs): Promise<StepOutputs | void>
+  /** Why the step does not apply to this chain, e.g. in alternative gas token mode; undefined when it does. */
+  skipReason?(context: TContext): string | undefined
+  /** Section title printed when the step runs. */
+  title: string
+}
+
+export interface PlannedStep<TContext> {
+  action: 'done' | 'run' | 'skip'
+  reason?: string
+  step: E2EStep<TContext>
+}
+
+export interface StepSelection {
+  only?: string[]
+  skip?: string[]
+}
+
+export class UnknownStepError extends Error {
+  constructor(names: string[], available: string[]) {
+    super(`Unknown e2e step(s): ${names.join(', ')}. Available steps: ${available.join(', ')}`)
+    this.name = 'UnknownStepError'
+  }
+}
+
+export class StepDependencyError extends Error {
+  constructor(
+    public readonly step: string,
+    public readonly dependency: string,
+  ) {
+    super(
+      `Step "${step}" needs "${dependency}", which has not completed. Add "${dependency}" to --only or remove it from --skip.`,
+    )
+    this.name = 'StepDependencyError'
+  }
+}
+
+/** The steps of every registered scenario, in the order they run. */
+export class StepRegistry<TContext> {
+  private readonly steps = new Map<string, E2EStep<TContext>>()
+
+  /**
+   * Names of the steps a step depends on, directly or through its inputs.
+   * @param step - The step.
+   * @returns The step names, without duplicates.
+   */
+  static dependenciesOf(step: E2EStep<unknown>): string[] {
+    const fromInputs = Object.values(step.inputs ?? {}).map((input) => input.split('.')[0])
+    return [...new Set([...(step.dependsOn ?? []), ...fromInputs])]
+  }
+
+  /**
+   * Lists the registered steps.
+   * @returns The steps, in the order they run.
+   */
+  list(): E2EStep<TContext>[] {
+    return [...this.steps.values()]
+  }
+
+  /**
+   * Decides what happens to each step in this run: steps finished in an earlier run are kept, steps that do
+   * not apply or were not selected are skipped, along with anything depending on a step that does not apply.
+   * @param context - The context passed to skipReason().
+   * @param state - The resume state of earlier runs.
+   * @param selection - Steps picked with --only and --skip.
+   * @returns One entry per registered step, in the order they run.
+   * @throws UnknownStepError if the selection names a step that is not registered.
+   * @throws StepDependencyError if a step would run before a step it needs.
+   */
+  plan(context: TContext, state: E2EResumeState, selection: StepSelection = {}): PlannedStep<TContext>[] {
+    const unknown = [...(selection.only ?? []), ...(selection.skip ?? [])].filter((name) => !this.steps.has(name))
+    if (unknown.length > 0) throw new UnknownStepError(unknown, [...this.steps.keys()])
+
+    const planned = new Map<string, PlannedStep<TContext>>()
+    const notApplicable = new Set<string>()
+
+    for (const step of this.steps.values()) {
+      const dependencies = StepRegistry.dependenciesOf(step)
+      const reason = step.skipReason?.(context)
+      const missingDependency = dependencies.find((dependency) => notApplicable.has(dependency))
+
+      if (state.steps[step.name]?.status === 'done') {
+        planned.set(step.name, {action: 'done', step})
+      } else if (reason || missingDependency) {
+        notApplicable.add(step.name)
+        planned.set(step.name, {
+          action: 'skip',
+          reason: reason ?? `needs ${missingDependency}, which does not apply`,
+          step,
+        })
+      } else if (
+        (selection.only && !selection.only.includes(step.name)) ||
+        (selection.skip && selection.skip.includes(step.name))
+      ) {
+        planned.set(step.name, {action: 'skip', reason: 'not selected', step})
+      } else {
+        const blocking = dependencies.find((dependency) => planned.get(dependency)?.action === 'skip')
+        if (blocking) throw new StepDependencyError(step.name, blocking)
+        planned.set(step.name, {action: 'run', step})
+      }
+    }
+
+    return [...planned.values()]
+  }
+
+  /**
+   * Adds steps after the ones already registered.
+   * @param steps - The steps to add.
+   * @returns The registry, for chaining.
+   * @throws An error if a name is taken or a step depends on one that is not registered before it.
+   */
+  register(...steps: E2EStep<TContext>[]): this {
+    for (const step of steps) {
+      if (this.steps.has(step.name)) throw new Error(`E2E step "${step.name}" is already registered`)
+
+      for (const dependency of StepRegistry.dependenciesOf(step)) {
+        if (!this.steps.has(dependency)) {
+          throw new Error(`E2E step "${step.name}" depends on "${dependency}", which must be registered before it`)
+        }
+      }
+
+      this.steps.set(step.name, step)
+    }
+
+    return this
+  }
+}
@@ -0,0 +1,182 @@
+import fs from 'node:fs/promises'
+
+import {PlannedStep} from './registry.js'
+import {StepHooks} from './runner.js'
+
+export type ReportFormat = 'json' | 'junit'
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'junit']
+
+export interface ReportedTransaction {
+  description: string
+  hash: string
+  layer: string
+  /** Block explorer link, or the hash when no explorer is configured. */
+  link: string
+}
+
+export interface StepReport {
+  durationMs: number
+  error?: string
+  name: string
+  /** Why the step did not run, for skipped steps. */
+  reason?: string
+  status: 'failed' | 'passed' | 'skipped'
+  title: string
+  transactions: ReportedTransaction[]
+}
+
+export interface E2EReportData {
+  finishedAt: string
+  startedAt: string
+  steps: StepReport[]
+  summary: Record<StepReport['status'], number>
+}
+
+/**
+ * Collects the outcome of every planned step for --report. Steps that were planned to run but never started,
+ * because an earlier step failed, are reported as skipped.
+ */
+export class E2EReport {
+  private readonly startedAt = new Date()
+  private readonly startTimes = new Map<string, number>()
+  private readonly steps = new Map<string, StepReport>()
+
+  constructor(plan: PlannedStep<unknown>[]) {
+    for (const {action, reason, step} of plan) {
+      const skipReason = {
+        done: 'completed in an earlier run',
+        run: 'not started because an earlier step failed',
+        skip: reason ?? 'not selected',
+      }[action]
+      this.steps.set(step.name, {
+        durationMs: 0,
+        name: step.name,
+        reason: skipReason,
+        status: 'skipped',
+        title: step.title,
+        transactions: [],
+      })
+    }
+  }
+
+  // Records a transaction sent by a step. Transactions sent outside of a step are not reported.
+  addTransaction(step: string | undefined, transaction: ReportedTransaction): void {
+    if (step) this.steps.get(step)?.transactions.push(transaction)
+  }
+
+  /**
+   * Wraps the hooks passed to runSteps(), recording when each step starts and how it ends.
+   * @param hooks - The hooks to wrap.
+   * @returns Hooks calling the given ones after recording the step.
+   */
+  record<TContext>(hooks: StepHooks<TContext>): StepHooks<TContext> {
+    return {
+      ...hooks,
+      onDone: (planned, outputs) => {
+        this.finish(planned.step.name, 'passed')
+        return hooks.onDone?.(planned, outputs)
+      },
+      onFail: (planned, error) => {
+        this.finish(planned.step.name, 'failed', error instanceof Error ? error.message : String(error))
+        return hooks.onFail?.(planned, error)
+      },
+      onStart: (planned) => {
+        this.startTimes.set(planned.step.name, Date.now())
+        return hooks.onStart?.(planned)
+      },
+    }
+  }
+
+  /**
+   * The report as written by --report json.
+   * @returns The steps in the order they were planned, with a count per status.
+   */
+  toJSON(): E2EReportData {
+    const steps = [...this.steps.values()]
+    const count = (status: StepReport['status']) => steps.filter((step) => step.status === status).length
+
+    return {
+      finishedAt: new Date().toISOString(),
+      startedAt: this.startedAt.toISOString(),
+      steps,
+      summary: {failed: count('failed'), passed: count('passed'), skipped: count('skipped')},
+    }
+  }
+
+  private finish(name: string, status: 'failed' | 'passed', error?: string): void {
+    const step = this.steps.get(name)
+    if (!step) return
+
+    step.durationMs = Date.now() - (this.startTimes.get(name) ?? Date.now())
+    step.error = error
+    step.reason = undefined
+    step.status = status
+  }
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3)
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      .replaceAll('&', '&amp;')
+      .replaceAll('<', '&lt;')
+      .replaceAll('>', '&gt;')
+      .replaceAll('"', '&quot;')
+      // Terminal colors end up in error messages; they are not valid XML
+      // eslint-disable-next-line no-control-regex
+      .replaceAll(/\u001B\[[\d;]*m/g, '')
+  )
+}
+
+/**
+ * Renders a report as JUnit XML, one test case per step. Transactions are listed in each test case's output.
+ * @param report - The report data.
+ * @returns The XML document.
+ */
+export function renderJUnitReport(report: E2EReportData): string {
+  const total = report.steps.reduce((sum, step) => sum + step.durationMs, 0)
+  const counts = `tests="${report.steps.length}" failures="${report.summary.failed}" skipped="${report.summary.skipped}"`
+
+  const testCases = report.steps.map((step) => {
+    const lines = [`    <testcase classname="e2e" name="${escapeXml(step.name)}" time="${seconds(step.durationMs)}">`]
+    if (step.status === 'failed') {
+      lines.push(`      <failure message="${escapeXml(step.error ?? 'failed')}"/>`)
+    } else if (step.status === 'skipped') {
+      lines.push(`      <skipped message="${escapeXml(step.reason ?? '')}"/>`)
+    }
+
+    const output = [
+      step.title,
+      ...step.transactions.map(({description, layer, link}) => `${layer.toUpperCase()} ${description}: ${link}`),
+    ]
+    lines.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`, '    </testcase>')
+    return lines.join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="scroll-sdk e2e" ${counts} time="${seconds(total)}">`,
+    `  <testsuite name="e2e" ${counts} time="${seconds(total)}" timestamp="${report.startedAt}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Writes a report for --report.
+ * @param filePath - Where to write it.
+ * @param format - JSON or JUnit XML.
+ * @param report - The collected report.
+ * @returns A promise that resolves once the file is written.
+ */
+export async function writeReport(filePath: string, format: ReportFormat, report: E2EReport): Promise<void> {
+  const data = report.toJSON()
+  const content = format === 'junit' ? renderJUnitReport(data) : JSON.stringify(data, null, 2) + '\n'
+  await fs.writeFile(filePath, content, 'utf8')
+}
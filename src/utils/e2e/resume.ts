@@ -0,0 +1,159 @@
+import {computeAddress} from 'ethers'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import {StepOutputs} from './registry.js'
+
+export interface StepState {
+  /** Failure message of the last attempt, when it failed. */
+  error?: string
+  finishedAt: string
+  outputs: StepOutputs
+  status: 'done' | 'failed'
+}
+
+export interface E2EResumeState {
+  /** When every selected step had completed; unset while the run is unfinished. */
+  completedAt?: string
+  steps: Record<string, StepState>
+  timestamp?: string
+  wallet?: {
+    address: string
+    /** Plaintext key of the generated wallet, migrated from a legacy resume file. */
+    generatedPrivateKey?: string // should never store user provided key
+    /** The generated wallet as an encrypted JSON keystore. */
+    keystore?: string
+  }
+}
+
+// The resume file written before steps were tracked: one entry of results per step of the fixed flow
+interface LegacyResumeState {
+  results: {fundWalletOnL1?: {generatedPrivateKey?: string; walletAddress?: string}}
+  timestamp?: string
+}
+
+export const DEFAULT_RESUME_FILE = 'e2e_resume.json'
+
+const RESUME_FILE_PATTERN = /^e2e_resume(?:\.([\w-]+))?\.json$/
+
+export class InvalidRunIdError extends Error {
+  constructor(runId: string) {
+    super(`Invalid run id "${runId}": use letters, digits, "-" and "_" only`)
+    this.name = 'InvalidRunIdError'
+  }
+}
+
+export class UnfinishedRunError extends Error {
+  constructor(filePath: string, reason: string) {
+    super(
+      `${filePath} ${reason}, and a new run would overwrite it along with the key of its test wallet. Continue that run with --resume, start this one under another --run-id, or run \`test e2e clean\` first.`,
+    )
+    this.name = 'UnfinishedRunError'
+  }
+}
+
+/**
+ * Names the resume file of a run, so several runs can keep their progress in the same directory.
+ * @param runId - The --run-id; undefined for the default run.
+ * @returns e2e_resume.<run-id>.json, or e2e_resume.json without a run id.
+ * @throws InvalidRunIdError if the run id would not make a plain file name.
+ */
+export function resumeFileForRun(runId?: string): string {
+  if (runId === undefined) return DEFAULT_RESUME_FILE
+  if (!/^[\w-]+$/.test(runId)) throw new InvalidRunIdError(runId)
+  return `e2e_resume.${runId}.json`
+}
+
+/**
+ * Finds the resume files of every run in a directory.
+ * @param dir - The directory to search.
+ * @returns The path of each resume file with its run id, undefined for e2e_resume.json; that run comes first.
+ */
+export async function findResumeFiles(dir: string): Promise<{file: string; runId?: string}[]> {
+  const entries = await fs.readdir(dir)
+  return entries
+    .map((entry) => ({entry, match: RESUME_FILE_PATTERN.exec(entry)}))
+    .filter(({match}) => match)
+    .map(({entry, match}) => ({file: path.join(dir, entry), runId: match?.[1]}))
+    .sort((a, b) => (a.runId ?? '').localeCompare(b.runId ?? ''))
+}
+
+/**
+ * Creates the state of a run that has not completed any step.
+ * @returns The empty state.
+ */
+export function emptyResumeState(): E2EResumeState {
+  return {steps: {}}
+}
+
+// Keeps the wallet of a legacy resume file, so a resumed run reuses its funds and `test e2e clean` can sweep them.
+// Its results do not carry the outputs steps now expect, so every step runs again.
+function migrateLegacyState({results, timestamp}: LegacyResumeState): E2EResumeState {
+  const {generatedPrivateKey, walletAddress} = results.fundWalletOnL1 ?? {}
+  const wallet = generatedPrivateKey
+    ? {address: walletAddress ?? computeAddress(generatedPrivateKey), generatedPrivateKey}
+    : undefined
+  return {steps: {}, timestamp, wallet}
+}
+
+/**
+ * Reads a resume file written by saveResumeState(). Strings like "12n" are read back as bigints. Files written
+ * before steps were tracked are migrated, keeping only their wallet.
+ * @param filePath - Path to the resume file.
+ * @returns The saved state.
+ * @throws An error if the file cannot be read or is not a resume file.
+ */
+export async function loadResumeState(filePath: string): Promise<E2EResumeState> {
+  const fileContent = await fs.readFile(filePath, 'utf8')
+  const resumeData = JSON.parse(fileContent, (_key, value) => {
+    // Check if the value is a string that represents a BigInt
+    if (typeof value === 'string' && /^\d+n$/.test(value)) {
+      return BigInt(value.slice(0, -1))
+    }
+
+    return value
+  })
+
+  if (!resumeData.steps && resumeData.results && typeof resumeData.results === 'object') {
+    return migrateLegacyState(resumeData)
+  }
+
+  if (!resumeData.steps || typeof resumeData.steps !== 'object') {
+    throw new Error(`Invalid resume file format in ${filePath}: missing steps`)
+  }
+
+  return resumeData
+}
+
+/**
+ * Checks that a new run may write its resume file: there is none yet, or it belongs to a run that completed.
+ * @param filePath - Path to the resume file.
+ * @returns A promise that resolves if the file can be overwritten.
+ * @throws UnfinishedRunError if the file holds an unfinished run, or cannot be read as a resume file.
+ */
+export async function assertNoUnfinishedRun(filePath: string): Promise<void> {
+  let state: E2EResumeState
+  try {
+    state = await loadResumeState(filePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw new UnfinishedRunError(filePath, `cannot be read (${(error as Error).message})`)
+  }
+
+  if (!state.completedAt) throw new UnfinishedRunError(filePath, 'holds an unfinished run')
+}
+
+/**
+ * Writes the state of a run, so it can be continued with --resume.
+ * @param filePath - Path to the resume file.
+ * @param state - The state to save.
+ * @returns A promise that resolves once the file is written.
+ */
+export async function saveResumeState(filePath: string, state: E2EResumeState): Promise<void> {
+  const fileContent = JSON.stringify(
+    {...state, timestamp: new Date().toISOString()},
+    (_key, value) => (typeof value === 'bigint' ? `${value}n` : value),
+    2,
+  )
+  await fs.writeFile(filePath, fileContent, 'utf8')
+}
@@ -0,0 +1,182 @@
+import {AsyncLocalStorage} from 'node:async_hooks'
+
+import {PlannedStep, StepOutputs, StepRegistry} from './registry.js'
+import {E2EResumeState} from './resume.js'
+
+export interface StepHooks<TContext> {
+  /** Called after a step completed and the state was saved. */
+  onDone?(planned: PlannedStep<TContext>, outputs: StepOutputs): Promise<void> | void
+  /** Called after a step failed and the state was saved. */
+  onFail?(planned: PlannedStep<TContext>, error: unknown): Promise<void> | void
+  /** Called for steps that do not run: finished in an earlier run, not applicable or not selected. */
+  onSkip?(planned: PlannedStep<TContext>): Promise<void> | void
+  /** Called before a step runs. */
+  onStart?(planned: PlannedStep<TContext>): Promise<void> | void
+  /** Persists the state after every step that ran, whether it completed or failed. */
+  save(state: E2EResumeState): Promise<void>
+}
+
+export class MissingStepOutputError extends Error {
+  constructor(step: string, output: string) {
+    super(`E2E step "${step}" did not produce "${output}"`)
+    this.name = 'MissingStepOutputError'
+  }
+}
+
+const currentStep = new AsyncLocalStorage<string>()
+
+/**
+ * Names the step whose code is running, so output of steps running in parallel can be told apart.
+ * @returns The step name, or undefined outside of a step.
+ */
+export function currentStepName(): string | undefined {
+  return currentStep.getStore()
+}
+
+function resolveInputs(step: PlannedStep<unknown>['step'], state: E2EResumeState): StepOutputs {
+  const inputs: StepOutputs = {}
+  for (const [name, reference] of Object.entries(step.inputs ?? {})) {
+    const [source, output] = reference.split('.')
+    const value = state.steps[source]?.outputs[output]
+    if (value === undefined) throw new MissingStepOutputError(source, output)
+    inputs[name] = value
+  }
+
+  return inputs
+}
+
+async function runStep<TContext>(
+  planned: PlannedStep<TContext>,
+  context: TContext,
+  state: E2EResumeState,
+  hooks: StepHooks<TContext>,
+): Promise<void> {
+  const {step} = planned
+
+  return currentStep.run(step.name, async () => {
+    await hooks.onStart?.(planned)
+
+    let outputs: StepOutputs
+    try {
+      outputs = (await step.run(context, resolveInputs(step, state))) ?? {}
+      const missing = (step.outputs ?? []).find((output) => outputs[output] === undefined)
+      if (missing) throw new MissingStepOutputError(step.name, missing)
+    } catch (error) {
+      state.steps[step.name] = {
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date().toISOString(),
+        outputs: {},
+        status: 'failed',
+      }
+      await hooks.save(state)
+      await hooks.onFail?.(planned, error)
+      throw error
+    }
+
+    state.steps[step.name] = {finishedAt: new Date().toISOString(), outputs, status: 'done'}
+    await hooks.save(state)
+    await hooks.onDone?.(planned, outputs)
+  })
+}
+
+/**
+ * Runs the planned steps like runSteps(), but starts each step as soon as the steps it depends on have completed.
+ * Interactive steps hold the terminal, so only one runs at a time; other steps keep starting around them. After a
+ * failure no new steps start; the ones running are allowed to finish before the error is rethrown.
+ *
+ * @param plan - The plan from StepRegistry.plan().
+ * @param context - The context passed to every step.
+ * @param state - The resume state; updated in place.
+ * @param hooks - Progress callbacks and the function saving the state; saves never overlap.
+ * @returns A promise that resolves once every planned step has completed.
+ */
+export async function runStepsInParallel<TContext>(
+  plan: PlannedStep<TContext>[],
+  context: TContext,
+  state: E2EResumeState,
+  hooks: StepHooks<TContext>,
+): Promise<void> {
+  const finished = new Set(plan.filter(({action}) => action === 'done').map(({step}) => step.name))
+  const waiting = plan.filter(({action}) => action === 'run')
+  const running = new Map<string, Promise<string>>()
+  let interactive: string | undefined
+  let failure: {error: unknown} | undefined
+
+  // Steps finishing together would otherwise write the resume file at the same time
+  let saving = Promise.resolve()
+  const serialHooks: StepHooks<TContext> = {
+    ...hooks,
+    save(current) {
+      const saved = saving.then(() => hooks.save(current))
+      saving = saved.catch(() => {})
+      return saved
+    },
+  }
+
+  const start = (planned: PlannedStep<TContext>) => {
+    const {name} = planned.step
+    waiting.splice(waiting.indexOf(planned), 1)
+    running.set(
+      name,
+      runStep(planned, context, state, serialHooks).then(
+        () => {
+          finished.add(name)
+          return name
+        },
+        (error) => {
+          failure ??= {error}
+          return name
+        },
+      ),
+    )
+  }
+
+  for (const planned of plan) {
+    // eslint-disable-next-line no-await-in-loop
+    if (planned.action !== 'run') await hooks.onSkip?.(planned)
+  }
+
+  for (;;) {
+    for (const planned of failure ? [] : [...waiting]) {
+      if (!StepRegistry.dependenciesOf(planned.step).every((dependency) => finished.has(dependency))) continue
+
+      if (planned.step.interactive) {
+        if (interactive) continue
+        interactive = planned.step.name
+      }
+
+      start(planned)
+    }
+
+    if (running.size === 0) break
+
+    // eslint-disable-next-line no-await-in-loop
+    const done = await Promise.race(running.values())
+    running.delete(done)
+    if (done === interactive) interactive = undefined
+  }
+
+  if (failure) throw failure.error
+}
+
+/**
+ * Runs the planned steps in order, recording each outcome in the resume state. The first failing step stops
+ * the run; its error is rethrown after the failure is saved.
+ *
+ * @param plan - The plan from StepRegistry.plan().
+ * @param context - The context passed to every step.
+ * @param state - The resume state; updated in place.
+ * @param hooks - Progress callbacks and the function saving the state.
+ * @returns A promise that resolves once every planned step has completed.
+ */
+export async function runSteps<TContext>(
+  plan: PlannedStep<TContext>[],
+  context: TContext,
+  state: E2EResumeState,
+  hooks: StepHooks<TContext>,
+): Promise<void> {
+  for (const planned of plan) {
+    // eslint-disable-next-line no-await-in-loop
+    await (planned.action === 'run' ? runStep(planned, context, state, hooks) : hooks.onSkip?.(planned))
+  }
+}
@@ -0,0 +1,153 @@
+import {parseEther} from 'ethers'
+
+import {TestConfig} from '../config-schema.js'
+
+/** Amounts and gas limits used by `test e2e`. Amounts are in wei. */
+export interface E2ESettings {
+  enforcedTxGasLimit: bigint
+  erc20DepositGasLimit: bigint
+  ethDepositAmount: bigint
+  ethDepositGasLimit: bigint
+  ethWithdrawAmount: bigint
+  fundingAmount: bigint
+  gasTokenDepositGasLimit: bigint
+  l2FundingAmount: bigint
+  /** Fixed fee for L1 to L2 messages; when unset it is computed from the L2 base fee. */
+  messageFee?: bigint
+  nftDepositGasLimit: bigint
+}
+
+interface SettingSpec {
+  default?: string
+  description: string
+  /** The `test e2e` flag overriding the setting. */
+  flag: string
+  /** The key in the [test] section of config.toml. */
+  key: keyof TestConfig
+  unit: 'ether' | 'gas'
+}
+
+/** Where each setting can be set, and its default. Flags take precedence over config.toml. */
+export const E2E_SETTINGS: Record<keyof E2ESettings, SettingSpec> = {
+  enforcedTxGasLimit: {
+    default: '100000',
+    description: 'L2 gas limit of the enforced transaction',
+    flag: 'enforced-tx-gas-limit',
+    key: 'ENFORCED_TX_GAS_LIMIT',
+    unit: 'gas',
+  },
+  erc20DepositGasLimit: {
+    default: '450000',
+    description: 'L2 gas limit of ERC20 deposits',
+    flag: 'erc20-deposit-gas-limit',
+    key: 'ERC20_DEPOSIT_GAS_LIMIT',
+    unit: 'gas',
+  },
+  ethDepositAmount: {
+    default: '0.01',
+    description: 'ETH deposited from L1 to L2',
+    flag: 'eth-deposit-amount',
+    key: 'ETH_DEPOSIT_AMOUNT',
+    unit: 'ether',
+  },
+  ethDepositGasLimit: {
+    default: '170000',
+    description: 'L2 gas limit of ETH deposits',
+    flag: 'eth-deposit-gas-limit',
+    key: 'ETH_DEPOSIT_GAS_LIMIT',
+    unit: 'gas',
+  },
+  ethWithdrawAmount: {
+    default: '0.005',
+    description: 'ETH withdrawn from L2 to L1',
+    flag: 'eth-withdraw-amount',
+    key: 'ETH_WITHDRAW_AMOUNT',
+    unit: 'ether',
+  },
+  fundingAmount: {
+    default: '0.02',
+    description: 'ETH sent to the test wallet on L1',
+    flag: 'funding-amount',
+    key: 'FUNDING_AMOUNT',
+    unit: 'ether',
+  },
+  gasTokenDepositGasLimit: {
+    default: '300000',
+    description: 'L2 gas limit of alternative gas token deposits',
+    flag: 'gas-token-deposit-gas-limit',
+    key: 'GAS_TOKEN_DEPOSIT_GAS_LIMIT',
+    unit: 'gas',
+  },
+  l2FundingAmount: {
+    default: '0.01',
+    description: 'ETH sent to the test wallet on L2 when funding it directly',
+    flag: 'l2-funding-amount',
+    key: 'L2_FUNDING_AMOUNT',
+    unit: 'ether',
+  },
+  messageFee: {
+    description: 'Fee in ETH paid for each L1 to L2 message, instead of gas limit * L2 base fee',
+    flag: 'message-fee',
+    key: 'MESSAGE_FEE',
+    unit: 'ether',
+  },
+  nftDepositGasLimit: {
+    default: '400000',
+    description: 'L2 gas limit of ERC721 and ERC1155 deposits',
+    flag: 'nft-deposit-gas-limit',
+    key: 'NFT_DEPOSIT_GAS_LIMIT',
+    unit: 'gas',
+  },
+}
+
+export class E2ESettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'E2ESettingsError'
+  }
+}
+
+function parseSetting(source: string, raw: string, unit: SettingSpec['unit']): bigint {
+  let value: bigint
+  try {
+    value = unit === 'ether' ? parseEther(raw) : BigInt(raw)
+  } catch {
+    value = -1n
+  }
+
+  if (value < 0n) {
+    const expected = unit === 'ether' ? 'an amount of ETH, e.g. 0.01' : 'a whole number of gas'
+    throw new E2ESettingsError(`${source} must be ${expected} (got "${raw}")`)
+  }
+
+  return value
+}
+
+/**
+ * Resolves the e2e settings from flags, then the [test] section of config.toml, then the defaults.
+ * @param config - The [test] section of config.toml.
+ * @param flags - Raw flag values, keyed by flag name.
+ * @returns The settings, with amounts converted to wei.
+ * @throws E2ESettingsError if a value is not a valid amount or gas limit.
+ */
+export function resolveE2ESettings(
+  config: TestConfig = {},
+  flags: Record<string, string | undefined> = {},
+): E2ESettings {
+  const settings: Partial<E2ESettings> = {}
+
+  for (const [name, spec] of Object.entries(E2E_SETTINGS) as [keyof E2ESettings, SettingSpec][]) {
+    const fromFlag = flags[spec.flag]
+    const fromConfig = config[spec.key]
+
+    if (fromFlag !== undefined) {
+      settings[name] = parseSetting(`--${spec.flag}`, fromFlag, spec.unit)
+    } else if (fromConfig !== undefined && fromConfig !== '') {
+      settings[name] = parseSetting(`[test] ${spec.key}`, String(fromConfig), spec.unit)
+    } else if (spec.default !== undefined) {
+      settings[name] = parseSetting('default', spec.default, spec.unit)
+    }
+  }
+
+  return settings as E2ESettings
+}
@@ -0,0 +1,89 @@
+import chalk from 'chalk'
+
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏']
+
+function elapsed(since: number): string {
+  const seconds = Math.floor((Date.now() - since) / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+/**
+ * Live status of the steps running in parallel: one line per running step, redrawn below the log output
+ * every second. Log lines are prefixed with the step that wrote them. Without a TTY only the log lines
+ * are written.
+ */
+export class StatusView {
+  private frame = 0
+  private renderedLines = 0
+  private readonly running = new Map<string, {startedAt: number; title: string}>()
+  private suspended = false
+  private timer?: NodeJS.Timeout
+
+  constructor(private readonly stream: NodeJS.WriteStream = process.stdout) {}
+
+  // Removes a finished step from the view.
+  finish(name: string): void {
+    this.running.delete(name)
+    this.render()
+  }
+
+  // Writes a message above the view, prefixed with the step that wrote it.
+  log(message: string, step?: string): void {
+    this.clear()
+    const prefix = step ? chalk.dim(`[${step}] `) : ''
+    for (const line of message.split('\n')) {
+      this.stream.write(`${line ? prefix : ''}${line}\n`)
+    }
+
+    this.render()
+  }
+
+  // Shows the view again after suspend().
+  resume(): void {
+    this.suspended = false
+    this.render()
+  }
+
+  // Adds a running step to the view.
+  start(name: string, title: string): void {
+    this.running.set(name, {startedAt: Date.now(), title})
+    this.timer ??= setInterval(() => this.render(), 1000)
+    this.render()
+  }
+
+  // Clears the view and stops redrawing it.
+  stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+    this.clear()
+  }
+
+  // Hides the view, e.g. while a step prompts the user.
+  suspend(): void {
+    this.clear()
+    this.suspended = true
+  }
+
+  private clear(): void {
+    if (this.renderedLines === 0) return
+    // Move to the first line of the view and erase everything below it
+    this.stream.write(`\u001B[${this.renderedLines}F\u001B[J`)
+    this.renderedLines = 0
+  }
+
+  private render(): void {
+    if (!this.stream.isTTY || this.suspended) return
+
+    this.clear()
+    this.frame = (this.frame + 1) % FRAMES.length
+    for (const [name, {startedAt, title}] of this.running) {
+      const time = elapsed(startedAt)
+      // A wrapped line would throw off the number of lines clear() erases
+      const width = (this.stream.columns ?? 80) - name.length - time.length - 4
+      const shortTitle = title.length > width ? title.slice(0, Math.max(0, width - 1)) + '…' : title
+      this.stream.write(`${chalk.cyan(FRAMES[this.frame])} ${chalk.bold(name)} ${shortTitle} ${chalk.dim(time)}\n`)
+    }
+
+    this.renderedLines = this.running.size
+  }
+}
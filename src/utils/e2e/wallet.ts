@@ -0,0 +1,120 @@
+import {password} from '@inquirer/prompts'
+import {JsonRpcProvider, TransactionResponse, Wallet} from 'ethers'
+
+import {TYPICAL_TRANSACTIONS, l1DataFee, readL1FeeParams} from '../gas-token.js'
+import {E2EResumeState} from './resume.js'
+
+/** Environment variable holding the passphrase of the test wallet keystore, for runs without a terminal. */
+export const WALLET_PASSPHRASE_ENV = 'E2E_WALLET_PASSPHRASE'
+
+export class WalletDecryptionError extends Error {
+  constructor(address: string) {
+    super(`Could not decrypt the test wallet ${address}: wrong passphrase or corrupted keystore`)
+    this.name = 'WalletDecryptionError'
+  }
+}
+
+/**
+ * Gets the passphrase of the test wallet keystore from E2E_WALLET_PASSPHRASE, or asks for it.
+ * @param message - The prompt, naming the resume file the keystore is in.
+ * @returns The passphrase.
+ */
+export async function walletPassphrase(message: string): Promise<string> {
+  const fromEnv = process.env[WALLET_PASSPHRASE_ENV]
+  if (fromEnv) return fromEnv
+
+  return password({
+    mask: '*',
+    message,
+    validate: (value) => value.length > 0 || `Enter a passphrase, or set ${WALLET_PASSPHRASE_ENV}`,
+  })
+}
+
+/**
+ * Encrypts a generated test wallet for the resume file, so its key is never stored in plaintext.
+ * @param wallet - The generated wallet.
+ * @param passphrase - The passphrase protecting the keystore.
+ * @returns The wallet entry of the resume state.
+ */
+export async function encryptTestWallet(
+  wallet: Wallet,
+  passphrase: string,
+): Promise<NonNullable<E2EResumeState['wallet']>> {
+  return {address: wallet.address, keystore: await wallet.encrypt(passphrase)}
+}
+
+/**
+ * Restores the wallet generated by an earlier run, from its keystore or from the plaintext key of a legacy resume
+ * file, which loadResumeState() migrates to the wallet entry.
+ * @param saved - The wallet entry of the resume state.
+ * @param passphrase - Returns the keystore passphrase; only called when the wallet is encrypted.
+ * @returns The wallet, not connected to a provider; undefined when the run did not generate one.
+ * @throws WalletDecryptionError if the passphrase does not decrypt the keystore.
+ */
+export async function restoreTestWallet(
+  saved: E2EResumeState['wallet'],
+  passphrase: () => Promise<string>,
+): Promise<Wallet | undefined> {
+  if (saved?.keystore) {
+    const secret = await passphrase()
+    let decrypted
+    try {
+      decrypted = await Wallet.fromEncryptedJson(saved.keystore, secret)
+    } catch {
+      throw new WalletDecryptionError(saved.address)
+    }
+
+    return new Wallet(decrypted.privateKey)
+  }
+
+  return saved?.generatedPrivateKey ? new Wallet(saved.generatedPrivateKey) : undefined
+}
+
+// Holds back a fifth more than the current L1 data fee, which the gas-oracle may raise before the sweep is included
+async function sweepL1DataFee(wallet: Wallet, l1GasPriceOracle?: string): Promise<bigint> {
+  if (!l1GasPriceOracle) return 0n
+
+  const params = await readL1FeeParams(wallet.provider as JsonRpcProvider, l1GasPriceOracle)
+  const fee = l1DataFee(params, TYPICAL_TRANSACTIONS[0].size)
+  return fee + fee / 5n
+}
+
+/**
+ * Sends a wallet's whole native balance, less the fee of the transfer, to another address.
+ * @param wallet - The wallet, connected to the provider of the chain to sweep.
+ * @param to - The address receiving the funds.
+ * @param l1GasPriceOracle - The L1GasPriceOracle when sweeping on L2, where transactions also pay an L1 data fee.
+ * @returns The transfer, or undefined when the balance does not cover its fee.
+ */
+export async function sweepBalance(
+  wallet: Wallet,
+  to: string,
+  l1GasPriceOracle?: string,
+): Promise<TransactionResponse | undefined> {
+  if (!wallet.provider) throw new Error('sweepBalance needs a wallet connected to a provider')
+
+  const [balance, feeData, dataFee] = await Promise.all([
+    wallet.provider.getBalance(wallet.address),
+    wallet.provider.getFeeData(),
+    sweepL1DataFee(wallet, l1GasPriceOracle),
+  ])
+  const gasLimit = 21_000n
+
+  // Pay at most maxFeePerGas, so the fee can never exceed what is held back for it
+  if (feeData.maxFeePerGas !== null) {
+    const value = balance - gasLimit * feeData.maxFeePerGas - dataFee
+    if (value <= 0n) return undefined
+    return wallet.sendTransaction({
+      gasLimit,
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n,
+      to,
+      value,
+    })
+  }
+
+  const gasPrice = feeData.gasPrice ?? 0n
+  const value = balance - gasLimit * gasPrice - dataFee
+  if (value <= 0n) return undefined
+  return wallet.sendTransaction({gasLimit, gasPrice, to, type: 0, value})
+}
@@ -0,0 +1,312 @@
+import {Contract, formatEther, formatUnits, parseUnits} from 'ethers'
+
+import {ContractsConfig, GasTokenConfig, ScrollSdkConfig, isEnabled} from './config-schema.js'
+import {RpcSource, generateProvider} from './onchain/index.js'
+
+/** The alternative gas token: an ERC20 on L1, and the native token of L2 with 18 decimals. */
+export interface GasToken {
+  /** Address of the token on L1. */
+  address: string
+  /** Decimals of the token on L1. */
+  decimals: number
+  symbol: string
+}
+
+export class GasTokenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GasTokenError'
+  }
+}
+
+/**
+ * Reads the alternative gas token from L1, when the chain uses one.
+ * @param config - config.toml, telling whether ALTERNATIVE_GAS_TOKEN_ENABLED is set.
+ * @param contracts - config-contracts.toml holding L1_GAS_TOKEN_ADDR; [gas-token] L1_GAS_TOKEN is used without it.
+ * @param l1 - A provider or RPC URL on L1, only needed when the chain uses a gas token.
+ * @returns The gas token, or undefined when ETH is the native token of L2.
+ * @throws GasTokenError if the token address is not configured or is not an ERC20 on L1.
+ */
+export async function loadGasToken(
+  config: ScrollSdkConfig,
+  contracts: ContractsConfig,
+  l1?: RpcSource,
+): Promise<GasToken | undefined> {
+  if (!isEnabled(config['gas-token']?.ALTERNATIVE_GAS_TOKEN_ENABLED)) return
+
+  const address = contracts.L1_GAS_TOKEN_ADDR ?? config['gas-token']?.L1_GAS_TOKEN
+  if (!address) {
+    throw new GasTokenError('Alternative gas token is enabled, but L1_GAS_TOKEN_ADDR is not set in config-contracts.toml')
+  }
+
+  if (!l1) throw new GasTokenError(`Reading the gas token ${address} needs an L1 RPC URL`)
+
+  const token = new Contract(
+    address,
+    ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'],
+    generateProvider(l1),
+  )
+  try {
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+    return {address, decimals: Number(decimals), symbol}
+  } catch (error) {
+    throw new GasTokenError(
+      `Could not read the gas token ${address} on L1: ${error instanceof Error ? error.message : error}`,
+    )
+  }
+}
+
+/**
+ * Formats an amount of the native token of L2, e.g. "0.5 ETH" or "0.5 USDC".
+ * @param amount - The amount in wei; the native token has 18 decimals on L2 whatever its decimals on L1.
+ * @param gasToken - The alternative gas token, when the chain uses one.
+ * @returns The amount with its unit.
+ */
+export function formatL2Native(amount: bigint, gasToken?: GasToken): string {
+  return `${formatEther(amount)} ${gasToken?.symbol ?? 'ETH'}`
+}
+
+/**
+ * Formats an amount of the gas token on L1.
+ * @param amount - The amount in the smallest unit of the token on L1.
+ * @param gasToken - The gas token.
+ * @returns The amount with its unit.
+ */
+export function formatL1GasToken(amount: bigint, gasToken: GasToken): string {
+  return `${formatUnits(amount, gasToken.decimals)} ${gasToken.symbol}`
+}
+
+/**
+ * Converts an amount of the native token of L2 to the amount of gas token to deposit on L1, which the gas token
+ * gateway scales to 18 decimals. Rounds up, so that the deposit covers the amount.
+ * @param amount - The amount in wei on L2.
+ * @param gasToken - The gas token.
+ * @returns The amount in the smallest unit of the token on L1.
+ */
+export function toL1GasTokenAmount(amount: bigint, gasToken: GasToken): bigint {
+  const scale = 10n ** BigInt(Math.abs(18 - gasToken.decimals))
+  if (gasToken.decimals >= 18) return amount * scale
+  return (amount + scale - 1n) / scale
+}
+
+/** Address of the L1GasPriceOracle predeploy on L2, used when config-contracts.toml does not name it. */
+export const L1_GAS_PRICE_ORACLE_ADDR = '0x5300000000000000000000000000000000000002'
+
+/** How the gas-oracle gets the price of the gas token in ETH: EXCHANGE_RATE_UPDATE_MODE in [gas-token]. */
+export type ExchangeRateMode = 'BinanceApi' | 'Fixed'
+
+export const EXCHANGE_RATE_MODES: ExchangeRateMode[] = ['BinanceApi', 'Fixed']
+
+/**
+ * Transactions whose fees are simulated: the L2 gas they use, and the size in bytes of their signed RLP encoding,
+ * which is what the L1 data fee is charged on.
+ */
+export const TYPICAL_TRANSACTIONS = [
+  {gas: 21_000n, name: 'Native token transfer', size: 110},
+  {gas: 52_000n, name: 'ERC20 transfer', size: 180},
+  {gas: 150_000n, name: 'DEX swap', size: 420},
+  {gas: 1_200_000n, name: 'Contract deployment (5 kB)', size: 5200},
+] as const
+
+/** The inputs of the L1 data fee, as stored in the L1GasPriceOracle on L2. */
+export interface L1FeeParams {
+  blobScalar: bigint
+  commitScalar: bigint
+  /** L1 base fee, in wei of the native token of L2. */
+  l1BaseFee: bigint
+  /** L1 blob base fee, in wei of the native token of L2. */
+  l1BlobBaseFee: bigint
+}
+
+export interface FeeEstimate {
+  l1DataFee: bigint
+  l2Fee: bigint
+  name: string
+  total: bigint
+}
+
+// The scalars of the L1GasPriceOracle are fixed-point numbers with 9 decimals
+const SCALAR_PRECISION = 1_000_000_000n
+
+// Exchange rates are handled as fixed-point numbers with 18 decimals
+const RATE_PRECISION = 10n ** 18n
+
+// api.binance.com is blocked in some regions and clusters, where requests hang instead of failing
+const BINANCE_TIMEOUT = 10_000
+
+const l1GasPriceOracleInterface = [
+  'function blobScalar() view returns (uint256)',
+  'function commitScalar() view returns (uint256)',
+  'function l1BaseFee() view returns (uint256)',
+  'function l1BlobBaseFee() view returns (uint256)',
+]
+
+/**
+ * Reads the parameters of the L1 data fee from the L1GasPriceOracle on L2, where the gas-oracle keeps the L1 fees
+ * converted to the gas token.
+ * @param l2 - A provider or RPC URL on L2.
+ * @param address - The L1GasPriceOracle address.
+ * @returns The L1 fees and scalars.
+ */
+export async function readL1FeeParams(l2: RpcSource, address = L1_GAS_PRICE_ORACLE_ADDR): Promise<L1FeeParams> {
+  const oracle = new Contract(address, l1GasPriceOracleInterface, generateProvider(l2))
+  const [blobScalar, commitScalar, l1BaseFee, l1BlobBaseFee] = await Promise.all([
+    oracle.blobScalar(),
+    oracle.commitScalar(),
+    oracle.l1BaseFee(),
+    oracle.l1BlobBaseFee(),
+  ])
+  return {blobScalar, commitScalar, l1BaseFee, l1BlobBaseFee}
+}
+
+/**
+ * Reads the current base fee and blob base fee of L1, in ETH.
+ * @param l1 - A provider or RPC URL on L1.
+ * @returns The fees in wei; the blob base fee is its 1 wei minimum on L1s without eth_blobBaseFee.
+ */
+export async function readL1Fees(l1: RpcSource): Promise<{baseFee: bigint; blobBaseFee: bigint}> {
+  const provider = generateProvider(l1)
+  const [block, blobBaseFee] = await Promise.all([
+    provider.getBlock('latest'),
+    provider.send('eth_blobBaseFee', []).then(BigInt, () => 1n),
+  ])
+  return {baseFee: block?.baseFeePerGas ?? 0n, blobBaseFee}
+}
+
+/**
+ * Computes the L1 data fee of a transaction the way the L1GasPriceOracle does since Curie.
+ * @param params - The L1 fees and scalars.
+ * @param size - The size of the signed transaction in bytes.
+ * @returns The fee in wei of the native token of L2.
+ */
+export function l1DataFee(params: L1FeeParams, size: number): bigint {
+  const commitFee = params.commitScalar * params.l1BaseFee
+  const blobFee = params.blobScalar * BigInt(size) * params.l1BlobBaseFee
+  return (commitFee + blobFee) / SCALAR_PRECISION
+}
+
+/**
+ * Parses an exchange rate: the price of one gas token in ETH, e.g. "0.0004".
+ * @param rate - The rate as a decimal string.
+ * @returns The rate as a fixed-point number with 18 decimals.
+ * @throws GasTokenError if the rate is not a positive number.
+ */
+export function parseExchangeRate(rate: string): bigint {
+  let parsed: bigint
+  try {
+    parsed = parseUnits(rate.trim(), 18)
+  } catch {
+    throw new GasTokenError(`Exchange rate "${rate}" is not a number`)
+  }
+
+  if (parsed <= 0n) throw new GasTokenError(`Exchange rate "${rate}" must be positive`)
+  return parsed
+}
+
+/**
+ * Formats an exchange rate parsed by parseExchangeRate.
+ * @param rate - The rate with 18 decimals.
+ * @returns The rate as a decimal string.
+ */
+export function formatExchangeRate(rate: bigint): string {
+  return formatUnits(rate, 18)
+}
+
+/**
+ * Converts an amount of ETH to the gas token at an exchange rate, rounding up like the gas-oracle does.
+ * @param amount - The amount in wei of ETH.
+ * @param rate - The price of one gas token in ETH, with 18 decimals.
+ * @returns The amount in wei of the native token of L2.
+ */
+export function ethToGasToken(amount: bigint, rate: bigint): bigint {
+  return (amount * RATE_PRECISION + rate - 1n) / rate
+}
+
+/**
+ * Computes the L1 fees the gas-oracle would post to L2 at an exchange rate.
+ * @param l1Fees - The L1 base fee and blob base fee, in ETH.
+ * @param scalars - The commit and blob scalars of the L1GasPriceOracle.
+ * @param rate - The price of one gas token in ETH, with 18 decimals.
+ * @returns The parameters of the L1 data fee in the gas token.
+ */
+export function l1FeeParamsAtRate(
+  l1Fees: {baseFee: bigint; blobBaseFee: bigint},
+  scalars: Pick<L1FeeParams, 'blobScalar' | 'commitScalar'>,
+  rate: bigint,
+): L1FeeParams {
+  return {
+    ...scalars,
+    l1BaseFee: ethToGasToken(l1Fees.baseFee, rate),
+    l1BlobBaseFee: ethToGasToken(l1Fees.blobBaseFee, rate),
+  }
+}
+
+/**
+ * Estimates the fees of TYPICAL_TRANSACTIONS: L2 execution plus the L1 data fee.
+ * @param params - The parameters of the L1 data fee.
+ * @param l2GasPrice - The L2 gas price, in wei of the native token of L2.
+ * @returns One estimate per transaction, in wei of the native token of L2.
+ */
+export function simulateFees(params: L1FeeParams, l2GasPrice: bigint): FeeEstimate[] {
+  return TYPICAL_TRANSACTIONS.map(({gas, name, size}) => {
+    const l2Fee = gas * l2GasPrice
+    const dataFee = l1DataFee(params, size)
+    return {l1DataFee: dataFee, l2Fee, name, total: l2Fee + dataFee}
+  })
+}
+
+/**
+ * Fetches the price of a Binance pair, the way the gas-oracle does in BinanceApi mode.
+ * @param pair - The symbol pair, e.g. "UNIETH", pricing the gas token in ETH.
+ * @returns The price as a decimal string.
+ * @throws GasTokenError if Binance does not list the pair, cannot be reached or does not answer in time.
+ */
+export async function fetchBinancePrice(pair: string): Promise<string> {
+  const url = `https://api.binance.com/api/v3/ticker/price?symbol=${encodeURIComponent(pair)}`
+  let response: Response
+  let body: {msg?: string; price?: string}
+  try {
+    response = await fetch(url, {signal: AbortSignal.timeout(BINANCE_TIMEOUT)})
+    body = await response.json().catch((error) => {
+      if (error instanceof Error && error.name === 'TimeoutError') throw error
+      return {}
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new GasTokenError(`Binance did not answer within ${BINANCE_TIMEOUT / 1000}s; is api.binance.com reachable?`)
+    }
+
+    throw new GasTokenError(`Could not reach Binance: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!response.ok || !body.price) {
+    throw new GasTokenError(`Binance has no price for ${pair}${body.msg ? `: ${body.msg}` : ''}`)
+  }
+
+  return body.price
+}
+
+/**
+ * Resolves the exchange rate the gas-oracle applies with the [gas-token] settings of config.toml, fetching it from
+ * Binance in BinanceApi mode.
+ * @param settings - The [gas-token] section of config.toml.
+ * @returns The price of one gas token in ETH with 18 decimals; 1 when the gas-oracle does not incorporate the rate,
+ * in which case it posts the L1 fees unconverted.
+ * @throws GasTokenError if the mode is unknown or the rate of the mode is not set.
+ */
+export async function resolveExchangeRate(settings: GasTokenConfig = {}): Promise<bigint> {
+  if (!isEnabled(settings.GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED)) return RATE_PRECISION
+
+  const mode = settings.EXCHANGE_RATE_UPDATE_MODE
+  if (mode === 'BinanceApi') {
+    if (!settings.TOKEN_SYMBOL_PAIR) throw new GasTokenError('TOKEN_SYMBOL_PAIR is not set for the BinanceApi mode')
+    return parseExchangeRate(await fetchBinancePrice(settings.TOKEN_SYMBOL_PAIR))
+  }
+
+  if (mode !== 'Fixed') {
+    throw new GasTokenError(`EXCHANGE_RATE_UPDATE_MODE must be one of ${EXCHANGE_RATE_MODES.join(', ')} (got ${mode})`)
+  }
+
+  if (!settings.FIXED_EXCHANGE_RATE) throw new GasTokenError('FIXED_EXCHANGE_RATE is not set for the Fixed mode')
+  return parseExchangeRate(settings.FIXED_EXCHANGE_RATE)
+}
@@ -1,6 +1,8 @@
 import { JsonRpcProvider, Wallet, Contract, ethers } from 'ethers';
 import terminalLink from 'terminal-link';
 
+import { PollOptions, poll } from './poll.js';
+
 type RpcSource = JsonRpcProvider | Wallet | string;
 
 export class OnchainHelpers {
@@ -70,22 +72,18 @@ export class OnchainHelpers {
     return await gasOracle.l2BaseFee();
   }
 
-  async awaitTx(txHash: string, timeout: number = 20000): Promise<ethers.TransactionReceipt | null> {
-    let receipt = null;
-
-    while (!receipt) {
+  async awaitTx(
+    txHash: string,
+    timeout: number = 20000,
+    options: Partial<PollOptions> = {}
+  ): Promise<ethers.TransactionReceipt> {
+    return poll(async () => {
       try {
-        receipt = await this.provider.getTransactionReceipt(txHash);
-      } catch (error) {
+        return (await this.provider.getTransactionReceipt(txHash)) ?? undefined;
+      } catch {
         console.log(`Transaction not found yet. Retrying in ${timeout/1000} seconds...`);
       }
-
-      if (!receipt) {
-        await new Promise(resolve => setTimeout(resolve, timeout));
-      }
-    }
-
-    return receipt;
+    }, { interval: timeout, timeout: 600_000, what: `transaction ${txHash}`, ...options });
   }
 
   async constructBlockExplorerUrl(value: string, type: LookupType, params: BlockExplorerParams = {}): Promise<string> {
@@ -1,33 +1,42 @@
 import { ethers } from 'ethers';
+
+import { PollOptions, poll } from '../poll.js';
 import { RpcSource, scrollERC20ABI, generateProvider } from './index.js';
 
+/**
+ * Waits for a wallet to hold a non-zero balance of an ERC20 token.
+ *
+ * @param walletAddress - The wallet to check.
+ * @param erc20Address - The address of the token.
+ * @param rpc - The RPC source to use for querying the blockchain.
+ * @param options - Polling options. Defaults to checking every 15 seconds for up to 75 seconds.
+ * @returns A promise that resolves to the balance, as a decimal string.
+ * @throws PollTimeoutError if the balance is still zero at the timeout, or PollAbortedError if the signal aborts.
+ */
 export async function awaitERC20Balance(
 	walletAddress: string,
 	erc20Address: string,
-	rpc: RpcSource
+	rpc: RpcSource,
+	options: Partial<PollOptions> = {}
 ): Promise<string> {
 	try {
 		const provider = generateProvider(rpc)
 		const erc20Contract = new ethers.Contract(erc20Address, scrollERC20ABI, provider);
 
-		let balance = BigInt(0);
-		let attempts = 0;
-		const maxAttempts = 5;
-		const delay = 15000; // 15 seconds
-
-		while (balance === BigInt(0) && attempts < maxAttempts) {
-			balance = await erc20Contract.balanceOf(walletAddress);
-			if (balance > BigInt(0)) {
-				return balance.toString();
-			}
-			attempts++;
-			console.log(`Attempt ${attempts}: Waiting for token balance...`);
-			await new Promise(resolve => setTimeout(resolve, delay));
-		}
+		const balance: bigint = await poll(async () => {
+			const current: bigint = await erc20Contract.balanceOf(walletAddress);
+			return current > BigInt(0) ? current : undefined;
+		}, {
+			interval: 15_000,
+			onProgress: ({ attempt }) => console.log(`Attempt ${attempt}: Waiting for token balance...`),
+			timeout: 75_000,
+			what: `a balance of ${erc20Address}`,
+			...options,
+		});
 
 		return balance.toString();
 	} catch (error) {
 		console.error('Error in getScrollERC20Balance:', error);
 		throw error;
 	}
-}
\ No newline at end of file
+}
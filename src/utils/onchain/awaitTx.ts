@@ -1,4 +1,6 @@
 import { TransactionReceipt } from 'ethers';
+
+import { PollOptions, poll } from '../poll.js';
 import { RpcSource } from './index.js';
 import { generateProvider } from './generateProvider.js';
 
@@ -7,25 +9,22 @@ import { generateProvider } from './generateProvider.js';
  * 
  * @param txHash - The hash of the transaction to wait for.
  * @param rpc - The RPC source to use for querying the blockchain.
- * @param timeout - The time to wait between checks, in milliseconds. Defaults to 20000ms.
- * @returns A promise that resolves to the TransactionReceipt, or null if the transaction is not found.
+ * @param options - Polling options. Defaults to checking every 20 seconds for up to 10 minutes.
+ * @returns A promise that resolves to the TransactionReceipt.
+ * @throws PollTimeoutError if the transaction is not mined in time, or PollAbortedError if the signal aborts.
  */
-export async function awaitTx(txHash: string, rpc: RpcSource, timeout: number = 20000): Promise<TransactionReceipt | null> {
+export async function awaitTx(
+  txHash: string,
+  rpc: RpcSource,
+  options: Partial<PollOptions> = {}
+): Promise<TransactionReceipt> {
   const provider = generateProvider(rpc);
 
-  let receipt = null;
-
-  while (!receipt) {
+  return poll(async () => {
     try {
-      receipt = await provider.getTransactionReceipt(txHash);
-    } catch (error) {
-      console.log(`Transaction not found yet. Retrying in ${timeout / 1000} seconds...`);
+      return (await provider.getTransactionReceipt(txHash)) ?? undefined;
+    } catch {
+      console.log(`Transaction not found yet. Retrying...`);
     }
-
-    if (!receipt) {
-      await new Promise(resolve => setTimeout(resolve, timeout));
-    }
-  }
-
-  return receipt;
-}
\ No newline at end of file
+  }, { interval: 20_000, timeout: 600_000, what: `transaction ${txHash}`, ...options });
+}
@@ -216,4 +216,363 @@ export const scrollERC20ABI = [
 		"stateMutability": "nonpayable",
 		"type": "function"
 	}
-];
\ No newline at end of file
+];
+/**
+ * ABI for the L1 ERC721 Gateway contract: depositERC721 and the L1 to L2 token mapping.
+ */
+export const l1ERC721GatewayABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_token",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_gasLimit",
+				"type": "uint256"
+			}
+		],
+		"name": "depositERC721",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "tokenMapping",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_l1Token",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "_l2Token",
+				"type": "address"
+			}
+		],
+		"name": "updateTokenMapping",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	}
+];
+
+/**
+ * ABI for the L2 ERC721 Gateway contract: withdrawERC721 and the L2 to L1 token mapping.
+ */
+export const l2ERC721GatewayABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_token",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_gasLimit",
+				"type": "uint256"
+			}
+		],
+		"name": "withdrawERC721",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "tokenMapping",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_l2Token",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "_l1Token",
+				"type": "address"
+			}
+		],
+		"name": "updateTokenMapping",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	}
+];
+
+/**
+ * ABI for the L1 ERC1155 Gateway contract: depositERC1155 and the L1 to L2 token mapping.
+ */
+export const l1ERC1155GatewayABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_token",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_amount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_gasLimit",
+				"type": "uint256"
+			}
+		],
+		"name": "depositERC1155",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "tokenMapping",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_l1Token",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "_l2Token",
+				"type": "address"
+			}
+		],
+		"name": "updateTokenMapping",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	}
+];
+
+/**
+ * ABI for the L2 ERC1155 Gateway contract: withdrawERC1155 and the L2 to L1 token mapping.
+ */
+export const l2ERC1155GatewayABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_token",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_amount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_gasLimit",
+				"type": "uint256"
+			}
+		],
+		"name": "withdrawERC1155",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "tokenMapping",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_l2Token",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "_l1Token",
+				"type": "address"
+			}
+		],
+		"name": "updateTokenMapping",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	}
+];
+
+/**
+ * ABI for the L1 Enforced Tx Gateway contract: sendTransaction with an EIP-712 signature from the L2 sender.
+ */
+export const l1EnforcedTxGatewayABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "nonces",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "paused",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_sender",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "_target",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_value",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_gasLimit",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "_data",
+				"type": "bytes"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_deadline",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "_signature",
+				"type": "bytes"
+			},
+			{
+				"internalType": "address",
+				"name": "_refundAddress",
+				"type": "address"
+			}
+		],
+		"name": "sendTransaction",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	}
+];
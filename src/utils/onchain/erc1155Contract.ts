@@ -0,0 +1,549 @@
+/**
+ * Test ERC1155 used by `test e2e`, compiled from OpenZeppelin 5.0 with solc 0.8.26.
+ * The constructor takes a gateway: deployed with the zero address it mints 100 of token 1 to the deployer (the
+ * L1 token); deployed with the L2ERC1155Gateway it starts empty and only the gateway can mint and burn (the L2 token).
+ */
+export const erc1155Bytecode = "60a060405234801561001057600080fd5b50604051611eac380380611eac83398101604081905261002f91610582565b60408051602081019091526000815261004781610084565b506001600160a01b038116608081905261007e5761007e33600160646040518060200160405280600081525061009460201b60201c565b506108b0565b6002610090828261064e565b5050565b6001600160a01b0384166100c357604051632bfa23e760e11b8152600060048201526024015b60405180910390fd5b604080516001808252602082018690528183019081526060820185905260808201909252906100f66000878484876100fe565b505050505050565b61010a85858585610158565b6001600160a01b038416156101515782513390600103610143576020848101519084015161013c83898985858961036c565b50506100f6565b6100f6818787878787610499565b5050505050565b80518251146101875781518151604051635b05999160e01b8152600481019290925260248201526044016100ba565b3360005b835181101561028d576020818102858101820151908501909101516001600160a01b0388161561023e576000828152602081815260408083206001600160a01b038c16845290915290205481811015610217576040516303dee4c560e01b81526001600160a01b038a1660048201526024810182905260448101839052606481018490526084016100ba565b6000838152602081815260408083206001600160a01b038d16845290915290209082900390555b6001600160a01b03871615610283576000828152602081815260408083206001600160a01b038b1684529091528120805483929061027d90849061070c565b90915550505b505060010161018b565b50825160010361030e5760208301516000906020840151909150856001600160a01b0316876001600160a01b0316846001600160a01b03167fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f6285856040516102ff929190918252602082015260400190565b60405180910390a45050610151565b836001600160a01b0316856001600160a01b0316826001600160a01b03167f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb868660405161035d92919061076f565b60405180910390a45050505050565b6001600160a01b0384163b156100f65760405163f23a6e6160e01b81526001600160a01b0385169063f23a6e61906103b090899089908890889088906004016107e3565b6020604051808303816000875af19250505080156103eb575060408051601f3d908101601f191682019092526103e891810190610828565b60015b610454573d808015610419576040519150601f19603f3d011682016040523d82523d6000602084013e61041e565b606091505b50805160000361044c57604051632bfa23e760e11b81526001600160a01b03861660048201526024016100ba565b805181602001fd5b6001600160e01b0319811663f23a6e6160e01b1461049057604051632bfa23e760e11b81526001600160a01b03861660048201526024016100ba565b50505050505050565b6001600160a01b0384163b156100f65760405163bc197c8160e01b81526001600160a01b0385169063bc197c81906104dd9089908990889088908890600401610852565b6020604051808303816000875af1925050508015610518575060408051601f3d908101601f1916820190925261051591810190610828565b60015b610546573d808015610419576040519150601f19603f3d011682016040523d82523d6000602084013e61041e565b6001600160e01b0319811663bc197c8160e01b1461049057604051632bfa23e760e11b81526001600160a01b03861660048201526024016100ba565b60006020828403121561059457600080fd5b81516001600160a01b03811681146105ab57600080fd5b9392505050565b634e487b7160e01b600052604160045260246000fd5b600181811c908216806105dc57607f821691505b6020821081036105fc57634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561064957806000526020600020601f840160051c810160208510156106295750805b601f840160051c820191505b818110156101515760008155600101610635565b505050565b81516001600160401b03811115610667576106676105b2565b61067b8161067584546105c8565b84610602565b6020601f8211600181146106af57600083156106975750848201515b600019600385901b1c1916600184901b178455610151565b600084815260208120601f198516915b828110156106df57878501518255602094850194600190920191016106bf565b50848210156106fd5786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561072d57634e487b7160e01b600052601160045260246000fd5b92915050565b600081518084526020840193506020830160005b82811015610765578151865260209586019590910190600101610747565b5093949350505050565b6040815260006107826040830185610733565b82810360208401526107948185610733565b95945050505050565b6000815180845260005b818110156107c3576020818501810151868301820152016107a7565b506000602082860101526020601f19601f83011685010191505092915050565b6001600160a01b03868116825285166020820152604081018490526060810183905260a06080820181905260009061081d9083018461079d565b979650505050505050565b60006020828403121561083a57600080fd5b81516001600160e01b0319811681146105ab57600080fd5b6001600160a01b0386811682528516602082015260a06040820181905260009061087e90830186610733565b82810360608401526108908186610733565b905082810360808401526108a4818561079d565b98975050505050505050565b6080516115c56108e76000396000818161014101528181610484015281816104ed015281816105ce015261062601526115c56000f3fe608060405234801561001057600080fd5b50600436106100ce5760003560e01c8063731133e91161008c578063e985e9c511610066578063e985e9c5146101e9578063f242432a146101fc578063f5298aca1461020f578063f6eb127a1461022257600080fd5b8063731133e9146101b0578063a22cb465146101c3578063b48ab8b6146101d657600080fd5b8062fdd58e146100d357806301ffc9a7146100f95780630e89341c1461011c578063116191b61461013c5780632eb2c2d61461017b5780634e1273f414610190575b600080fd5b6100e66100e1366004610dc8565b610235565b6040519081526020015b60405180910390f35b61010c610107366004610e0b565b61025d565b60405190151581526020016100f0565b61012f61012a366004610e2f565b6102ad565b6040516100f09190610e8e565b6101637f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100f0565b61018e610189366004610fe6565b610341565b005b6101a361019e366004611099565b6103ad565b6040516100f0919061119c565b61018e6101be3660046111af565b610479565b61018e6101d136600461120f565b6104d3565b61018e6101e436600461124b565b6104e2565b61010c6101f73660046112d5565b610536565b61018e61020a366004611308565b610564565b61018e61021d366004611360565b6105c3565b61018e610230366004611393565b61061b565b6000818152602081815260408083206001600160a01b03861684529091529020545b92915050565b60006001600160e01b03198216636cdb3d1360e11b148061028e57506001600160e01b031982166303a24d0760e21b145b8061025757506301ffc9a760e01b6001600160e01b0319831614610257565b6060600280546102bc9061140a565b80601f01602080910402602001604051908101604052809291908181526020018280546102e89061140a565b80156103355780601f1061030a57610100808354040283529160200191610335565b820191906000526020600020905b81548152906001019060200180831161031857829003601f168201915b50505050509050919050565b336001600160a01b038616811480159061036257506103608682610536565b155b156103985760405163711bec9160e11b81526001600160a01b038083166004830152871660248201526044015b60405180910390fd5b6103a5868686868661066e565b505050505050565b606081518351146103de5781518351604051635b05999160e01b81526004810192909252602482015260440161038f565b600083516001600160401b038111156103f9576103f9610ea1565b604051908082528060200260200182016040528015610422578160200160208202803683370190505b50905060005b84518110156104715760208082028601015161044c90602080840287010151610235565b82828151811061045e5761045e611444565b6020908102919091010152600101610428565b509392505050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146104c15760405162461bcd60e51b815260040161038f9061145a565b6104cd848484846106d5565b50505050565b6104de338383610732565b5050565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461052a5760405162461bcd60e51b815260040161038f9061145a565b6104cd848484846107c8565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205460ff1690565b336001600160a01b038616811480159061058557506105838682610536565b155b156105b65760405163711bec9160e11b81526001600160a01b0380831660048301528716602482015260440161038f565b6103a58686868686610800565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461060b5760405162461bcd60e51b815260040161038f9061145a565b61061683838361088e565b505050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146106635760405162461bcd60e51b815260040161038f9061145a565b6106168383836108f6565b6001600160a01b03841661069857604051632bfa23e760e11b81526000600482015260240161038f565b6001600160a01b0385166106c157604051626a0d4560e21b81526000600482015260240161038f565b6106ce8585858585610938565b5050505050565b6001600160a01b0384166106ff57604051632bfa23e760e11b81526000600482015260240161038f565b604080516001808252602082018690528183019081526060820185905260808201909252906103a5600087848487610938565b6001600160a01b03821661075b5760405162ced3e160e81b81526000600482015260240161038f565b6001600160a01b03838116600081815260016020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a3505050565b6001600160a01b0384166107f257604051632bfa23e760e11b81526000600482015260240161038f565b6104cd600085858585610938565b6001600160a01b03841661082a57604051632bfa23e760e11b81526000600482015260240161038f565b6001600160a01b03851661085357604051626a0d4560e21b81526000600482015260240161038f565b604080516001808252602082018690528183019081526060820185905260808201909252906108858787848487610938565b50505050505050565b6001600160a01b0383166108b757604051626a0d4560e21b81526000600482015260240161038f565b604080516001808252602082018590528183019081526060820184905260a082019092526000608082018181529192916106ce91879185908590610938565b6001600160a01b03831661091f57604051626a0d4560e21b81526000600482015260240161038f565b6106168360008484604051806020016040528060008152505b6109448585858561098b565b6001600160a01b038416156106ce578251339060010361097d5760208481015190840151610976838989858589610b9f565b50506103a5565b6103a5818787878787610cc3565b80518251146109ba5781518151604051635b05999160e01b81526004810192909252602482015260440161038f565b3360005b8351811015610ac0576020818102858101820151908501909101516001600160a01b03881615610a71576000828152602081815260408083206001600160a01b038c16845290915290205481811015610a4a576040516303dee4c560e01b81526001600160a01b038a16600482015260248101829052604481018390526064810184905260840161038f565b6000838152602081815260408083206001600160a01b038d16845290915290209082900390555b6001600160a01b03871615610ab6576000828152602081815260408083206001600160a01b038b16845290915281208054839290610ab0908490611480565b90915550505b50506001016109be565b508251600103610b415760208301516000906020840151909150856001600160a01b0316876001600160a01b0316846001600160a01b03167fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f628585604051610b32929190918252602082015260400190565b60405180910390a450506106ce565b836001600160a01b0316856001600160a01b0316826001600160a01b03167f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb8686604051610b909291906114a1565b60405180910390a45050505050565b6001600160a01b0384163b156103a55760405163f23a6e6160e01b81526001600160a01b0385169063f23a6e6190610be390899089908890889088906004016114cf565b6020604051808303816000875af1925050508015610c1e575060408051601f3d908101601f19168201909252610c1b91810190611514565b60015b610c87573d808015610c4c576040519150601f19603f3d011682016040523d82523d6000602084013e610c51565b606091505b508051600003610c7f57604051632bfa23e760e11b81526001600160a01b038616600482015260240161038f565b805181602001fd5b6001600160e01b0319811663f23a6e6160e01b1461088557604051632bfa23e760e11b81526001600160a01b038616600482015260240161038f565b6001600160a01b0384163b156103a55760405163bc197c8160e01b81526001600160a01b0385169063bc197c8190610d079089908990889088908890600401611531565b6020604051808303816000875af1925050508015610d42575060408051601f3d908101601f19168201909252610d3f91810190611514565b60015b610d70573d808015610c4c576040519150601f19603f3d011682016040523d82523d6000602084013e610c51565b6001600160e01b0319811663bc197c8160e01b1461088557604051632bfa23e760e11b81526001600160a01b038616600482015260240161038f565b80356001600160a01b0381168114610dc357600080fd5b919050565b60008060408385031215610ddb57600080fd5b610de483610dac565b946020939093013593505050565b6001600160e01b031981168114610e0857600080fd5b50565b600060208284031215610e1d57600080fd5b8135610e2881610df2565b9392505050565b600060208284031215610e4157600080fd5b5035919050565b6000815180845260005b81811015610e6e57602081850181015186830182015201610e52565b506000602082860101526020601f19601f83011685010191505092915050565b602081526000610e286020830184610e48565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715610edf57610edf610ea1565b604052919050565b60006001600160401b03821115610f0057610f00610ea1565b5060051b60200190565b600082601f830112610f1b57600080fd5b8135610f2e610f2982610ee7565b610eb7565b8082825260208201915060208360051b860101925085831115610f5057600080fd5b602085015b83811015610f6d578035835260209283019201610f55565b5095945050505050565b600082601f830112610f8857600080fd5b81356001600160401b03811115610fa157610fa1610ea1565b610fb4601f8201601f1916602001610eb7565b818152846020838601011115610fc957600080fd5b816020850160208301376000918101602001919091529392505050565b600080600080600060a08688031215610ffe57600080fd5b61100786610dac565b945061101560208701610dac565b935060408601356001600160401b0381111561103057600080fd5b61103c88828901610f0a565b93505060608601356001600160401b0381111561105857600080fd5b61106488828901610f0a565b92505060808601356001600160401b0381111561108057600080fd5b61108c88828901610f77565b9150509295509295909350565b600080604083850312156110ac57600080fd5b82356001600160401b038111156110c257600080fd5b8301601f810185136110d357600080fd5b80356110e1610f2982610ee7565b8082825260208201915060208360051b85010192508783111561110357600080fd5b6020840193505b8284101561112c5761111b84610dac565b82526020938401939091019061110a565b945050505060208301356001600160401b0381111561114a57600080fd5b61115685828601610f0a565b9150509250929050565b600081518084526020840193506020830160005b82811015611192578151865260209586019590910190600101611174565b5093949350505050565b602081526000610e286020830184611160565b600080600080608085870312156111c557600080fd5b6111ce85610dac565b9350602085013592506040850135915060608501356001600160401b038111156111f757600080fd5b61120387828801610f77565b91505092959194509250565b6000806040838503121561122257600080fd5b61122b83610dac565b91506020830135801515811461124057600080fd5b809150509250929050565b6000806000806080858703121561126157600080fd5b61126a85610dac565b935060208501356001600160401b0381111561128557600080fd5b61129187828801610f0a565b93505060408501356001600160401b038111156112ad57600080fd5b6112b987828801610f0a565b92505060608501356001600160401b038111156111f757600080fd5b600080604083850312156112e857600080fd5b6112f183610dac565b91506112ff60208401610dac565b90509250929050565b600080600080600060a0868803121561132057600080fd5b61132986610dac565b945061133760208701610dac565b9350604086013592506060860135915060808601356001600160401b0381111561108057600080fd5b60008060006060848603121561137557600080fd5b61137e84610dac565b95602085013595506040909401359392505050565b6000806000606084860312156113a857600080fd5b6113b184610dac565b925060208401356001600160401b038111156113cc57600080fd5b6113d886828701610f0a565b92505060408401356001600160401b038111156113f457600080fd5b61140086828701610f0a565b9150509250925092565b600181811c9082168061141e57607f821691505b60208210810361143e57634e487b7160e01b600052602260045260246000fd5b50919050565b634e487b7160e01b600052603260045260246000fd5b6020808252600c908201526b6f6e6c79206761746577617960a01b604082015260600190565b8082018082111561025757634e487b7160e01b600052601160045260246000fd5b6040815260006114b46040830185611160565b82810360208401526114c68185611160565b95945050505050565b6001600160a01b03868116825285166020820152604081018490526060810183905260a06080820181905260009061150990830184610e48565b979650505050505050565b60006020828403121561152657600080fd5b8151610e2881610df2565b6001600160a01b0386811682528516602082015260a06040820181905260009061155d90830186611160565b828103606084015261156f8186611160565b905082810360808401526115838185610e48565b9897505050505050505056fea2646970667358221220a405d51b45e9c02922530c70579c9720679ff595183109ecb49e53b1c3495b4d64736f6c634300081a0033"
+
+export const erc1155ABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_gateway",
+				"type": "address"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "constructor"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "balance",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "needed",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "ERC1155InsufficientBalance",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "approver",
+				"type": "address"
+			}
+		],
+		"name": "ERC1155InvalidApprover",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "idsLength",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "valuesLength",
+				"type": "uint256"
+			}
+		],
+		"name": "ERC1155InvalidArrayLength",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			}
+		],
+		"name": "ERC1155InvalidOperator",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			}
+		],
+		"name": "ERC1155InvalidReceiver",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "ERC1155InvalidSender",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			}
+		],
+		"name": "ERC1155MissingApprovalForAll",
+		"type": "error"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "ApprovalForAll",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256[]",
+				"name": "values",
+				"type": "uint256[]"
+			}
+		],
+		"name": "TransferBatch",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "value",
+				"type": "uint256"
+			}
+		],
+		"name": "TransferSingle",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": false,
+				"internalType": "string",
+				"name": "value",
+				"type": "string"
+			},
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			}
+		],
+		"name": "URI",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			}
+		],
+		"name": "balanceOf",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address[]",
+				"name": "accounts",
+				"type": "address[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			}
+		],
+		"name": "balanceOfBatch",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_from",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "_tokenIds",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "_amounts",
+				"type": "uint256[]"
+			}
+		],
+		"name": "batchBurn",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "_tokenIds",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "_amounts",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "bytes",
+				"name": "_data",
+				"type": "bytes"
+			}
+		],
+		"name": "batchMint",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_from",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_amount",
+				"type": "uint256"
+			}
+		],
+		"name": "burn",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "gateway",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			}
+		],
+		"name": "isApprovedForAll",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_amount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "_data",
+				"type": "bytes"
+			}
+		],
+		"name": "mint",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "values",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "bytes",
+				"name": "data",
+				"type": "bytes"
+			}
+		],
+		"name": "safeBatchTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "value",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "data",
+				"type": "bytes"
+			}
+		],
+		"name": "safeTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "setApprovalForAll",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes4",
+				"name": "interfaceId",
+				"type": "bytes4"
+			}
+		],
+		"name": "supportsInterface",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"name": "uri",
+		"outputs": [
+			{
+				"internalType": "string",
+				"name": "",
+				"type": "string"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	}
+]
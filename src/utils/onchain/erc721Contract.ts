@@ -0,0 +1,497 @@
+/**
+ * Test ERC721 ("Test NFT", TNFT) used by `test e2e`, compiled from OpenZeppelin 5.0 with solc 0.8.26.
+ * The constructor takes a gateway: deployed with the zero address it mints token 1 to the deployer (the L1
+ * token); deployed with the L2ERC721Gateway it starts empty and only the gateway can mint and burn (the L2 token).
+ */
+export const erc721Bytecode = "60a060405234801561001057600080fd5b506040516116fe3803806116fe83398101604081905261002f91610464565b6040518060400160405280600881526020016715195cdd0813919560c21b815250604051806040016040528060048152602001631513919560e21b815250816000908161007c9190610532565b5060016100898282610532565b5050506001600160a01b03811660808190526100aa576100aa3360016100b0565b506105f0565b6001600160a01b0382166100df57604051633250574960e11b8152600060048201526024015b60405180910390fd5b60006100ec83838361011e565b90506001600160a01b03811615610119576040516339e3563760e11b8152600060048201526024016100d6565b505050565b6000828152600260205260408120546001600160a01b039081169083161561014b5761014b818486610216565b6001600160a01b0381161561018857610167600085818061027a565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b038516156101b7576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b61022183838361039f565b610119576001600160a01b03831661024f57604051637e27328960e01b8152600481018290526024016100d6565b60405163177e802f60e01b81526001600160a01b0383166004820152602481018290526044016100d6565b808061028e57506001600160a01b03821615155b1561036f57600061029e84610425565b90506001600160a01b038316158015906102ca5750826001600160a01b0316816001600160a01b031614155b80156102fc57506001600160a01b0380821660009081526005602090815260408083209387168352929052205460ff16155b156103255760405163a9fbf51f60e01b81526001600160a01b03841660048201526024016100d6565b811561036d5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b60006001600160a01b0383161580159061041d5750826001600160a01b0316846001600160a01b031614806103f957506001600160a01b0380851660009081526005602090815260408083209387168352929052205460ff165b8061041d57506000828152600460205260409020546001600160a01b038481169116145b949350505050565b6000818152600260205260408120546001600160a01b03168061045e57604051637e27328960e01b8152600481018490526024016100d6565b92915050565b60006020828403121561047657600080fd5b81516001600160a01b038116811461048d57600080fd5b9392505050565b634e487b7160e01b600052604160045260246000fd5b600181811c908216806104be57607f821691505b6020821081036104de57634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561011957806000526020600020601f840160051c8101602085101561050b5750805b601f840160051c820191505b8181101561052b5760008155600101610517565b5050505050565b81516001600160401b0381111561054b5761054b610494565b61055f8161055984546104aa565b846104e4565b6020601f821160018114610593576000831561057b5750848201515b600019600385901b1c1916600184901b17845561052b565b600084815260208120601f198516915b828110156105c357878501518255602094850194600190920191016105a3565b50848210156105e15786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b6080516110e5610619600039600081816101870152818161043401526104c501526110e56000f3fe608060405234801561001057600080fd5b50600436106101005760003560e01c806342966c6811610097578063a22cb46511610066578063a22cb46514610231578063b88d4fde14610244578063c87b56dd14610257578063e985e9c51461026a57600080fd5b806342966c68146101e25780636352211e146101f557806370a082311461020857806395d89b411461022957600080fd5b8063116191b6116100d3578063116191b61461018257806323b872dd146101a957806340c10f19146101bc57806342842e0e146101cf57600080fd5b806301ffc9a71461010557806306fdde031461012d578063081812fc14610142578063095ea7b31461016d575b600080fd5b610118610113366004610d4c565b61027d565b60405190151581526020015b60405180910390f35b6101356102cf565b6040516101249190610db9565b610155610150366004610dcc565b610361565b6040516001600160a01b039091168152602001610124565b61018061017b366004610e01565b61038a565b005b6101557f000000000000000000000000000000000000000000000000000000000000000081565b6101806101b7366004610e2b565b610399565b6101806101ca366004610e01565b610429565b6101806101dd366004610e2b565b61049a565b6101806101f0366004610dcc565b6104ba565b610155610203366004610dcc565b61052d565b61021b610216366004610e68565b610538565b604051908152602001610124565b610135610580565b61018061023f366004610e83565b61058f565b610180610252366004610ed5565b61059a565b610135610265366004610dcc565b6105b1565b610118610278366004610fb9565b610626565b60006001600160e01b031982166380ac58cd60e01b14806102ae57506001600160e01b03198216635b5e139f60e01b145b806102c957506301ffc9a760e01b6001600160e01b03198316145b92915050565b6060600080546102de90610fec565b80601f016020809104026020016040519081016040528092919081815260200182805461030a90610fec565b80156103575780601f1061032c57610100808354040283529160200191610357565b820191906000526020600020905b81548152906001019060200180831161033a57829003601f168201915b5050505050905090565b600061036c82610654565b506000828152600460205260409020546001600160a01b03166102c9565b61039582823361068d565b5050565b6001600160a01b0382166103c857604051633250574960e11b8152600060048201526024015b60405180910390fd5b60006103d583833361069a565b9050836001600160a01b0316816001600160a01b031614610423576040516364283d7b60e01b81526001600160a01b03808616600483015260248201849052821660448201526064016103bf565b50505050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146104905760405162461bcd60e51b815260206004820152600c60248201526b6f6e6c79206761746577617960a01b60448201526064016103bf565b6103958282610793565b6104b58383836040518060200160405280600081525061059a565b505050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146105215760405162461bcd60e51b815260206004820152600c60248201526b6f6e6c79206761746577617960a01b60448201526064016103bf565b61052a816107f8565b50565b60006102c982610654565b60006001600160a01b038216610564576040516322718ad960e21b8152600060048201526024016103bf565b506001600160a01b031660009081526003602052604090205490565b6060600180546102de90610fec565b610395338383610833565b6105a5848484610399565b610423848484846108d2565b60606105bc82610654565b5060006105d460408051602081019091526000815290565b905060008151116105f4576040518060200160405280600081525061061f565b806105fe846109fb565b60405160200161060f929190611026565b6040516020818303038152906040525b9392505050565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b6000818152600260205260408120546001600160a01b0316806102c957604051637e27328960e01b8152600481018490526024016103bf565b6104b58383836001610a8e565b6000828152600260205260408120546001600160a01b03908116908316156106c7576106c7818486610b94565b6001600160a01b03811615610705576106e4600085600080610a8e565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615610734576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6001600160a01b0382166107bd57604051633250574960e11b8152600060048201526024016103bf565b60006107cb8383600061069a565b90506001600160a01b038116156104b5576040516339e3563760e11b8152600060048201526024016103bf565b6000610807600083600061069a565b90506001600160a01b03811661039557604051637e27328960e01b8152600481018390526024016103bf565b6001600160a01b03821661086557604051630b61174360e31b81526001600160a01b03831660048201526024016103bf565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a3505050565b6001600160a01b0383163b1561042357604051630a85bd0160e11b81526001600160a01b0384169063150b7a0290610914903390889087908790600401611055565b6020604051808303816000875af192505050801561094f575060408051601f3d908101601f1916820190925261094c91810190611092565b60015b6109b8573d80801561097d576040519150601f19603f3d011682016040523d82523d6000602084013e610982565b606091505b5080516000036109b057604051633250574960e11b81526001600160a01b03851660048201526024016103bf565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b146109f457604051633250574960e11b81526001600160a01b03851660048201526024016103bf565b5050505050565b60606000610a0883610bf8565b600101905060008167ffffffffffffffff811115610a2857610a28610ebf565b6040519080825280601f01601f191660200182016040528015610a52576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a8504945084610a5c57509392505050565b8080610aa257506001600160a01b03821615155b15610b64576000610ab284610654565b90506001600160a01b03831615801590610ade5750826001600160a01b0316816001600160a01b031614155b8015610af15750610aef8184610626565b155b15610b1a5760405163a9fbf51f60e01b81526001600160a01b03841660048201526024016103bf565b8115610b625783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b610b9f838383610cd0565b6104b5576001600160a01b038316610bcd57604051637e27328960e01b8152600481018290526024016103bf565b60405163177e802f60e01b81526001600160a01b0383166004820152602481018290526044016103bf565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8310610c375772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310610c63576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc100008310610c8157662386f26fc10000830492506010015b6305f5e1008310610c99576305f5e100830492506008015b6127108310610cad57612710830492506004015b60648310610cbf576064830492506002015b600a83106102c95760010192915050565b60006001600160a01b03831615801590610d2e5750826001600160a01b0316846001600160a01b03161480610d0a5750610d0a8484610626565b80610d2e57506000828152600460205260409020546001600160a01b038481169116145b949350505050565b6001600160e01b03198116811461052a57600080fd5b600060208284031215610d5e57600080fd5b813561061f81610d36565b60005b83811015610d84578181015183820152602001610d6c565b50506000910152565b60008151808452610da5816020860160208601610d69565b601f01601f19169290920160200192915050565b60208152600061061f6020830184610d8d565b600060208284031215610dde57600080fd5b5035919050565b80356001600160a01b0381168114610dfc57600080fd5b919050565b60008060408385031215610e1457600080fd5b610e1d83610de5565b946020939093013593505050565b600080600060608486031215610e4057600080fd5b610e4984610de5565b9250610e5760208501610de5565b929592945050506040919091013590565b600060208284031215610e7a57600080fd5b61061f82610de5565b60008060408385031215610e9657600080fd5b610e9f83610de5565b915060208301358015158114610eb457600080fd5b809150509250929050565b634e487b7160e01b600052604160045260246000fd5b60008060008060808587031215610eeb57600080fd5b610ef485610de5565b9350610f0260208601610de5565b925060408501359150606085013567ffffffffffffffff811115610f2557600080fd5b8501601f81018713610f3657600080fd5b803567ffffffffffffffff811115610f5057610f50610ebf565b604051601f8201601f19908116603f0116810167ffffffffffffffff81118282101715610f7f57610f7f610ebf565b604052818152828201602001891015610f9757600080fd5b8160208401602083013760006020838301015280935050505092959194509250565b60008060408385031215610fcc57600080fd5b610fd583610de5565b9150610fe360208401610de5565b90509250929050565b600181811c9082168061100057607f821691505b60208210810361102057634e487b7160e01b600052602260045260246000fd5b50919050565b60008351611038818460208801610d69565b83519083019061104c818360208801610d69565b01949350505050565b6001600160a01b038581168252841660208201526040810183905260806060820181905260009061108890830184610d8d565b9695505050505050565b6000602082840312156110a457600080fd5b815161061f81610d3656fea264697066735822122006fe1f3426e0decbbf6f108afdf029cc1b91448a685a4cfdab4a0fbe36a3267e64736f6c634300081a0033"
+
+export const erc721ABI = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_gateway",
+				"type": "address"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "constructor"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			}
+		],
+		"name": "ERC721IncorrectOwner",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "ERC721InsufficientApproval",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "approver",
+				"type": "address"
+			}
+		],
+		"name": "ERC721InvalidApprover",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			}
+		],
+		"name": "ERC721InvalidOperator",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			}
+		],
+		"name": "ERC721InvalidOwner",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			}
+		],
+		"name": "ERC721InvalidReceiver",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "ERC721InvalidSender",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "ERC721NonexistentToken",
+		"type": "error"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "approved",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "Approval",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "ApprovalForAll",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "Transfer",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "approve",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			}
+		],
+		"name": "balanceOf",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "burn",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "gateway",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "getApproved",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "owner",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			}
+		],
+		"name": "isApprovedForAll",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "_to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "_tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "mint",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "name",
+		"outputs": [
+			{
+				"internalType": "string",
+				"name": "",
+				"type": "string"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "ownerOf",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "safeTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "data",
+				"type": "bytes"
+			}
+		],
+		"name": "safeTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "setApprovalForAll",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes4",
+				"name": "interfaceId",
+				"type": "bytes4"
+			}
+		],
+		"name": "supportsInterface",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "symbol",
+		"outputs": [
+			{
+				"internalType": "string",
+				"name": "",
+				"type": "string"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "tokenURI",
+		"outputs": [
+			{
+				"internalType": "string",
+				"name": "",
+				"type": "string"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "transferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	}
+]
@@ -0,0 +1,34 @@
+import {dataSlice, getAddress} from 'ethers'
+
+import {RpcSource, generateProvider} from './index.js'
+
+/** EIP-1967 slot holding the implementation address: bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1). */
+export const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+/** EIP-1967 slot holding the admin address: bytes32(uint256(keccak256('eip1967.proxy.admin')) - 1). */
+export const EIP1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103'
+
+export interface ProxyInfo {
+  admin: string
+  implementation: string
+}
+
+/**
+ * Reads the implementation and admin of an EIP-1967 (TransparentUpgradeableProxy) proxy from storage.
+ *
+ * @param rpc - The RPC source to use for querying the blockchain.
+ * @param proxyAddress - The address of the proxy contract.
+ * @returns A promise that resolves to the checksummed implementation and admin addresses.
+ */
+export async function getProxyInfo(rpc: RpcSource, proxyAddress: string): Promise<ProxyInfo> {
+  const provider = generateProvider(rpc)
+  const [implementation, admin] = await Promise.all([
+    provider.getStorage(proxyAddress, EIP1967_IMPLEMENTATION_SLOT),
+    provider.getStorage(proxyAddress, EIP1967_ADMIN_SLOT),
+  ])
+
+  return {
+    admin: getAddress(dataSlice(admin, 12)),
+    implementation: getAddress(dataSlice(implementation, 12)),
+  }
+}
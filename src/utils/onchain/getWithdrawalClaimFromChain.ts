@@ -0,0 +1,140 @@
+import { Contract, Interface, JsonRpcProvider } from 'ethers';
+
+import { ClaimInfo } from './getWithdrawals.js';
+import { RpcSource, generateProvider } from './index.js';
+import { WithdrawTrie, computeMessageHash } from './withdrawTrie.js';
+
+const l2ScrollMessengerInterface = new Interface([
+  "event SentMessage(address indexed sender, address indexed target, uint256 value, uint256 messageNonce, uint256 gasLimit, bytes message)"
+]);
+
+const scrollChainABI = [
+  "function lastFinalizedBatchIndex() view returns (uint256)",
+  "function withdrawRoots(uint256 batchIndex) view returns (bytes32)"
+];
+
+/**
+ * Maximum number of blocks requested per eth_getLogs call.
+ */
+const LOG_BLOCK_RANGE = 10_000;
+
+/**
+ * The messages of the L2 messenger read so far. Reusing it across calls, e.g. between poll attempts, means each call
+ * only reads the blocks added since the last one.
+ */
+export interface SentMessageScan {
+  /** The last L2 block whose messages are in messageHashes; -1 before the first scan. */
+  lastBlock: number;
+  /** The message hashes, indexed by nonce. */
+  messageHashes: string[];
+}
+
+/**
+ * Builds the claim of a withdrawal from chain data alone, for when bridge-history-api is unavailable or behind.
+ * It replays every SentMessage event of the L2 messenger into the withdraw trie until its root matches the withdraw
+ * root of the last finalized batch, then proves the withdrawal against that batch.
+ *
+ * @param l2TxHash - The hash of the L2 withdrawal transaction.
+ * @param l1Rpc - The RPC source for L1.
+ * @param l2Rpc - The RPC source for L2.
+ * @param l2ScrollMessengerProxyAddress - The address of the L2 Scroll messenger proxy contract.
+ * @param l1ScrollChainProxyAddress - The address of the L1 Scroll chain proxy contract.
+ * @param scan - The messages read by earlier calls, extended with the new blocks; a fresh scan by default.
+ * @returns A promise that resolves to the claim info, or null while no finalized batch includes the withdrawal.
+ * @throws An error if the transaction is not found, sent no message, or the messages on L2 do not match the chain.
+ */
+// eslint-disable-next-line max-params
+export async function getWithdrawalClaimFromChain(
+  l2TxHash: string,
+  l1Rpc: RpcSource,
+  l2Rpc: RpcSource,
+  l2ScrollMessengerProxyAddress: string,
+  l1ScrollChainProxyAddress: string,
+  scan?: SentMessageScan
+): Promise<ClaimInfo | null> {
+  const l2Provider = generateProvider(l2Rpc);
+  const receipt = await l2Provider.getTransactionReceipt(l2TxHash);
+  if (!receipt) throw new Error('Transaction not found');
+
+  const sentMessageLog = receipt.logs.find(log =>
+    log.address.toLowerCase() === l2ScrollMessengerProxyAddress.toLowerCase() &&
+    log.topics[0] === l2ScrollMessengerInterface.getEvent("SentMessage")!.topicHash
+  );
+  if (!sentMessageLog) throw new Error('SentMessage event not found');
+
+  const sent = l2ScrollMessengerInterface.parseLog(sentMessageLog)!;
+  const nonce = Number(sent.args.messageNonce);
+
+  const scrollChain = new Contract(l1ScrollChainProxyAddress, scrollChainABI, generateProvider(l1Rpc));
+  const batchIndex: bigint = await scrollChain.lastFinalizedBatchIndex();
+  const withdrawRoot: string = await scrollChain.withdrawRoots(batchIndex);
+
+  const messageHashes = await getMessageHashes(
+    l2Provider,
+    l2ScrollMessengerProxyAddress,
+    scan ?? { lastBlock: -1, messageHashes: [] }
+  );
+  const trie = new WithdrawTrie();
+  for (const messageHash of messageHashes) {
+    const root = trie.append(messageHash);
+    if (trie.size > nonce && root === withdrawRoot) {
+      return {
+        claimable: true,
+        from: sent.args.sender,
+        message: sent.args.message,
+        nonce: sent.args.messageNonce.toString(),
+        // eslint-disable-next-line camelcase
+        proof: { batch_index: batchIndex.toString(), merkle_proof: trie.proof(nonce) },
+        to: sent.args.target,
+        value: sent.args.value.toString(),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the hashes of the messages sent by the L2 messenger since the last scan, ordered by nonce.
+ *
+ * @param l2Provider - The L2 provider.
+ * @param l2ScrollMessengerProxyAddress - The address of the L2 Scroll messenger proxy contract.
+ * @param scan - The messages read so far, extended block range by block range.
+ * @returns A promise that resolves to all message hashes, indexed by nonce.
+ * @throws An error if a nonce is missing from the events.
+ */
+async function getMessageHashes(
+  l2Provider: JsonRpcProvider,
+  l2ScrollMessengerProxyAddress: string,
+  scan: SentMessageScan
+): Promise<string[]> {
+  const latestBlock = await l2Provider.getBlockNumber();
+
+  for (let fromBlock = scan.lastBlock + 1; fromBlock <= latestBlock; fromBlock += LOG_BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + LOG_BLOCK_RANGE - 1, latestBlock);
+    // eslint-disable-next-line no-await-in-loop
+    const logs = await l2Provider.getLogs({
+      address: l2ScrollMessengerProxyAddress,
+      fromBlock,
+      toBlock,
+      topics: [l2ScrollMessengerInterface.getEvent("SentMessage")!.topicHash],
+    });
+
+    // Only a range read in full is kept, so a failed call leaves the scan as it was
+    const rangeHashes: string[] = [];
+    for (const log of logs) {
+      const { args } = l2ScrollMessengerInterface.parseLog(log)!;
+      const expectedNonce = scan.messageHashes.length + rangeHashes.length;
+      if (Number(args.messageNonce) !== expectedNonce) {
+        throw new Error(`Expected message nonce ${expectedNonce} in block ${log.blockNumber}, found ${args.messageNonce}`);
+      }
+
+      rangeHashes.push(computeMessageHash(args.sender, args.target, args.value, args.messageNonce, args.message));
+    }
+
+    scan.messageHashes.push(...rangeHashes);
+    scan.lastBlock = toBlock;
+  }
+
+  return scan.messageHashes;
+}
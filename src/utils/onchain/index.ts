@@ -7,15 +7,23 @@ export { constructBlockExplorerUrl, LookupType } from './constructBlockExplorerU
 export type { BlockExplorerParams } from './constructBlockExplorerUrl.js';
 export * from './contractABIs.js'
 export { erc20ABI, erc20Bytecode } from './erc20Contract.js'
+export { erc721ABI, erc721Bytecode } from './erc721Contract.js'
+export { erc1155ABI, erc1155Bytecode } from './erc1155Contract.js'
 export { generateProvider } from './generateProvider.js'
 export { getCrossDomainMessageFromTx } from './getCrossDomainMessageFromTx.js';
 export { getFinalizedBlockHeight } from './getFinalizedBlockHeight.js';
 export { getGasOracleL2BaseFee } from './getGasOracleL2BaseFee.js';
 export { getL2TokenFromL1Address } from './getL2TokenFromL1Address.js';
 export { getPendingQueueIndex } from './getPendingQueueIndex.js';
+export { EIP1967_ADMIN_SLOT, EIP1967_IMPLEMENTATION_SLOT, getProxyInfo } from './getProxyInfo.js';
+export type { ProxyInfo } from './getProxyInfo.js';
+export { SentMessageScan, getWithdrawalClaimFromChain } from './getWithdrawalClaimFromChain.js';
 export { getWithdrawals } from './getWithdrawals.js'
-export type { Withdrawal } from './getWithdrawals.js'
+export type { ClaimInfo, Withdrawal } from './getWithdrawals.js'
+export { MULTICALL3_ADDRESS, RpcBatcher } from './rpcBatcher.js';
+export type { RpcBatcherOptions } from './rpcBatcher.js';
 export { txLink } from './txLink.js'
+export { WithdrawTrie, computeMessageHash, verifyWithdrawProof } from './withdrawTrie.js';
 
 /**
  * Represents a source for an RPC provider, which can be a JsonRpcProvider, a Wallet, or a string URL.
@@ -0,0 +1,222 @@
+import {BlockTag, Contract, FunctionFragment, Interface, JsonRpcProvider, isError} from 'ethers'
+
+import {RpcSource, generateProvider} from './index.js'
+
+/** Multicall3 is deployed at the same address on most EVM chains: https://www.multicall3.com */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+const multicall3ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]
+
+export interface RpcBatcherOptions {
+  /** Most view calls aggregated into one Multicall3 request. Defaults to 100. */
+  batchSize?: number
+  /** Most requests in flight at once. Defaults to 10. */
+  concurrency?: number
+  /** Aggregate view calls through Multicall3 when the chain has it. Defaults to true. */
+  multicall?: boolean
+  /** Retries of a request that failed for a reason other than a revert. Defaults to 3. */
+  retries?: number
+  /** Delay before the first retry in milliseconds, doubled for each further one. Defaults to 500. */
+  retryDelay?: number
+}
+
+interface PendingCall {
+  blockTag?: BlockTag
+  callData: string
+  fragment: FunctionFragment
+  iface: Interface
+  reject: (error: unknown) => void
+  resolve: (value: unknown) => void
+  target: string
+}
+
+/**
+ * Runs many read-only RPC requests against one chain with bounded concurrency, retrying failed requests with
+ * exponential backoff. View calls made in the same tick are aggregated into Multicall3 `aggregate3` requests;
+ * on chains without Multicall3 (or with `multicall: false`) they are sent as plain `eth_call`s. Requests in
+ * flight together are further grouped into JSON-RPC batches by the underlying JsonRpcProvider.
+ */
+export class RpcBatcher {
+  readonly provider: JsonRpcProvider
+
+  private active = 0
+  private readonly batchSize: number
+  private readonly concurrency: number
+  private multicallAvailable?: Promise<boolean>
+  private queue: PendingCall[] = []
+  private readonly retries: number
+  private readonly retryDelay: number
+  private readonly useMulticall: boolean
+  private waiting: (() => void)[] = []
+
+  constructor(rpc: RpcSource, options: RpcBatcherOptions = {}) {
+    this.provider = generateProvider(rpc)
+    this.batchSize = options.batchSize ?? 100
+    this.concurrency = Math.max(1, options.concurrency ?? 10)
+    this.retries = options.retries ?? 3
+    this.retryDelay = options.retryDelay ?? 500
+    this.useMulticall = options.multicall ?? true
+  }
+
+  /**
+   * Calls a view function, batched with the other calls made in the same tick.
+   *
+   * @param target - The address of the contract to call.
+   * @param signature - The human-readable ABI of the function, e.g. `function owner() view returns (address)`.
+   * @param args - The arguments of the call.
+   * @param blockTag - The block to call at; the latest block by default.
+   * @returns A promise that resolves to the first value returned by the function, and rejects with a CALL_EXCEPTION
+   * error if the call reverts.
+   */
+  call<T = unknown>(target: string, signature: string, args: unknown[] = [], blockTag?: BlockTag): Promise<T> {
+    const fragment = FunctionFragment.from(signature)
+    const iface = new Interface([fragment])
+    const callData = iface.encodeFunctionData(fragment, args)
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        blockTag,
+        callData,
+        fragment,
+        iface,
+        reject,
+        resolve: resolve as (value: unknown) => void,
+        target,
+      })
+      if (this.queue.length === 1) {
+        setTimeout(() => this.flush(), 0)
+      }
+    })
+  }
+
+  /**
+   * Gets the code deployed at an address.
+   *
+   * @param address - The address to look up.
+   * @param blockTag - The block to read at; the latest block by default.
+   * @returns A promise that resolves to the bytecode, or `0x` when nothing is deployed.
+   */
+  getCode(address: string, blockTag?: BlockTag): Promise<string> {
+    return this.request(() => this.provider.getCode(address, blockTag))
+  }
+
+  /**
+   * Reads a storage slot.
+   *
+   * @param address - The address of the contract.
+   * @param slot - The storage slot to read.
+   * @param blockTag - The block to read at; the latest block by default.
+   * @returns A promise that resolves to the 32-byte word stored in the slot.
+   */
+  getStorage(address: string, slot: bigint | number | string, blockTag?: BlockTag): Promise<string> {
+    return this.request(() => this.provider.getStorage(address, slot, blockTag))
+  }
+
+  /**
+   * Runs any other request within the concurrency limit, with retries.
+   *
+   * @param request - The function issuing the request; it is called again for each retry.
+   * @returns A promise that resolves to the result of the request.
+   */
+  request<T>(request: () => Promise<T>): Promise<T> {
+    return this.limit(() => this.retry(request))
+  }
+
+  // Calls in one batch share their block tag
+  private async aggregate(calls: PendingCall[]): Promise<void> {
+    const multicall = new Contract(MULTICALL3_ADDRESS, multicall3ABI, this.provider)
+    const results: {returnData: string; success: boolean}[] = await this.retry(() =>
+      multicall.aggregate3.staticCall(
+        calls.map(({callData, target}) => ({allowFailure: true, callData, target})),
+        {blockTag: calls[0].blockTag},
+      ),
+    )
+
+    for (const [index, call] of calls.entries()) {
+      const {returnData, success} = results[index]
+      if (success) {
+        this.settle(call, returnData)
+      } else {
+        // Tagged like the revert of a plain eth_call, so callers can tell reverts from transport errors
+        call.reject(Object.assign(new Error(`${call.fragment.name}() reverted on ${call.target}`), {code: 'CALL_EXCEPTION'}))
+      }
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const calls = this.queue.splice(0)
+
+    this.multicallAvailable ??= this.useMulticall
+      ? this.retry(() => this.provider.getCode(MULTICALL3_ADDRESS))
+          .then((code) => code !== '0x')
+          .catch(() => false)
+      : Promise.resolve(false)
+
+    if (!(await this.multicallAvailable)) {
+      for (const call of calls) {
+        this.limit(async () => {
+          const {blockTag, callData: data, target: to} = call
+          this.settle(call, await this.retry(() => this.provider.call({blockTag, data, to})))
+        }).catch(call.reject)
+      }
+
+      return
+    }
+
+    const byBlock = new Map<BlockTag | undefined, PendingCall[]>()
+    for (const call of calls) byBlock.set(call.blockTag, [...(byBlock.get(call.blockTag) ?? []), call])
+
+    for (const blockCalls of byBlock.values()) {
+      for (let start = 0; start < blockCalls.length; start += this.batchSize) {
+        const batch = blockCalls.slice(start, start + this.batchSize)
+        this.limit(() => this.aggregate(batch)).catch((error) => {
+          for (const call of batch) call.reject(error)
+        })
+      }
+    }
+  }
+
+  private async limit<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.concurrency) {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise<void>((resolve) => {
+        this.waiting.push(resolve)
+      })
+    }
+
+    this.active++
+    try {
+      return await task()
+    } finally {
+      this.active--
+      this.waiting.shift()?.()
+    }
+  }
+
+  // Reverts are deterministic, so only transport and node errors are retried.
+  private async retry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        return await request()
+      } catch (error) {
+        if (attempt >= this.retries || isError(error, 'CALL_EXCEPTION')) throw error
+        const delay = this.retryDelay * 2 ** attempt
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => {
+          setTimeout(resolve, delay)
+        })
+      }
+    }
+  }
+
+  private settle(call: PendingCall, returnData: string): void {
+    try {
+      call.resolve(call.iface.decodeFunctionResult(call.fragment, returnData)[0])
+    } catch (error) {
+      call.reject(error)
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { BigNumberish, Interface, ZeroHash, concat, keccak256 } from 'ethers';
+
+const relayMessageInterface = new Interface([
+  "function relayMessage(address sender, address target, uint256 value, uint256 messageNonce, bytes message)"
+]);
+
+function hashPair(left: string, right: string): string {
+  return keccak256(concat([left, right]));
+}
+
+/**
+ * Computes the hash of an L2 to L1 message, the leaf the L2 message queue appends to the withdraw trie and the key
+ * of isL2MessageExecuted on the L1 messenger.
+ *
+ * @param from - The sender of the message.
+ * @param to - The target of the message.
+ * @param value - The value sent with the message.
+ * @param nonce - The nonce of the message, which is also its index in the withdraw trie.
+ * @param message - The calldata of the message.
+ * @returns The message hash.
+ */
+// eslint-disable-next-line max-params
+export function computeMessageHash(
+  from: string,
+  to: string,
+  value: BigNumberish,
+  nonce: BigNumberish,
+  message: string
+): string {
+  return keccak256(relayMessageInterface.encodeFunctionData("relayMessage", [from, to, value, nonce, message]));
+}
+
+/**
+ * The append-only Merkle tree of the L2 message queue, whose root is committed to L1 as the withdraw root of each
+ * finalized batch. Like the contract, the tree is only as high as its leaves need, padded with the hashes of empty
+ * subtrees.
+ */
+export class WithdrawTrie {
+  private readonly branches: string[] = [];
+  private readonly leaves: string[] = [];
+  private readonly zeroHashes: string[] = [ZeroHash];
+
+  /**
+   * The root of the trie, or the zero hash while it is empty.
+   *
+   * @returns The current root.
+   */
+  get root(): string {
+    return this.leaves.length === 0 ? ZeroHash : this.branches[this.height()];
+  }
+
+  /**
+   * The number of messages in the trie.
+   *
+   * @returns The next message index.
+   */
+  get size(): number {
+    return this.leaves.length;
+  }
+
+  /**
+   * Appends a message hash, following L2MessageQueue.appendMessage.
+   *
+   * @param messageHash - The hash of the next message.
+   * @returns The new root.
+   */
+  append(messageHash: string): string {
+    let index = this.leaves.length;
+    let hash = messageHash;
+    let height = 0;
+
+    while (index !== 0) {
+      if (index % 2 === 0) {
+        this.branches[height] = hash;
+        hash = hashPair(hash, this.zeroHash(height));
+      } else {
+        hash = hashPair(this.branches[height], hash);
+      }
+
+      height += 1;
+      index = Math.floor(index / 2);
+    }
+
+    this.branches[height] = hash;
+    this.leaves.push(messageHash);
+    return hash;
+  }
+
+  /**
+   * Builds the Merkle proof of a message against the current root, in the format relayMessageWithProof expects.
+   *
+   * @param index - The index (nonce) of the message.
+   * @returns The sibling hashes from the leaf up, concatenated.
+   * @throws An error if the message is not in the trie.
+   */
+  proof(index: number): string {
+    if (!Number.isInteger(index) || index < 0 || index >= this.leaves.length) {
+      throw new Error(`Message ${index} is not in the withdraw trie (${this.leaves.length} messages)`);
+    }
+
+    const siblings: string[] = [];
+    let level = this.leaves;
+    let position = index;
+
+    for (let height = 0; height < this.height(); height++) {
+      siblings.push(level[position % 2 === 0 ? position + 1 : position - 1] ?? this.zeroHash(height));
+
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(hashPair(level[i], level[i + 1] ?? this.zeroHash(height)));
+      }
+
+      level = next;
+      position = Math.floor(position / 2);
+    }
+
+    return concat(siblings);
+  }
+
+  private height(): number {
+    return this.leaves.length <= 1 ? 0 : (this.leaves.length - 1).toString(2).length;
+  }
+
+  private zeroHash(height: number): string {
+    for (let i = this.zeroHashes.length; i <= height; i++) {
+      this.zeroHashes.push(hashPair(this.zeroHashes[i - 1], this.zeroHashes[i - 1]));
+    }
+
+    return this.zeroHashes[height];
+  }
+}
+
+/**
+ * Checks a withdraw trie proof the way the L1 messenger does before relaying a message.
+ *
+ * @param root - The withdraw root of a finalized batch.
+ * @param messageHash - The hash of the message.
+ * @param nonce - The nonce of the message.
+ * @param proof - The concatenated sibling hashes.
+ * @returns Whether the proof places the message under the root.
+ */
+export function verifyWithdrawProof(root: string, messageHash: string, nonce: BigNumberish, proof: string): boolean {
+  const siblings = proof === '0x' ? [] : (proof.slice(2).match(/.{64}/g) ?? []).map((sibling) => `0x${sibling}`);
+  let hash = messageHash;
+  let index = BigInt(nonce);
+
+  for (const sibling of siblings) {
+    hash = index % 2n === 0n ? hashPair(hash, sibling) : hashPair(sibling, hash);
+    index /= 2n;
+  }
+
+  return hash.toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,121 @@
+/** Reported before each wait between attempts. */
+export interface PollProgress {
+  /** Number of attempts made so far. */
+  attempt: number
+  /** How long until the next attempt, in milliseconds. */
+  delay: number
+  /** Time spent polling so far, in milliseconds. */
+  elapsed: number
+}
+
+export interface PollOptions {
+  /** Factor applied to the delay after each attempt. Defaults to 1, a fixed interval. */
+  backoff?: number
+  /** Delay before the second attempt, in milliseconds. */
+  interval: number
+  /** Upper bound of the delay once backoff applies, in milliseconds. Defaults to no bound. */
+  maxInterval?: number
+  onProgress?: (progress: PollProgress) => void
+  /** Stops polling with a PollAbortedError, also while waiting between attempts. */
+  signal?: AbortSignal
+  /** Overall time limit, in milliseconds. Polls until aborted when unset. */
+  timeout?: number
+  /** What is being waited for, for error messages, e.g. "the token balance". */
+  what: string
+}
+
+export class PollError extends Error {
+  constructor(
+    message: string,
+    public readonly what: string,
+  ) {
+    super(message)
+    this.name = 'PollError'
+  }
+}
+
+export class PollTimeoutError extends PollError {
+  constructor(
+    what: string,
+    public readonly timeout: number,
+  ) {
+    super(`Timed out after ${formatDuration(timeout)} waiting for ${what}`, what)
+    this.name = 'PollTimeoutError'
+  }
+}
+
+export class PollAbortedError extends PollError {
+  constructor(what: string) {
+    super(`Stopped waiting for ${what}`, what)
+    this.name = 'PollAbortedError'
+  }
+}
+
+/**
+ * Formats a duration for messages, e.g. 45s, 10m or 1h 30m.
+ * @param ms - The duration in milliseconds.
+ * @returns The duration in the largest whole units.
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function sleep(ms: number, what: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // The signal may have aborted while the last check ran
+    if (signal?.aborted) {
+      reject(new PollAbortedError(what))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new PollAbortedError(what))
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, {once: true})
+  })
+}
+
+/**
+ * Calls `check` until it returns a value, waiting between attempts. The last wait is cut short so that a final
+ * attempt happens right at the timeout.
+ * @param check - Returns the awaited value, or undefined to try again. Errors it throws end the polling.
+ * @param options - Interval, backoff, time limit and cancellation.
+ * @returns The first value `check` returns.
+ * @throws PollTimeoutError if the timeout passes first.
+ * @throws PollAbortedError if the signal aborts first.
+ */
+export async function poll<T>(check: (attempt: number) => Promise<T | undefined>, options: PollOptions): Promise<T> {
+  const {backoff = 1, interval, maxInterval = Number.POSITIVE_INFINITY, onProgress, signal, timeout, what} = options
+  const start = Date.now()
+  const deadline = timeout === undefined ? Number.POSITIVE_INFINITY : start + timeout
+  let delay = interval
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new PollAbortedError(what)
+
+    // eslint-disable-next-line no-await-in-loop
+    const result = await check(attempt)
+    if (result !== undefined) return result
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) throw new PollTimeoutError(what, timeout!)
+
+    const wait = Math.min(delay, remaining)
+    onProgress?.({attempt, delay: wait, elapsed: Date.now() - start})
+    // eslint-disable-next-line no-await-in-loop
+    await sleep(wait, what, signal)
+    delay = Math.min(delay * backoff, maxInterval)
+  }
+}
@@ -0,0 +1,225 @@
+import {confirm, input, password, select} from '@inquirer/prompts'
+import {Flags} from '@oclif/core'
+import * as yaml from 'js-yaml'
+import fs from 'node:fs'
+
+type InputConfig = Parameters<typeof input>[0]
+type PasswordConfig = Parameters<typeof password>[0]
+type ConfirmConfig = Parameters<typeof confirm>[0]
+type SelectChoice<T> = {description?: string; disabled?: boolean | string; name?: string; value: T}
+type SelectConfig<T> = {choices: readonly SelectChoice<T>[]; default?: T; message: string}
+
+/**
+ * Flags shared by every interactive setup command. Spread them into a command's static flags and build
+ * the command's Prompter with Prompter.fromFlags().
+ */
+export const promptFlags = {
+  answers: Flags.string({
+    description:
+      'YAML file with answers to prompts, keyed by "<command>.<prompt key>" (e.g. domains.protocol). Prompts without an answer are still asked unless --non-interactive is set',
+  }),
+  'non-interactive': Flags.boolean({
+    default: false,
+    description:
+      'Never prompt: take answers from --answers, fall back to prompt defaults, and fail with the missing key otherwise',
+  }),
+}
+
+export class MissingAnswerError extends Error {
+  constructor(
+    public readonly key: string,
+    message: string,
+  ) {
+    super(`Missing answer for "${key}" (${message.trim()}). Add it to the --answers file or drop --non-interactive.`)
+    this.name = 'MissingAnswerError'
+  }
+}
+
+export class InvalidAnswerError extends Error {
+  constructor(
+    public readonly key: string,
+    reason: string,
+  ) {
+    super(`Invalid answer for "${key}": ${reason}`)
+    this.name = 'InvalidAnswerError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Resolves a dotted key against answers written flat, nested, or a mix of both. Segments may themselves
+// contain dots (e.g. a values file name), so every key that prefixes the path is tried.
+function findAnswer(node: unknown, key: string): unknown {
+  if (!isRecord(node)) return undefined
+  if (key in node) return node[key]
+
+  for (const [segment, child] of Object.entries(node)) {
+    if (!key.startsWith(`${segment}.`)) continue
+    const answer = findAnswer(child, key.slice(segment.length + 1))
+    if (answer !== undefined) return answer
+  }
+
+  return undefined
+}
+
+/**
+ * Reads an answers file. Keys can be nested (`domains: {protocol: https}`) or written flat
+ * (`domains.protocol: https`).
+ * @param filePath - Path to the YAML file.
+ * @returns The parsed answers.
+ */
+export function loadAnswers(filePath: string): Record<string, unknown> {
+  let answers: unknown
+  try {
+    answers = yaml.load(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Error reading answers file ${filePath}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (answers === undefined || answers === null) return {}
+  if (!isRecord(answers)) throw new Error(`Answers file ${filePath} must contain a mapping of prompt keys to answers`)
+  return answers
+}
+
+/**
+ * Asks the @inquirer/prompts questions of one command, answering them from an answers file when it has
+ * an entry for the prompt's key. In non-interactive mode a prompt without an answer resolves to its
+ * default, and fails with a MissingAnswerError naming the key when it has none.
+ */
+export class Prompter {
+  constructor(
+    private readonly scope: string,
+    private readonly answers: Record<string, unknown> = {},
+    private readonly nonInteractive = false,
+  ) {}
+
+  /**
+   * Builds the prompter for a command from its parsed promptFlags.
+   * @param scope - Prefix of this command's answer keys, e.g. "domains".
+   * @param flags - The parsed flags.
+   * @param flags.answers - Path of the answers file, if any.
+   * @param flags."non-interactive" - Whether prompting is disabled.
+   * @returns The prompter.
+   */
+  static fromFlags(scope: string, flags: {answers?: string; 'non-interactive'?: boolean}): Prompter {
+    return new Prompter(scope, flags.answers ? loadAnswers(flags.answers) : {}, flags['non-interactive'] ?? false)
+  }
+
+  /**
+   * Asks a yes/no question.
+   * @param key - Stable answer key, relative to the command scope.
+   * @param config - The @inquirer/prompts confirm config.
+   * @returns The answer.
+   */
+  async confirm(key: string, config: ConfirmConfig): Promise<boolean> {
+    const answer = this.lookup(key)
+    if (answer === undefined) return this.unanswered(key, config, () => confirm(config))
+
+    if (typeof answer === 'boolean') return answer
+    if (answer === 'true' || answer === 'false') return answer === 'true'
+    throw new InvalidAnswerError(this.fullKey(key), `expected true or false, got ${JSON.stringify(answer)}`)
+  }
+
+  /**
+   * Asks for a line of text.
+   * @param key - Stable answer key, relative to the command scope.
+   * @param config - The @inquirer/prompts input config; its validate function also checks answers from the file.
+   * @returns The answer.
+   */
+  async input(key: string, config: InputConfig): Promise<string> {
+    const answer = this.lookup(key)
+    if (answer === undefined) {
+      const value = await this.unanswered(key, config, () => input(config))
+      // Defaults taken in non-interactive mode skip the prompt, so check them like answers.
+      return this.nonInteractive ? this.validated(key, value, config.validate) : value
+    }
+
+    return this.validated(key, answer, config.validate)
+  }
+
+  /**
+   * Tells whether a prompt will really be shown, e.g. so a retry loop does not spin on a fixed answer.
+   * @param key - Stable answer key, relative to the command scope.
+   * @returns False when the prompt is answered from the file or by non-interactive mode.
+   */
+  isInteractive(key: string): boolean {
+    return !this.nonInteractive && this.lookup(key) === undefined
+  }
+
+  /**
+   * Asks for a secret; the answer is not echoed.
+   * @param key - Stable answer key, relative to the command scope.
+   * @param config - The @inquirer/prompts password config; its validate function also checks answers from the file.
+   * @returns The answer.
+   */
+  async password(key: string, config: PasswordConfig): Promise<string> {
+    const answer = this.lookup(key)
+    if (answer === undefined) return this.unanswered(key, {message: config.message}, () => password(config))
+    return this.validated(key, answer, config.validate)
+  }
+
+  /**
+   * Creates a prompter for a sub-scope, e.g. one per database in a loop.
+   * @param scope - Key segment appended to this prompter's scope.
+   * @returns The nested prompter, sharing this prompter's answers and mode.
+   */
+  scoped(scope: string): Prompter {
+    return new Prompter(this.fullKey(scope), this.answers, this.nonInteractive)
+  }
+
+  /**
+   * Asks to pick one of several choices.
+   * @param key - Stable answer key, relative to the command scope.
+   * @param config - The @inquirer/prompts select config.
+   * @returns The value of the chosen option.
+   */
+  async select<T>(key: string, config: SelectConfig<T>): Promise<T> {
+    const answer = this.lookup(key)
+    const values = config.choices.filter((choice) => !choice.disabled).map((choice) => choice.value)
+
+    if (answer === undefined) {
+      const fallback = values.includes(config.default as T) ? config : {...config, default: undefined}
+      return this.unanswered(key, fallback, () => select(config))
+    }
+
+    const match = values.find((value) => value === answer || String(value) === String(answer))
+    if (match === undefined) {
+      throw new InvalidAnswerError(
+        this.fullKey(key),
+        `expected one of ${values.map((value) => JSON.stringify(value)).join(', ')}, got ${JSON.stringify(answer)}`,
+      )
+    }
+
+    return match
+  }
+
+  private fullKey(key: string): string {
+    return `${this.scope}.${key}`
+  }
+
+  private lookup(key: string): unknown {
+    return findAnswer(this.answers, this.fullKey(key))
+  }
+
+  private async unanswered<T>(key: string, config: {default?: T; message: string}, ask: () => Promise<T>): Promise<T> {
+    if (!this.nonInteractive) return ask()
+    if (config.default !== undefined) return config.default
+    throw new MissingAnswerError(this.fullKey(key), config.message)
+  }
+
+  private async validated(key: string, answer: unknown, validate: InputConfig['validate']): Promise<string> {
+    if (typeof answer !== 'string' && typeof answer !== 'number' && typeof answer !== 'boolean') {
+      throw new InvalidAnswerError(this.fullKey(key), `expected a string, got ${JSON.stringify(answer)}`)
+    }
+
+    const value = String(answer)
+    const result = validate ? await validate(value) : true
+    if (result !== true) {
+      throw new InvalidAnswerError(this.fullKey(key), typeof result === 'string' ? result : 'rejected by validation')
+    }
+
+    return value
+  }
+}
@@ -0,0 +1,457 @@
+import * as iarnaToml from '@iarna/toml'
+import fs from 'node:fs'
+
+export type TomlValue = TomlValue[] | bigint | boolean | number | string
+
+interface HeaderEntry {
+  kind: 'header'
+  lines: string[]
+  name: string
+}
+
+interface PairEntry {
+  key: string
+  kind: 'pair'
+  lines: string[]
+  /** Everything before the value, e.g. `  KEY = `. */
+  prefix: string
+  section: string
+  /** Whitespace and inline comment after the value on its last line. */
+  suffix: string
+  value: string
+}
+
+interface TriviaEntry {
+  kind: 'trivia'
+  lines: string[]
+}
+
+type Entry = HeaderEntry | PairEntry | TriviaEntry
+
+const HEADER_PATTERN = /^\s*\[([^[\]]+)]\s*(#.*)?$/
+const KEY_PATTERN = /^(\s*)([\w.-]+|"(?:[^"\\]|\\.)*"|'[^']*')(\s*=\s*)/
+
+function unquoteKey(key: string): string {
+  if (key.startsWith('"')) return JSON.parse(key)
+  if (key.startsWith("'")) return key.slice(1, -1)
+  return key
+}
+
+function normalizeTableName(name: string): string {
+  return name
+    .split('.')
+    .map((part) => unquoteKey(part.trim()))
+    .join('.')
+}
+
+function formatTableName(name: string): string {
+  return name
+    .split('.')
+    .map((part) => (/^[\w-]+$/.test(part) ? part : JSON.stringify(part)))
+    .join('.')
+}
+
+function formatKey(key: string): string {
+  return /^[\w-]+$/.test(key) ? key : JSON.stringify(key)
+}
+
+type Quote = "'" | "'''" | '"""' | '"'
+
+interface ScanState {
+  depth: number
+  quote?: Quote
+}
+
+/**
+ * Advances `state` over one line of a value, tracking strings and bracket depth.
+ * @param line - The line to scan.
+ * @param from - Index at which the value starts on this line.
+ * @param state - Bracket depth and open string carried over from previous lines; updated in place.
+ * @returns The index of an inline comment, if the line has one.
+ */
+function scanLine(line: string, from: number, state: ScanState): number | undefined {
+  let i = from
+  while (i < line.length) {
+    const {quote} = state
+    if (quote) {
+      if (line[i] === '\\' && quote.startsWith('"')) {
+        i += 2
+      } else if (line.startsWith(quote, i)) {
+        i += quote.length
+        state.quote = undefined
+      } else {
+        i++
+      }
+
+      continue
+    }
+
+    const triple = line.slice(i, i + 3)
+    if (triple === '"""' || triple === "'''") {
+      state.quote = triple
+      i += 3
+      continue
+    }
+
+    switch (line[i]) {
+      case '"':
+      case "'": {
+        state.quote = line[i] as Quote
+        break
+      }
+
+      case '[':
+      case '{': {
+        state.depth++
+        break
+      }
+
+      case ']':
+      case '}': {
+        state.depth--
+        break
+      }
+
+      case '#': {
+        return i
+      }
+    }
+
+    i++
+  }
+
+  return undefined
+}
+
+/**
+ * Finds where a value that starts at `lines[start]` (after the key and `=`) ends, so that multi-line
+ * arrays and strings are kept together.
+ * @param lines - All lines of the document.
+ * @param start - Line on which the key is defined.
+ * @param offset - Index at which the value starts on that line.
+ * @returns The last line of the value, and the end of the value (before any comment) on that line.
+ */
+function scanValue(lines: string[], start: number, offset: number): {end: number; valueEnd: number} {
+  const state: ScanState = {depth: 0}
+
+  for (let lineIndex = start; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex]
+    const commentAt = scanLine(line, lineIndex === start ? offset : 0, state)
+
+    // Single-line strings cannot continue on the next line.
+    if (state.quote === '"' || state.quote === "'") state.quote = undefined
+
+    if (state.depth <= 0 && !state.quote) {
+      const content = commentAt === undefined ? line : line.slice(0, commentAt)
+      return {end: lineIndex, valueEnd: content.trimEnd().length}
+    }
+  }
+
+  return {end: lines.length - 1, valueEnd: lines.at(-1)?.length ?? 0}
+}
+
+function formatScalar(value: bigint | boolean | number | string, literal: boolean): string {
+  if (typeof value === 'string') {
+    return literal && !/[\n\r']/.test(value) ? `'${value}'` : JSON.stringify(value)
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return 'nan'
+    if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf'
+  }
+
+  return String(value)
+}
+
+function formatValue(value: TomlValue, previous?: PairEntry): string {
+  const literal = previous?.value.startsWith("'") ?? false
+  if (!Array.isArray(value)) return formatScalar(value, literal)
+
+  const itemLiteral = /^\[\s*'/.test(previous?.value ?? '')
+  const items = value.map((item) => (Array.isArray(item) ? formatValue(item) : formatScalar(item, itemLiteral)))
+
+  // Keep arrays that were written one item per line in that layout.
+  const previousLines = previous?.value.split('\n') ?? []
+  if (previousLines.length > 1 && items.length > 0) {
+    const itemIndent = previousLines[1].match(/^\s*/)?.[0] ?? '  '
+    const closingIndent = previousLines.at(-1)?.match(/^\s*/)?.[0] ?? ''
+    return `[\n${items.map((item) => `${itemIndent}${item},`).join('\n')}\n${closingIndent}]`
+  }
+
+  return `[${items.join(', ')}]`
+}
+
+/**
+ * An editable TOML document that changes individual keys in place. Comments, blank lines, key order
+ * and the quoting of edited values are kept, so files such as config.toml can be updated without
+ * losing their annotations.
+ */
+export class TomlDocument {
+  private entries: Entry[] = []
+
+  private constructor(
+    private readonly eol: string,
+    private readonly filePath?: string,
+  ) {}
+
+  /**
+   * Reads and parses a TOML file.
+   * @param filePath - Path to the file; save() writes back to it.
+   * @returns The document.
+   */
+  static load(filePath: string): TomlDocument {
+    return TomlDocument.parse(fs.readFileSync(filePath, 'utf8'), filePath)
+  }
+
+  /**
+   * Parses TOML text.
+   * @param text - The TOML source.
+   * @param filePath - Optional path that save() writes back to.
+   * @returns The document.
+   */
+  static parse(text: string, filePath?: string): TomlDocument {
+    // Fail early on invalid TOML rather than editing something we do not understand.
+    iarnaToml.parse(text)
+
+    const eol = text.includes('\r\n') ? '\r\n' : '\n'
+    const document = new TomlDocument(eol, filePath)
+    const lines = text.split(/\r?\n/)
+    let section = ''
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      const header = HEADER_PATTERN.exec(line)
+      const pair = KEY_PATTERN.exec(line)
+
+      if (line.trim().startsWith('[[')) {
+        // Arrays of tables are kept verbatim; their keys get a section name that set() never matches.
+        section = line.trim()
+        document.entries.push({kind: 'header', lines: [line], name: section})
+      } else if (header) {
+        section = normalizeTableName(header[1])
+        document.entries.push({kind: 'header', lines: [line], name: section})
+      } else if (pair) {
+        const prefix = pair[0]
+        const {end, valueEnd} = scanValue(lines, i, prefix.length)
+        const valueLines = lines.slice(i, end + 1)
+        const joined = valueLines.join('\n')
+        const lastLineStart = joined.length - valueLines.at(-1)!.length
+        document.entries.push({
+          key: unquoteKey(pair[2]),
+          kind: 'pair',
+          lines: valueLines,
+          prefix,
+          section,
+          suffix: joined.slice(lastLineStart + valueEnd),
+          value: joined.slice(prefix.length, lastLineStart + valueEnd),
+        })
+        i = end
+      } else {
+        document.entries.push({kind: 'trivia', lines: [line]})
+      }
+    }
+
+    return document
+  }
+
+  /**
+   * Removes a key. Comments around it are left in place.
+   * @param section - Dotted table name, e.g. "sequencer.sequencer-1", or "" for top-level keys.
+   * @param key - The key within the table.
+   * @returns Whether the key existed.
+   */
+  delete(section: string, key: string): boolean {
+    const index = this.findPair(section, key)
+    if (index === -1) return false
+    this.entries.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Removes a table header and the keys under it. Sub-tables (e.g. [sequencer.sequencer-1] for
+   * [sequencer]) are separate tables and are not removed.
+   * @param section - Dotted table name.
+   * @returns Whether the table existed.
+   */
+  deleteSection(section: string): boolean {
+    const start = this.entries.findIndex((entry) => entry.kind === 'header' && entry.name === section)
+    if (start === -1) return false
+
+    let end = start
+    for (let i = start + 1; i < this.entries.length && this.entries[i].kind !== 'header'; i++) {
+      if (this.entries[i].kind === 'pair') end = i
+    }
+
+    this.entries.splice(start, end - start + 1)
+
+    // Avoid leaving a double blank line where the table used to be.
+    if (this.isBlank(start - 1) && this.isBlank(start)) this.entries.splice(start, 1)
+    return true
+  }
+
+  /**
+   * Reads a value.
+   * @param section - Dotted table name, or "" for top-level keys.
+   * @param key - The key within the table.
+   * @returns The parsed value, or undefined when the key is not set.
+   */
+  get(section: string, key: string): unknown {
+    const index = this.findPair(section, key)
+    if (index === -1) return undefined
+    const entry = this.entries[index] as PairEntry
+    return iarnaToml.parse(`value = ${entry.value}`).value
+  }
+
+  /**
+   * Lists the keys set directly in a table, in file order.
+   * @param section - Dotted table name, or "" for top-level keys.
+   * @returns The key names.
+   */
+  keys(section: string): string[] {
+    return this.entries
+      .filter((entry): entry is PairEntry => entry.kind === 'pair' && entry.section === section)
+      .map((entry) => entry.key)
+  }
+
+  /**
+   * Writes the document back to a file.
+   * @param filePath - Target path, defaults to the file the document was loaded from.
+   * @returns Nothing; the file is written synchronously.
+   */
+  save(filePath = this.filePath): void {
+    if (!filePath) throw new Error('TomlDocument.save() needs a file path for documents that were not loaded from disk')
+    fs.writeFileSync(filePath, this.toString())
+  }
+
+  /**
+   * Lists the table headers in file order.
+   * @returns The dotted table names.
+   */
+  sections(): string[] {
+    return this.entries.filter((entry): entry is HeaderEntry => entry.kind === 'header').map((entry) => entry.name)
+  }
+
+  /**
+   * Sets a value, replacing it in place when the key exists. New keys are added after the last key of
+   * their table, and new tables after their parent table (or at the end of the file).
+   * @param section - Dotted table name, or "" for top-level keys.
+   * @param key - The key within the table.
+   * @param value - The new value.
+   * @returns The document, for chaining.
+   */
+  set(section: string, key: string, value: TomlValue): this {
+    const index = this.findPair(section, key)
+
+    if (index !== -1) {
+      const entry = this.entries[index] as PairEntry
+      const formatted = formatValue(value, entry)
+      entry.value = formatted
+      entry.lines = `${entry.prefix}${formatted}${entry.suffix}`.split('\n')
+      return this
+    }
+
+    const insertAt = this.ensureSection(section)
+    const previous = this.entries[insertAt - 1]
+    const indent = previous?.kind === 'pair' ? (previous.prefix.match(/^\s*/)?.[0] ?? '') : ''
+    const prefix = `${indent}${formatKey(key)} = `
+    const formatted = formatValue(value)
+    this.entries.splice(insertAt, 0, {
+      key,
+      kind: 'pair',
+      lines: `${prefix}${formatted}`.split('\n'),
+      prefix,
+      section,
+      suffix: '',
+      value: formatted,
+    })
+    return this
+  }
+
+  /**
+   * Sets several keys of one table at once.
+   * @param section - Dotted table name, or "" for top-level keys.
+   * @param values - Keys and values to set, in the order new keys should be added.
+   * @returns The document, for chaining.
+   */
+  setAll(section: string, values: Record<string, TomlValue>): this {
+    for (const [key, value] of Object.entries(values)) {
+      this.set(section, key, value)
+    }
+
+    return this
+  }
+
+  toString(): string {
+    return this.entries.flatMap((entry) => entry.lines).join(this.eol)
+  }
+
+  // Index just after the last key of `family` or any of its sub-tables, or the end of the file when the
+  // family does not exist.
+  private endOfFamily(family: string | undefined): number {
+    if (family === undefined) return this.trimmedLength()
+
+    const inFamily = (name: string) => name === family || name.startsWith(`${family}.`)
+    let last = -1
+    for (const [index, entry] of this.entries.entries()) {
+      if ((entry.kind === 'header' && inFamily(entry.name)) || (entry.kind === 'pair' && inFamily(entry.section))) {
+        last = index
+      }
+    }
+
+    return last === -1 ? this.trimmedLength() : last + 1
+  }
+
+  // Returns the entry index at which a new key for `section` should be inserted, adding the table header
+  // first when the table does not exist yet.
+  private ensureSection(section: string): number {
+    const members = this.entries
+      .map((entry, index) => ({entry, index}))
+      .filter(
+        ({entry}) =>
+          (entry.kind === 'pair' && entry.section === section) || (entry.kind === 'header' && entry.name === section),
+      )
+    if (members.length > 0) return members.at(-1)!.index + 1
+
+    if (section === '') {
+      const firstHeader = this.entries.findIndex((entry) => entry.kind === 'header')
+      if (firstHeader === -1) return this.trimmedLength()
+      this.entries.splice(firstHeader, 0, {kind: 'trivia', lines: ['']})
+      return firstHeader
+    }
+
+    // Place new tables after the tables that share their parent, e.g. [sequencer.sequencer-2] after
+    // [sequencer.sequencer-1], and a parent before its first existing sub-table.
+    const parent = section.includes('.') ? section.slice(0, section.lastIndexOf('.')) : undefined
+    const firstChild = this.entries.findIndex(
+      (entry) => entry.kind === 'header' && entry.name.startsWith(`${section}.`),
+    )
+    let at = firstChild === -1 ? this.endOfFamily(parent) : firstChild
+
+    const header: HeaderEntry = {kind: 'header', lines: [`[${formatTableName(section)}]`], name: section}
+    const block: Entry[] = [header]
+    if (at > 0 && !this.isBlank(at - 1)) block.unshift({kind: 'trivia', lines: ['']})
+    if (at < this.entries.length && this.entries[at].kind === 'header') {
+      block.push({kind: 'trivia', lines: ['']})
+    }
+
+    this.entries.splice(at, 0, ...block)
+    at += block.indexOf(header) + 1
+    return at
+  }
+
+  private findPair(section: string, key: string): number {
+    return this.entries.findIndex((entry) => entry.kind === 'pair' && entry.section === section && entry.key === key)
+  }
+
+  private isBlank(index: number): boolean {
+    const entry = this.entries[index]
+    return entry?.kind === 'trivia' && entry.lines[0].trim() === ''
+  }
+
+  // Entry count excluding the trailing blank lines, so appended content stays before the final newline.
+  private trimmedLength(): number {
+    let {length} = this.entries
+    while (length > 0 && this.isBlank(length - 1)) length--
+    return length
+  }
+}
@@ -0,0 +1,144 @@
+import {Contract, ContractRunner, ContractTransactionResponse, JsonRpcProvider} from 'ethers'
+
+import {ContractsConfig} from './config-schema.js'
+import {
+  ClaimInfo,
+  SentMessageScan,
+  computeMessageHash,
+  getWithdrawalClaimFromChain,
+  getWithdrawals,
+  l1MessengerRelayMessageWithProofABI,
+} from './onchain/index.js'
+
+export interface WithdrawalClaimSources {
+  /** bridge-history-api, asked first. Optional: proofs can be built from chain data. */
+  bridgeApiUrl?: string
+  contracts: ContractsConfig
+  l1Provider: JsonRpcProvider
+  l2Provider: JsonRpcProvider
+  /** The L2 messages read by earlier proofs. Pass the same scan between poll attempts to only read new blocks. */
+  messageScan?: SentMessageScan
+}
+
+export interface WithdrawalClaim {
+  /** What is needed to claim the withdrawal; null until its batch is finalized. */
+  claimInfo: ClaimInfo | null
+  /** Whether bridge-history-api has indexed the withdrawal. */
+  indexed: boolean
+  /** The L1 transaction that claimed the withdrawal, when bridge-history-api knows it. */
+  l1ClaimTx?: string
+  source: 'L2 messages' | 'bridge-history-api'
+}
+
+export class WithdrawalClaimError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WithdrawalClaimError'
+  }
+}
+
+function requireContract(contracts: ContractsConfig, name: string): string {
+  const address = contracts[name]
+  if (!address) throw new WithdrawalClaimError(`Missing ${name} in config-contracts.toml`)
+  return address
+}
+
+/**
+ * Finds the claim of a withdrawal: from bridge-history-api when it has one, otherwise by proving the withdrawal from
+ * the L2 messages and the withdraw root of the last finalized batch. The API can lag finalization, so a withdrawal it
+ * has indexed without a claim is proven from chain data too.
+ * @param l2TxHash - The hash of the L2 withdrawal transaction.
+ * @param sources - Providers, contract addresses and bridge-history-api.
+ * @param onWarning - Told when bridge-history-api cannot be reached, before falling back to chain data.
+ * @returns The claim, its claim info null while the withdrawal is not finalized.
+ * @throws An error if the proof cannot be built from chain data.
+ */
+export async function findWithdrawalClaim(
+  l2TxHash: string,
+  sources: WithdrawalClaimSources,
+  onWarning: (message: string) => void = () => {},
+): Promise<WithdrawalClaim> {
+  let indexed = false
+
+  if (sources.bridgeApiUrl) {
+    try {
+      // bridge-history-api lists withdrawals by sender
+      const receipt = await sources.l2Provider.getTransactionReceipt(l2TxHash)
+      const withdrawals = receipt ? await getWithdrawals(receipt.from, sources.bridgeApiUrl) : []
+      const withdrawal = withdrawals.find(({hash}) => hash.toLowerCase() === l2TxHash.toLowerCase())
+      indexed = Boolean(withdrawal)
+
+      // A claimed withdrawal needs no proof, and bridge-history-api does not always keep its claim info
+      if (withdrawal?.claim_info || withdrawal?.counterpart_chain_tx.hash) {
+        return {
+          claimInfo: withdrawal.claim_info,
+          indexed,
+          l1ClaimTx: withdrawal.counterpart_chain_tx.hash || undefined,
+          source: 'bridge-history-api',
+        }
+      }
+    } catch (error) {
+      onWarning(
+        `Failed to get withdrawals from ${sources.bridgeApiUrl}: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+  }
+
+  // bridge-history-api may be down or behind the chain, so also try proving the withdrawal ourselves
+  const claimInfo = await getWithdrawalClaimFromChain(
+    l2TxHash,
+    sources.l1Provider,
+    sources.l2Provider,
+    requireContract(sources.contracts, 'L2_SCROLL_MESSENGER_PROXY_ADDR'),
+    requireContract(sources.contracts, 'L1_SCROLL_CHAIN_PROXY_ADDR'),
+    sources.messageScan,
+  )
+  return {claimInfo, indexed, source: 'L2 messages'}
+}
+
+/**
+ * Checks whether the message of a withdrawal was already relayed on L1, which claim info built from chain data does
+ * not tell.
+ * @param claimInfo - The claim of the withdrawal.
+ * @param contracts - The contract addresses.
+ * @param l1 - A provider or signer on L1.
+ * @returns Whether the withdrawal was claimed.
+ */
+export async function isWithdrawalClaimed(
+  claimInfo: ClaimInfo,
+  contracts: ContractsConfig,
+  l1: ContractRunner,
+): Promise<boolean> {
+  const l1Messenger = new Contract(
+    requireContract(contracts, 'L1_SCROLL_MESSENGER_PROXY_ADDR'),
+    ['function isL2MessageExecuted(bytes32) view returns (bool)'],
+    l1,
+  )
+  const {from, message, nonce, to, value} = claimInfo
+  return l1Messenger.isL2MessageExecuted(computeMessageHash(from, to, value, nonce, message))
+}
+
+/**
+ * Claims a withdrawal by relaying its message with its proof through the L1 messenger. Anyone can claim; the signer
+ * only pays for gas, and the funds go to the recipient of the withdrawal.
+ * @param claimInfo - The claim of the withdrawal.
+ * @param contracts - The contract addresses.
+ * @param signer - The L1 signer sending relayMessageWithProof.
+ * @returns The sent transaction.
+ */
+export async function claimWithdrawal(
+  claimInfo: ClaimInfo,
+  contracts: ContractsConfig,
+  signer: ContractRunner,
+): Promise<ContractTransactionResponse> {
+  const l1Messenger = new Contract(
+    requireContract(contracts, 'L1_SCROLL_MESSENGER_PROXY_ADDR'),
+    l1MessengerRelayMessageWithProofABI,
+    signer,
+  )
+  const {from, message, nonce, proof, to, value} = claimInfo
+  return l1Messenger.relayMessageWithProof(from, to, value, nonce, message, {
+    batchIndex: proof.batch_index,
+    merkleProof: proof.merkle_proof,
+  })
+}
@@ -0,0 +1,112 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {getAddress} from 'ethers'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import {contracts, isDeployedInMode} from '../../../src/data/contracts.js'
+
+const DEPLOYER_ADDR = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const DEPLOYER_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+describe('config:validate', () => {
+  let dir: string
+  let configPath: string
+  let contractsPath: string
+
+  const writeConfig = (contents: string) => fs.writeFileSync(configPath, contents)
+
+  const run = async (...args: string[]) => {
+    const result = await runCommand(['config:validate', '-c', configPath, '-n', contractsPath, '--json', ...args])
+    const {exitCode} = process
+    process.exitCode = undefined
+    return {exitCode, report: JSON.parse(result.stdout)}
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-validate-'))
+    configPath = path.join(dir, 'config.toml')
+    contractsPath = path.join(dir, 'config-contracts.toml')
+
+    const addresses = contracts
+      .filter((contract) => isDeployedInMode(contract, false))
+      .map((contract, i) => `${contract.name} = "${getAddress(`0x${(i + 1).toString(16).padStart(40, '0')}`)}"`)
+    fs.writeFileSync(contractsPath, addresses.join('\n') + '\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('passes a consistent configuration', async () => {
+    writeConfig(`
+[accounts]
+DEPLOYER_ADDR = "${DEPLOYER_ADDR}"
+DEPLOYER_PRIVATE_KEY = "${DEPLOYER_PRIVATE_KEY}"
+
+[frontend]
+EXTERNAL_RPC_URI_L2 = "https://l2-rpc.scrollsdk"
+
+[ingress]
+RPC_GATEWAY_HOST = "l2-rpc.scrollsdk"
+`)
+
+    const {exitCode, report} = await run()
+
+    expect(report).to.include({errors: 0, valid: true, warnings: 0})
+    expect(exitCode).to.not.equal(1)
+  })
+
+  it('reports cross-field problems and exits non-zero', async () => {
+    writeConfig(`
+[accounts]
+DEPLOYER_ADDR = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+DEPLOYER_PRIVATE_KEY = "${DEPLOYER_PRIVATE_KEY}"
+
+[frontend]
+EXTERNAL_RPC_URI_L2 = "https://rpc.example.com"
+
+[ingress]
+RPC_GATEWAY_HOST = "l2-rpc.scrollsdk"
+`)
+    fs.appendFileSync(contractsPath, 'L1_FEE_VAULT_ADDR = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8"\n')
+
+    const {exitCode, report} = await run()
+    const [configIssues, contractsIssues] = report.files.map((file: {issues: {key: string}[]}) =>
+      file.issues.map((issue) => issue.key),
+    )
+
+    expect(report.valid).to.be.false
+    expect(exitCode).to.equal(1)
+    expect(configIssues).to.deep.equal(['accounts.DEPLOYER_ADDR', 'frontend.EXTERNAL_RPC_URI_L2'])
+    expect(contractsIssues).to.deep.equal(['L1_FEE_VAULT_ADDR'])
+  })
+
+  it('reports contracts missing for the gas token mode', async () => {
+    writeConfig('[gas-token]\nALTERNATIVE_GAS_TOKEN_ENABLED = true\n')
+
+    const {report} = await run()
+    const missing = report.files[1].issues.map((issue: {key: string}) => issue.key)
+
+    expect(missing).to.include('L1_GAS_TOKEN_ADDR')
+    expect(missing).to.not.include('L1_ETH_GATEWAY_PROXY_ADDR')
+  })
+
+  it('rejects addresses that are not checksummed', async () => {
+    writeConfig(`[accounts]\nDEPLOYER_ADDR = "${DEPLOYER_ADDR.toLowerCase()}"\n`)
+
+    const {exitCode, report} = await run()
+
+    expect(report).to.include({errors: 1, valid: false})
+    expect(report.files[0].issues[0]).to.include({key: 'accounts.DEPLOYER_ADDR', severity: 'error'})
+    expect(exitCode).to.equal(1)
+  })
+
+  it('fails on warnings with --strict', async () => {
+    writeConfig('[general]\nSOME_NEW_SETTING = "value"\n')
+
+    expect((await run()).report.valid).to.be.true
+    expect((await run('--strict')).report.valid).to.be.false
+  })
+})
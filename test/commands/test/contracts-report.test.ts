@@ -0,0 +1,329 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import {AbiCoder, Interface, getAddress, id, zeroPadValue} from 'ethers'
+import fs from 'node:fs'
+import http from 'node:http'
+import {AddressInfo} from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+
+import {
+  contracts,
+  implementationNameOf,
+  isDeployedInMode,
+  isProxy,
+  proxyAdminNameOf,
+} from '../../../src/data/contracts.js'
+import {EIP1967_ADMIN_SLOT, EIP1967_IMPLEMENTATION_SLOT, MULTICALL3_ADDRESS} from '../../../src/utils/onchain/index.js'
+
+const OWNER_ADDR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const L1_FEE_VAULT_ADDR = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+const L1_COMMIT_SENDER_ADDR = '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+const L1_FINALIZE_SENDER_ADDR = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65'
+
+const addressOf = (i: number) => getAddress(`0x${(i + 1).toString(16).padStart(40, '0')}`)
+
+type RpcRequest = {id: number; method: string; params: unknown[]}
+
+type ChainState = {
+  // ABI-encoded results of view calls, keyed by "<address>:<selector>"; anything else returns OWNER_ADDR.
+  calls: Map<string, string>
+  // Methods of every request received, including the calls aggregated through Multicall3.
+  requests: string[]
+  // Storage words keyed by "<address>:<slot>"; anything else reads as 1.
+  storage: Map<string, string>
+  undeployed: Set<string>
+}
+
+const selector = (signature: string) => id(signature).slice(0, 10)
+const returns = (type: 'address' | 'bool', value: boolean | string) =>
+  AbiCoder.defaultAbiCoder().encode([type], [value])
+
+const multicall3 = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+])
+
+// Minimal JSON-RPC node serving a fixed chain state.
+function startRpc({calls, requests, storage, undeployed}: ChainState): Promise<http.Server> {
+  const call = (to: string, data: string) => {
+    requests.push('call')
+    return calls.get(`${to.toLowerCase()}:${data.slice(0, 10)}`) ?? returns('address', OWNER_ADDR)
+  }
+
+  const result = ({method, params}: RpcRequest): string | undefined => {
+    requests.push(method)
+    switch (method) {
+      case 'eth_call': {
+        const {data, to} = params[0] as {data: string; to: string}
+        if (to.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) return call(to, data)
+
+        const [aggregated] = multicall3.decodeFunctionData('aggregate3', data)
+        return multicall3.encodeFunctionResult('aggregate3', [
+          aggregated.map(([target, , callData]: string[]) => [true, call(target, callData)]),
+        ])
+      }
+
+      case 'eth_chainId': {
+        return '0x1'
+      }
+
+      case 'eth_getCode': {
+        return undeployed.has(String(params[0]).toLowerCase()) ? '0x' : '0x6080'
+      }
+
+      case 'eth_getStorageAt': {
+        const key = `${String(params[0]).toLowerCase()}:${BigInt(String(params[1]))}`
+        return zeroPadValue(storage.get(key) ?? '0x01', 32)
+      }
+    }
+  }
+
+  const answer = (request: RpcRequest) => ({id: request.id, jsonrpc: '2.0', result: result(request)})
+
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      const request = JSON.parse(body)
+      res.setHeader('content-type', 'application/json')
+      res.end(JSON.stringify(Array.isArray(request) ? request.map((r) => answer(r)) : answer(request)))
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+describe('test:contracts --json', () => {
+  let dir: string
+  let requests: string[]
+  let server: http.Server
+  let undeployed: Set<string>
+
+  const deployed = contracts.filter((contract) => isDeployedInMode(contract, false))
+  const addresses = Object.fromEntries(deployed.map((contract, i) => [contract.name, addressOf(i)]))
+  const undeployedName = 'L1_WHITELIST_ADDR'
+  const placeholderName = 'L1_MESSAGE_QUEUE_PROXY_ADDR'
+
+  const run = async (...args: string[]) => {
+    const {stdout} = await runCommand([
+      'test:contracts',
+      '-c',
+      path.join(dir, 'config.toml'),
+      '-n',
+      path.join(dir, 'config-contracts.toml'),
+      ...args,
+    ])
+    const {exitCode} = process
+    process.exitCode = undefined
+    return {exitCode, stdout}
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-contracts-'))
+
+    // Every proxy points at its implementation, except one left on the placeholder.
+    const storage = new Map<string, string>()
+    for (const proxy of deployed.filter((contract) => isProxy(contract))) {
+      const implementation =
+        proxy.name === placeholderName
+          ? addresses.L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR
+          : addresses[implementationNameOf(proxy)!]
+      const address = addresses[proxy.name].toLowerCase()
+      storage.set(`${address}:${BigInt(EIP1967_IMPLEMENTATION_SLOT)}`, implementation)
+      storage.set(`${address}:${BigInt(EIP1967_ADMIN_SLOT)}`, addresses[proxyAdminNameOf(proxy.layer)])
+    }
+
+    // Every reference holds its expected contract, except the L1 router's ETH gateway.
+    const calls = new Map<string, string>()
+    for (const contract of deployed) {
+      for (const {expected, getter} of contract.references ?? []) {
+        if (addresses[expected])
+          calls.set(
+            `${addresses[contract.name].toLowerCase()}:${selector(`${getter}()`)}`,
+            returns('address', addresses[expected]),
+          )
+      }
+    }
+
+    calls.set(
+      `${addresses.L1_GATEWAY_ROUTER_PROXY_ADDR.toLowerCase()}:${selector('ethGateway()')}`,
+      returns('address', addresses.L1_WETH_GATEWAY_PROXY_ADDR),
+    )
+
+    // Every role is granted; the L2 fee vault's recipient is left on OWNER_ADDR instead of L1_FEE_VAULT_ADDR.
+    const scrollChain = addresses.L1_SCROLL_CHAIN_PROXY_ADDR.toLowerCase()
+    calls.set(`${scrollChain}:${selector('isSequencer(address)')}`, returns('bool', true))
+    calls.set(`${scrollChain}:${selector('isProver(address)')}`, returns('bool', true))
+    for (const whitelist of [addresses.L1_WHITELIST_ADDR, addresses.L2_WHITELIST_ADDR]) {
+      calls.set(`${whitelist.toLowerCase()}:${selector('isSenderAllowed(address)')}`, returns('bool', true))
+    }
+
+    requests = []
+    undeployed = new Set([addresses[undeployedName].toLowerCase()])
+    server = await startRpc({calls, requests, storage, undeployed})
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    fs.writeFileSync(
+      path.join(dir, 'config.toml'),
+      `[accounts]
+OWNER_ADDR = "${OWNER_ADDR}"
+L1_COMMIT_SENDER_ADDR = "${L1_COMMIT_SENDER_ADDR}"
+L1_FINALIZE_SENDER_ADDR = "${L1_FINALIZE_SENDER_ADDR}"
+L1_GAS_ORACLE_SENDER_ADDR = "${OWNER_ADDR}"
+L2_GAS_ORACLE_SENDER_ADDR = "${OWNER_ADDR}"
+
+[contracts]
+L1_FEE_VAULT_ADDR = "${L1_FEE_VAULT_ADDR}"
+
+[frontend]
+EXTERNAL_RPC_URI_L1 = "${url}"
+EXTERNAL_RPC_URI_L2 = "${url}"
+EXTERNAL_EXPLORER_URI_L1 = "http://l1-explorer.scrollsdk"
+EXTERNAL_EXPLORER_URI_L2 = "http://blockscout.scrollsdk"
+`,
+    )
+    fs.writeFileSync(
+      path.join(dir, 'config-contracts.toml'),
+      Object.entries(addresses)
+        .map(([name, address]) => `${name} = "${address}"`)
+        .join('\n') + '\n',
+    )
+  })
+
+  afterEach(() => {
+    server.close()
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('reports every contract and exits non-zero when a check fails', async () => {
+    const {exitCode, stdout} = await run('--json')
+
+    const report = JSON.parse(stdout)
+    const byName = Object.fromEntries(report.contracts.map((c: {name: string}) => [c.name, c]))
+
+    expect(exitCode).to.equal(1)
+    expect(report.passed).to.be.false
+    expect(report.contracts).to.have.length(contracts.length)
+    expect(byName[undeployedName]).to.include({deployed: false, passed: false})
+    expect(byName.L1_SCROLL_CHAIN_PROXY_ADDR).to.deep.include({
+      actualOwner: OWNER_ADDR,
+      deployed: true,
+      expectedOwner: OWNER_ADDR,
+      implementation: addresses.L1_SCROLL_CHAIN_IMPLEMENTATION_ADDR,
+      implementationCorrect: true,
+      initialized: true,
+      layer: 'l1',
+      ownerCorrect: true,
+      passed: true,
+      proxyAdmin: addresses.L1_PROXY_ADMIN_ADDR,
+      proxyAdminCorrect: true,
+    })
+    expect(byName.L1_GAS_TOKEN_ADDR).to.include({passed: true, skippedForAltGas: true})
+  })
+
+  it('flags proxies still on the placeholder implementation', async () => {
+    const report = JSON.parse((await run('--json')).stdout)
+    const proxy = report.contracts.find((c: {name: string}) => c.name === placeholderName)
+
+    expect(proxy).to.include({
+      expectedImplementation: addresses.L1_MESSAGE_QUEUE_IMPLEMENTATION_ADDR,
+      implementation: addresses.L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR,
+      implementationCorrect: false,
+      passed: false,
+      proxyAdminCorrect: true,
+    })
+    expect((await run()).stdout).to.contain(
+      `Implementation: ${addresses.L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR} (L1_PROXY_IMPLEMENTATION_PLACEHOLDER_ADDR)`,
+    )
+  })
+
+  it('reports broken references between contracts', async () => {
+    const {exitCode, stdout} = await run()
+    const report = JSON.parse((await run('--json')).stdout)
+    const router = report.contracts.find((c: {name: string}) => c.name === 'L1_GATEWAY_ROUTER_PROXY_ADDR')
+    const messenger = report.contracts.find((c: {name: string}) => c.name === 'L2_SCROLL_MESSENGER_PROXY_ADDR')
+
+    expect(exitCode).to.equal(1)
+    expect(router.passed).to.be.false
+    expect(router.references.filter((r: {ok: boolean}) => !r.ok)).to.deep.equal([
+      {
+        actual: addresses.L1_WETH_GATEWAY_PROXY_ADDR,
+        expected: 'L1_ETH_GATEWAY_PROXY_ADDR',
+        expectedAddress: addresses.L1_ETH_GATEWAY_PROXY_ADDR,
+        getter: 'ethGateway',
+        ok: false,
+      },
+    ])
+    expect(messenger.references.map((r: {getter: string; ok: boolean}) => [r.getter, r.ok])).to.deep.equal([
+      ['counterpart', true],
+      ['messageQueue', true],
+    ])
+    expect(stdout).to.contain(
+      `- L1_GATEWAY_ROUTER_PROXY_ADDR.ethGateway() = ${addresses.L1_WETH_GATEWAY_PROXY_ADDR} (L1_WETH_GATEWAY_PROXY_ADDR), expected`,
+    )
+  })
+
+  it('audits roles against the accounts in config.toml', async () => {
+    const {stdout} = await run()
+    const report = JSON.parse((await run('--json')).stdout)
+    const byName = Object.fromEntries(report.contracts.map((c: {name: string}) => [c.name, c]))
+
+    expect(byName.L1_SCROLL_CHAIN_PROXY_ADDR.roles).to.deep.equal([
+      {
+        account: 'accounts.L1_COMMIT_SENDER_ADDR',
+        accountAddress: L1_COMMIT_SENDER_ADDR,
+        actual: true,
+        check: 'grants',
+        method: 'isSequencer',
+        ok: true,
+      },
+      {
+        account: 'accounts.L1_FINALIZE_SENDER_ADDR',
+        accountAddress: L1_FINALIZE_SENDER_ADDR,
+        actual: true,
+        check: 'grants',
+        method: 'isProver',
+        ok: true,
+      },
+    ])
+    expect(byName.L2_WHITELIST_ADDR).to.include({passed: true})
+    expect(byName.L2_TX_FEE_VAULT_ADDR.passed).to.be.false
+    expect(byName.L2_TX_FEE_VAULT_ADDR.roles).to.deep.equal([
+      {
+        account: 'contracts.L1_FEE_VAULT_ADDR',
+        accountAddress: L1_FEE_VAULT_ADDR,
+        actual: OWNER_ADDR,
+        check: 'returns',
+        method: 'recipient',
+        ok: false,
+      },
+    ])
+    expect(stdout).to.contain(
+      `- L2_TX_FEE_VAULT_ADDR: recipient() = ${OWNER_ADDR}, expected ${L1_FEE_VAULT_ADDR} (contracts.L1_FEE_VAULT_ADDR)`,
+    )
+  })
+
+  it('aggregates view calls through Multicall3 and falls back to plain calls without it', async () => {
+    const aggregated = JSON.parse((await run('--json')).stdout)
+    const aggregatedRequests = requests.filter((method) => method === 'eth_call').length
+    const calls = requests.filter((method) => method === 'call').length
+
+    expect(aggregatedRequests).to.be.lessThan(calls / 10)
+
+    requests.length = 0
+    undeployed.add(MULTICALL3_ADDRESS.toLowerCase())
+    const plain = JSON.parse((await run('--json')).stdout)
+
+    expect(requests.filter((method) => method === 'eth_call')).to.have.length(calls)
+    expect(plain).to.deep.equal(aggregated)
+
+    requests.length = 0
+    undeployed.delete(MULTICALL3_ADDRESS.toLowerCase())
+    expect(JSON.parse((await run('--json', '--no-multicall', '--concurrency', '1')).stdout)).to.deep.equal(aggregated)
+    expect(requests.filter((method) => method === 'eth_call')).to.have.length(calls)
+  })
+})
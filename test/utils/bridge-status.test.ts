@@ -0,0 +1,132 @@
+import {expect} from 'chai'
+import {AbiCoder, Interface, JsonRpcProvider, TransactionReceipt, TransactionRequest} from 'ethers'
+import sinon from 'sinon'
+
+import {BridgeStatusError, traceBridgeTx} from '../../src/utils/bridge-status.js'
+
+const QUEUE = '0x0000000000000000000000000000000000000a11'
+const L2_MESSENGER = '0x0000000000000000000000000000000000000b12'
+const SCROLL_CHAIN = '0x0000000000000000000000000000000000000c11'
+const DEPOSIT_TX = `0x${'d1'.repeat(32)}`
+const L2_TX = `0x${'e2'.repeat(32)}`
+
+const queueInterface = new Interface([
+  'function getCrossDomainMessage(uint256) view returns (bytes32)',
+  'function pendingQueueIndex() view returns (uint256)',
+])
+
+const receipt = (fields: object) => fields as unknown as TransactionReceipt
+
+const depositReceipt = receipt({
+  blockNumber: 10,
+  hash: DEPOSIT_TX,
+  logs: [
+    {
+      address: QUEUE,
+      data: AbiCoder.defaultAbiCoder().encode(['uint256', 'uint64', 'uint256', 'bytes'], [0, 5, 170_000, '0x']),
+      topics: [],
+    },
+  ],
+  status: 1,
+})
+
+function providers() {
+  const l1 = sinon.createStubInstance(JsonRpcProvider)
+  const l2 = sinon.createStubInstance(JsonRpcProvider)
+  l1.getBlock.resolves({timestamp: 1_700_000_000} as never)
+  l2.getBlock.resolves({timestamp: 1_700_000_100} as never)
+  l1.getTransactionReceipt.resolves(null)
+  l2.getTransactionReceipt.resolves(null)
+  return {l1, l2}
+}
+
+describe('traceBridgeTx', () => {
+  afterEach(() => sinon.restore())
+
+  it('traces a deposit through the queue, L2 execution, commit and finalization', async () => {
+    const {l1, l2} = providers()
+    l1.getTransactionReceipt.withArgs(DEPOSIT_TX).resolves(depositReceipt)
+    l1.call.callsFake(async ({data}: TransactionRequest) =>
+      String(data).startsWith(queueInterface.getFunction('pendingQueueIndex')!.selector)
+        ? queueInterface.encodeFunctionResult('pendingQueueIndex', [6])
+        : queueInterface.encodeFunctionResult('getCrossDomainMessage', [L2_TX]),
+    )
+    l2.getTransactionReceipt.withArgs(L2_TX).resolves(receipt({blockNumber: 20, hash: L2_TX, logs: [], status: 1}))
+    l2.send.withArgs('eth_getBlockByNumber', ['finalized', false]).resolves({number: '0x10'})
+
+    const trace = await traceBridgeTx(DEPOSIT_TX, {
+      contracts: {L1_MESSAGE_QUEUE_PROXY_ADDR: QUEUE},
+      l1Provider: l1 as unknown as JsonRpcProvider,
+      l2Provider: l2 as unknown as JsonRpcProvider,
+    })
+
+    expect(trace.direction).to.equal('deposit')
+    expect(trace.stages.map(({status, title}) => `${status} ${title}`)).to.deep.equal([
+      'done Deposit sent on L1',
+      'done Queued in the L1 message queue',
+      'done Executed on L2',
+      'done Included in a committed batch',
+      'pending Batch finalized on L1',
+    ])
+    expect(trace.stages[1].detail).to.equal('queue index 5')
+    expect(trace.stages[2]).to.include({block: 20, timestamp: 1_700_000_100, txHash: L2_TX})
+    expect(trace.stages[4].detail).to.equal('L2 finalized up to block 16')
+  })
+
+  it('rejects transactions that did not bridge anything', async () => {
+    const {l1, l2} = providers()
+    l2.getTransactionReceipt.resolves(receipt({blockNumber: 3, hash: L2_TX, logs: [], status: 0}))
+    const sources = {
+      contracts: {L1_MESSAGE_QUEUE_PROXY_ADDR: QUEUE},
+      l1Provider: l1 as unknown as JsonRpcProvider,
+      l2Provider: l2 as unknown as JsonRpcProvider,
+    }
+
+    const reverted = await traceBridgeTx(L2_TX, sources).catch((error) => error)
+    expect(reverted).to.be.instanceOf(BridgeStatusError)
+    expect(reverted.message).to.equal(`${L2_TX} is an L2 transaction that reverted`)
+
+    l2.getTransactionReceipt.resolves(null)
+    const missing = await traceBridgeTx(L2_TX, sources).catch((error) => error)
+    expect(missing.message).to.equal(`${L2_TX} was not found on L1 or L2; it may not be mined yet`)
+  })
+
+  it('names the stage of a deposit that could not be checked', async () => {
+    const {l1, l2} = providers()
+    l1.getTransactionReceipt.withArgs(DEPOSIT_TX).resolves(depositReceipt)
+    l1.call.resolves(queueInterface.encodeFunctionResult('getCrossDomainMessage', [L2_TX]))
+    l2.getTransactionReceipt.withArgs(L2_TX).rejects(new Error('connect ECONNREFUSED'))
+
+    const error = await traceBridgeTx(DEPOSIT_TX, {
+      contracts: {L1_MESSAGE_QUEUE_PROXY_ADDR: QUEUE},
+      l1Provider: l1 as unknown as JsonRpcProvider,
+      l2Provider: l2 as unknown as JsonRpcProvider,
+    }).catch((error_) => error_)
+
+    expect(error).to.be.instanceOf(BridgeStatusError)
+    expect(error.message).to.equal('Could not check "Executed on L2": connect ECONNREFUSED')
+  })
+
+  it('names the stage of a withdrawal that could not be checked', async () => {
+    const {l1, l2} = providers()
+    const sentMessage = new Interface([
+      'event SentMessage(address indexed sender, address indexed target, uint256 value, uint256 messageNonce, uint256 gasLimit, bytes message)',
+    ]).encodeEventLog('SentMessage', [L2_MESSENGER, L2_MESSENGER, 0, 0, 0, '0x'])
+    l2.getTransactionReceipt.resolves(
+      receipt({blockNumber: 3, from: L2_MESSENGER, hash: L2_TX, logs: [{address: L2_MESSENGER, ...sentMessage}], status: 1}),
+    )
+    // bridge-history-api is down, and so is the L1 RPC the proof falls back to
+    sinon.stub(globalThis, 'fetch').rejects(new TypeError('fetch failed'))
+    l1.call.rejects(new Error('connect ECONNREFUSED'))
+
+    const error = await traceBridgeTx(L2_TX, {
+      bridgeApiUrl: 'http://bridge-history-api',
+      contracts: {L1_SCROLL_CHAIN_PROXY_ADDR: SCROLL_CHAIN, L2_SCROLL_MESSENGER_PROXY_ADDR: L2_MESSENGER},
+      l1Provider: l1 as unknown as JsonRpcProvider,
+      l2Provider: l2 as unknown as JsonRpcProvider,
+    }).catch((error_) => error_)
+
+    expect(error).to.be.instanceOf(BridgeStatusError)
+    expect(error.message).to.equal('Could not check "Claimable on L1": connect ECONNREFUSED')
+  })
+})
@@ -0,0 +1,43 @@
+import {expect} from 'chai'
+import {Interface, JsonRpcProvider, TransactionReceipt, TransactionRequest} from 'ethers'
+import sinon from 'sinon'
+
+import {BridgeError, awaitDepositRelay, estimateDepositFee} from '../../src/utils/bridge.js'
+
+const QUEUE = '0x0000000000000000000000000000000000000a11'
+const L1_TX = `0x${'d1'.repeat(32)}`
+const L2_TX = `0x${'e2'.repeat(32)}`
+
+const messenger = new Interface(['event FailedRelayedMessage(bytes32 indexed messageHash)'])
+const deposit = {fee: 0n, l1Tx: L1_TX, l2TxHash: L2_TX, queueIndex: 5}
+
+describe('bridge', () => {
+  afterEach(() => sinon.restore())
+
+  it('charges the gas limit at the L2 base fee of the gas oracle', async () => {
+    const gasOracle = new Interface(['function l2BaseFee() view returns (uint256)'])
+    const l1 = sinon.createStubInstance(JsonRpcProvider)
+    l1.call.callsFake(async ({to}: TransactionRequest) => {
+      expect(to).to.equal(QUEUE)
+      return gasOracle.encodeFunctionResult('l2BaseFee', [3])
+    })
+
+    const fee = await estimateDepositFee(170_000n, l1 as unknown as JsonRpcProvider, {L1_MESSAGE_QUEUE_PROXY_ADDR: QUEUE})
+    expect(fee).to.equal(510_000n)
+  })
+
+  it('fails when the L2 relay of a deposit reverted its message call', async () => {
+    const l2 = sinon.createStubInstance(JsonRpcProvider)
+    const relay = (topics: string[]) => ({blockNumber: 20, hash: L2_TX, logs: [{topics}], status: 1})
+    l2.getTransactionReceipt.resolves(relay([]) as unknown as TransactionReceipt)
+
+    const receipt = await awaitDepositRelay(deposit, l2 as unknown as JsonRpcProvider)
+    expect(receipt.blockNumber).to.equal(20)
+
+    const failed = messenger.getEvent('FailedRelayedMessage')!.topicHash
+    l2.getTransactionReceipt.resolves(relay([failed, `0x${'00'.repeat(32)}`]) as unknown as TransactionReceipt)
+    const error = await awaitDepositRelay(deposit, l2 as unknown as JsonRpcProvider).catch((error_) => error_)
+    expect(error).to.be.instanceOf(BridgeError)
+    expect(error.message).to.equal(`The L2 relay ${L2_TX} of deposit ${L1_TX} failed; it can be replayed from L1`)
+  })
+})
@@ -0,0 +1,43 @@
+import {expect} from 'chai'
+
+import {ServiceDiscoveryError, ServiceLookup, resolveClusterEndpoints} from '../../src/utils/cluster-services.js'
+
+const noCluster = (): ServiceLookup => {
+  throw new Error('no kubeconfig')
+}
+
+describe('resolveClusterEndpoints', () => {
+  it('prefers the [general] endpoints and looks the other services up', async () => {
+    const looked: string[] = []
+    const lookup: ServiceLookup = async (service) => {
+      looked.push(service)
+      return `http://${service}.scroll.svc.cluster.local:8080`
+    }
+
+    const endpoints = await resolveClusterEndpoints(
+      {L1_RPC_ENDPOINT: 'http://l1.example:8545', ROLLUP_EXPLORER_API_ENDPOINT: ''},
+      ['l1Rpc', 'l2Rpc', 'bridgeHistoryApi', 'rollupExplorerApi'],
+      () => lookup,
+    )
+
+    expect(endpoints).to.deep.equal({
+      bridgeHistoryApi: 'http://bridge-history-api.scroll.svc.cluster.local:8080/api',
+      l1Rpc: 'http://l1.example:8545',
+      l2Rpc: 'http://l2-rpc.scroll.svc.cluster.local:8080',
+      rollupExplorerApi: 'http://rollup-explorer-backend.scroll.svc.cluster.local:8080/api',
+    })
+    expect(looked).to.deep.equal(['l2-rpc', 'bridge-history-api', 'rollup-explorer-backend'])
+  })
+
+  it('only reaches the Kubernetes API when a service is not configured', async () => {
+    expect(await resolveClusterEndpoints({L2_RPC_ENDPOINT: 'http://l2-rpc:8545'}, ['l2Rpc'], noCluster)).to.deep.equal({
+      l2Rpc: 'http://l2-rpc:8545',
+    })
+
+    const error = await resolveClusterEndpoints({}, ['bridgeHistoryApi'], noCluster).catch((error_) => error_)
+    expect(error).to.be.instanceOf(ServiceDiscoveryError)
+    expect(error.message).to.equal(
+      'Could not find the bridge-history-api service (no kubeconfig). Set BRIDGE_HISTORY_API_ENDPOINT in the [general] section of config.toml.',
+    )
+  })
+})
@@ -0,0 +1,136 @@
+import {expect} from 'chai'
+import {JsonRpcProvider, Network, ZeroHash, makeError} from 'ethers'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import sinon from 'sinon'
+
+import {Layer} from '../../src/data/contracts.js'
+import {
+  ContractState,
+  ContractsSnapshot,
+  compareSnapshots,
+  loadSnapshot,
+  takeSnapshot,
+} from '../../src/utils/contracts-snapshot.js'
+import {RpcBatcher} from '../../src/utils/onchain/index.js'
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+
+const state = (overrides: Partial<ContractState> = {}): ContractState => ({
+  address: '0x0000000000000000000000000000000000000001',
+  admin: '0x0000000000000000000000000000000000000002',
+  codeHash: '0x1111111111111111111111111111111111111111111111111111111111111111',
+  implementation: '0x0000000000000000000000000000000000000003',
+  initializedSlot: '0x0000000000000000000000000000000000000000000000000000000000000001',
+  layer: Layer.L1,
+  owner: OWNER,
+  ...overrides,
+})
+
+const snapshot = (contracts: Record<string, ContractState>): ContractsSnapshot => ({
+  chains: {[Layer.L1]: {blockNumber: 100, chainId: '1'}, [Layer.L2]: {blockNumber: 200, chainId: '534352'}},
+  contracts,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  version: 1,
+})
+
+describe('compareSnapshots', () => {
+  it('finds no drift between identical snapshots, ignoring address case', () => {
+    const before = snapshot({L1_SCROLL_CHAIN_PROXY_ADDR: state()})
+    const after = snapshot({L1_SCROLL_CHAIN_PROXY_ADDR: state({owner: OWNER.toLowerCase()})})
+
+    expect(compareSnapshots(before, after)).to.deep.equal([])
+  })
+
+  it('reports upgrades, ownership transfers and added or removed contracts', () => {
+    const upgraded = '0x0000000000000000000000000000000000000004'
+    const before = snapshot({
+      L1_MESSAGE_QUEUE_PROXY_ADDR: state(),
+      L1_SCROLL_CHAIN_PROXY_ADDR: state(),
+    })
+    const after = snapshot({
+      L1_SCROLL_CHAIN_PROXY_ADDR: state({implementation: upgraded, owner: null}),
+      L2_TX_FEE_VAULT_ADDR: state({address: '0x0000000000000000000000000000000000000005', layer: Layer.L2}),
+    })
+
+    expect(compareSnapshots(before, after)).to.deep.equal([
+      {
+        after: null,
+        before: '0x0000000000000000000000000000000000000001',
+        field: 'removed',
+        name: 'L1_MESSAGE_QUEUE_PROXY_ADDR',
+      },
+      {
+        after: upgraded,
+        before: '0x0000000000000000000000000000000000000003',
+        field: 'implementation',
+        name: 'L1_SCROLL_CHAIN_PROXY_ADDR',
+      },
+      {after: null, before: OWNER, field: 'owner', name: 'L1_SCROLL_CHAIN_PROXY_ADDR'},
+      {after: '0x0000000000000000000000000000000000000005', before: null, field: 'added', name: 'L2_TX_FEE_VAULT_ADDR'},
+    ])
+  })
+})
+
+describe('loadSnapshot', () => {
+  it('rejects files of another version', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-snapshot-'))
+    const file = path.join(dir, 'snapshot.json')
+    try {
+      fs.writeFileSync(file, JSON.stringify({...snapshot({}), version: 2}))
+      expect(() => loadSnapshot(file)).to.throw('is not a version 1 contracts snapshot (found version 2)')
+
+      fs.writeFileSync(file, JSON.stringify(snapshot({L1_SCROLL_CHAIN_PROXY_ADDR: state()})))
+      expect(loadSnapshot(file).contracts.L1_SCROLL_CHAIN_PROXY_ADDR).to.deep.equal(state())
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+})
+
+function chain(blockNumber: number) {
+  const provider = sinon.createStubInstance(JsonRpcProvider)
+  provider.getNetwork.resolves(new Network('test', 1))
+  provider.getBlockNumber.resolves(blockNumber)
+  provider.getCode.resolves('0x')
+  provider.getStorage.resolves(ZeroHash)
+  return provider
+}
+
+function batcher(provider: sinon.SinonStubbedInstance<JsonRpcProvider>) {
+  return new RpcBatcher(provider as unknown as JsonRpcProvider, {multicall: false, retries: 0})
+}
+
+describe('takeSnapshot', () => {
+  afterEach(() => sinon.restore())
+
+  it('reads every contract at the recorded block, without an owner when owner() reverts', async () => {
+    const l1 = chain(100)
+    const l2 = chain(200)
+    l1.call.rejects(makeError('execution reverted', 'CALL_EXCEPTION'))
+
+    const taken = await takeSnapshot(
+      {L1_SCROLL_CHAIN_PROXY_ADDR: '0x0000000000000000000000000000000000000001'},
+      {[Layer.L1]: batcher(l1), [Layer.L2]: batcher(l2)},
+    )
+
+    expect(taken.chains[Layer.L1].blockNumber).to.equal(100)
+    expect(taken.contracts.L1_SCROLL_CHAIN_PROXY_ADDR.owner).to.equal(null)
+    expect(l1.getCode.firstCall.args[1]).to.equal(100)
+    for (const {args} of l1.getStorage.getCalls()) expect(args[2]).to.equal(100)
+    expect(l1.call.firstCall.args[0].blockTag).to.equal(100)
+  })
+
+  it('fails instead of recording no owner when the RPC fails', async () => {
+    const l1 = chain(100)
+    l1.call.rejects(new Error('connect ECONNREFUSED'))
+
+    const error = await takeSnapshot(
+      {L1_SCROLL_CHAIN_PROXY_ADDR: '0x0000000000000000000000000000000000000001'},
+      {[Layer.L1]: batcher(l1), [Layer.L2]: batcher(chain(200))},
+    ).catch((error_) => error_)
+
+    expect(error.message).to.equal('connect ECONNREFUSED')
+  })
+})
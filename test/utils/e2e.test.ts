@@ -0,0 +1,390 @@
+import {expect} from 'chai'
+import {FeeData, Interface, JsonRpcProvider, TransactionRequest, Wallet, encryptKeystoreJsonSync} from 'ethers'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import sinon from 'sinon'
+
+import {
+  E2EReport,
+  E2EResumeState,
+  E2ESettingsError,
+  E2EStep,
+  InvalidRunIdError,
+  StepDependencyError,
+  StepRegistry,
+  UnfinishedRunError,
+  UnknownStepError,
+  WalletDecryptionError,
+  assertNoUnfinishedRun,
+  emptyResumeState,
+  findResumeFiles,
+  loadResumeState,
+  renderJUnitReport,
+  resolveE2ESettings,
+  restoreTestWallet,
+  resumeFileForRun,
+  runSteps,
+  runStepsInParallel,
+  saveResumeState,
+  sweepBalance,
+} from '../../src/utils/e2e/index.js'
+import {L1_GAS_PRICE_ORACLE_ADDR} from '../../src/utils/gas-token.js'
+
+type Context = {altGas: boolean; ran: string[]}
+
+const RECIPIENT = '0x0000000000000000000000000000000000000b0b'
+
+const step = (name: string, extra: Partial<E2EStep<Context>> = {}): E2EStep<Context> => ({
+  name,
+  async run(context) {
+    context.ran.push(name)
+    return {tx: `${name}-tx`}
+  },
+  title: name,
+  ...extra,
+})
+
+const registry = () =>
+  new StepRegistry<Context>().register(
+    step('fund'),
+    step('deposit', {dependsOn: ['fund'], outputs: ['tx']}),
+    step('deposit-gas-token', {dependsOn: ['fund'], skipReason: ({altGas}) => (altGas ? undefined : 'alt gas only')}),
+    step('relay-gas-token', {inputs: {tx: 'deposit-gas-token.tx'}}),
+    step('claim', {
+      inputs: {depositTx: 'deposit.tx'},
+      async run(context, {depositTx}) {
+        context.ran.push(`claim ${depositTx}`)
+      },
+    }),
+  )
+
+const actions = (state: E2EResumeState, selection = {}) =>
+  registry()
+    .plan({altGas: false, ran: []}, state, selection)
+    .map(({action, step}) => `${step.name}:${action}`)
+
+describe('StepRegistry', () => {
+  it('skips steps that do not apply, along with their dependents', () => {
+    expect(actions(emptyResumeState())).to.deep.equal([
+      'fund:run',
+      'deposit:run',
+      'deposit-gas-token:skip',
+      'relay-gas-token:skip',
+      'claim:run',
+    ])
+  })
+
+  it('selects steps with --only and --skip, keeping completed dependencies', () => {
+    const state: E2EResumeState = {
+      steps: {
+        deposit: {finishedAt: '', outputs: {tx: '0x1'}, status: 'done'},
+        fund: {finishedAt: '', outputs: {}, status: 'done'},
+      },
+    }
+
+    expect(actions(state, {only: ['claim']})).to.deep.equal([
+      'fund:done',
+      'deposit:done',
+      'deposit-gas-token:skip',
+      'relay-gas-token:skip',
+      'claim:run',
+    ])
+    expect(() => actions(emptyResumeState(), {only: ['claim']})).to.throw(
+      StepDependencyError,
+      '"claim" needs "deposit"',
+    )
+    expect(() => actions(emptyResumeState(), {skip: ['fund']})).to.throw(StepDependencyError, '"deposit" needs "fund"')
+    expect(() => actions(emptyResumeState(), {skip: ['withdraw']})).to.throw(UnknownStepError, 'withdraw')
+  })
+
+  it('rejects steps registered before their dependencies', () => {
+    expect(() => new StepRegistry<Context>().register(step('claim', {inputs: {tx: 'deposit.tx'}}))).to.throw(
+      'depends on "deposit"',
+    )
+  })
+})
+
+describe('runSteps', () => {
+  it('passes outputs on as inputs and records failures', async () => {
+    const context = {altGas: false, ran: []}
+    const state = emptyResumeState()
+    const saved: string[] = []
+    const steps = registry().register(
+      step('withdraw', {
+        async run() {
+          throw new Error('reverted')
+        },
+      }),
+    )
+
+    const error = await runSteps(steps.plan(context, state), context, state, {
+      async save(current) {
+        saved.push(Object.keys(current.steps).join(','))
+      },
+    }).catch((error_) => error_)
+
+    expect(error.message).to.equal('reverted')
+    expect(context.ran).to.deep.equal(['fund', 'deposit', 'claim deposit-tx'])
+    expect(state.steps.withdraw).to.include({error: 'reverted', status: 'failed'})
+    expect(saved).to.have.length(4)
+  })
+
+  it('fails steps that do not return their declared outputs', async () => {
+    const context = {altGas: false, ran: []}
+    const state = emptyResumeState()
+    const steps = new StepRegistry<Context>().register(step('deposit', {outputs: ['tx', 'queueIndex']}))
+
+    const error = await runSteps(steps.plan(context, state), context, state, {async save() {}}).catch(
+      (error_) => error_,
+    )
+    expect(error.message).to.equal('E2E step "deposit" did not produce "queueIndex"')
+  })
+})
+
+describe('runStepsInParallel', () => {
+  it('starts steps once their dependencies complete and runs one interactive step at a time', async () => {
+    const context = {altGas: false, ran: []}
+    const state = emptyResumeState()
+    const events: string[] = []
+    const slow = (name: string, ms: number, extra: Partial<E2EStep<Context>> = {}) =>
+      step(name, {
+        async run() {
+          events.push(`start ${name}`)
+          await new Promise((resolve) => {
+            setTimeout(resolve, ms)
+          })
+          events.push(`end ${name}`)
+          return {tx: `${name}-tx`}
+        },
+        ...extra,
+      })
+    const steps = new StepRegistry<Context>().register(
+      slow('fund', 5, {interactive: true}),
+      slow('deposit-eth', 40, {dependsOn: ['fund']}),
+      slow('deposit-erc20', 10, {dependsOn: ['fund']}),
+      slow('relay-erc20', 10, {inputs: {tx: 'deposit-erc20.tx'}}),
+      slow('fund-l2', 30, {interactive: true}),
+    )
+
+    await runStepsInParallel(steps.plan(context, state), context, state, {async save() {}})
+
+    expect(events).to.deep.equal([
+      'start fund',
+      'end fund',
+      'start deposit-eth',
+      'start deposit-erc20',
+      'start fund-l2',
+      'end deposit-erc20',
+      'start relay-erc20',
+      'end relay-erc20',
+      'end fund-l2',
+      'end deposit-eth',
+    ])
+  })
+
+  it('lets running steps finish after a failure but starts no new ones', async () => {
+    const context = {altGas: false, ran: []}
+    const state = emptyResumeState()
+    const steps = new StepRegistry<Context>().register(
+      step('deposit', {
+        async run(context) {
+          await new Promise((resolve) => {
+            setTimeout(resolve, 10)
+          })
+          context.ran.push('deposit')
+        },
+      }),
+      step('withdraw', {
+        async run() {
+          throw new Error('reverted')
+        },
+      }),
+      step('claim', {dependsOn: ['withdraw']}),
+      step('report', {dependsOn: ['deposit']}),
+    )
+
+    const error = await runStepsInParallel(steps.plan(context, state), context, state, {async save() {}}).catch(
+      (error_) => error_,
+    )
+
+    expect(error.message).to.equal('reverted')
+    expect(context.ran).to.deep.equal(['deposit'])
+    expect(Object.keys(state.steps)).to.have.members(['deposit', 'withdraw'])
+  })
+})
+
+describe('E2EReport', () => {
+  it('records outcomes and transactions, and reports steps that never started as skipped', async () => {
+    const context = {altGas: false, ran: []}
+    const state = emptyResumeState()
+    const steps = registry().register(
+      step('withdraw', {
+        async run() {
+          report.addTransaction('withdraw', {description: 'Withdrawal sent', hash: '0x2', layer: 'l2', link: '0x2'})
+          throw new Error('\u001B[31mreverted\u001B[39m: <out of gas>')
+        },
+      }),
+      step('claim-withdrawal', {dependsOn: ['withdraw']}),
+    )
+    const plan = steps.plan(context, state)
+    const report = new E2EReport(plan)
+
+    await runSteps(plan, context, state, report.record({async save() {}})).catch(() => {})
+
+    const data = report.toJSON()
+    expect(data.summary).to.deep.equal({failed: 1, passed: 3, skipped: 3})
+    expect(data.steps.find(({name}) => name === 'claim-withdrawal')).to.include({
+      reason: 'not started because an earlier step failed',
+      status: 'skipped',
+    })
+    expect(data.steps.find(({name}) => name === 'withdraw')?.transactions).to.have.length(1)
+
+    const xml = renderJUnitReport(data)
+    expect(xml).to.contain('<testsuites name="scroll-sdk e2e" tests="7" failures="1" skipped="3"')
+    expect(xml).to.contain('<failure message="reverted: &lt;out of gas&gt;"/>')
+    expect(xml).to.contain('L2 Withdrawal sent: 0x2')
+  })
+})
+
+describe('resume state', () => {
+  it('round-trips bigints and rejects files without steps', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-e2e-'))
+    const file = path.join(dir, 'e2e_resume.json')
+    try {
+      await saveResumeState(file, {steps: {deposit: {finishedAt: '', outputs: {amount: 10n}, status: 'done'}}})
+      expect((await loadResumeState(file)).steps.deposit.outputs.amount).to.equal(10n)
+
+      fs.writeFileSync(file, JSON.stringify({timestamp: 'then'}))
+      const error = await loadResumeState(file).catch((error_) => error_)
+      expect(error.message).to.contain('missing steps')
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+
+  it('migrates the wallet of legacy files, whose steps run again', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-e2e-'))
+    const file = path.join(dir, 'e2e_resume.json')
+    const wallet = Wallet.createRandom()
+    try {
+      const results = {deployERC20OnL1: {complete: true}, fundWalletOnL1: {complete: true, generatedPrivateKey: wallet.privateKey}}
+      fs.writeFileSync(file, JSON.stringify({results, timestamp: 'then'}))
+      expect(await loadResumeState(file)).to.deep.equal({
+        steps: {},
+        timestamp: 'then',
+        wallet: {address: wallet.address, generatedPrivateKey: wallet.privateKey},
+      })
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+})
+
+const noPassphrase = async (): Promise<string> => {
+  throw new Error('not encrypted')
+}
+
+describe('runs', () => {
+  it('keeps each run in its own resume file', async () => {
+    expect(resumeFileForRun()).to.equal('e2e_resume.json')
+    expect(resumeFileForRun('nightly-1')).to.equal('e2e_resume.nightly-1.json')
+    expect(() => resumeFileForRun('../x')).to.throw(InvalidRunIdError)
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-e2e-'))
+    try {
+      for (const file of ['e2e_resume.nightly.json', 'e2e_resume.json', 'e2e_report.json', 'e2e_resume.json.bak']) {
+        fs.writeFileSync(path.join(dir, file), '{}')
+      }
+
+      expect(await findResumeFiles(dir)).to.deep.equal([
+        {file: path.join(dir, 'e2e_resume.json'), runId: undefined},
+        {file: path.join(dir, 'e2e_resume.nightly.json'), runId: 'nightly'},
+      ])
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+
+  it('only lets a new run overwrite the resume file of a completed run', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-e2e-'))
+    const file = path.join(dir, 'e2e_resume.json')
+    try {
+      await assertNoUnfinishedRun(file)
+
+      await saveResumeState(file, {steps: {}, wallet: {address: Wallet.createRandom().address, keystore: '{}'}})
+      expect(await assertNoUnfinishedRun(file).catch((error) => error)).to.be.instanceOf(UnfinishedRunError)
+
+      fs.writeFileSync(file, '{')
+      expect(await assertNoUnfinishedRun(file).catch((error) => error)).to.be.instanceOf(UnfinishedRunError)
+
+      await saveResumeState(file, {completedAt: 'then', steps: {}})
+      await assertNoUnfinishedRun(file)
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+
+  it('restores the test wallet from its keystore, or the plaintext key of legacy files', async () => {
+    const wallet = new Wallet(Wallet.createRandom().privateKey)
+    // A cheap scrypt setting keeps the test fast; the work factor is read back from the keystore
+    const keystore = encryptKeystoreJsonSync(wallet, 'secret', {scrypt: {N: 16}})
+    const restored = await restoreTestWallet({address: wallet.address, keystore}, async () => 'secret')
+    expect(restored?.privateKey).to.equal(wallet.privateKey)
+    const error = await restoreTestWallet({address: wallet.address, keystore}, async () => 'wrong').catch(
+      (error_) => error_,
+    )
+    expect(error).to.be.instanceOf(WalletDecryptionError)
+
+    const legacy = {address: wallet.address, generatedPrivateKey: wallet.privateKey}
+    expect((await restoreTestWallet(legacy, noPassphrase))?.address).to.equal(wallet.address)
+    expect(await restoreTestWallet({address: wallet.address}, noPassphrase)).to.be.undefined
+  })
+
+  it('holds back the L1 data fee when sweeping the test wallet on L2', async () => {
+    const oracle = new Interface([
+      'function blobScalar() view returns (uint256)',
+      'function commitScalar() view returns (uint256)',
+      'function l1BaseFee() view returns (uint256)',
+      'function l1BlobBaseFee() view returns (uint256)',
+    ])
+    const l2 = sinon.createStubInstance(JsonRpcProvider)
+    l2.getBalance.resolves(1_000_000n)
+    l2.getFeeData.resolves(new FeeData(null, 10n, 0n))
+    // L1 data fee: (1e9 * 10_000 + 0) / 1e9 = 10_000, plus a fifth
+    l2.call.callsFake(async ({data}: TransactionRequest) => {
+      const {name} = oracle.parseTransaction({data: data!})!
+      return oracle.encodeFunctionResult(name, [name === 'commitScalar' ? 1_000_000_000n : name === 'l1BaseFee' ? 10_000n : 0n])
+    })
+
+    const wallet = new Wallet(Wallet.createRandom().privateKey, l2 as unknown as JsonRpcProvider)
+    const send = sinon.stub(wallet, 'sendTransaction').resolves()
+    await sweepBalance(wallet, RECIPIENT, L1_GAS_PRICE_ORACLE_ADDR)
+    expect(send.firstCall.args[0].value).to.equal(1_000_000n - 21_000n * 10n - 12_000n)
+
+    await sweepBalance(wallet, RECIPIENT)
+    expect(send.secondCall.args[0].value).to.equal(1_000_000n - 21_000n * 10n)
+  })
+})
+
+describe('resolveE2ESettings', () => {
+  it('prefers flags over config.toml over the defaults', () => {
+    const settings = resolveE2ESettings(
+      {ERC20_DEPOSIT_GAS_LIMIT: 500_000, ETH_DEPOSIT_AMOUNT: '0.05', FUNDING_AMOUNT: ''},
+      {'eth-deposit-amount': '0.1'},
+    )
+
+    expect(settings.ethDepositAmount).to.equal(100_000_000_000_000_000n)
+    expect(settings.erc20DepositGasLimit).to.equal(500_000n)
+    expect(settings.fundingAmount).to.equal(20_000_000_000_000_000n)
+    expect(settings.messageFee).to.be.undefined
+  })
+
+  it('names the source of invalid values', () => {
+    expect(() => resolveE2ESettings({NFT_DEPOSIT_GAS_LIMIT: '1.5'})).to.throw(
+      E2ESettingsError,
+      '[test] NFT_DEPOSIT_GAS_LIMIT must be a whole number of gas',
+    )
+    expect(() => resolveE2ESettings({}, {'message-fee': '-1'})).to.throw(E2ESettingsError, '--message-fee')
+  })
+})
@@ -0,0 +1,82 @@
+import {expect} from 'chai'
+import sinon from 'sinon'
+
+import {
+  GasTokenError,
+  ethToGasToken,
+  fetchBinancePrice,
+  formatL1GasToken,
+  formatL2Native,
+  l1DataFee,
+  l1FeeParamsAtRate,
+  loadGasToken,
+  parseExchangeRate,
+  resolveExchangeRate,
+  toL1GasTokenAmount,
+} from '../../src/utils/gas-token.js'
+
+const USDC = {address: '0x0000000000000000000000000000000000000c01', decimals: 6, symbol: 'USDC'}
+
+describe('gas token', () => {
+  afterEach(() => sinon.restore())
+
+  it('is not loaded unless the alternative gas token is enabled', async () => {
+    expect(await loadGasToken({'gas-token': {ALTERNATIVE_GAS_TOKEN_ENABLED: false}}, {})).to.equal(undefined)
+
+    const error = await loadGasToken({'gas-token': {ALTERNATIVE_GAS_TOKEN_ENABLED: true}}, {}).catch((error_) => error_)
+    expect(error).to.be.instanceOf(GasTokenError)
+  })
+
+  it('formats the L2 native token in 18 decimals and the L1 token in its own', () => {
+    expect(formatL2Native(1_500_000_000_000_000_000n)).to.equal('1.5 ETH')
+    expect(formatL2Native(1_500_000_000_000_000_000n, USDC)).to.equal('1.5 USDC')
+    expect(formatL1GasToken(1_500_000n, USDC)).to.equal('1.5 USDC')
+  })
+
+  it('scales L2 amounts to the decimals of the token on L1, rounding up', () => {
+    expect(toL1GasTokenAmount(1_500_000_000_000_000_000n, USDC)).to.equal(1_500_000n)
+    expect(toL1GasTokenAmount(1n, USDC)).to.equal(1n)
+    expect(toL1GasTokenAmount(7n, {...USDC, decimals: 18})).to.equal(7n)
+  })
+
+  it('computes the L1 data fee from the scalars and L1 fees', () => {
+    const params = {blobScalar: 2_000_000_000n, commitScalar: 3_000_000_000n, l1BaseFee: 10n, l1BlobBaseFee: 1n}
+    expect(l1DataFee(params, 100)).to.equal(3n * 10n + 2n * 100n * 1n)
+  })
+
+  it('converts L1 fees in ETH to the gas token at the exchange rate, rounding up', () => {
+    const rate = parseExchangeRate('0.0004')
+    expect(ethToGasToken(4n, rate)).to.equal(10_000n)
+    expect(ethToGasToken(5n, rate)).to.equal(12_500n)
+    expect(ethToGasToken(1n, parseExchangeRate('3'))).to.equal(1n)
+
+    const params = l1FeeParamsAtRate({baseFee: 8n, blobBaseFee: 1n}, {blobScalar: 1n, commitScalar: 1n}, rate)
+    expect(params).to.deep.equal({blobScalar: 1n, commitScalar: 1n, l1BaseFee: 20_000n, l1BlobBaseFee: 2500n})
+  })
+
+  it('resolves the rate from the [gas-token] settings', async () => {
+    expect(await resolveExchangeRate({})).to.equal(10n ** 18n)
+
+    const fixed = {
+      EXCHANGE_RATE_UPDATE_MODE: 'Fixed',
+      FIXED_EXCHANGE_RATE: '0.5',
+      GAS_ORACLE_INCORPORATE_TOKEN_EXCHANGE_RATE_ENANBLED: true,
+    }
+    expect(await resolveExchangeRate(fixed)).to.equal(5n * 10n ** 17n)
+
+    for (const settings of [{...fixed, FIXED_EXCHANGE_RATE: '-1'}, {...fixed, EXCHANGE_RATE_UPDATE_MODE: 'Oracle'}]) {
+      // eslint-disable-next-line no-await-in-loop
+      const error = await resolveExchangeRate(settings).catch((error_) => error_)
+      expect(error).to.be.instanceOf(GasTokenError)
+    }
+  })
+
+  it('gives up on Binance when it does not answer in time', async () => {
+    const fetch = sinon.stub(globalThis, 'fetch').rejects(new DOMException('The operation timed out', 'TimeoutError'))
+
+    const error = await fetchBinancePrice('UNIETH').catch((error_) => error_)
+    expect(fetch.firstCall.args[1]?.signal).to.be.instanceOf(AbortSignal)
+    expect(error).to.be.instanceOf(GasTokenError)
+    expect(error.message).to.equal('Binance did not answer within 10s; is api.binance.com reachable?')
+  })
+})
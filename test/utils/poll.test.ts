@@ -0,0 +1,56 @@
+import {expect} from 'chai'
+
+import {PollAbortedError, PollProgress, PollTimeoutError, formatDuration, poll} from '../../src/utils/poll.js'
+
+describe('poll', () => {
+  it('retries with backoff until the check returns a value', async () => {
+    const progress: PollProgress[] = []
+    const result = await poll(async (attempt) => (attempt === 4 ? 'done' : undefined), {
+      backoff: 2,
+      interval: 1,
+      maxInterval: 3,
+      onProgress: (update) => progress.push(update),
+      what: 'the test',
+    })
+
+    expect(result).to.equal('done')
+    expect(progress.map(({attempt, delay}) => [attempt, delay])).to.deep.equal([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ])
+  })
+
+  it('checks once more at the timeout, then fails with a PollTimeoutError', async () => {
+    let attempts = 0
+    const error = await poll(
+      async () => {
+        attempts++
+      },
+      {interval: 30, timeout: 50, what: 'the token balance'},
+    ).catch((error_) => error_)
+
+    expect(error).to.be.instanceOf(PollTimeoutError)
+    expect(error.message).to.equal('Timed out after 0s waiting for the token balance')
+    expect(attempts).to.equal(3)
+  })
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController()
+    const pending = poll(async () => {}, {interval: 60_000, signal: controller.signal, what: 'the withdrawal'})
+    controller.abort()
+
+    const error = await pending.catch((error_) => error_)
+    expect(error).to.be.instanceOf(PollAbortedError)
+    expect(error.message).to.equal('Stopped waiting for the withdrawal')
+  })
+
+  it('formats durations in their largest units', () => {
+    expect([45_000, 600_000, 5_400_000, 10_800_000].map((ms) => formatDuration(ms))).to.deep.equal([
+      '45s',
+      '10m',
+      '1h 30m',
+      '3h',
+    ])
+  })
+})
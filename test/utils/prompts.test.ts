@@ -0,0 +1,97 @@
+import {expect} from 'chai'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import {InvalidAnswerError, MissingAnswerError, Prompter, loadAnswers} from '../../src/utils/prompts.js'
+
+const validate = (value: string) => value.startsWith('0x') || 'Invalid Ethereum address'
+
+describe('Prompter', () => {
+  it('reads nested, flat and mixed answer keys', async () => {
+    const answers = {
+      'db-init': {ROLLUP: {password: 'secret'}, 'confirm-clean': true},
+      'db-init.create-blockscout': 'false',
+      'prep-charts': {'rollup-relayer-production.yaml': {'apply-changes': true}},
+    }
+    const prompter = new Prompter('db-init', answers, true)
+
+    expect(await prompter.confirm('confirm-clean', {message: 'Clean?'})).to.be.true
+    expect(await prompter.confirm('create-blockscout', {message: 'Blockscout?'})).to.be.false
+    expect(await prompter.scoped('ROLLUP').password('password', {message: 'Password:'})).to.equal('secret')
+
+    const charts = new Prompter('prep-charts', answers, true)
+    expect(await charts.scoped('rollup-relayer-production.yaml').confirm('apply-changes', {message: 'Apply?'})).to.be
+      .true
+  })
+
+  it('falls back to defaults and fails with the key when there is none', async () => {
+    const prompter = new Prompter('domains', {}, true)
+
+    expect(await prompter.input('shared-url-ending', {default: 'scrollsdk', message: 'URL ending:'})).to.equal(
+      'scrollsdk',
+    )
+
+    const error = await prompter.confirm('confirm-update', {message: 'Update config.toml?'}).catch((error_) => error_)
+    expect(error).to.be.instanceOf(MissingAnswerError)
+    expect(error.key).to.equal('domains.confirm-update')
+    expect(error.message).to.contain('domains.confirm-update')
+  })
+
+  it('validates answers from the file', async () => {
+    const prompter = new Prompter('configs', {configs: {L1_FEE_VAULT_ADDR: 'not-an-address'}}, true)
+
+    const error = await prompter
+      .input('L1_FEE_VAULT_ADDR', {message: 'Enter the L1_FEE_VAULT_ADDR:', validate})
+      .catch((error_) => error_)
+    expect(error).to.be.instanceOf(InvalidAnswerError)
+    expect(error.message).to.equal('Invalid answer for "configs.L1_FEE_VAULT_ADDR": Invalid Ethereum address')
+  })
+
+  it('only accepts enabled choices for selects', async () => {
+    const prompter = new Prompter('domains', {domains: {'l1-network': 'holesky', protocol: 'https'}}, true)
+    const choices = [
+      {name: 'Sepolia', value: 'sepolia'},
+      {disabled: true, name: 'Holesky', value: 'holesky'},
+    ]
+
+    const error = await prompter.select('l1-network', {choices, message: 'L1 network?'}).catch((error_) => error_)
+    expect(error).to.be.instanceOf(InvalidAnswerError)
+    expect(
+      await prompter.select('protocol', {
+        choices: [
+          {name: 'HTTP', value: 'http'},
+          {name: 'HTTPS', value: 'https'},
+        ],
+        message: 'Protocol?',
+      }),
+    ).to.equal('https')
+  })
+
+  it('knows which prompts are answered without asking', () => {
+    expect(new Prompter('gas-token', {'gas-token.L1_GAS_TOKEN': '0x1'}).isInteractive('L1_GAS_TOKEN')).to.be.false
+    expect(new Prompter('gas-token', {}).isInteractive('L1_GAS_TOKEN')).to.be.true
+    expect(new Prompter('gas-token', {}, true).isInteractive('L1_GAS_TOKEN')).to.be.false
+  })
+})
+
+describe('loadAnswers', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-answers-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('loads a YAML mapping and rejects anything else', () => {
+    const answers = path.join(dir, 'answers.yaml')
+    fs.writeFileSync(answers, 'domains:\n  protocol: https\n')
+    expect(loadAnswers(answers)).to.deep.equal({domains: {protocol: 'https'}})
+
+    fs.writeFileSync(answers, '- https\n')
+    expect(() => loadAnswers(answers)).to.throw('must contain a mapping')
+  })
+})
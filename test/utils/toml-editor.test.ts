@@ -0,0 +1,135 @@
+import * as iarnaToml from '@iarna/toml'
+import {expect} from 'chai'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import {TomlDocument} from '../../src/utils/toml-editor.js'
+
+const CONFIG = `# Scroll SDK config
+
+[general]
+CHAIN_ID_L1 = 111111 # Anvil
+L1_RPC_ENDPOINT = "http://l1-devnet:8545"
+
+# Accounts used by the rollup services
+[accounts]
+DEPLOYER_ADDR = ""
+OWNER_ADDR = 'owner'
+
+[sequencer]
+L2_GETH_STATIC_PEERS = [
+  "enode://a@l2-sequencer-0:30303",
+]
+
+[sequencer.sequencer-1]
+L2GETH_NODEKEY = "old"
+
+[contracts]
+DEPLOYMENT_SALT = "devnetSalt-1"
+`
+
+describe('TomlDocument', () => {
+  it('round-trips a file unchanged', () => {
+    expect(TomlDocument.parse(CONFIG).toString()).to.equal(CONFIG)
+  })
+
+  it('reads values', () => {
+    const doc = TomlDocument.parse(CONFIG)
+
+    expect(doc.get('general', 'CHAIN_ID_L1')).to.equal(111_111)
+    expect(doc.get('sequencer', 'L2_GETH_STATIC_PEERS')).to.deep.equal(['enode://a@l2-sequencer-0:30303'])
+    expect(doc.get('general', 'MISSING')).to.be.undefined
+    expect(doc.sections()).to.deep.equal(['general', 'accounts', 'sequencer', 'sequencer.sequencer-1', 'contracts'])
+    expect(doc.keys('accounts')).to.deep.equal(['DEPLOYER_ADDR', 'OWNER_ADDR'])
+  })
+
+  it('updates values in place, keeping comments and quoting', () => {
+    const doc = TomlDocument.parse(CONFIG)
+    doc.set('general', 'CHAIN_ID_L1', 1)
+    doc.set('accounts', 'DEPLOYER_ADDR', '0xabc')
+    doc.set('accounts', 'OWNER_ADDR', '0xdef')
+
+    const text = doc.toString()
+    expect(text).to.contain('CHAIN_ID_L1 = 1 # Anvil\n')
+    expect(text).to.contain('DEPLOYER_ADDR = "0xabc"\n')
+    expect(text).to.contain("OWNER_ADDR = '0xdef'\n")
+    expect(text).to.contain('# Accounts used by the rollup services\n[accounts]')
+  })
+
+  it('keeps multi-line arrays one item per line', () => {
+    const doc = TomlDocument.parse(CONFIG)
+    doc.set('sequencer', 'L2_GETH_STATIC_PEERS', ['enode://a@l2-sequencer-0:30303', 'enode://b@l2-sequencer-1:30303'])
+
+    expect(doc.toString()).to.contain(
+      'L2_GETH_STATIC_PEERS = [\n  "enode://a@l2-sequencer-0:30303",\n  "enode://b@l2-sequencer-1:30303",\n]\n',
+    )
+  })
+
+  it('adds keys after the last key of their table', () => {
+    const doc = TomlDocument.parse(CONFIG)
+    doc.set('general', 'L2_RPC_ENDPOINT', 'http://l2-rpc:8545')
+
+    expect(doc.toString()).to.contain(
+      'L1_RPC_ENDPOINT = "http://l1-devnet:8545"\nL2_RPC_ENDPOINT = "http://l2-rpc:8545"\n\n# Accounts',
+    )
+  })
+
+  it('adds new tables next to their siblings or at the end', () => {
+    const doc = TomlDocument.parse(CONFIG)
+    doc.set('sequencer.sequencer-2', 'L2GETH_NODEKEY', 'new')
+    doc.set('db', 'SCROLL_DB_CONNECTION_STRING', 'postgres://localhost/scroll')
+
+    const text = doc.toString()
+    expect(text).to.contain('L2GETH_NODEKEY = "old"\n\n[sequencer.sequencer-2]\nL2GETH_NODEKEY = "new"\n\n[contracts]')
+    expect(
+      text.endsWith(
+        'DEPLOYMENT_SALT = "devnetSalt-1"\n\n[db]\nSCROLL_DB_CONNECTION_STRING = "postgres://localhost/scroll"\n',
+      ),
+    ).to.be.true
+    expect(iarnaToml.parse(text)).to.have.nested.property('sequencer.sequencer-2.L2GETH_NODEKEY', 'new')
+  })
+
+  it('deletes keys and tables', () => {
+    const doc = TomlDocument.parse(CONFIG)
+    expect(doc.delete('accounts', 'OWNER_ADDR')).to.be.true
+    expect(doc.deleteSection('sequencer.sequencer-1')).to.be.true
+    expect(doc.deleteSection('missing')).to.be.false
+
+    const text = doc.toString()
+    expect(text).to.not.contain('OWNER_ADDR')
+    expect(text).to.not.contain('sequencer-1')
+    expect(text).to.contain(']\n\n[contracts]')
+    expect(iarnaToml.parse(text)).to.not.have.nested.property('sequencer.sequencer-1')
+  })
+
+  it('escapes strings that need it', () => {
+    const doc = TomlDocument.parse('')
+    const keystore = '{"address":"f39f","crypto":{"cipher":"aes-128-ctr"}}'
+    doc.set('sequencer', 'L2GETH_KEYSTORE', keystore)
+
+    expect(doc.get('sequencer', 'L2GETH_KEYSTORE')).to.equal(keystore)
+  })
+
+  it('writes top-level keys before the first table', () => {
+    const doc = TomlDocument.parse('[general]\nA = 1\n')
+    doc.set('', 'L1_SCROLL_CHAIN_PROXY_ADDR', '0x1')
+
+    expect(doc.toString()).to.equal('L1_SCROLL_CHAIN_PROXY_ADDR = "0x1"\n\n[general]\nA = 1\n')
+  })
+
+  it('saves back to the file it was loaded from', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scroll-sdk-toml-'))
+    const file = path.join(dir, 'config.toml')
+    try {
+      fs.writeFileSync(file, CONFIG)
+      const doc = TomlDocument.load(file)
+      doc.set('contracts', 'DEPLOYMENT_SALT', 'devnetSalt-2')
+      doc.save()
+
+      expect(fs.readFileSync(file, 'utf8')).to.equal(CONFIG.replace('devnetSalt-1', 'devnetSalt-2'))
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+})
@@ -0,0 +1,39 @@
+import {expect} from 'chai'
+import {ZeroHash, id} from 'ethers'
+
+import {WithdrawTrie, computeMessageHash, verifyWithdrawProof} from '../../src/utils/onchain/index.js'
+
+const sender = '0x0000000000000000000000000000000000000001'
+const target = '0x0000000000000000000000000000000000000002'
+const messageHash = (nonce: number) => computeMessageHash(sender, target, 10n ** 18n, nonce, id(`message ${nonce}`))
+
+describe('WithdrawTrie', () => {
+  it('proves every message against the root after each append', () => {
+    const trie = new WithdrawTrie()
+    expect(trie.root).to.equal(ZeroHash)
+
+    for (let nonce = 0; nonce < 9; nonce++) {
+      const root = trie.append(messageHash(nonce))
+      expect(trie.root).to.equal(root)
+
+      for (let index = 0; index < trie.size; index++) {
+        expect(verifyWithdrawProof(root, messageHash(index), index, trie.proof(index)), `${index} of ${trie.size}`).to
+          .be.true
+      }
+    }
+  })
+
+  it('pads the proof to the height of the trie and rejects other messages', () => {
+    const trie = new WithdrawTrie()
+    for (let nonce = 0; nonce < 5; nonce++) trie.append(messageHash(nonce))
+
+    // Five messages make a trie of height three, the last message sitting next to empty subtrees
+    const proof = trie.proof(4)
+    expect(proof).to.have.length(2 + 3 * 64)
+    expect(proof.slice(2, 66)).to.equal(ZeroHash.slice(2))
+
+    expect(verifyWithdrawProof(trie.root, messageHash(4), 3, proof)).to.be.false
+    expect(verifyWithdrawProof(trie.root, messageHash(3), 4, proof)).to.be.false
+    expect(() => trie.proof(5)).to.throw('Message 5 is not in the withdraw trie (5 messages)')
+  })
+})
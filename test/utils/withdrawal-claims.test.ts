@@ -0,0 +1,136 @@
+import {expect} from 'chai'
+import {Filter, Interface, JsonRpcProvider, Log, TransactionReceipt, TransactionRequest, ZeroHash} from 'ethers'
+import sinon from 'sinon'
+
+import {SentMessageScan, WithdrawTrie, computeMessageHash} from '../../src/utils/onchain/index.js'
+import {WithdrawalClaimError, findWithdrawalClaim, isWithdrawalClaimed} from '../../src/utils/withdrawal-claims.js'
+
+const API = 'http://bridge-history-api'
+const L1_MESSENGER = '0x0000000000000000000000000000000000000b11'
+const L2_MESSENGER = '0x0000000000000000000000000000000000000b12'
+const SCROLL_CHAIN = '0x0000000000000000000000000000000000000c11'
+const SENDER = '0x000000000000000000000000000000000000abcd'
+const L2_TX = `0x${'e2'.repeat(32)}`
+
+const claimInfo = {
+  claimable: true,
+  from: SENDER,
+  message: '0x',
+  nonce: '7',
+  // eslint-disable-next-line camelcase
+  proof: {batch_index: '3', merkle_proof: `0x${'00'.repeat(32)}`},
+  to: SENDER,
+  value: '1000',
+}
+
+function apiResponse(results: object[]) {
+  return new Response(JSON.stringify({data: {results}, errcode: 0}))
+}
+
+function providers() {
+  const l1 = sinon.createStubInstance(JsonRpcProvider)
+  const l2 = sinon.createStubInstance(JsonRpcProvider)
+  l2.getTransactionReceipt.resolves({from: SENDER, hash: L2_TX} as unknown as TransactionReceipt)
+  return {l1Provider: l1 as unknown as JsonRpcProvider, l2Provider: l2 as unknown as JsonRpcProvider}
+}
+
+describe('withdrawal claims', () => {
+  afterEach(() => sinon.restore())
+
+  it('takes the claim from bridge-history-api when it has one', async () => {
+    const fetch = sinon.stub(globalThis, 'fetch').resolves(
+      // eslint-disable-next-line camelcase
+      apiResponse([{claim_info: claimInfo, counterpart_chain_tx: {block_number: 0, hash: ''}, hash: L2_TX}]),
+    )
+
+    const claim = await findWithdrawalClaim(L2_TX, {bridgeApiUrl: API, contracts: {}, ...providers()})
+
+    expect(String(fetch.firstCall.args[0])).to.include(`address=${SENDER}`)
+    expect(claim).to.deep.include({claimInfo, indexed: true, source: 'bridge-history-api'})
+  })
+
+  it('warns and proves from chain data when bridge-history-api fails', async () => {
+    sinon.stub(globalThis, 'fetch').resolves(new Response('', {status: 502}))
+    const warnings: string[] = []
+
+    const error = await findWithdrawalClaim(L2_TX, {bridgeApiUrl: API, contracts: {}, ...providers()}, (warning) =>
+      warnings.push(warning),
+    ).catch((error_) => error_)
+
+    expect(warnings).to.have.length(1)
+    expect(warnings[0]).to.include(`Failed to get withdrawals from ${API}`)
+    expect(error).to.be.instanceOf(WithdrawalClaimError)
+    expect(error.message).to.equal('Missing L2_SCROLL_MESSENGER_PROXY_ADDR in config-contracts.toml')
+  })
+
+  it('proves indexed withdrawals bridge-history-api has no claim for, only reading new L2 blocks each time', async () => {
+    // bridge-history-api has indexed the withdrawal, but lags behind its finalization
+    sinon.stub(globalThis, 'fetch').callsFake(async () =>
+      // eslint-disable-next-line camelcase
+      apiResponse([{claim_info: null, counterpart_chain_tx: {block_number: 0, hash: ''}, hash: L2_TX}]),
+    )
+
+    const messenger = new Interface([
+      'event SentMessage(address indexed sender, address indexed target, uint256 value, uint256 messageNonce, uint256 gasLimit, bytes message)',
+    ])
+    const scrollChain = new Interface([
+      'function lastFinalizedBatchIndex() view returns (uint256)',
+      'function withdrawRoots(uint256 batchIndex) view returns (bytes32)',
+    ])
+    const sentMessage = {address: L2_MESSENGER, blockNumber: 3, ...messenger.encodeEventLog('SentMessage', [SENDER, SENDER, 1000, 0, 0, '0x'])}
+    const trie = new WithdrawTrie()
+    const root = trie.append(computeMessageHash(SENDER, SENDER, 1000, 0, '0x'))
+
+    const {l1Provider, l2Provider} = providers()
+    const l1 = l1Provider as unknown as sinon.SinonStubbedInstance<JsonRpcProvider>
+    const l2 = l2Provider as unknown as sinon.SinonStubbedInstance<JsonRpcProvider>
+    l2.getTransactionReceipt.resolves({from: SENDER, hash: L2_TX, logs: [sentMessage]} as unknown as TransactionReceipt)
+    l2.getLogs.callsFake(async ({fromBlock}: Filter) => (fromBlock === 0 ? [sentMessage as unknown as Log] : []))
+    let withdrawRoot = ZeroHash
+    l1.call.callsFake(async ({data}: TransactionRequest) => {
+      const {name} = scrollChain.parseTransaction({data: data!})!
+      return scrollChain.encodeFunctionResult(name, [name === 'withdrawRoots' ? withdrawRoot : 2])
+    })
+
+    const messageScan: SentMessageScan = {lastBlock: -1, messageHashes: []}
+    const sources = {
+      bridgeApiUrl: API,
+      contracts: {L1_SCROLL_CHAIN_PROXY_ADDR: SCROLL_CHAIN, L2_SCROLL_MESSENGER_PROXY_ADDR: L2_MESSENGER},
+      l1Provider,
+      l2Provider,
+      messageScan,
+    }
+
+    l2.getBlockNumber.resolves(5)
+    expect(await findWithdrawalClaim(L2_TX, sources)).to.deep.include({claimInfo: null, indexed: true})
+    expect(messageScan.lastBlock).to.equal(5)
+
+    l2.getBlockNumber.resolves(8)
+    withdrawRoot = root
+    const claim = await findWithdrawalClaim(L2_TX, sources)
+    expect(claim).to.deep.include({indexed: true, source: 'L2 messages'})
+    // eslint-disable-next-line camelcase
+    expect(claim.claimInfo?.proof).to.deep.equal({batch_index: '2', merkle_proof: trie.proof(0)})
+    expect(l2.getLogs.secondCall.args[0]).to.deep.include({fromBlock: 6, toBlock: 8})
+  })
+
+  it('checks the message hash of the claim on the L1 messenger', async () => {
+    const messenger = new Interface(['function isL2MessageExecuted(bytes32) view returns (bool)'])
+    const l1 = sinon.createStubInstance(JsonRpcProvider)
+    l1.call.callsFake(async ({data, to}: TransactionRequest) => {
+      expect(to).to.equal(L1_MESSENGER)
+      const [messageHash] = messenger.decodeFunctionData('isL2MessageExecuted', String(data))
+      const {from, message, nonce, to: target, value} = claimInfo
+      return messenger.encodeFunctionResult('isL2MessageExecuted', [
+        messageHash === computeMessageHash(from, target, value, nonce, message),
+      ])
+    })
+
+    const claimed = await isWithdrawalClaimed(
+      claimInfo,
+      {L1_SCROLL_MESSENGER_PROXY_ADDR: L1_MESSENGER},
+      l1 as unknown as JsonRpcProvider,
+    )
+    expect(claimed).to.equal(true)
+  })
+})